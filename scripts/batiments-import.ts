@@ -0,0 +1,179 @@
+// scripts/batiments-import.ts
+// --------------------------------------------------
+// Import hors-ligne des emprises de bâtiments dans cadastre_batiments
+//
+// Usage :
+//   deno run --allow-read --allow-env --allow-net scripts/batiments-import.ts \
+//     --departement 64 --source "Cadastre/64" [--format cadastre|bdtopo] [--srid 2154] [--batch-size 500]
+//
+// Sources acceptées (fichier ou dossier parcouru récursivement) :
+//  - cadastre Etalab : cadastre-<code>-batiments.json[.gz] (WGS84)
+//  - BD TOPO : export GeoJSON de la couche BATIMENT (Lambert-93 par défaut,
+//    propriétés HAUTEUR / NOMBRE_D_ETAGES / USAGE_1)
+//
+// Variables d'environnement : SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+//
+// Chaque fichier est réimporté à l'identique : ses bâtiments précédents
+// (même source + même nom de fichier) sont supprimés avant chargement.
+// --------------------------------------------------
+
+import { parse } from "https://deno.land/std@0.177.0/flags/mod.ts";
+import { walk } from "https://deno.land/std@0.177.0/fs/walk.ts";
+import { basename } from "https://deno.land/std@0.177.0/path/mod.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const DEFAULT_BATCH_SIZE = 500;
+
+type BatimentsFormat = "cadastre" | "bdtopo";
+
+const CADASTRE_FILE_REGEX = /cadastre-[0-9AB]{2,5}-batiments\.json(\.gz)?$/i;
+const BDTOPO_FILE_REGEX = /batiment.*\.(geo)?json(\.gz)?$/i;
+
+// SRID par défaut des fichiers source
+const DEFAULT_SRID: Record<BatimentsFormat, number> = {
+  cadastre: 4326,
+  bdtopo: 2154,
+};
+
+// --------------------------------------------------
+// Lecture des fichiers
+// --------------------------------------------------
+
+async function readFeatureCollection(path: string): Promise<any[]> {
+  const file = await Deno.open(path, { read: true });
+  const stream = path.toLowerCase().endsWith(".gz")
+    ? file.readable.pipeThrough(new DecompressionStream("gzip"))
+    : file.readable;
+
+  const text = await new Response(stream).text();
+  const geojson = JSON.parse(text);
+
+  if (geojson?.type !== "FeatureCollection" || !Array.isArray(geojson.features)) {
+    throw new Error(`Fichier non FeatureCollection : ${path}`);
+  }
+
+  return geojson.features;
+}
+
+function detectFormat(path: string): BatimentsFormat | null {
+  const name = basename(path);
+  if (CADASTRE_FILE_REGEX.test(name)) return "cadastre";
+  if (BDTOPO_FILE_REGEX.test(name)) return "bdtopo";
+  return null;
+}
+
+async function discoverFiles(
+  source: string,
+  forced: BatimentsFormat | null,
+): Promise<{ path: string; format: BatimentsFormat }[]> {
+  const stat = await Deno.stat(source);
+  const paths: string[] = [];
+
+  if (stat.isFile) {
+    paths.push(source);
+  } else {
+    for await (const entry of walk(source, { includeDirs: false })) {
+      paths.push(entry.path);
+    }
+  }
+
+  return paths
+    .map((path) => ({ path, format: detectFormat(path) }))
+    .filter((f) => f.format !== null && (!forced || f.format === forced))
+    .map((f) => ({ path: f.path, format: f.format! }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// --------------------------------------------------
+// Import
+// --------------------------------------------------
+
+async function main() {
+  const args = parse(Deno.args, {
+    string: ["departement", "source", "format", "srid", "batch-size"],
+  });
+
+  const departement = String(args.departement ?? "").toUpperCase();
+  const source = args.source ? String(args.source) : "";
+  const forced = args.format === "cadastre" || args.format === "bdtopo"
+    ? args.format as BatimentsFormat
+    : null;
+  const batchSize = Number(args["batch-size"] ?? DEFAULT_BATCH_SIZE) ||
+    DEFAULT_BATCH_SIZE;
+
+  if (!departement || !source) {
+    console.error(
+      "Usage: deno run --allow-read --allow-env --allow-net scripts/batiments-import.ts --departement <dep> --source <fichier|dossier> [--format cadastre|bdtopo] [--srid 2154] [--batch-size 500]",
+    );
+    Deno.exit(1);
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    console.error("SUPABASE_URL et SUPABASE_SERVICE_ROLE_KEY sont requis.");
+    Deno.exit(1);
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false },
+  });
+
+  const files = await discoverFiles(source, forced);
+  if (files.length === 0) {
+    console.error("❌ Aucun fichier bâtiments trouvé dans", source);
+    Deno.exit(1);
+  }
+
+  console.log(`🔍 ${files.length} fichier(s) bâtiments à importer`);
+
+  let total = 0;
+  const failed: string[] = [];
+
+  for (const [index, file] of files.entries()) {
+    const name = basename(file.path);
+    const srid = Number(args.srid ?? DEFAULT_SRID[file.format]);
+    const progress = `[${index + 1}/${files.length}] ${name} (${file.format}, EPSG:${srid})`;
+
+    try {
+      const { error: deleteError } = await supabase
+        .from("cadastre_batiments")
+        .delete()
+        .eq("source", file.format)
+        .eq("source_file", name);
+      if (deleteError) throw new Error(`delete: ${deleteError.message}`);
+
+      const features = await readFeatureCollection(file.path);
+
+      let imported = 0;
+      for (let i = 0; i < features.length; i += batchSize) {
+        const { data, error } = await supabase.rpc("batiments_import_batch", {
+          p_source: file.format,
+          p_source_file: name,
+          p_departement: departement,
+          p_srid: srid,
+          p_features: features.slice(i, i + batchSize),
+        });
+        if (error) throw new Error(`import_batch: ${error.message}`);
+        imported += Number(data ?? 0);
+      }
+
+      total += imported;
+      console.log(`✅ ${progress} : ${imported}/${features.length} bâtiments`);
+    } catch (err) {
+      console.error(`❌ ${progress} :`, err);
+      failed.push(name);
+    }
+  }
+
+  console.log("--------------------------------------------------");
+  console.log(`🏁 ${total} bâtiments importés`);
+  if (failed.length) {
+    console.log("Fichiers en échec (relancer pour réimporter) :", failed.join(", "));
+  }
+}
+
+if (import.meta.main) {
+  await main();
+}
@@ -0,0 +1,138 @@
+// scripts/bt01-import.ts
+// --------------------------------------------------
+// Import de l'indice BT01 (INSEE, tous corps d'état, base 100 en 2010) dans indice_bt01
+//
+// Usage :
+//   deno run --allow-read --allow-env --allow-net scripts/bt01-import.ts \
+//     [--file valeurs_mensuelles.csv] [--idbank 001710986] [--depuis 2010-01]
+//
+// Sources acceptées :
+//  - par défaut : série BDM de l'INSEE au format SDMX (bdm.insee.fr, sans clé d'API)
+//  - --file : CSV « Télécharger » de la page de la série sur insee.fr
+//    (séparateur point-virgule, lignes "AAAA-MM";"valeur";"code")
+//
+// Variables d'environnement : SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+//
+// Idempotent : chaque mois publié est inséré ou mis à jour (révisions INSEE).
+// --------------------------------------------------
+
+import { parse } from "https://deno.land/std@0.177.0/flags/mod.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+// Identifiant BDM de la série BT01 (base 2010)
+const DEFAULT_IDBANK = "001710986";
+
+const SDMX_URL = "https://bdm.insee.fr/series/sdmx/data/SERIES_BDM";
+
+const BATCH_SIZE = 500;
+
+type PointBt01 = { mois: string; valeur: number };
+
+// --------------------------------------------------
+// Lecture de la série
+// --------------------------------------------------
+
+function toPoint(periode: string, valeur: string): PointBt01 | null {
+  const m = periode.trim().match(/^(\d{4})-(\d{2})$/);
+  const v = Number(valeur.trim().replace(",", "."));
+  if (!m || !Number.isFinite(v) || v <= 0) return null;
+  return { mois: `${m[1]}-${m[2]}-01`, valeur: v };
+}
+
+// SDMX : <Obs TIME_PERIOD="2024-06" OBS_VALUE="131.2" … />
+function parseSdmx(xml: string): PointBt01[] {
+  const points: PointBt01[] = [];
+  for (const obs of xml.matchAll(/<Obs\b[^>]*\/?>/g)) {
+    const periode = obs[0].match(/TIME_PERIOD="([^"]+)"/)?.[1];
+    const valeur = obs[0].match(/OBS_VALUE="([^"]+)"/)?.[1];
+    if (!periode || !valeur) continue;
+    const point = toPoint(periode, valeur);
+    if (point) points.push(point);
+  }
+  return points;
+}
+
+// CSV insee.fr : en-têtes (Libellé, idBank…) puis "AAAA-MM";"valeur";"code"
+function parseCsvInsee(text: string): PointBt01[] {
+  const points: PointBt01[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const [periode, valeur] = line.split(";").map((f) => f.replace(/^"|"$/g, ""));
+    if (!periode || !valeur) continue;
+    const point = toPoint(periode, valeur);
+    if (point) points.push(point);
+  }
+  return points;
+}
+
+async function fetchSdmx(idbank: string): Promise<PointBt01[]> {
+  const url = `${SDMX_URL}/${idbank}`;
+  console.log("🌍 Série INSEE :", url);
+
+  const res = await fetch(url, { headers: { Accept: "application/xml" } });
+  if (!res.ok) {
+    throw new Error(`INSEE HTTP ${res.status} : ${await res.text()}`);
+  }
+  return parseSdmx(await res.text());
+}
+
+// --------------------------------------------------
+// Import
+// --------------------------------------------------
+
+async function main() {
+  const args = parse(Deno.args, {
+    string: ["file", "idbank", "depuis"],
+  });
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    console.error("SUPABASE_URL et SUPABASE_SERVICE_ROLE_KEY sont requis.");
+    Deno.exit(1);
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false },
+  });
+
+  const source = args.file ? "insee_csv" : "insee";
+  const points = args.file
+    ? parseCsvInsee(await Deno.readTextFile(String(args.file)))
+    : await fetchSdmx(args.idbank ? String(args.idbank) : DEFAULT_IDBANK);
+
+  const depuis = args.depuis ? `${String(args.depuis).slice(0, 7)}-01` : null;
+  const rows = points
+    .filter((p) => !depuis || p.mois >= depuis)
+    .sort((a, b) => a.mois.localeCompare(b.mois))
+    .map((p) => ({ ...p, source, imported_at: new Date().toISOString() }));
+
+  if (rows.length === 0) {
+    console.error("❌ Aucune valeur BT01 lue (format de la source ?)");
+    Deno.exit(1);
+  }
+
+  console.log(
+    `🔍 ${rows.length} mois BT01 (${rows[0].mois.slice(0, 7)} → ${rows[rows.length - 1].mois.slice(0, 7)})`,
+  );
+
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const { error } = await supabase
+      .from("indice_bt01")
+      .upsert(rows.slice(i, i + BATCH_SIZE), { onConflict: "mois" });
+    if (error) {
+      console.error("❌ upsert indice_bt01 :", error.message);
+      Deno.exit(1);
+    }
+  }
+
+  const dernier = rows[rows.length - 1];
+  console.log("--------------------------------------------------");
+  console.log(
+    `🏁 ${rows.length} mois importés, dernier indice ${dernier.mois.slice(0, 7)} : ${dernier.valeur}`,
+  );
+}
+
+if (import.meta.main) {
+  await main();
+}
@@ -0,0 +1,350 @@
+// scripts/cadastre-import.ts
+// --------------------------------------------------
+// Import hors-ligne des parcelles Etalab d'un département dans cadastre_parcelles
+//
+// Usage :
+//   deno run --allow-read --allow-env --allow-net scripts/cadastre-import.ts \
+//     --departement 64 --source "Cadastre/64" [--batch-size 500] [--resume <import_id>] [--restart]
+//
+// --source : fichier département (cadastre-64-parcelles.json[.gz]) ou dossier
+//            contenant les fichiers commune (cadastre-64024-parcelles.json[.gz])
+//
+// Variables d'environnement : SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+//
+// Fonctionnement :
+//  - un import = une ligne cadastre_imports, une ligne cadastre_import_communes par commune
+//  - chaque commune est chargée par lots dans cadastre_parcelles_staging puis basculée
+//    d'un bloc (RPC cadastre_import_finalize_commune) : diff added / removed / resized
+//    avec l'import précédent, upsert géométrie + geom_4326 (index GiST)
+//  - reprise : sans --restart, le dernier import "running" / "partial" du même
+//    département et de la même source est repris ; les communes "done" sont sautées
+// --------------------------------------------------
+
+import { parse } from "https://deno.land/std@0.177.0/flags/mod.ts";
+import { walk } from "https://deno.land/std@0.177.0/fs/walk.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const DEFAULT_BATCH_SIZE = 500;
+
+// Fichier Etalab : cadastre-<code>-parcelles.json(.gz), code = département ou commune
+const ETALAB_FILE_REGEX = /cadastre-([0-9]{2,3}|2A|2B|[0-9AB]{5})-parcelles\.json(\.gz)?$/i;
+
+type CommuneSource = {
+  code_commune: string;
+  // Fichier commune (chargé à la demande) ou features déjà extraites du fichier département
+  path?: string;
+  features?: any[];
+};
+
+// --------------------------------------------------
+// Lecture des fichiers Etalab
+// --------------------------------------------------
+
+async function readFeatureCollection(path: string): Promise<any[]> {
+  const file = await Deno.open(path, { read: true });
+  const stream = path.toLowerCase().endsWith(".gz")
+    ? file.readable.pipeThrough(new DecompressionStream("gzip"))
+    : file.readable;
+
+  const text = await new Response(stream).text();
+  const geojson = JSON.parse(text);
+
+  if (geojson?.type !== "FeatureCollection" || !Array.isArray(geojson.features)) {
+    throw new Error(`Fichier non FeatureCollection : ${path}`);
+  }
+
+  return geojson.features;
+}
+
+function communeOf(feature: any): string | null {
+  const id = feature?.properties?.id;
+  return typeof id === "string" && id.length >= 5 ? id.slice(0, 5) : null;
+}
+
+function groupByCommune(features: any[]): Map<string, any[]> {
+  const groups = new Map<string, any[]>();
+  for (const f of features) {
+    const code = communeOf(f);
+    if (!code) continue;
+    if (!groups.has(code)) groups.set(code, []);
+    groups.get(code)!.push(f);
+  }
+  return groups;
+}
+
+/**
+ * Liste les communes à importer depuis un fichier département ou un dossier.
+ */
+async function discoverSources(
+  source: string,
+  departement: string,
+): Promise<CommuneSource[]> {
+  const stat = await Deno.stat(source);
+
+  if (stat.isFile) {
+    console.log("📦 Lecture du fichier département :", source);
+    const groups = groupByCommune(await readFeatureCollection(source));
+    return Array.from(groups.entries()).map(([code_commune, features]) => ({
+      code_commune,
+      features,
+    }));
+  }
+
+  const communes = new Map<string, CommuneSource>();
+  let departementFile: string | null = null;
+
+  for await (const entry of walk(source, { includeDirs: false })) {
+    const m = entry.name.match(ETALAB_FILE_REGEX);
+    if (!m) continue;
+
+    const code = m[1].toUpperCase();
+    if (code.length === 5) {
+      if (code.startsWith(departement)) {
+        communes.set(code, { code_commune: code, path: entry.path });
+      }
+    } else if (code === departement) {
+      departementFile = entry.path;
+    }
+  }
+
+  if (communes.size > 0) return Array.from(communes.values());
+
+  if (departementFile) return discoverSources(departementFile, departement);
+
+  return [];
+}
+
+// --------------------------------------------------
+// Import
+// --------------------------------------------------
+
+async function main() {
+  const args = parse(Deno.args, {
+    string: ["departement", "source", "resume", "batch-size", "label"],
+    boolean: ["restart"],
+  });
+
+  const departement = String(args.departement ?? "").toUpperCase();
+  const source = args.source ? String(args.source) : "";
+  const batchSize = Number(args["batch-size"] ?? DEFAULT_BATCH_SIZE) ||
+    DEFAULT_BATCH_SIZE;
+
+  if (!departement || !source) {
+    console.error(
+      "Usage: deno run --allow-read --allow-env --allow-net scripts/cadastre-import.ts --departement <dep> --source <fichier|dossier> [--batch-size 500] [--resume <import_id>] [--restart]",
+    );
+    Deno.exit(1);
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    console.error("SUPABASE_URL et SUPABASE_SERVICE_ROLE_KEY sont requis.");
+    Deno.exit(1);
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false },
+  });
+
+  // 1) Sources
+  const sources = await discoverSources(source, departement);
+  if (sources.length === 0) {
+    console.error("❌ Aucun fichier Etalab trouvé pour le département", departement, "dans", source);
+    Deno.exit(1);
+  }
+  sources.sort((a, b) => a.code_commune.localeCompare(b.code_commune));
+  console.log(`🔍 ${sources.length} communes trouvées pour le département ${departement}`);
+
+  // 2) Import : reprise ou création
+  let importId: number | null = args.resume ? Number(args.resume) : null;
+
+  if (!importId && !args.restart) {
+    const { data } = await supabase
+      .from("cadastre_imports")
+      .select("id")
+      .eq("departement", departement)
+      .eq("source_path", source)
+      .in("status", ["running", "partial"])
+      .order("id", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    importId = data?.id ?? null;
+  }
+
+  if (importId) {
+    console.log("♻️ Reprise de l'import", importId);
+    await supabase
+      .from("cadastre_imports")
+      .update({ status: "running", finished_at: null })
+      .eq("id", importId);
+  } else {
+    const { data: previous } = await supabase
+      .from("cadastre_imports")
+      .select("id")
+      .eq("departement", departement)
+      .in("status", ["completed", "partial"])
+      .order("id", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data, error } = await supabase
+      .from("cadastre_imports")
+      .insert({
+        departement,
+        source_path: source,
+        source_label: args.label ?? null,
+        previous_import_id: previous?.id ?? null,
+      })
+      .select("id")
+      .single();
+
+    if (error || !data) {
+      console.error("❌ Création de l'import impossible :", error);
+      Deno.exit(1);
+    }
+
+    importId = data.id as number;
+    console.log("🆕 Import créé :", importId, "(précédent :", previous?.id ?? "aucun", ")");
+  }
+
+  // 3) Avancement par commune (les lignes existantes sont conservées)
+  const { error: communesError } = await supabase
+    .from("cadastre_import_communes")
+    .upsert(
+      sources.map((s) => ({ import_id: importId, code_commune: s.code_commune })),
+      { onConflict: "import_id,code_commune", ignoreDuplicates: true },
+    );
+
+  if (communesError) {
+    console.error("❌ Initialisation de l'avancement impossible :", communesError);
+    Deno.exit(1);
+  }
+
+  const { data: doneRows } = await supabase
+    .from("cadastre_import_communes")
+    .select("code_commune")
+    .eq("import_id", importId)
+    .eq("status", "done");
+  const done = new Set((doneRows ?? []).map((r: any) => r.code_commune));
+
+  const totals = { added: 0, removed: 0, resized: 0, unchanged: 0, total: 0 };
+  const failed: string[] = [];
+
+  // 4) Communes une par une
+  for (const [index, commune] of sources.entries()) {
+    const progress = `[${index + 1}/${sources.length}] ${commune.code_commune}`;
+
+    if (done.has(commune.code_commune)) {
+      console.log(`⏭️ ${progress} déjà importée`);
+      continue;
+    }
+
+    try {
+      await supabase
+        .from("cadastre_import_communes")
+        .update({
+          status: "running",
+          staged_count: 0,
+          error: null,
+          started_at: new Date().toISOString(),
+        })
+        .eq("import_id", importId)
+        .eq("code_commune", commune.code_commune);
+
+      // Une commune interrompue est rechargée depuis zéro
+      await supabase
+        .from("cadastre_parcelles_staging")
+        .delete()
+        .eq("import_id", importId)
+        .eq("code_commune", commune.code_commune);
+
+      const features = commune.features ??
+        (await readFeatureCollection(commune.path!)).filter((f) =>
+          communeOf(f) === commune.code_commune
+        );
+
+      let staged = 0;
+      for (let i = 0; i < features.length; i += batchSize) {
+        const batch = features.slice(i, i + batchSize).map((f: any) => ({
+          type: "Feature",
+          properties: f.properties,
+          geometry: f.geometry,
+        }));
+
+        const { data, error } = await supabase.rpc("cadastre_import_stage_batch", {
+          p_import_id: importId,
+          p_code_commune: commune.code_commune,
+          p_features: batch,
+        });
+        if (error) throw new Error(`stage_batch: ${error.message}`);
+
+        staged += Number(data ?? 0);
+        await supabase
+          .from("cadastre_import_communes")
+          .update({ staged_count: staged })
+          .eq("import_id", importId)
+          .eq("code_commune", commune.code_commune);
+      }
+
+      const { data: diff, error: finalizeError } = await supabase.rpc(
+        "cadastre_import_finalize_commune",
+        { p_import_id: importId, p_code_commune: commune.code_commune },
+      );
+      if (finalizeError) throw new Error(`finalize: ${finalizeError.message}`);
+
+      console.log(
+        `✅ ${progress} : ${diff?.total ?? staged} parcelles (+${diff?.added ?? 0} / -${diff?.removed ?? 0} / ~${diff?.resized ?? 0})`,
+      );
+    } catch (err) {
+      console.error(`❌ ${progress} :`, err);
+      failed.push(commune.code_commune);
+      await supabase
+        .from("cadastre_import_communes")
+        .update({
+          status: "failed",
+          error: err instanceof Error ? err.message : String(err),
+          finished_at: new Date().toISOString(),
+        })
+        .eq("import_id", importId)
+        .eq("code_commune", commune.code_commune);
+    }
+  }
+
+  // 5) Clôture (totaux sur toutes les communes, y compris celles d'un lancement précédent)
+  const { data: communeRows } = await supabase
+    .from("cadastre_import_communes")
+    .select("features_count, added, removed, resized, unchanged")
+    .eq("import_id", importId)
+    .eq("status", "done");
+
+  for (const key of Object.keys(totals) as (keyof typeof totals)[]) {
+    totals[key] = (communeRows ?? []).reduce(
+      (sum: number, r: any) =>
+        sum + Number((key === "total" ? r.features_count : r[key]) ?? 0),
+      0,
+    );
+  }
+
+  const status = failed.length === 0 ? "completed" : "partial";
+  await supabase
+    .from("cadastre_imports")
+    .update({
+      status,
+      stats: { ...totals, communes: sources.length, communes_en_echec: failed },
+      finished_at: new Date().toISOString(),
+    })
+    .eq("id", importId);
+
+  console.log("--------------------------------------------------");
+  console.log(`🏁 Import ${importId} ${status}`);
+  console.log("Parcelles :", totals);
+  if (failed.length) {
+    console.log("Communes en échec (relancer pour reprendre) :", failed.join(", "));
+  }
+}
+
+if (import.meta.main) {
+  await main();
+}
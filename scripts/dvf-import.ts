@@ -0,0 +1,216 @@
+// scripts/dvf-import.ts
+// --------------------------------------------------
+// Import hors-ligne des DVF géolocalisées (Etalab) dans dvf_mutations
+//
+// Usage :
+//   deno run --allow-read --allow-env --allow-net scripts/dvf-import.ts \
+//     --source "DVF/2024/departements" [--batch-size 1000]
+//
+// Sources acceptées (fichier ou dossier parcouru récursivement) :
+//  - <dep>.csv[.gz] ou full.csv[.gz] du jeu « Demandes de valeurs foncières
+//    géolocalisées » (séparateur virgule, colonnes id_mutation … latitude)
+//
+// Variables d'environnement : SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+//
+// Chaque fichier est réimporté à l'identique : ses lignes précédentes
+// (même chemin relatif à --source) sont supprimées avant chargement.
+// --------------------------------------------------
+
+import { parse } from "https://deno.land/std@0.177.0/flags/mod.ts";
+import { walk } from "https://deno.land/std@0.177.0/fs/walk.ts";
+import { relative } from "https://deno.land/std@0.177.0/path/mod.ts";
+import { TextLineStream } from "https://deno.land/std@0.177.0/streams/text_line_stream.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const DEFAULT_BATCH_SIZE = 1000;
+
+const DVF_FILE_REGEX = /\.csv(\.gz)?$/i;
+
+// Colonnes conservées (les autres sont ignorées)
+const COLUMNS = [
+  "id_mutation",
+  "date_mutation",
+  "nature_mutation",
+  "valeur_fonciere",
+  "code_commune",
+  "code_departement",
+  "id_parcelle",
+  "nombre_lots",
+  "type_local",
+  "surface_reelle_bati",
+  "code_nature_culture",
+  "surface_terrain",
+  "longitude",
+  "latitude",
+];
+
+// --------------------------------------------------
+// Lecture des fichiers
+// --------------------------------------------------
+
+// Découpe une ligne CSV (champs éventuellement entre guillemets)
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        current += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      fields.push(current);
+      current = "";
+    } else {
+      current += c;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+async function* readRows(path: string): AsyncGenerator<Record<string, string>> {
+  const file = await Deno.open(path, { read: true });
+  const bytes = path.toLowerCase().endsWith(".gz")
+    ? file.readable.pipeThrough(new DecompressionStream("gzip"))
+    : file.readable;
+  const lines = bytes
+    .pipeThrough(new TextDecoderStream())
+    .pipeThrough(new TextLineStream());
+
+  let header: string[] | null = null;
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    const fields = splitCsvLine(line);
+
+    if (!header) {
+      header = fields.map((f) => f.trim());
+      if (!header.includes("id_mutation") || !header.includes("longitude")) {
+        throw new Error(`En-tête DVF géolocalisées introuvable : ${path}`);
+      }
+      continue;
+    }
+
+    const row: Record<string, string> = {};
+    for (const col of COLUMNS) {
+      const idx = header.indexOf(col);
+      row[col] = idx >= 0 ? (fields[idx] ?? "") : "";
+    }
+    yield row;
+  }
+}
+
+async function discoverFiles(source: string): Promise<string[]> {
+  const stat = await Deno.stat(source);
+  if (stat.isFile) return [source];
+
+  const paths: string[] = [];
+  for await (const entry of walk(source, { includeDirs: false })) {
+    if (DVF_FILE_REGEX.test(entry.path)) paths.push(entry.path);
+  }
+  return paths.sort((a, b) => a.localeCompare(b));
+}
+
+// --------------------------------------------------
+// Import
+// --------------------------------------------------
+
+async function main() {
+  const args = parse(Deno.args, { string: ["source", "batch-size"] });
+
+  const source = args.source ? String(args.source) : "";
+  const batchSize = Number(args["batch-size"] ?? DEFAULT_BATCH_SIZE) ||
+    DEFAULT_BATCH_SIZE;
+
+  if (!source) {
+    console.error(
+      "Usage: deno run --allow-read --allow-env --allow-net scripts/dvf-import.ts --source <fichier|dossier> [--batch-size 1000]",
+    );
+    Deno.exit(1);
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    console.error("SUPABASE_URL et SUPABASE_SERVICE_ROLE_KEY sont requis.");
+    Deno.exit(1);
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false },
+  });
+
+  const files = await discoverFiles(source);
+  if (files.length === 0) {
+    console.error("❌ Aucun fichier DVF trouvé dans", source);
+    Deno.exit(1);
+  }
+
+  console.log(`🔍 ${files.length} fichier(s) DVF à importer`);
+
+  const sourceIsFile = (await Deno.stat(source)).isFile;
+  let total = 0;
+  const failed: string[] = [];
+
+  for (const [index, path] of files.entries()) {
+    // Chemin relatif : 2024/departements/64.csv.gz ≠ 2023/departements/64.csv.gz
+    const name = sourceIsFile ? path : relative(source, path);
+    const progress = `[${index + 1}/${files.length}] ${name}`;
+
+    try {
+      const { error: deleteError } = await supabase
+        .from("dvf_mutations")
+        .delete()
+        .eq("source_file", name);
+      if (deleteError) throw new Error(`delete: ${deleteError.message}`);
+
+      let imported = 0;
+      let read = 0;
+      let batch: Record<string, string>[] = [];
+
+      const flush = async () => {
+        if (!batch.length) return;
+        const { data, error } = await supabase.rpc("dvf_import_batch", {
+          p_source_file: name,
+          p_rows: batch,
+        });
+        if (error) throw new Error(`import_batch: ${error.message}`);
+        imported += Number(data ?? 0);
+        batch = [];
+      };
+
+      for await (const row of readRows(path)) {
+        read++;
+        batch.push(row);
+        if (batch.length >= batchSize) await flush();
+      }
+      await flush();
+
+      total += imported;
+      console.log(`✅ ${progress} : ${imported}/${read} lignes`);
+    } catch (err) {
+      console.error(`❌ ${progress} :`, err);
+      failed.push(name);
+    }
+  }
+
+  console.log("--------------------------------------------------");
+  console.log(`🏁 ${total} lignes DVF importées`);
+  if (failed.length) {
+    console.log("Fichiers en échec (relancer pour réimporter) :", failed.join(", "));
+  }
+}
+
+if (import.meta.main) {
+  await main();
+}
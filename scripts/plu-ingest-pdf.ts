@@ -0,0 +1,172 @@
+// scripts/plu-ingest-pdf.ts
+// --------------------------------------------------
+// Ingestion hors-ligne d'un règlement PLU dans plu_text_chunks
+// (même pipeline que l'Edge Function plu-ingest-from-storage, sans moteur externe)
+//
+// Usage :
+//   deno run --allow-read --allow-write --allow-env --allow-net scripts/plu-ingest-pdf.ts \
+//     --commune 64065 (--file PLU/reglement.pdf | --storage-path 64065/…-PLU.pdf) \
+//     [--source-id plu-64065-reglement] [--patterns motifs.json] [--zone UC] \
+//     [--sans-sous-sections] [--max-chars 8000] [--dry-run] [--out chunks.json]
+//
+// Entrées :
+//  - --file : PDF local, ou .txt (pages séparées par \f, sortie de pdftotext)
+//  - --storage-path : PDF du bucket plu_raw
+//  - --patterns : JSON { zone?: string[], article?: string[], sous_section?: string[] }
+//    (expressions régulières, groupes nommés zone / numero / label)
+//  - --zone : zone des articles sans titre de zone (règlement d'une seule zone)
+//
+// Variables d'environnement : SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+// (inutiles en --dry-run avec --file)
+//
+// Les chunks précédents de la même source (source_id) sont remplacés.
+// --------------------------------------------------
+
+import { parse } from "https://deno.land/std@0.177.0/flags/mod.ts";
+import { basename } from "https://deno.land/std@0.177.0/path/mod.ts";
+import {
+  createClient,
+  type SupabaseClient,
+} from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  extractPdfPages,
+  type PdfPage,
+  pagesFromText,
+  removeRunningHeaders,
+} from "../supabase/functions/_shared/pdf-text.ts";
+import {
+  type ChunkPatterns,
+  chunkPluPages,
+  savePluChunks,
+  summariseChunks,
+} from "../supabase/functions/_shared/plu-chunker.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const USAGE =
+  "Usage: deno run --allow-read --allow-write --allow-env --allow-net scripts/plu-ingest-pdf.ts --commune <insee> (--file <pdf|txt> | --storage-path <chemin plu_raw>) [--source-id …] [--patterns motifs.json] [--zone UC] [--sans-sous-sections] [--max-chars 8000] [--dry-run] [--out chunks.json]";
+
+// --------------------------------------------------
+// Lecture du document
+// --------------------------------------------------
+
+async function readPages(
+  file: string | null,
+  storagePath: string | null,
+  supabase: SupabaseClient | null,
+): Promise<PdfPage[]> {
+  if (file) {
+    if (/\.txt$/i.test(file)) return pagesFromText(await Deno.readTextFile(file));
+    return await extractPdfPages(await Deno.readFile(file));
+  }
+
+  const { data, error } = await supabase!.storage
+    .from("plu_raw")
+    .download(storagePath!);
+  if (error || !data) {
+    throw new Error(`Téléchargement ${storagePath} : ${error?.message ?? "vide"}`);
+  }
+  return await extractPdfPages(new Uint8Array(await data.arrayBuffer()));
+}
+
+// --------------------------------------------------
+// Ingestion
+// --------------------------------------------------
+
+async function main() {
+  const args = parse(Deno.args, {
+    string: [
+      "commune",
+      "file",
+      "storage-path",
+      "source-id",
+      "patterns",
+      "zone",
+      "max-chars",
+      "out",
+    ],
+    boolean: ["dry-run", "sans-sous-sections", "garder-hors-zone"],
+  });
+
+  const commune = args.commune ? String(args.commune) : "";
+  const file = args.file ? String(args.file) : null;
+  const storagePath = args["storage-path"] ? String(args["storage-path"]) : null;
+  const dryRun = !!args["dry-run"];
+
+  if (!commune || (!file && !storagePath)) {
+    console.error(USAGE);
+    Deno.exit(1);
+  }
+
+  const needsDb = !dryRun || !!storagePath;
+  if (needsDb && (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY)) {
+    console.error("SUPABASE_URL et SUPABASE_SERVICE_ROLE_KEY sont requis.");
+    Deno.exit(1);
+  }
+
+  const supabase = needsDb
+    ? createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!, {
+      auth: { persistSession: false },
+    })
+    : null;
+
+  const patterns = args.patterns
+    ? JSON.parse(await Deno.readTextFile(String(args.patterns))) as Partial<ChunkPatterns>
+    : null;
+
+  const nomFichier = basename(file ?? storagePath!).replace(/\.(pdf|txt)$/i, "");
+  const sourceId = args["source-id"]
+    ? String(args["source-id"])
+    : `plu-${commune}-${nomFichier.replace(/[^a-zA-Z0-9_-]+/g, "-")}`;
+
+  console.log("📄 Lecture :", file ?? `plu_raw/${storagePath}`);
+  const pages = removeRunningHeaders(await readPages(file, storagePath, supabase));
+  console.log(`   ${pages.length} pages`);
+
+  const chunks = chunkPluPages(pages, {
+    patterns,
+    decouper_sous_sections: !args["sans-sous-sections"],
+    zone_par_defaut: args.zone ? String(args.zone) : null,
+    garder_hors_zone: !!args["garder-hors-zone"],
+    max_chars: Number(args["max-chars"]) || undefined,
+  });
+
+  for (const z of summariseChunks(chunks)) {
+    console.log(
+      `➡️ Zone ${z.zone_code} : ${z.chunks} chunks, ${z.articles.length} articles, pages ${z.page_debut}–${z.page_fin}`,
+    );
+  }
+  console.log(`✅ ${chunks.length} chunks détectés`);
+
+  if (args.out) {
+    await Deno.writeTextFile(String(args.out), JSON.stringify(chunks, null, 2));
+    console.log("💾 Chunks écrits dans", String(args.out));
+  }
+
+  if (chunks.length === 0) {
+    console.log("⚠️ Aucun chunk détecté, vérifie le format du texte / les motifs.");
+    return;
+  }
+
+  if (dryRun) {
+    console.log("ℹ️ --dry-run : rien n'est écrit dans plu_text_chunks");
+    return;
+  }
+
+  const result = await savePluChunks(supabase!, {
+    source_id: sourceId,
+    commune_insee: commune,
+    storage_path: storagePath,
+    chunks,
+  });
+
+  console.log("--------------------------------------------------");
+  console.log(
+    `🏁 source ${sourceId} : ${result.inserted} chunks insérés (${result.deleted} remplacés)`,
+  );
+}
+
+if (import.meta.main) {
+  await main();
+}
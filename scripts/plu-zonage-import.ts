@@ -0,0 +1,310 @@
+// scripts/plu-zonage-import.ts
+// --------------------------------------------------
+// Import hors-ligne des zonages CNIG (Géoportail de l'urbanisme) dans plu_zonage
+//
+// Usage :
+//   deno run --allow-read --allow-env --allow-net scripts/plu-zonage-import.ts \
+//     --source "GPU/64065_PLU_20170523" [--couche zone_urba|secteur_cc] [--srid 2154] [--batch-size 200]
+//
+// Sources acceptées (fichier ou dossier parcouru récursivement, archives GPU dézippées) :
+//  - *zone_urba*.shp / *secteur_cc*.shp (+ .dbf, .prj, .cpg) — Lambert-93 par défaut
+//    (SRID lu dans le .prj si reconnu)
+//  - *zone_urba*.json / .geojson / *secteur_cc*.json / .geojson — WGS84 par défaut
+//
+// Variables d'environnement : SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+//
+// Chaque fichier est réimporté à l'identique : ses zones précédentes (même couche
+// + même chemin, dossier du document compris) sont supprimées, ainsi que celles
+// des mêmes partitions GPU (DU_<insee>, DU_<siren>) importées depuis un autre
+// fichier (document remplacé).
+// --------------------------------------------------
+
+import { parse } from "https://deno.land/std@0.177.0/flags/mod.ts";
+import { walk } from "https://deno.land/std@0.177.0/fs/walk.ts";
+import {
+  basename,
+  dirname,
+  relative,
+  resolve,
+} from "https://deno.land/std@0.177.0/path/mod.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { read as readShapefile } from "npm:shapefile@0.6.6";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const DEFAULT_BATCH_SIZE = 200;
+
+type Couche = "zone_urba" | "secteur_cc";
+
+const ZONAGE_FILE_REGEX = /(zone_urba|secteur_cc)[^/\\]*\.(shp|geojson|json)$/i;
+
+// SRID par défaut des fichiers source
+const DEFAULT_SRID = { shp: 2154, geojson: 4326 };
+
+// Projections reconnues dans un .prj (nom → EPSG)
+const PRJ_SRIDS: { motif: RegExp; srid: number }[] = [
+  { motif: /Lambert[_ ]93|RGF93.*Lambert|Lambert_Conformal_Conic.*RGF/i, srid: 2154 },
+  { motif: /RGR92.*UTM.*40S|UTM_Zone_40S/i, srid: 2975 },
+  { motif: /RGAF09.*UTM.*20N|UTM_Zone_20N/i, srid: 5490 },
+  { motif: /RGFG95.*UTM.*22N|UTM_Zone_22N/i, srid: 2972 },
+  { motif: /RGM04.*UTM.*38S|UTM_Zone_38S/i, srid: 4471 },
+  { motif: /^GEOGCS\[.*WGS[_ ]?(19)?84/i, srid: 4326 },
+];
+
+type ZoneNormalisee = {
+  idurba: string | null;
+  partition: string | null;
+  insee: string | null;
+  zone_code: string | null;
+  libelong: string | null;
+  typezone: string | null;
+  destdomi: string | null;
+  datappro: string | null;
+  datvalid: string | null;
+  nomfic: string | null;
+  urlfic: string | null;
+  props: Record<string, unknown>;
+  geometry: unknown;
+};
+
+// --------------------------------------------------
+// Lecture des fichiers
+// --------------------------------------------------
+
+async function readTextIfExists(path: string): Promise<string | null> {
+  try {
+    return await Deno.readTextFile(path);
+  } catch {
+    return null;
+  }
+}
+
+async function readFeatures(path: string): Promise<{ features: any[]; prj: string | null }> {
+  if (/\.shp$/i.test(path)) {
+    const base = path.replace(/\.shp$/i, "");
+    const cpg = await readTextIfExists(`${base}.cpg`);
+    const encoding = cpg && /utf-?8/i.test(cpg) ? "utf-8" : "windows-1252";
+
+    const shp = await Deno.readFile(path);
+    const dbf = await Deno.readFile(`${base}.dbf`);
+    const collection = await readShapefile(shp.buffer, dbf.buffer, { encoding });
+
+    return {
+      features: collection.features ?? [],
+      prj: await readTextIfExists(`${base}.prj`),
+    };
+  }
+
+  const geojson = JSON.parse(await Deno.readTextFile(path));
+  if (geojson?.type !== "FeatureCollection" || !Array.isArray(geojson.features)) {
+    throw new Error(`Fichier non FeatureCollection : ${path}`);
+  }
+  return { features: geojson.features, prj: null };
+}
+
+function sridFromPrj(prj: string | null): number | null {
+  if (!prj) return null;
+  return PRJ_SRIDS.find((p) => p.motif.test(prj))?.srid ?? null;
+}
+
+async function discoverFiles(
+  source: string,
+  forced: Couche | null,
+): Promise<{ path: string; couche: Couche }[]> {
+  const stat = await Deno.stat(source);
+  const paths: string[] = [];
+
+  if (stat.isFile) {
+    paths.push(source);
+  } else {
+    for await (const entry of walk(source, { includeDirs: false })) {
+      paths.push(entry.path);
+    }
+  }
+
+  return paths
+    .map((path) => {
+      const m = basename(path).match(ZONAGE_FILE_REGEX);
+      return { path, couche: m ? m[1].toLowerCase() as Couche : null };
+    })
+    .filter((f) => f.couche !== null && (!forced || f.couche === forced))
+    .map((f) => ({ path: f.path, couche: forced ?? f.couche! }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// Clé source_file : chemin depuis le dossier parent de --source (ou dossier
+// du fichier), les exports GPU nommant tous leurs fichiers ZONE_URBA.*
+function sourceFileKey(source: string, path: string, sourceIsFile: boolean): string {
+  const racine = sourceIsFile
+    ? dirname(dirname(resolve(path)))
+    : dirname(resolve(source));
+  return relative(racine, resolve(path)).replaceAll("\\", "/");
+}
+
+// --------------------------------------------------
+// Normalisation des attributs CNIG
+// --------------------------------------------------
+
+function texte(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const s = String(value).trim();
+  return s ? s : null;
+}
+
+// DATAPPRO / DATVALID : AAAAMMJJ, AAAA-MM-JJ ou JJ/MM/AAAA → AAAA-MM-JJ
+function parseDateCnig(value: unknown): string | null {
+  const s = texte(value);
+  if (!s) return null;
+
+  let m = s.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (m) return `${m[1]}-${m[2]}-${m[3]}`;
+  m = s.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (m) return `${m[1]}-${m[2]}-${m[3]}`;
+  m = s.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (m) return `${m[3]}-${m[2]}-${m[1]}`;
+  return null;
+}
+
+/**
+ * Zone au format plu_zonage_import_batch à partir d'une feature CNIG
+ * (attributs en majuscules ou minuscules selon l'export).
+ */
+function normaliseZone(feature: any): ZoneNormalisee {
+  const props: Record<string, unknown> = feature?.properties ?? {};
+  const p: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(props)) p[k.toLowerCase()] = v;
+
+  const idurba = texte(p.idurba);
+  // IDURBA : <insee|siren>_<type>_<AAAAMMJJ>[_<suffixe>]
+  const idurbaParts = idurba?.match(/^([0-9AB]{5}|\d{9})_[A-Z]+_(\d{8})/i) ?? null;
+  const insee = texte(p.insee) ??
+    (idurbaParts && idurbaParts[1].length === 5 ? idurbaParts[1] : null);
+  const partition = texte(p.partition) ??
+    (idurbaParts ? `DU_${idurbaParts[1]}` : insee ? `DU_${insee}` : null);
+
+  return {
+    idurba,
+    partition,
+    insee,
+    zone_code: texte(p.libelle),
+    libelong: texte(p.libelong),
+    typezone: texte(p.typezone) ?? texte(p.typesect),
+    destdomi: texte(p.destdomi),
+    datappro: parseDateCnig(p.datappro) ??
+      (idurbaParts ? parseDateCnig(idurbaParts[2]) : null),
+    datvalid: parseDateCnig(p.datvalid),
+    nomfic: texte(p.nomfic),
+    urlfic: texte(p.urlfic),
+    props,
+    geometry: feature?.geometry ?? null,
+  };
+}
+
+// --------------------------------------------------
+// Import
+// --------------------------------------------------
+
+async function main() {
+  const args = parse(Deno.args, {
+    string: ["source", "couche", "srid", "batch-size"],
+  });
+
+  const source = args.source ? String(args.source) : "";
+  const forced = args.couche === "zone_urba" || args.couche === "secteur_cc"
+    ? args.couche as Couche
+    : null;
+  const batchSize = Number(args["batch-size"] ?? DEFAULT_BATCH_SIZE) ||
+    DEFAULT_BATCH_SIZE;
+
+  if (!source) {
+    console.error(
+      "Usage: deno run --allow-read --allow-env --allow-net scripts/plu-zonage-import.ts --source <fichier|dossier> [--couche zone_urba|secteur_cc] [--srid 2154] [--batch-size 200]",
+    );
+    Deno.exit(1);
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    console.error("SUPABASE_URL et SUPABASE_SERVICE_ROLE_KEY sont requis.");
+    Deno.exit(1);
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false },
+  });
+
+  const sourceIsFile = (await Deno.stat(source)).isFile;
+  const files = await discoverFiles(source, forced);
+  if (files.length === 0) {
+    console.error("❌ Aucun fichier zone_urba / secteur_cc trouvé dans", source);
+    Deno.exit(1);
+  }
+
+  console.log(`🔍 ${files.length} fichier(s) de zonage à importer`);
+
+  let total = 0;
+  const failed: string[] = [];
+
+  for (const [index, file] of files.entries()) {
+    const name = sourceFileKey(source, file.path, sourceIsFile);
+    const format = /\.shp$/i.test(file.path) ? "shp" : "geojson";
+
+    try {
+      const { features, prj } = await readFeatures(file.path);
+      const srid = Number(args.srid ?? sridFromPrj(prj) ?? DEFAULT_SRID[format]);
+      const progress = `[${index + 1}/${files.length}] ${name} (${file.couche}, EPSG:${srid})`;
+
+      const zones = features.map(normaliseZone);
+      const partitions = Array.from(
+        new Set(zones.map((z) => z.partition).filter((p): p is string => !!p)),
+      );
+
+      // Document remplacé : mêmes partitions, autre fichier
+      if (partitions.length > 0) {
+        const { error } = await supabase
+          .from("plu_zonage")
+          .delete()
+          .eq("couche", file.couche)
+          .in("partition", partitions);
+        if (error) throw new Error(`delete partitions: ${error.message}`);
+      }
+
+      const { error: deleteError } = await supabase
+        .from("plu_zonage")
+        .delete()
+        .eq("couche", file.couche)
+        .eq("source_file", name);
+      if (deleteError) throw new Error(`delete: ${deleteError.message}`);
+
+      let imported = 0;
+      for (let i = 0; i < zones.length; i += batchSize) {
+        const { data, error } = await supabase.rpc("plu_zonage_import_batch", {
+          p_couche: file.couche,
+          p_source_file: name,
+          p_srid: srid,
+          p_zones: zones.slice(i, i + batchSize),
+        });
+        if (error) throw new Error(`import_batch: ${error.message}`);
+        imported += Number(data ?? 0);
+      }
+
+      total += imported;
+      console.log(
+        `✅ ${progress} : ${imported}/${zones.length} zones (partitions : ${partitions.join(", ") || "—"})`,
+      );
+    } catch (err) {
+      console.error(`❌ [${index + 1}/${files.length}] ${name} :`, err);
+      failed.push(name);
+    }
+  }
+
+  console.log("--------------------------------------------------");
+  console.log(`🏁 ${total} zones importées`);
+  if (failed.length) {
+    console.log("Fichiers en échec (relancer pour réimporter) :", failed.join(", "));
+  }
+}
+
+if (import.meta.main) {
+  await main();
+}
@@ -0,0 +1,220 @@
+// supabase/functions/_shared/assemblage.ts
+//
+// Assemblage foncier multi-parcelles
+//  - contrôle de contiguïté (graphe de mitoyenneté, composantes connexes)
+//  - fusion en une unité foncière : géométrie unie + surface cumulée
+//  - fusion de rulesets PLU en retenant la règle la plus restrictive
+
+import {
+  distanceToBoundaryM,
+  geodesicAreaM2,
+  type PolygonGeometry,
+  polygonsOf,
+  type Position,
+  unionGeometries,
+} from "./geo.ts";
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+export type AssemblageParcel = {
+  parcel_id: string;
+  surface_m2: number | null;
+  geometry: any | null;
+};
+
+export type StrategieMultizone = "plus_restrictive" | "par_zone";
+
+export type AssemblageResult = {
+  parcel_ids: string[];
+  // null si au moins une géométrie manque (contiguïté non vérifiable)
+  contigu: boolean | null;
+  composantes: string[][];
+  parcelles_sans_geometrie: string[];
+  geometry: PolygonGeometry | null;
+  surface_m2: number | null;
+  surface_geometrie_m2: number | null;
+};
+
+// Deux parcelles sont mitoyennes si leurs contours se touchent à cette distance près (m)
+const DEFAULT_ADJACENCY_TOLERANCE_M = 0.5;
+
+// -------------------------------------------------
+// Contiguïté
+// -------------------------------------------------
+
+function exteriorVertices(geometry: any): Position[] {
+  return polygonsOf(geometry).flatMap((poly) => poly[0] ?? []);
+}
+
+/**
+ * Vrai si les contours de a et b se touchent (à toleranceM près) :
+ * un sommet de l'une est sur le contour de l'autre.
+ */
+export function areAdjacent(
+  a: any,
+  b: any,
+  toleranceM = DEFAULT_ADJACENCY_TOLERANCE_M,
+): boolean {
+  return (
+    exteriorVertices(a).some((v) => distanceToBoundaryM(v, b) <= toleranceM) ||
+    exteriorVertices(b).some((v) => distanceToBoundaryM(v, a) <= toleranceM)
+  );
+}
+
+/**
+ * Composantes connexes du graphe de mitoyenneté (parcelles avec géométrie).
+ */
+export function adjacencyComponents(
+  parcels: AssemblageParcel[],
+  toleranceM = DEFAULT_ADJACENCY_TOLERANCE_M,
+): string[][] {
+  const withGeom = parcels.filter((p) => p.geometry);
+  const visited = new Set<number>();
+  const components: string[][] = [];
+
+  for (let start = 0; start < withGeom.length; start++) {
+    if (visited.has(start)) continue;
+
+    const component: string[] = [];
+    const stack = [start];
+    visited.add(start);
+
+    while (stack.length) {
+      const i = stack.pop()!;
+      component.push(withGeom[i].parcel_id);
+
+      for (let j = 0; j < withGeom.length; j++) {
+        if (visited.has(j)) continue;
+        if (areAdjacent(withGeom[i].geometry, withGeom[j].geometry, toleranceM)) {
+          visited.add(j);
+          stack.push(j);
+        }
+      }
+    }
+
+    components.push(component);
+  }
+
+  return components;
+}
+
+// -------------------------------------------------
+// Unité foncière
+// -------------------------------------------------
+
+/**
+ * Fusionne plusieurs parcelles en une unité foncière.
+ * La surface retenue est la somme des contenances ; l'aire de la géométrie
+ * unie est fournie pour contrôle.
+ */
+export function assembleParcels(
+  parcels: AssemblageParcel[],
+  toleranceM = DEFAULT_ADJACENCY_TOLERANCE_M,
+): AssemblageResult {
+  const sansGeometrie = parcels
+    .filter((p) => !p.geometry)
+    .map((p) => p.parcel_id);
+
+  const composantes = adjacencyComponents(parcels, toleranceM);
+
+  const geometry = unionGeometries(
+    parcels.filter((p) => p.geometry).map((p) => p.geometry),
+  );
+
+  const surfaces = parcels.map((p) => p.surface_m2);
+  const surface = surfaces.every((s) => typeof s === "number" && s > 0)
+    ? (surfaces as number[]).reduce((sum, s) => sum + s, 0)
+    : null;
+
+  return {
+    parcel_ids: parcels.map((p) => p.parcel_id),
+    contigu: sansGeometrie.length > 0 ? null : composantes.length <= 1,
+    composantes,
+    parcelles_sans_geometrie: sansGeometrie,
+    geometry,
+    surface_m2: surface,
+    surface_geometrie_m2: geometry
+      ? Math.round(geodesicAreaM2(geometry) * 100) / 100
+      : null,
+  };
+}
+
+// -------------------------------------------------
+// Règle la plus restrictive
+// -------------------------------------------------
+
+// Champs pour lesquels une valeur plus GRANDE est plus contraignante
+// (retraits, minima, pleine terre, stationnement, largeur d'accès, quota social)
+const LARGER_IS_STRICTER = /(retrait|recul|min|pleine_terre|places|largeur|social)/i;
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function mergeLeaf(key: string, values: unknown[]): unknown {
+  const present = values.filter((v) => v !== null && v !== undefined);
+  if (present.length === 0) return values.length ? values[0] : null;
+
+  if (present.every((v) => typeof v === "number")) {
+    const nums = present as number[];
+    // "max" dans le nom : plafond → le plus petit est le plus strict
+    if (/max/i.test(key) || !LARGER_IS_STRICTER.test(key)) {
+      return Math.min(...nums);
+    }
+    return Math.max(...nums);
+  }
+
+  if (present.every((v) => typeof v === "boolean")) {
+    return (present as boolean[]).some(Boolean);
+  }
+
+  if (present.every(Array.isArray)) {
+    const arrays = present as unknown[][];
+    if (key === "autorises") {
+      return arrays.reduce((acc, arr) => acc.filter((x) => arr.includes(x)));
+    }
+    if (key === "interdits") {
+      return Array.from(new Set(arrays.flat()));
+    }
+    return arrays[0];
+  }
+
+  return present[0];
+}
+
+/**
+ * Fusionne des rulesets PLU (n'importe quel schéma) en retenant,
+ * champ par champ, la valeur la plus contraignante :
+ *  - plafonds (hauteur, emprise, densité…) → minimum
+ *  - retraits, minima, pleine terre, stationnement, quota social → maximum
+ *  - usages autorisés → intersection, usages interdits → union
+ */
+export function mergeRulesetsMostRestrictive<T = Record<string, unknown>>(
+  rulesets: (T | null | undefined)[],
+): T | null {
+  const present = rulesets.filter(isPlainObject) as Record<string, unknown>[];
+  if (present.length === 0) return null;
+  if (present.length === 1) return present[0] as T;
+
+  const mergeObjects = (objs: Record<string, unknown>[]) => {
+    const keys = new Set(objs.flatMap((o) => Object.keys(o)));
+    const out: Record<string, unknown> = {};
+
+    for (const key of keys) {
+      const values = objs.map((o) => o[key]);
+      const objects = values.filter(isPlainObject);
+
+      out[key] = objects.length > 0 && objects.length === values.filter((v) =>
+          v !== null && v !== undefined
+        ).length
+        ? mergeObjects(objects as Record<string, unknown>[])
+        : mergeLeaf(key, values);
+    }
+
+    return out;
+  };
+
+  return mergeObjects(present) as T;
+}
@@ -0,0 +1,201 @@
+// supabase/functions/_shared/batiments.ts
+//
+// Bâti existant sur une parcelle / un assemblage
+//  - emprises importées dans cadastre_batiments (scripts/batiments-import.ts)
+//  - emprise existante = somme des surfaces bâties intersectant la géométrie
+//  - SDP existante estimée = emprise × niveaux × coefficient SDP / emprise
+//
+// Le client Supabase est fourni par la fonction appelante (service role).
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// -------------------------------------------------
+// Hypothèses
+// -------------------------------------------------
+
+// Hauteur d'un niveau pour déduire le nombre de niveaux de la hauteur BD TOPO
+export const HAUTEUR_NIVEAU_EXISTANT_M = 3;
+
+// Part de l'emprise brute comptée en SDP (murs, trémies, locaux techniques)
+export const COEF_SDP_SUR_EMPRISE = 0.8;
+
+// Bâtiment ignoré si moins de 50 % de son emprise est dans la géométrie
+// (débords de limites, bâtiment voisin accolé)
+const PART_MIN_DANS_PARCELLE = 0.5;
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+export type BatimentSource = "cadastre" | "bdtopo";
+
+export type BatimentExistant = {
+  batiment_id: number;
+  source: BatimentSource;
+  type: string | null;
+  hauteur_m: number | null;
+  nb_etages: number | null;
+  surface_bati_m2: number;
+  surface_intersection_m2: number;
+  niveaux: number;
+  niveaux_source: "nb_etages" | "hauteur" | "defaut";
+  sdp_estimee_m2: number;
+};
+
+export type BatiExistantSummary = {
+  source: BatimentSource | "saisi" | null;
+  nb_batiments: number;
+  emprise_existante_m2: number;
+  sdp_existante_m2: number;
+  batiments: BatimentExistant[];
+  hypotheses: {
+    hauteur_niveau_m: number;
+    coef_sdp_sur_emprise: number;
+  };
+};
+
+// -------------------------------------------------
+// Helpers
+// -------------------------------------------------
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function niveauxOf(
+  nbEtages: number | null,
+  hauteurM: number | null,
+): { niveaux: number; source: BatimentExistant["niveaux_source"] } {
+  if (nbEtages != null && nbEtages > 0) {
+    return { niveaux: Math.round(nbEtages), source: "nb_etages" };
+  }
+  if (hauteurM != null && hauteurM > 0) {
+    return {
+      niveaux: Math.max(1, Math.round(hauteurM / HAUTEUR_NIVEAU_EXISTANT_M)),
+      source: "hauteur",
+    };
+  }
+  return { niveaux: 1, source: "defaut" };
+}
+
+function emptySummary(): BatiExistantSummary {
+  return {
+    source: null,
+    nb_batiments: 0,
+    emprise_existante_m2: 0,
+    sdp_existante_m2: 0,
+    batiments: [],
+    hypotheses: {
+      hauteur_niveau_m: HAUTEUR_NIVEAU_EXISTANT_M,
+      coef_sdp_sur_emprise: COEF_SDP_SUR_EMPRISE,
+    },
+  };
+}
+
+// -------------------------------------------------
+// Bâti existant
+// -------------------------------------------------
+
+/**
+ * Résume des lignes batiments_existants_for_geometry. BD TOPO (hauteurs,
+ * étages) est préféré au cadastre quand les deux couvrent la parcelle,
+ * pour ne pas compter deux fois le même bâtiment.
+ */
+export function summarizeBatiments(rows: any[]): BatiExistantSummary {
+  const summary = emptySummary();
+
+  // Bâtiments majoritairement dans la parcelle, avant le choix de la source :
+  // un bâtiment BD TOPO voisin qui effleure la parcelle n'écarte pas le cadastre
+  const retenus = rows.filter((row) => {
+    const surfaceBati = toNumber(row?.surface_bati_m2) ?? 0;
+    const intersection = toNumber(row?.surface_intersection_m2) ?? 0;
+    return surfaceBati > 0 &&
+      intersection / surfaceBati >= PART_MIN_DANS_PARCELLE;
+  });
+
+  const hasBdTopo = retenus.some((r) => r.source === "bdtopo");
+  const source: BatimentSource = hasBdTopo ? "bdtopo" : "cadastre";
+
+  for (const row of retenus) {
+    if (row.source !== source) continue;
+
+    const surfaceBati = toNumber(row.surface_bati_m2) ?? 0;
+    const intersection = toNumber(row.surface_intersection_m2) ?? 0;
+
+    const hauteur = toNumber(row.hauteur_m);
+    const nbEtages = toNumber(row.nb_etages);
+    const { niveaux, source: niveauxSource } = niveauxOf(nbEtages, hauteur);
+
+    summary.batiments.push({
+      batiment_id: Number(row.batiment_id),
+      source,
+      type: row.type ?? null,
+      hauteur_m: hauteur,
+      nb_etages: nbEtages,
+      surface_bati_m2: surfaceBati,
+      surface_intersection_m2: intersection,
+      niveaux,
+      niveaux_source: niveauxSource,
+      sdp_estimee_m2: intersection * niveaux * COEF_SDP_SUR_EMPRISE,
+    });
+  }
+
+  if (summary.batiments.length === 0) return summary;
+
+  summary.source = source;
+  summary.nb_batiments = summary.batiments.length;
+  summary.emprise_existante_m2 = summary.batiments.reduce(
+    (acc, b) => acc + b.surface_intersection_m2,
+    0,
+  );
+  summary.sdp_existante_m2 = summary.batiments.reduce(
+    (acc, b) => acc + b.sdp_estimee_m2,
+    0,
+  );
+
+  return summary;
+}
+
+/**
+ * Bâti existant sur une géométrie GeoJSON (WGS84). En cas d'erreur
+ * (table absente, géométrie invalide), renvoie un terrain nu avec `error`.
+ */
+export async function fetchBatiExistant(
+  supabase: SupabaseClient,
+  geometry: any,
+): Promise<BatiExistantSummary & { error?: string }> {
+  if (!geometry) return emptySummary();
+
+  const { data, error } = await supabase.rpc(
+    "batiments_existants_for_geometry",
+    { p_geometry: geometry },
+  );
+
+  if (error) {
+    console.error("Erreur batiments_existants_for_geometry:", error);
+    return { ...emptySummary(), error: error.message };
+  }
+
+  return summarizeBatiments((data ?? []) as any[]);
+}
+
+/**
+ * Bâti existant saisi manuellement (SDP par défaut estimée sur un niveau).
+ */
+export function batiExistantFromSaisie(input: {
+  emprise_m2?: unknown;
+  sdp_m2?: unknown;
+}): BatiExistantSummary {
+  const summary = emptySummary();
+  const emprise = Math.max(0, toNumber(input.emprise_m2) ?? 0);
+  const sdp = toNumber(input.sdp_m2);
+
+  summary.source = "saisi";
+  summary.emprise_existante_m2 = emprise;
+  summary.sdp_existante_m2 = sdp != null && sdp >= 0
+    ? sdp
+    : emprise * COEF_SDP_SUR_EMPRISE;
+  return summary;
+}
@@ -0,0 +1,637 @@
+// supabase/functions/_shared/cadastre.ts
+//
+// Helpers cadastre Etalab partagés (cadastre-lite, plu-from-address…)
+//  - types commune / parcelle Etalab
+//  - géocodage d'adresse (api-adresse.data.gouv.fr)
+//  - commune pour un point, un code ou une bbox (geo.api.gouv.fr)
+//  - téléchargement des parcelles Etalab (GeoJSON.gz commune, fallback département)
+//    avec cache mémoire par instance (TTL + nombre d'entrées borné)
+//  - lecture des propriétés d'une feature Etalab (id, section, numéro, contenance)
+//  - choix de la parcelle pour un point + contrôle de surface vs géométrie
+//  - parcelles d'une bbox, parcelles mitoyennes d'une géométrie (Etalab)
+
+import {
+  bboxOf,
+  checkSurfaceAgainstGeometry,
+  distanceToBoundaryM,
+  locateParcelForPoint,
+  type ParcelMatchMethod,
+  polygonsOf,
+  type Position,
+  type SurfaceCheck,
+} from "./geo.ts";
+import { departementOfCommune, inseeFromCodeCadastre } from "./idu.ts";
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+export type EtalabCommune = {
+  // code INSEE normalisé (ex : 75056 pour Paris)
+  code: string;
+  codeDepartement: string;
+  nom: string;
+  // code utilisé par le cadastre Etalab (ex : 75107 pour Paris 7e)
+  codeCadastre?: string;
+};
+
+export type EtalabParcel = {
+  id: string | null;
+  code_commune: string;
+  nom_commune: string;
+  section: string | null;
+  numero: string | null;
+  surface_m2: number | null;
+  geometry: any; // GeoJSON geometry
+};
+
+export type DownloadResult =
+  | {
+      success: true;
+      level: "commune" | "departement";
+      geojson: any;
+      url: string;
+      cache: "hit" | "miss";
+      statusCommune?: number;
+      statusDepartement?: number;
+    }
+  | {
+      success: false;
+      error: "NO_GEOJSON";
+      urlCommune: string;
+      urlDepartement: string;
+      statusCommune?: number;
+      statusDepartement?: number;
+    };
+
+export type BBox = [number, number, number, number]; // minLon, minLat, maxLon, maxLat
+
+export type GeocodeResult = {
+  lon: number;
+  lat: number;
+  label: string | null;
+  score: number | null;
+  raw: unknown;
+};
+
+export type ParcelMatchInfo = {
+  // "point_in_polygon" : le point est dans la parcelle
+  // "nearest_edge"     : point hors parcelle (voirie) → contour le plus proche
+  method: ParcelMatchMethod;
+  distance_to_boundary_m: number;
+};
+
+// -------------------------------------------------
+// Commune via geo.api.gouv.fr
+// -------------------------------------------------
+
+/**
+ * Recherche la commune correspondante à un point (lat, lon)
+ * via l'API publique geo.api.gouv.fr
+ *
+ * - code         → INSEE normalisé (ex: 75056 pour Paris)
+ * - codeCadastre → INSEE brut Etalab (ex: 75107 pour Paris 7e)
+ */
+export async function getCommuneFromLatLon(
+  lat: number,
+  lon: number,
+): Promise<EtalabCommune | null> {
+  const url =
+    `https://geo.api.gouv.fr/communes?lat=${lat}&lon=${lon}&format=json`;
+
+  console.log("🌍 getCommuneFromLatLon URL:", url);
+
+  try {
+    const res = await fetch(url);
+    console.log("🌍 getCommuneFromLatLon status:", res.status);
+
+    if (!res.ok) {
+      console.error("❌ getCommuneFromLatLon HTTP error:", res.status);
+      return null;
+    }
+
+    const json = await res.json();
+    console.log("🌍 getCommuneFromLatLon raw json:", json);
+
+    if (!Array.isArray(json) || json.length === 0) {
+      console.warn("⚠️ getCommuneFromLatLon: aucune commune trouvée (array vide)");
+      return null;
+    }
+
+    const c = json[0];
+    console.log("🌍 getCommuneFromLatLon first item:", c);
+
+    if (!c.code || !c.codeDepartement) {
+      console.warn(
+        "⚠️ getCommuneFromLatLon: réponse incomplète (pas de code ou codeDepartement)",
+        c,
+      );
+      return null;
+    }
+
+    const rawCode = c.code as string;
+    const depCode = c.codeDepartement as string;
+
+    // 🔧 Arrondissements (Paris, Lyon, Marseille) → code INSEE de la commune
+    const normalizedCode = inseeFromCodeCadastre(rawCode);
+    if (normalizedCode !== rawCode) {
+      console.log(
+        "ℹ️ Normalisation arrondissement :",
+        rawCode,
+        "→",
+        normalizedCode,
+      );
+    }
+
+    const commune: EtalabCommune = {
+      code: normalizedCode, // code INSEE normalisé pour Mimmoza / PLU / DVF
+      codeDepartement: depCode,
+      nom: c.nom ?? "",
+      codeCadastre: rawCode, // code utilisé par le cadastre (arrondissement)
+    };
+
+    console.log("✅ Commune trouvée (normalisée + cadastre):", commune);
+    return commune;
+  } catch (e) {
+    console.error("❌ Exception getCommuneFromLatLon:", e);
+    return null;
+  }
+}
+
+/**
+ * Commune à partir d'un code INSEE ou cadastre (ex : 75107 → Paris, 75056).
+ * Le nom est résolu via geo.api.gouv.fr (vide si indisponible).
+ */
+export async function getCommuneFromCode(
+  codeCadastre: string,
+): Promise<EtalabCommune> {
+  const codeDepartement = departementOfCommune(codeCadastre);
+  const code = inseeFromCodeCadastre(codeCadastre);
+
+  let nom = "";
+  try {
+    const res = await fetch(
+      `https://geo.api.gouv.fr/communes/${code}?fields=nom&format=json`,
+    );
+    if (res.ok) {
+      const json = await res.json();
+      nom = json?.nom ?? "";
+    } else {
+      console.warn("⚠️ getCommuneFromCode HTTP:", code, res.status);
+    }
+  } catch (e) {
+    console.error("❌ Exception getCommuneFromCode:", e);
+  }
+
+  return { code, codeDepartement, nom, codeCadastre };
+}
+
+/**
+ * Communes couvrant une bbox, échantillonnées aux 4 coins + centre
+ * (dédoublonnées par code cadastre).
+ */
+export async function communesForBBox(
+  bbox: BBox,
+  maxCommunes = 4,
+): Promise<EtalabCommune[]> {
+  const [minLon, minLat, maxLon, maxLat] = bbox;
+  const samples: [number, number][] = [
+    [(minLat + maxLat) / 2, (minLon + maxLon) / 2],
+    [minLat, minLon],
+    [minLat, maxLon],
+    [maxLat, minLon],
+    [maxLat, maxLon],
+  ];
+
+  const found = await Promise.all(
+    samples.map(([lat, lon]) => getCommuneFromLatLon(lat, lon)),
+  );
+
+  const byCode = new Map<string, EtalabCommune>();
+  for (const c of found) {
+    if (c) byCode.set(c.codeCadastre ?? c.code, c);
+  }
+
+  return Array.from(byCode.values()).slice(0, maxCommunes);
+}
+
+// -------------------------------------------------
+// Géocodage via api-adresse.data.gouv.fr
+// -------------------------------------------------
+
+export async function geocodeAddress(
+  address: string,
+): Promise<GeocodeResult | null> {
+  const url = `https://api-adresse.data.gouv.fr/search/?q=${encodeURIComponent(
+    address,
+  )}&limit=1`;
+
+  console.log("🌍 geocodeAddress URL:", url);
+
+  try {
+    const res = await fetch(url);
+
+    if (!res.ok) {
+      console.error("Geocoding HTTP error:", res.status, await res.text());
+      return null;
+    }
+
+    const data = await res.json() as any;
+
+    if (!data?.features?.length) {
+      console.warn("⚠️ geocodeAddress: aucune feature trouvée");
+      return null;
+    }
+
+    const feature = data.features[0];
+    const [lon, lat] = feature.geometry?.coordinates ?? [];
+
+    if (typeof lon !== "number" || typeof lat !== "number") {
+      console.warn("⚠️ geocodeAddress: coordonnées invalides", feature.geometry);
+      return null;
+    }
+
+    console.log("✅ geocodeAddress:", { lon, lat });
+    return {
+      lon,
+      lat,
+      label: feature.properties?.label ?? null,
+      score: typeof feature.properties?.score === "number"
+        ? feature.properties.score
+        : null,
+      raw: feature,
+    };
+  } catch (e) {
+    console.error("❌ Exception geocodeAddress:", e);
+    return null;
+  }
+}
+
+// -------------------------------------------------
+// Cache mémoire des téléchargements Etalab
+// -------------------------------------------------
+// L'instance Edge est réutilisée entre requêtes : on garde les derniers
+// FeatureCollection communaux décompressés pour éviter de retélécharger le
+// .json.gz à chaque déplacement de carte. Les fichiers département (plusieurs
+// centaines de Mo une fois parsés) ne sont jamais gardés en mémoire, et la
+// taille cumulée des fichiers communaux est plafonnée.
+
+const DOWNLOAD_CACHE_TTL_MS = 60 * 60 * 1000;
+const DOWNLOAD_CACHE_MAX_ENTRIES = 4;
+// Taille du JSON décompressé (caractères), par fichier et au total
+const DOWNLOAD_CACHE_MAX_CHARS_ENTRY = 15_000_000;
+const DOWNLOAD_CACHE_MAX_CHARS_TOTAL = 30_000_000;
+
+type CachedDownload = {
+  expiresAt: number;
+  taille: number;
+  result: Extract<DownloadResult, { success: true }>;
+};
+
+const downloadCache = new Map<string, CachedDownload>();
+
+function getCachedDownload(key: string): CachedDownload["result"] | null {
+  const entry = downloadCache.get(key);
+  if (!entry) return null;
+
+  if (entry.expiresAt < Date.now()) {
+    downloadCache.delete(key);
+    return null;
+  }
+
+  // LRU : la Map conserve l'ordre d'insertion
+  downloadCache.delete(key);
+  downloadCache.set(key, entry);
+  return entry.result;
+}
+
+function setCachedDownload(
+  key: string,
+  result: CachedDownload["result"],
+  taille: number,
+) {
+  downloadCache.delete(key);
+  if (taille > DOWNLOAD_CACHE_MAX_CHARS_ENTRY) return;
+
+  downloadCache.set(key, {
+    expiresAt: Date.now() + DOWNLOAD_CACHE_TTL_MS,
+    taille,
+    result,
+  });
+
+  let total = 0;
+  for (const entry of downloadCache.values()) total += entry.taille;
+
+  while (
+    downloadCache.size > DOWNLOAD_CACHE_MAX_ENTRIES ||
+    total > DOWNLOAD_CACHE_MAX_CHARS_TOTAL
+  ) {
+    const oldest = downloadCache.keys().next().value as string;
+    total -= downloadCache.get(oldest)?.taille ?? 0;
+    downloadCache.delete(oldest);
+  }
+}
+
+// -------------------------------------------------
+// Téléchargement des parcelles Etalab (commune + fallback département)
+// -------------------------------------------------
+
+async function fetchGzipFeatureCollection(
+  url: string,
+): Promise<{ status: number; geojson: any | null; taille: number }> {
+  const res = await fetch(url);
+
+  if (!res.ok || !res.body) {
+    return { status: res.status, geojson: null, taille: 0 };
+  }
+
+  const ds = new DecompressionStream("gzip");
+  const decompressedStream = res.body.pipeThrough(ds);
+  const text = await new Response(decompressedStream).text();
+
+  const geojson = JSON.parse(text);
+  const valid = geojson && geojson.type === "FeatureCollection" &&
+    Array.isArray(geojson.features);
+
+  return {
+    status: res.status,
+    geojson: valid ? geojson : null,
+    taille: text.length,
+  };
+}
+
+export async function downloadParcellesGeoJSONWithFallback(
+  codeCommune: string,
+  codeDepartement: string,
+  options: { useCache?: boolean } = {},
+): Promise<DownloadResult> {
+  const { useCache = true } = options;
+
+  const baseUrl =
+    "https://cadastre.data.gouv.fr/data/etalab-cadastre/2025-09-01/geojson";
+
+  const urlCommune =
+    `${baseUrl}/communes/${codeDepartement}/${codeCommune}/cadastre-${codeCommune}-parcelles.json.gz`;
+
+  const urlDepartement =
+    `${baseUrl}/departements/${codeDepartement}/cadastre-${codeDepartement}-parcelles.json.gz`;
+
+  if (useCache) {
+    const cached = getCachedDownload(codeCommune);
+    if (cached) {
+      console.log("♻️ Cache Etalab:", codeCommune, cached.level, cached.url);
+      return { ...cached, cache: "hit" };
+    }
+  }
+
+  let statusCommune: number | undefined;
+  let statusDepartement: number | undefined;
+
+  try {
+    console.log("🌍 Tentative commune Etalab:", urlCommune);
+    const resCommune = await fetchGzipFeatureCollection(urlCommune);
+    statusCommune = resCommune.status;
+    console.log(
+      "🌍 downloadParcellesGeoJSON commune status:",
+      statusCommune,
+    );
+
+    if (resCommune.geojson) {
+      const result = {
+        success: true as const,
+        level: "commune" as const,
+        geojson: resCommune.geojson,
+        url: urlCommune,
+        cache: "miss" as const,
+        statusCommune,
+      };
+      if (useCache) setCachedDownload(codeCommune, result, resCommune.taille);
+      return result;
+    }
+  } catch (e) {
+    console.error("❌ Erreur commune Etalab:", e);
+  }
+
+  // Fallback département (fichier lourd : jamais mis en cache)
+  try {
+    console.log("🌍 Tentative département Etalab:", urlDepartement);
+    const resDep = await fetchGzipFeatureCollection(urlDepartement);
+    statusDepartement = resDep.status;
+    console.log(
+      "🌍 downloadParcellesGeoJSON département status:",
+      statusDepartement,
+    );
+
+    if (resDep.geojson) {
+      const result = {
+        success: true as const,
+        level: "departement" as const,
+        geojson: resDep.geojson,
+        url: urlDepartement,
+        cache: "miss" as const,
+        statusCommune,
+        statusDepartement,
+      };
+      return result;
+    }
+  } catch (e) {
+    console.error("❌ Erreur département Etalab:", e);
+  }
+
+  return {
+    success: false,
+    error: "NO_GEOJSON",
+    urlCommune,
+    urlDepartement,
+    statusCommune,
+    statusDepartement,
+  };
+}
+
+// -------------------------------------------------
+// Feature Etalab → parcelle
+// -------------------------------------------------
+
+/**
+ * Contenance d'une feature Etalab (m²), ou null si absente / invalide.
+ */
+export function etalabFeatureSurfaceM2(props: any): number | null {
+  return (
+    (typeof props?.contenance === "number"
+      ? props.contenance
+      : Number(props?.contenance)) ||
+    (typeof props?.surface === "number"
+      ? props.surface
+      : Number(props?.surface)) ||
+    null
+  );
+}
+
+export function parcelFromEtalabFeature(
+  feature: any,
+  commune: EtalabCommune,
+): EtalabParcel {
+  const props = feature?.properties ?? {};
+
+  const id =
+    props.id ??
+    props.id_parcelle ??
+    props.numero_parcelle ??
+    null;
+
+  const section =
+    props.section ??
+    props.prefixe_section ??
+    null;
+
+  const numero =
+    props.numero ??
+    props.numero_parcelle ??
+    null;
+
+  return {
+    id,
+    code_commune: commune.code, // on garde le code normalisé pour Mimmoza
+    nom_commune: commune.nom,
+    section,
+    numero,
+    surface_m2: etalabFeatureSurfaceM2(props),
+    geometry: feature?.geometry ?? null,
+  };
+}
+
+/**
+ * Parcelle contenant le point (fallback : contour le plus proche),
+ * avec le contrôle contenance vs aire géodésique.
+ */
+export function pickParcelForPoint(
+  geojson: any,
+  lat: number,
+  lon: number,
+  commune: EtalabCommune,
+): {
+  parcel: EtalabParcel;
+  match: ParcelMatchInfo;
+  surface_check: SurfaceCheck | null;
+} | null {
+  const located = locateParcelForPoint(geojson?.features ?? [], lat, lon);
+
+  if (!located) {
+    console.warn(
+      "⚠️ pickParcelForPoint: aucune parcelle ne contient ni ne borde le point",
+    );
+    return null;
+  }
+
+  const parcel = parcelFromEtalabFeature(located.feature, commune);
+
+  const match: ParcelMatchInfo = {
+    method: located.method,
+    distance_to_boundary_m: Math.round(located.distance_to_boundary_m * 100) /
+      100,
+  };
+
+  const surfaceCheck = checkSurfaceAgainstGeometry(
+    parcel.surface_m2,
+    parcel.geometry,
+  );
+
+  if (surfaceCheck && surfaceCheck.coherent === false) {
+    console.warn(
+      "⚠️ Contenance incohérente avec la géométrie:",
+      parcel.id,
+      surfaceCheck,
+    );
+  }
+
+  console.log("✅ Parcelle choisie (Etalab):", parcel.id, match);
+  return { parcel, match, surface_check: surfaceCheck };
+}
+
+// -------------------------------------------------
+// Voisinage & bbox
+// -------------------------------------------------
+
+/**
+ * Features dont la bbox intersecte la bbox demandée.
+ */
+export function featuresInBBox(features: any[], bbox: BBox): any[] {
+  return features.filter((f) => {
+    const fb = f?.geometry ? bboxOf(f.geometry) : null;
+    return !!fb &&
+      !(fb[0] > bbox[2] || fb[2] < bbox[0] || fb[1] > bbox[3] || fb[3] < bbox[1]);
+  });
+}
+
+/**
+ * Features dont le contour est à moins de toleranceM de la géométrie
+ * (parcelles mitoyennes), en excluant la parcelle elle-même.
+ */
+export function findAdjacentFeatures(
+  features: any[],
+  geometry: any,
+  excludeId: string | null = null,
+  toleranceM = 0.5,
+): any[] {
+  const bbox = bboxOf(geometry);
+  if (!bbox) return [];
+
+  // Marge bbox en degrés (≈ tolérance + 1 m)
+  const marginLat = (toleranceM + 1) / 111_000;
+  const marginLon = marginLat /
+    Math.max(0.01, Math.cos((((bbox[1] + bbox[3]) / 2) * Math.PI) / 180));
+
+  const vertices: Position[] = polygonsOf(geometry).flatMap((poly) =>
+    poly[0] ?? []
+  );
+
+  return features.filter((f) => {
+    if (!f?.geometry) return false;
+    if (excludeId && f.properties?.id === excludeId) return false;
+
+    const fb = bboxOf(f.geometry);
+    if (
+      !fb ||
+      fb[0] > bbox[2] + marginLon || fb[2] < bbox[0] - marginLon ||
+      fb[1] > bbox[3] + marginLat || fb[3] < bbox[1] - marginLat
+    ) {
+      return false;
+    }
+
+    // Mitoyenneté : un sommet de l'une est sur (ou très près du) contour de l'autre
+    const fVertices: Position[] = polygonsOf(f.geometry).flatMap((poly) =>
+      poly[0] ?? []
+    );
+
+    return (
+      vertices.some((v) => distanceToBoundaryM(v, f.geometry) <= toleranceM) ||
+      fVertices.some((v) => distanceToBoundaryM(v, geometry) <= toleranceM)
+    );
+  });
+}
+
+/**
+ * Géométries des parcelles mitoyennes (Etalab), pour détecter
+ * les limites sur rue. [] si le téléchargement échoue.
+ */
+export async function fetchNeighbourGeometries(
+  parcelIds: string[],
+  geometry: any,
+): Promise<any[]> {
+  // Les 5 premiers caractères de l'IDU = code commune cadastre (arrondissement inclus)
+  const codeCommune = parcelIds[0].slice(0, 5);
+
+  const download = await downloadParcellesGeoJSONWithFallback(
+    codeCommune,
+    departementOfCommune(codeCommune),
+  );
+
+  if (!download.success) {
+    console.warn("⚠️ fetchNeighbourGeometries: NO_GEOJSON", download);
+    return [];
+  }
+
+  return findAdjacentFeatures(download.geojson.features, geometry)
+    .filter((f: any) => !parcelIds.includes(f.properties?.id))
+    .map((f: any) => f.geometry);
+}
@@ -0,0 +1,456 @@
+// supabase/functions/_shared/cashflow.ts
+//
+// Trésorerie mensuelle d'une opération de promotion
+//  - calendrier : études, dépôt et obtention du permis (purge), acquisition du foncier,
+//    lancement commercial, démarrage des travaux (seuil de pré-commercialisation), livraison
+//  - travaux en courbe en S, ventes VEFA encaissées selon l'échéancier d'appels de fonds
+//  - financement : fonds propres puis crédit promoteur (plafond, taux, frais de mise en place),
+//    remboursement du crédit par les encaissements
+//  - sorties : flux mensuels, pic de besoin de financement, frais financiers réels,
+//    TRI projet / fonds propres, multiple sur fonds propres
+//  - au-delà de HORIZON_MAX_MOIS, la simulation est tronquée (tronque: true) et le
+//    résultat ne compte que les flux modélisés
+//
+// Paramètres : sections `calendrier` et `financement` des params promoteur_profiles.
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+export type AppelFondsVefa = {
+  // Avancement des travaux (0 à 1) déclenchant l'appel
+  avancement: number;
+  // Part cumulée du prix appelée
+  cumul: number;
+};
+
+export type CalendrierParams = {
+  // Mois de départ (AAAA-MM), signature de la promesse
+  date_debut?: string | null;
+  duree_etudes_mois?: number;
+  // Instruction + purge des recours
+  delai_permis_mois?: number;
+  // Acquisition : date (AAAA-MM) ou mois depuis le départ, à défaut permis purgé
+  date_acquisition_foncier?: string | null;
+  mois_acquisition_foncier?: number | null;
+  // Lancement commercial en mois après obtention du permis (négatif = avant)
+  decalage_lancement_commercial_mois?: number;
+  // Part du CA réservée pour démarrer les travaux
+  seuil_precommercialisation?: number;
+  // Part du CA vendue par mois
+  rythme_ventes_mensuel?: number;
+  duree_travaux_mois?: number;
+  appels_fonds_vefa?: AppelFondsVefa[];
+};
+
+export type FinancementParams = {
+  // Fonds propres en part du coût total hors frais financiers
+  fonds_propres_pct?: number;
+  // Plafond du crédit promoteur en part du coût total hors frais financiers
+  credit_plafond_pct?: number;
+  credit_taux_annuel?: number;
+  credit_frais_mise_en_place_pct?: number;
+};
+
+export type CashflowCouts = {
+  foncier: number;
+  frais_etudes: number;
+  honoraires: number;
+  // Construction, stationnement, démolition
+  travaux: number;
+  frais_commerciaux: number;
+  taxes: number;
+};
+
+export type CashflowInput = {
+  ca: number;
+  couts: CashflowCouts;
+  calendrier?: CalendrierParams | null;
+  financement?: FinancementParams | null;
+  // false : pas de détail mois par mois (simulations répétées)
+  detail_mensuel?: boolean;
+};
+
+// -------------------------------------------------
+// Valeurs par défaut
+// -------------------------------------------------
+
+// Échéancier VEFA (plafonds de l'art. R.261-14 CCH) : 5 % à la signature,
+// 35 % aux fondations, 70 % hors d'eau, 95 % à l'achèvement, solde à la livraison
+export const APPELS_FONDS_VEFA_DEFAUT: AppelFondsVefa[] = [
+  { avancement: 0, cumul: 0.05 },
+  { avancement: 0.15, cumul: 0.35 },
+  { avancement: 0.5, cumul: 0.7 },
+  { avancement: 1, cumul: 0.95 },
+];
+
+export const CALENDRIER_DEFAUT: Required<
+  Omit<CalendrierParams, "date_debut" | "date_acquisition_foncier" | "mois_acquisition_foncier">
+> = {
+  duree_etudes_mois: 4,
+  delai_permis_mois: 6,
+  decalage_lancement_commercial_mois: 0,
+  seuil_precommercialisation: 0.4,
+  rythme_ventes_mensuel: 0.06,
+  duree_travaux_mois: 18,
+  appels_fonds_vefa: APPELS_FONDS_VEFA_DEFAUT,
+};
+
+export const FINANCEMENT_DEFAUT: Required<FinancementParams> = {
+  fonds_propres_pct: 0.15,
+  credit_plafond_pct: 0.6,
+  credit_taux_annuel: 0.045,
+  credit_frais_mise_en_place_pct: 0.01,
+};
+
+// Part des honoraires payée pendant études / permis, le reste suit les travaux
+const PART_HONORAIRES_AMONT = 0.3;
+
+// Garde-fou sur la durée simulée
+const HORIZON_MAX_MOIS = 240;
+
+// -------------------------------------------------
+// Helpers
+// -------------------------------------------------
+
+function num(value: unknown, fallback: number): number {
+  if (value === null || value === undefined) return fallback;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function round(value: number, decimals = 0): number {
+  return Math.round(value * 10 ** decimals) / 10 ** decimals;
+}
+
+function parseMonth(value: string | null | undefined): Date | null {
+  const m = String(value ?? "").match(/^(\d{4})-(\d{2})/);
+  if (!m) return null;
+  return new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, 1));
+}
+
+function formatMonth(start: Date, offset: number): string {
+  const d = new Date(
+    Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + offset, 1),
+  );
+  return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+function monthsBetween(a: Date, b: Date): number {
+  return (b.getUTCFullYear() - a.getUTCFullYear()) * 12 +
+    (b.getUTCMonth() - a.getUTCMonth());
+}
+
+/**
+ * Avancement cumulé des travaux (courbe en S, 0 → 1).
+ */
+export function sCurve(x: number): number {
+  const t = Math.min(1, Math.max(0, x));
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Part cumulée du prix appelée pour un avancement de travaux donné.
+ */
+function cumulAppele(avancement: number, appels: AppelFondsVefa[]): number {
+  let cumul = 0;
+  for (const a of appels) {
+    if (avancement >= a.avancement - 1e-9) cumul = Math.max(cumul, a.cumul);
+  }
+  return Math.min(1, cumul);
+}
+
+/**
+ * TRI mensuel d'une série de flux (dichotomie), null si pas de changement de signe.
+ */
+export function irrMensuel(flux: number[]): number | null {
+  const hasNeg = flux.some((f) => f < 0);
+  const hasPos = flux.some((f) => f > 0);
+  if (!hasNeg || !hasPos) return null;
+
+  const npv = (r: number) =>
+    flux.reduce((acc, f, i) => acc + f / Math.pow(1 + r, i), 0);
+
+  let lo = -0.99;
+  let hi = 1;
+  let fLo = npv(lo);
+  if (fLo * npv(hi) > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    const fMid = npv(mid);
+    if (Math.abs(fMid) < 1e-6) return mid;
+    if (fLo * fMid < 0) hi = mid;
+    else {
+      lo = mid;
+      fLo = fMid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+function annualise(mensuel: number | null): number | null {
+  return mensuel == null ? null : Math.pow(1 + mensuel, 12) - 1;
+}
+
+// -------------------------------------------------
+// Modèle de trésorerie
+// -------------------------------------------------
+
+export function computeCashflow(input: CashflowInput) {
+  const cal = { ...CALENDRIER_DEFAUT, ...(input.calendrier ?? {}) };
+  const fin = { ...FINANCEMENT_DEFAUT, ...(input.financement ?? {}) };
+
+  const dateDebut = parseMonth(cal.date_debut) ??
+    parseMonth(new Date().toISOString())!;
+
+  // 1) Jalons (mois depuis le départ)
+  const dureeEtudes = Math.max(0, Math.round(num(cal.duree_etudes_mois, 4)));
+  const delaiPermis = Math.max(0, Math.round(num(cal.delai_permis_mois, 6)));
+  const dureeTravaux = Math.max(1, Math.round(num(cal.duree_travaux_mois, 18)));
+
+  const moisDepotPermis = dureeEtudes;
+  const moisPermisPurge = moisDepotPermis + delaiPermis;
+
+  const dateAcquisition = parseMonth(cal.date_acquisition_foncier);
+  const moisAcquisition = Math.max(
+    0,
+    dateAcquisition
+      ? monthsBetween(dateDebut, dateAcquisition)
+      : Math.round(num(cal.mois_acquisition_foncier, moisPermisPurge)),
+  );
+
+  const moisLancement = Math.max(
+    0,
+    moisPermisPurge + Math.round(num(cal.decalage_lancement_commercial_mois, 0)),
+  );
+  const rythme = Math.min(1, Math.max(0.001, num(cal.rythme_ventes_mensuel, 0.06)));
+  const seuil = Math.min(1, Math.max(0, num(cal.seuil_precommercialisation, 0.4)));
+
+  // Part du CA réservée à la fin du mois t
+  const reserve = (t: number) =>
+    t < moisLancement ? 0 : Math.min(1, (t - moisLancement + 1) * rythme);
+
+  // Démarrage : permis purgé, foncier acquis, seuil de pré-commercialisation atteint
+  let moisDebutTravaux = Math.max(moisPermisPurge, moisAcquisition);
+  while (reserve(moisDebutTravaux - 1) < seuil && moisDebutTravaux < HORIZON_MAX_MOIS) {
+    moisDebutTravaux++;
+  }
+  const moisLivraison = moisDebutTravaux + dureeTravaux;
+
+  const moisFinVentes = moisLancement + Math.ceil(1 / rythme) - 1;
+  const horizonComplet = Math.max(moisLivraison, moisFinVentes, moisAcquisition) + 1;
+  const horizon = Math.min(HORIZON_MAX_MOIS, horizonComplet);
+  const tronque = horizonComplet > HORIZON_MAX_MOIS;
+
+  const avancement = (t: number) =>
+    t < moisDebutTravaux ? 0 : sCurve((t - moisDebutTravaux + 1) / dureeTravaux);
+
+  const appels = Array.isArray(cal.appels_fonds_vefa) && cal.appels_fonds_vefa.length
+    ? cal.appels_fonds_vefa
+    : APPELS_FONDS_VEFA_DEFAUT;
+
+  // Part cumulée du CA encaissée à la fin du mois t
+  const encaisse = (t: number) => {
+    if (t < 0) return 0;
+    const appele = t >= moisLivraison
+      ? 1
+      : t < moisDebutTravaux
+      ? 0
+      : cumulAppele(avancement(t), appels);
+    return reserve(t) * appele;
+  };
+
+  // 2) Flux d'exploitation mensuels
+  const coutTotalHorsFF = Object.values(input.couts).reduce((a, b) => a + b, 0);
+  const fondsPropresCible = coutTotalHorsFF * Math.max(0, num(fin.fonds_propres_pct, 0.15));
+  const plafondCredit = coutTotalHorsFF * Math.max(0, num(fin.credit_plafond_pct, 0.6));
+  const tauxMensuel = Math.max(0, num(fin.credit_taux_annuel, 0.045)) / 12;
+  const fraisMiseEnPlace = plafondCredit *
+    Math.max(0, num(fin.credit_frais_mise_en_place_pct, 0.01));
+
+  const mois = [];
+  const fluxProjet: number[] = [];
+  const fluxFondsPropres: number[] = [];
+
+  let cumulOperationnel = 0;
+  let encaissementsTotal = 0;
+  let decaissementsTotal = 0;
+  let picBesoin = 0;
+  let moisPic: number | null = null;
+
+  let tresorerie = 0;
+  let encoursCredit = 0;
+  let apportsFondsPropres = 0;
+  let creditMisEnPlace = false;
+  let interetsTotal = 0;
+  let fraisCreditTotal = 0;
+  let depassementFinancement = 0;
+  let encoursMax = 0;
+
+  for (let t = 0; t < horizon; t++) {
+    const travauxMois = input.couts.travaux * (avancement(t) - avancement(t - 1));
+
+    const decaissements = {
+      foncier: t === moisAcquisition ? input.couts.foncier : 0,
+      frais_etudes: dureeEtudes > 0
+        ? t < dureeEtudes ? input.couts.frais_etudes / dureeEtudes : 0
+        : t === 0
+        ? input.couts.frais_etudes
+        : 0,
+      honoraires: (moisPermisPurge > 0
+        ? t < moisPermisPurge
+          ? (input.couts.honoraires * PART_HONORAIRES_AMONT) / moisPermisPurge
+          : 0
+        : t === 0
+        ? input.couts.honoraires * PART_HONORAIRES_AMONT
+        : 0) +
+        input.couts.honoraires * (1 - PART_HONORAIRES_AMONT) *
+          (avancement(t) - avancement(t - 1)),
+      travaux: travauxMois,
+      frais_commerciaux: input.couts.frais_commerciaux * (reserve(t) - reserve(t - 1)),
+      taxes: t === moisPermisPurge ? input.couts.taxes : 0,
+    };
+    const totalDecaissements = Object.values(decaissements).reduce((a, b) => a + b, 0);
+    const encaissements = input.ca * (encaisse(t) - encaisse(t - 1));
+
+    const fluxOperationnel = encaissements - totalDecaissements;
+    encaissementsTotal += encaissements;
+    decaissementsTotal += totalDecaissements;
+    cumulOperationnel += fluxOperationnel;
+    fluxProjet.push(fluxOperationnel);
+    if (-cumulOperationnel > picBesoin) {
+      picBesoin = -cumulOperationnel;
+      moisPic = t;
+    }
+
+    // 3) Financement : intérêts du mois, puis couverture du besoin
+    const interets = encoursCredit * tauxMensuel;
+    interetsTotal += interets;
+
+    let solde = tresorerie + fluxOperationnel - interets;
+    let apport = 0;
+    let tirage = 0;
+    let remboursement = 0;
+    let fraisCredit = 0;
+
+    if (solde < 0) {
+      apport = Math.min(-solde, Math.max(0, fondsPropresCible - apportsFondsPropres));
+      solde += apport;
+
+      if (solde < 0 && plafondCredit > 0) {
+        if (!creditMisEnPlace) {
+          creditMisEnPlace = true;
+          fraisCredit = fraisMiseEnPlace;
+          fraisCreditTotal += fraisCredit;
+          solde -= fraisCredit;
+        }
+        tirage = Math.min(-solde, Math.max(0, plafondCredit - encoursCredit));
+        solde += tirage;
+      }
+
+      // Besoin non couvert : fonds propres complémentaires
+      if (solde < 0) {
+        depassementFinancement += -solde;
+        apport += -solde;
+        solde = 0;
+      }
+    } else if (encoursCredit > 0) {
+      remboursement = Math.min(solde, encoursCredit);
+      solde -= remboursement;
+    }
+
+    apportsFondsPropres += apport;
+    encoursCredit += tirage - remboursement;
+    encoursMax = Math.max(encoursMax, encoursCredit);
+    tresorerie = solde;
+
+    fluxFondsPropres.push(-apport);
+
+    if (input.detail_mensuel === false) continue;
+
+    mois.push({
+      mois: t,
+      periode: formatMonth(dateDebut, t),
+      avancement_travaux_pct: round(avancement(t) * 100, 1),
+      reservations_cumul_pct: round(reserve(t) * 100, 1),
+      encaissements: round(encaissements, 0),
+      decaissements: Object.fromEntries(
+        Object.entries(decaissements).map(([k, v]) => [k, round(v, 0)]),
+      ),
+      flux_operationnel: round(fluxOperationnel, 0),
+      cumul_operationnel: round(cumulOperationnel, 0),
+      apport_fonds_propres: round(apport, 0),
+      tirage_credit: round(tirage, 0),
+      remboursement_credit: round(remboursement, 0),
+      interets: round(interets, 0),
+      frais_credit: round(fraisCredit, 0),
+      encours_credit: round(encoursCredit, 0),
+      tresorerie: round(tresorerie, 0),
+    });
+  }
+
+  // 4) Clôture : remboursement du solde de crédit, distribution aux fonds propres
+  const distribution = tresorerie - encoursCredit;
+  fluxFondsPropres[fluxFondsPropres.length - 1] += distribution;
+
+  // Résultat des seuls flux modélisés (égal à CA - coûts - frais financiers
+  // quand la simulation n'est pas tronquée)
+  const fraisFinanciers = interetsTotal + fraisCreditTotal;
+  const resultat = cumulOperationnel - fraisFinanciers;
+
+  const triProjet = annualise(irrMensuel(fluxProjet));
+  const triFondsPropres = annualise(irrMensuel(fluxFondsPropres));
+
+  return {
+    jalons: {
+      date_debut: formatMonth(dateDebut, 0),
+      depot_permis: formatMonth(dateDebut, moisDepotPermis),
+      permis_purge: formatMonth(dateDebut, moisPermisPurge),
+      acquisition_foncier: formatMonth(dateDebut, moisAcquisition),
+      lancement_commercial: formatMonth(dateDebut, moisLancement),
+      debut_travaux: formatMonth(dateDebut, moisDebutTravaux),
+      livraison: formatMonth(dateDebut, moisLivraison),
+      fin_operation: formatMonth(dateDebut, horizon - 1),
+      duree_totale_mois: horizon,
+    },
+    // Opération plus longue que HORIZON_MAX_MOIS : flux non modélisés ci-dessous
+    tronque,
+    hors_horizon: tronque
+      ? {
+        duree_complete_mois: horizonComplet,
+        encaissements_non_modelises: round(input.ca - encaissementsTotal, 0),
+        decaissements_non_modelises: round(coutTotalHorsFF - decaissementsTotal, 0),
+      }
+      : null,
+    hypotheses: {
+      calendrier: { ...cal, appels_fonds_vefa: appels },
+      financement: fin,
+    },
+    pic_besoin_financement: round(picBesoin, 0),
+    mois_pic_besoin: moisPic != null ? formatMonth(dateDebut, moisPic) : null,
+    financement: {
+      fonds_propres_apportes: round(apportsFondsPropres, 0),
+      fonds_propres_cible: round(fondsPropresCible, 0),
+      depassement_financement: round(depassementFinancement, 0),
+      credit_plafond: round(plafondCredit, 0),
+      credit_encours_max: round(encoursMax, 0),
+      credit_solde_fin: round(encoursCredit, 0),
+    },
+    frais_financiers: {
+      interets: round(interetsTotal, 0),
+      frais_mise_en_place: round(fraisCreditTotal, 0),
+      total: round(fraisFinanciers, 0),
+    },
+    resultat: round(resultat, 0),
+    marge_sur_ca_pct: input.ca > 0 ? round((resultat / input.ca) * 100, 1) : null,
+    tri_projet_pct: triProjet != null ? round(triProjet * 100, 1) : null,
+    tri_fonds_propres_pct: triFondsPropres != null
+      ? round(triFondsPropres * 100, 1)
+      : null,
+    multiple_fonds_propres: apportsFondsPropres > 0
+      ? round(distribution / apportsFondsPropres, 2)
+      : null,
+    mois,
+  };
+}
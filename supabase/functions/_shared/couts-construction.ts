@@ -0,0 +1,438 @@
+// supabase/functions/_shared/couts-construction.ts
+//
+// Référentiel de coûts de construction
+//  - coûts de base € HT / m² SDP par type de bâtiment et niveau de qualité
+//    (moyenne France, valeur à la date de base)
+//  - coefficient régional (région de la commune)
+//  - indexation BT01 : indice à la date de valeur / indice à la date de base
+//    (série mensuelle INSEE chargée dans indice_bt01 par scripts/bt01-import.ts)
+//  - surcoûts : stationnement par niveau de sous-sol, fondations spéciales
+//    et cuvelage selon la nature du sol
+//
+// Le client Supabase est fourni par la fonction appelante (service role).
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { departementOf } from "./taxes-urbanisme.ts";
+
+// -------------------------------------------------
+// Référentiel
+// -------------------------------------------------
+
+export type TypeBatiment =
+  | "logement"
+  | "commerce"
+  | "bureaux"
+  | "residence_services";
+
+export type QualiteConstruction = "economique" | "standard" | "haut_de_gamme";
+
+export type NatureSol = "normal" | "mediocre" | "mauvais";
+
+export const QUALITES: QualiteConstruction[] = [
+  "economique",
+  "standard",
+  "haut_de_gamme",
+];
+
+// Mois de valeur des coûts de base (indexés ensuite sur le BT01)
+export const DATE_BASE_COUTS = "2025-01";
+
+// € HT / m² SDP, hors VRD, hors stationnement, moyenne France
+export const COUTS_BASE_M2: Record<
+  TypeBatiment,
+  Record<QualiteConstruction, number>
+> = {
+  logement: { economique: 1950, standard: 2300, haut_de_gamme: 2900 },
+  commerce: { economique: 1800, standard: 2200, haut_de_gamme: 2800 },
+  bureaux: { economique: 2000, standard: 2400, haut_de_gamme: 3100 },
+  residence_services: { economique: 2100, standard: 2500, haut_de_gamme: 3100 },
+};
+
+// € HT / place : parking aérien, puis par niveau de sous-sol (-1, -2, -3 et plus)
+export const COUTS_STATIONNEMENT_PLACE = {
+  aerien: 4000,
+  sous_sol: [22000, 26000, 32000],
+};
+
+// Surface de sous-sol par place (place + circulations + rampes)
+export const SURFACE_SOUS_SOL_PAR_PLACE_M2 = 25;
+
+// Fondations spéciales (€ / m² d'emprise) et cuvelage des sous-sols (% du coût
+// des places enterrées) selon la nature du sol
+export const SURCOUTS_SOL: Record<
+  NatureSol,
+  { fondations_m2_emprise: number; cuvelage_sous_sol_pct: number }
+> = {
+  normal: { fondations_m2_emprise: 0, cuvelage_sous_sol_pct: 0 },
+  mediocre: { fondations_m2_emprise: 80, cuvelage_sous_sol_pct: 0.05 },
+  mauvais: { fondations_m2_emprise: 250, cuvelage_sous_sol_pct: 0.15 },
+};
+
+// Coefficients régionaux (code région INSEE), base moyenne France = 1
+export const COEFFICIENTS_REGIONAUX: Record<
+  string,
+  { nom: string; coef: number; departements: string[] }
+> = {
+  "11": {
+    nom: "Île-de-France",
+    coef: 1.12,
+    departements: ["75", "77", "78", "91", "92", "93", "94", "95"],
+  },
+  "24": {
+    nom: "Centre-Val de Loire",
+    coef: 0.95,
+    departements: ["18", "28", "36", "37", "41", "45"],
+  },
+  "27": {
+    nom: "Bourgogne-Franche-Comté",
+    coef: 0.95,
+    departements: ["21", "25", "39", "58", "70", "71", "89", "90"],
+  },
+  "28": {
+    nom: "Normandie",
+    coef: 0.96,
+    departements: ["14", "27", "50", "61", "76"],
+  },
+  "32": {
+    nom: "Hauts-de-France",
+    coef: 0.96,
+    departements: ["02", "59", "60", "62", "80"],
+  },
+  "44": {
+    nom: "Grand Est",
+    coef: 0.97,
+    departements: ["08", "10", "51", "52", "54", "55", "57", "67", "68", "88"],
+  },
+  "52": {
+    nom: "Pays de la Loire",
+    coef: 0.96,
+    departements: ["44", "49", "53", "72", "85"],
+  },
+  "53": { nom: "Bretagne", coef: 0.97, departements: ["22", "29", "35", "56"] },
+  "75": {
+    nom: "Nouvelle-Aquitaine",
+    coef: 0.98,
+    departements: [
+      "16",
+      "17",
+      "19",
+      "23",
+      "24",
+      "33",
+      "40",
+      "47",
+      "64",
+      "79",
+      "86",
+      "87",
+    ],
+  },
+  "76": {
+    nom: "Occitanie",
+    coef: 0.99,
+    departements: [
+      "09",
+      "11",
+      "12",
+      "30",
+      "31",
+      "32",
+      "34",
+      "46",
+      "48",
+      "65",
+      "66",
+      "81",
+      "82",
+    ],
+  },
+  "84": {
+    nom: "Auvergne-Rhône-Alpes",
+    coef: 1.03,
+    departements: [
+      "01",
+      "03",
+      "07",
+      "15",
+      "26",
+      "38",
+      "42",
+      "43",
+      "63",
+      "69",
+      "73",
+      "74",
+    ],
+  },
+  "93": {
+    nom: "Provence-Alpes-Côte d'Azur",
+    coef: 1.08,
+    departements: ["04", "05", "06", "13", "83", "84"],
+  },
+  "94": { nom: "Corse", coef: 1.12, departements: ["2A", "2B"] },
+  "01": { nom: "Guadeloupe", coef: 1.25, departements: ["971"] },
+  "02": { nom: "Martinique", coef: 1.25, departements: ["972"] },
+  "03": { nom: "Guyane", coef: 1.35, departements: ["973"] },
+  "04": { nom: "La Réunion", coef: 1.22, departements: ["974"] },
+  "06": { nom: "Mayotte", coef: 1.35, departements: ["976"] },
+};
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+export type IndexationBt01 = {
+  date_base: string;
+  date_valeur: string;
+  indice_base: number | null;
+  indice_valeur: number | null;
+  // Mois effectivement trouvés (dernier indice publié ≤ date demandée)
+  mois_base: string | null;
+  mois_valeur: string | null;
+  coef: number;
+  source: "bt01" | "non_indexe";
+  error?: string;
+};
+
+export type ReferenceCoutsInput = {
+  commune_insee?: string | null;
+  qualite?: QualiteConstruction | null;
+  sol?: NatureSol | null;
+  indexation?: IndexationBt01 | null;
+  // Surcharges du profil promoteur (couts.reference)
+  overrides?: {
+    coefficient_regional?: number;
+    couts_base_m2?: Partial<
+      Record<TypeBatiment, Partial<Record<QualiteConstruction, number>>>
+    >;
+    stationnement_place?: { aerien?: number; sous_sol?: number[] };
+  } | null;
+};
+
+export type ReferenceCouts = ReturnType<typeof resolveReferenceCouts>;
+
+// -------------------------------------------------
+// Helpers
+// -------------------------------------------------
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function round(value: number, digits = 0): number {
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
+}
+
+// "2025-03-14" | "2025-03" → "2025-03-01"
+function premierDuMois(date: string): string {
+  return `${date.slice(0, 7)}-01`;
+}
+
+export function regionOf(
+  communeInsee: string | null | undefined,
+): string | null {
+  if (!communeInsee) return null;
+  const dep = departementOf(communeInsee);
+  for (const [code, r] of Object.entries(COEFFICIENTS_REGIONAUX)) {
+    if (r.departements.includes(dep)) return code;
+  }
+  return null;
+}
+
+export function parseQualite(value: unknown): QualiteConstruction | null {
+  return QUALITES.includes(value as QualiteConstruction)
+    ? value as QualiteConstruction
+    : null;
+}
+
+export function parseNatureSol(value: unknown): NatureSol | null {
+  return value === "normal" || value === "mediocre" || value === "mauvais"
+    ? value
+    : null;
+}
+
+// -------------------------------------------------
+// Indexation BT01
+// -------------------------------------------------
+
+async function fetchIndiceBt01(
+  supabase: SupabaseClient,
+  date: string,
+): Promise<{ mois: string; valeur: number } | null> {
+  const { data, error } = await supabase
+    .from("indice_bt01")
+    .select("mois, valeur")
+    .lte("mois", premierDuMois(date))
+    .order("mois", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  const valeur = toNumber(data?.valeur);
+  return data && valeur != null && valeur > 0
+    ? { mois: String(data.mois).slice(0, 7), valeur }
+    : null;
+}
+
+/**
+ * Coefficient d'indexation BT01 entre la date de base des coûts et la date
+ * de valeur (défaut : aujourd'hui). Sans indice en base : coefficient 1.
+ */
+export async function fetchIndexationBt01(
+  supabase: SupabaseClient,
+  dateValeur: string,
+  dateBase: string = DATE_BASE_COUTS,
+): Promise<IndexationBt01> {
+  const nonIndexe: IndexationBt01 = {
+    date_base: dateBase,
+    date_valeur: dateValeur,
+    indice_base: null,
+    indice_valeur: null,
+    mois_base: null,
+    mois_valeur: null,
+    coef: 1,
+    source: "non_indexe",
+  };
+
+  try {
+    const [base, valeur] = await Promise.all([
+      fetchIndiceBt01(supabase, dateBase),
+      fetchIndiceBt01(supabase, dateValeur),
+    ]);
+    if (!base || !valeur) return nonIndexe;
+
+    return {
+      date_base: dateBase,
+      date_valeur: dateValeur,
+      indice_base: base.valeur,
+      indice_valeur: valeur.valeur,
+      mois_base: base.mois,
+      mois_valeur: valeur.mois,
+      coef: valeur.valeur / base.valeur,
+      source: "bt01",
+    };
+  } catch (err) {
+    console.error("Erreur indice_bt01:", err);
+    return {
+      ...nonIndexe,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+// -------------------------------------------------
+// Coûts de référence
+// -------------------------------------------------
+
+/**
+ * Coûts unitaires à appliquer : base (qualité) × coefficient régional ×
+ * indexation BT01, et surcoûts de stationnement / sol au même coefficient.
+ */
+export function resolveReferenceCouts(input: ReferenceCoutsInput) {
+  const qualite = input.qualite ?? "standard";
+  const sol = input.sol ?? "normal";
+  const regionCode = regionOf(input.commune_insee);
+  const region = regionCode ? COEFFICIENTS_REGIONAUX[regionCode] : null;
+
+  const coefRegional = toNumber(input.overrides?.coefficient_regional) ??
+    region?.coef ?? 1;
+  const coefIndex = input.indexation?.coef ?? 1;
+  const coef = coefRegional * coefIndex;
+
+  const coutM2 = {} as Record<TypeBatiment, number>;
+  for (const type of Object.keys(COUTS_BASE_M2) as TypeBatiment[]) {
+    const base = toNumber(input.overrides?.couts_base_m2?.[type]?.[qualite]) ??
+      COUTS_BASE_M2[type][qualite];
+    coutM2[type] = base * coef;
+  }
+
+  const placeOverrides = input.overrides?.stationnement_place;
+  const sousSol = Array.isArray(placeOverrides?.sous_sol) &&
+      placeOverrides.sous_sol.length
+    ? placeOverrides.sous_sol.map((v, i) =>
+      toNumber(v) ?? COUTS_STATIONNEMENT_PLACE.sous_sol[i] ??
+        COUTS_STATIONNEMENT_PLACE.sous_sol.at(-1)!
+    )
+    : COUTS_STATIONNEMENT_PLACE.sous_sol;
+
+  return {
+    qualite,
+    sol,
+    region_code: regionCode,
+    region_nom: region?.nom ?? null,
+    coef_regional: coefRegional,
+    indexation: input.indexation ?? null,
+    coef_total: coef,
+    cout_m2: coutM2,
+    stationnement_place: {
+      aerien: (toNumber(placeOverrides?.aerien) ??
+        COUTS_STATIONNEMENT_PLACE.aerien) * coef,
+      sous_sol: sousSol.map((v) => v * coef),
+    },
+    fondations_speciales_m2_emprise: SURCOUTS_SOL[sol].fondations_m2_emprise *
+      coef,
+    cuvelage_sous_sol_pct: SURCOUTS_SOL[sol].cuvelage_sous_sol_pct,
+  };
+}
+
+/**
+ * Répartit les places entre niveaux de sous-sol (capacité d'un niveau =
+ * emprise de sous-sol / surface par place) et, au-delà des niveaux
+ * autorisés, en aérien. niveauxSousSol absent : autant de niveaux que
+ * nécessaire.
+ */
+export function computeCoutStationnement(
+  ref: ReferenceCouts,
+  input: {
+    places: number;
+    emprise_sous_sol_m2: number;
+    niveaux_sous_sol?: number | null;
+    coef?: number;
+  },
+) {
+  const coef = input.coef ?? 1;
+  const places = Math.max(0, Math.round(input.places));
+  const parNiveau = Math.floor(
+    Math.max(0, input.emprise_sous_sol_m2) / SURFACE_SOUS_SOL_PAR_PLACE_M2,
+  );
+
+  const niveauxMax = input.niveaux_sous_sol != null
+    ? Math.max(0, Math.round(input.niveaux_sous_sol))
+    : parNiveau > 0
+    ? Math.ceil(places / parNiveau)
+    : 0;
+
+  const niveaux = [];
+  let restantes = places;
+  for (let n = 1; n <= niveauxMax && restantes > 0 && parNiveau > 0; n++) {
+    const p = Math.min(parNiveau, restantes);
+    const base = ref.stationnement_place.sous_sol[
+      Math.min(n, ref.stationnement_place.sous_sol.length) - 1
+    ];
+    const coutPlace = base * (1 + ref.cuvelage_sous_sol_pct) * coef;
+    niveaux.push({
+      niveau: -n,
+      places: p,
+      cout_place: round(coutPlace, 0),
+      cout: coutPlace * p,
+    });
+    restantes -= p;
+  }
+
+  const coutAerien = restantes * ref.stationnement_place.aerien * coef;
+  const coutTotal = niveaux.reduce((acc, n) => acc + n.cout, 0) + coutAerien;
+
+  return {
+    places,
+    places_par_niveau: parNiveau,
+    niveaux_sous_sol: niveaux.length,
+    niveaux: niveaux.map((n) => ({ ...n, cout: round(n.cout, 0) })),
+    places_aeriennes: restantes,
+    cout_place_aerienne: round(ref.stationnement_place.aerien * coef, 0),
+    cout_total: coutTotal,
+    cout_moyen_place: places > 0 ? coutTotal / places : 0,
+  };
+}
@@ -0,0 +1,387 @@
+// supabase/functions/_shared/dvf.ts
+//
+// Estimation foncière par comparables DVF (ventes de terrains non bâtis)
+//  - ventes autour du terrain (rayon), sur une fenêtre de dates, de surface
+//    comparable : RPC dvf_terrains_comparables (table dvf_mutations,
+//    chargée par scripts/dvf-import.ts)
+//  - rayon élargi par paliers tant que les comparables sont trop peu nombreux
+//  - filtre optionnel sur la zone PLU des parcelles vendues
+//  - prix médian €/m² de terrain (valeurs extrêmes écartées), €/m² de SDP
+//    potentielle et indice de confiance
+//
+// Le client Supabase est fourni par la fonction appelante (service role).
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// -------------------------------------------------
+// Critères par défaut
+// -------------------------------------------------
+
+export const RAYON_DEFAUT_M = 500;
+export const RAYON_MAX_DEFAUT_M = 5000;
+export const FENETRE_DEFAUT_MOIS = 36;
+// Surface des comparables : entre 1/2 et 2 fois celle du terrain étudié
+export const SURFACE_RATIO_MIN_DEFAUT = 0.5;
+export const SURFACE_RATIO_MAX_DEFAUT = 2;
+// Comparables visés avant d'arrêter d'élargir le rayon
+export const MIN_COMPARABLES_DEFAUT = 5;
+// En dessous, pas d'estimation
+const MIN_COMPARABLES_ESTIMATION = 3;
+// Comparables retenus (les plus proches) et candidats lus par palier
+const MAX_COMPARABLES = 30;
+const MAX_CANDIDATS = 200;
+// Paliers de rayon interrogés au plus (le dernier est toujours le rayon max)
+const MAX_PALIERS_RAYON = 8;
+// Bornes de vraisemblance €/m² de terrain
+const PRIX_M2_MIN = 5;
+const PRIX_M2_MAX = 20000;
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+export type ComparablesInput = {
+  lon: number;
+  lat: number;
+  surface_terrain_m2: number;
+  // SDP potentielle du terrain étudié (prix par m² de SDP)
+  sdp_potentielle_m2?: number | null;
+  rayon_m?: number | null;
+  rayon_max_m?: number | null;
+  fenetre_mois?: number | null;
+  surface_ratio_min?: number | null;
+  surface_ratio_max?: number | null;
+  // Zones PLU admises pour les parcelles vendues (null : pas de filtre)
+  zone_codes?: string[] | null;
+  // Uniquement les ventes classées « terrain à bâtir » (nature de culture AB)
+  terrains_a_batir_seulement?: boolean;
+  min_comparables?: number | null;
+  // Date de référence de la fenêtre (défaut : aujourd'hui)
+  date_reference?: string | null;
+};
+
+export type ComparableDvf = {
+  id_mutation: string;
+  date_mutation: string;
+  valeur_fonciere: number;
+  surface_terrain_m2: number;
+  prix_m2: number;
+  distance_m: number;
+  code_commune: string | null;
+  id_parcelles: string[];
+  zone_code: string | null;
+  terrain_a_batir: boolean;
+  // false : valeur extrême écartée du calcul
+  retenu: boolean;
+};
+
+export type NiveauConfiance = "forte" | "moyenne" | "faible";
+
+export type EstimationFonciereDvf = {
+  valeur_terrain: number | null;
+  prix_m2_terrain: number | null;
+  prix_m2_sdp: number | null;
+  confiance: {
+    score: number;
+    niveau: NiveauConfiance;
+    nb_comparables: number;
+    dispersion_pct: number | null;
+    distance_mediane_m: number | null;
+    anciennete_mediane_mois: number | null;
+  } | null;
+  criteres: {
+    centre: [number, number];
+    rayon_m: number;
+    fenetre_mois: number;
+    date_min: string;
+    surface_min_m2: number;
+    surface_max_m2: number;
+    zone_codes: string[] | null;
+    terrains_a_batir_seulement: boolean;
+  };
+  comparables: ComparableDvf[];
+  meta: {
+    reason:
+      | "ok"
+      | "dvf_error"
+      | "dvf_not_enough_samples"
+      | "dvf_exception";
+    error?: string;
+    zone_filter_error?: string;
+    paliers_rayon_m: number[];
+  };
+};
+
+// -------------------------------------------------
+// Helpers
+// -------------------------------------------------
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function positiveOr(value: unknown, fallback: number): number {
+  const n = toNumber(value);
+  return n != null && n > 0 ? n : fallback;
+}
+
+function round(value: number, digits = 0): number {
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
+}
+
+function quantile(sorted: number[], q: number): number {
+  const idx = q * (sorted.length - 1);
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+}
+
+function median(values: number[]): number | null {
+  if (!values.length) return null;
+  return quantile([...values].sort((a, b) => a - b), 0.5);
+}
+
+function moisEntre(from: string, to: Date): number {
+  const d = new Date(from);
+  return (to.getTime() - d.getTime()) / (1000 * 60 * 60 * 24 * 30.44);
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Zone PLU de la première parcelle de chaque vente (plu_zone_codes_for_parcelles).
+ */
+async function fetchZonesParcelles(
+  supabase: SupabaseClient,
+  parcelIds: string[],
+): Promise<Map<string, string | null>> {
+  const { data, error } = await supabase.rpc("plu_zone_codes_for_parcelles", {
+    p_parcelle_ids: parcelIds,
+  });
+  if (error) throw new Error(error.message);
+
+  return new Map(
+    ((data ?? []) as any[]).map((r) => [String(r.parcelle_id), r.zone_code ?? null]),
+  );
+}
+
+/**
+ * Indice de confiance : nombre de comparables, dispersion des prix,
+ * proximité et fraîcheur des ventes.
+ */
+function computeConfiance(
+  retenus: ComparableDvf[],
+  prixMedian: number,
+  rayonMaxM: number,
+  fenetreMois: number,
+  dateRef: Date,
+): NonNullable<EstimationFonciereDvf["confiance"]> {
+  const prix = retenus.map((c) => c.prix_m2).sort((a, b) => a - b);
+  const dispersion = prix.length >= 2 && prixMedian > 0
+    ? (quantile(prix, 0.75) - quantile(prix, 0.25)) / prixMedian
+    : null;
+  const distance = median(retenus.map((c) => c.distance_m)) ?? rayonMaxM;
+  const anciennete = median(
+    retenus.map((c) => moisEntre(c.date_mutation, dateRef)),
+  ) ?? fenetreMois;
+
+  const score = 0.4 * clamp01(retenus.length / 15) +
+    0.3 * clamp01(1 - (dispersion ?? 1)) +
+    0.15 * clamp01(1 - distance / rayonMaxM) +
+    0.15 * clamp01(1 - anciennete / fenetreMois);
+
+  return {
+    score: round(score, 2),
+    niveau: score >= 0.7 ? "forte" : score >= 0.4 ? "moyenne" : "faible",
+    nb_comparables: retenus.length,
+    dispersion_pct: dispersion != null ? round(dispersion * 100, 1) : null,
+    distance_mediane_m: round(distance, 0),
+    anciennete_mediane_mois: round(anciennete, 1),
+  };
+}
+
+// -------------------------------------------------
+// Estimation foncière via DVF
+// -------------------------------------------------
+
+/**
+ * Valeur du terrain par comparables DVF. En cas d'erreur ou de comparables
+ * insuffisants, valeur_terrain = null et meta.reason l'explique.
+ */
+export async function estimateFoncierFromComparables(
+  supabase: SupabaseClient,
+  input: ComparablesInput,
+): Promise<EstimationFonciereDvf> {
+  const dateRef = input.date_reference
+    ? new Date(input.date_reference)
+    : new Date();
+  const fenetreMois = toNumber(input.fenetre_mois) ?? FENETRE_DEFAUT_MOIS;
+  const dateMin = new Date(dateRef);
+  dateMin.setMonth(dateMin.getMonth() - fenetreMois);
+
+  const surfaceMin = input.surface_terrain_m2 *
+    (toNumber(input.surface_ratio_min) ?? SURFACE_RATIO_MIN_DEFAUT);
+  const surfaceMax = input.surface_terrain_m2 *
+    (toNumber(input.surface_ratio_max) ?? SURFACE_RATIO_MAX_DEFAUT);
+  // Rayons nuls ou négatifs : valeurs par défaut
+  const rayonMin = positiveOr(input.rayon_m, RAYON_DEFAUT_M);
+  const rayonMax = Math.max(
+    rayonMin,
+    positiveOr(input.rayon_max_m, RAYON_MAX_DEFAUT_M),
+  );
+  const minComparables = toNumber(input.min_comparables) ??
+    MIN_COMPARABLES_DEFAUT;
+  const zoneCodes = input.zone_codes?.length ? input.zone_codes : null;
+  const tabSeulement = input.terrains_a_batir_seulement === true;
+
+  // Paliers : rayon demandé, doublé jusqu'au rayon max
+  const paliers: number[] = [];
+  for (
+    let r = rayonMin;
+    r < rayonMax && paliers.length < MAX_PALIERS_RAYON - 1;
+    r *= 2
+  ) {
+    paliers.push(r);
+  }
+  paliers.push(rayonMax);
+
+  const result: EstimationFonciereDvf = {
+    valeur_terrain: null,
+    prix_m2_terrain: null,
+    prix_m2_sdp: null,
+    confiance: null,
+    criteres: {
+      centre: [input.lon, input.lat],
+      rayon_m: rayonMin,
+      fenetre_mois: fenetreMois,
+      date_min: dateMin.toISOString().slice(0, 10),
+      surface_min_m2: round(surfaceMin, 0),
+      surface_max_m2: round(surfaceMax, 0),
+      zone_codes: zoneCodes,
+      terrains_a_batir_seulement: tabSeulement,
+    },
+    comparables: [],
+    meta: { reason: "dvf_not_enough_samples", paliers_rayon_m: [] },
+  };
+
+  try {
+    let comparables: ComparableDvf[] = [];
+    const zonesConnues = new Map<string, string | null>();
+
+    for (const rayon of paliers) {
+      result.criteres.rayon_m = rayon;
+      result.meta.paliers_rayon_m.push(rayon);
+
+      const { data, error } = await supabase.rpc("dvf_terrains_comparables", {
+        p_lon: input.lon,
+        p_lat: input.lat,
+        p_rayon_m: rayon,
+        p_date_min: result.criteres.date_min,
+        p_surface_min: surfaceMin,
+        p_surface_max: surfaceMax,
+        p_limit: MAX_CANDIDATS,
+      });
+
+      if (error) {
+        console.error("Erreur dvf_terrains_comparables:", error);
+        result.meta.reason = "dvf_error";
+        result.meta.error = error.message;
+        return result;
+      }
+
+      comparables = ((data ?? []) as any[])
+        .map((r) => {
+          const valeur = toNumber(r.valeur_fonciere) ?? 0;
+          const surface = toNumber(r.surface_terrain_m2) ?? 0;
+          return {
+            id_mutation: String(r.id_mutation),
+            date_mutation: String(r.date_mutation),
+            valeur_fonciere: valeur,
+            surface_terrain_m2: surface,
+            prix_m2: surface > 0 ? valeur / surface : 0,
+            distance_m: round(toNumber(r.distance_m) ?? 0, 0),
+            code_commune: r.code_commune ?? null,
+            id_parcelles: (r.id_parcelles ?? []) as string[],
+            zone_code: null,
+            terrain_a_batir: r.terrain_a_batir === true,
+            retenu: true,
+          } as ComparableDvf;
+        })
+        .filter((c) => c.prix_m2 >= PRIX_M2_MIN && c.prix_m2 <= PRIX_M2_MAX)
+        .filter((c) => !tabSeulement || c.terrain_a_batir);
+
+      // Filtre zone PLU (zone de la première parcelle de chaque vente)
+      if (zoneCodes && comparables.length) {
+        const aChercher = comparables
+          .map((c) => c.id_parcelles[0])
+          .filter((id) => id && !zonesConnues.has(id));
+        try {
+          if (aChercher.length) {
+            const zones = await fetchZonesParcelles(supabase, aChercher);
+            for (const id of aChercher) zonesConnues.set(id, zones.get(id) ?? null);
+          }
+          comparables = comparables
+            .map((c) => ({
+              ...c,
+              zone_code: zonesConnues.get(c.id_parcelles[0]) ?? null,
+            }))
+            .filter((c) => c.zone_code != null && zoneCodes.includes(c.zone_code));
+        } catch (err) {
+          // Zonage indisponible : comparables conservés sans filtre
+          result.meta.zone_filter_error = err instanceof Error
+            ? err.message
+            : String(err);
+        }
+      }
+
+      if (comparables.length >= minComparables) break;
+    }
+
+    comparables = comparables.slice(0, MAX_COMPARABLES);
+
+    // Valeurs extrêmes : hors [Q1 - 1,5 × IQR ; Q3 + 1,5 × IQR]
+    if (comparables.length >= MIN_COMPARABLES_ESTIMATION + 2) {
+      const prix = comparables.map((c) => c.prix_m2).sort((a, b) => a - b);
+      const q1 = quantile(prix, 0.25);
+      const q3 = quantile(prix, 0.75);
+      const iqr = q3 - q1;
+      for (const c of comparables) {
+        c.retenu = c.prix_m2 >= q1 - 1.5 * iqr && c.prix_m2 <= q3 + 1.5 * iqr;
+      }
+    }
+
+    result.comparables = comparables.map((c) => ({
+      ...c,
+      prix_m2: round(c.prix_m2, 0),
+    }));
+
+    const retenus = comparables.filter((c) => c.retenu);
+    if (retenus.length < MIN_COMPARABLES_ESTIMATION) return result;
+
+    const prixMedian = median(retenus.map((c) => c.prix_m2)) as number;
+    const valeurTerrain = prixMedian * input.surface_terrain_m2;
+    const sdp = toNumber(input.sdp_potentielle_m2);
+
+    result.valeur_terrain = round(valeurTerrain, 0);
+    result.prix_m2_terrain = round(prixMedian, 0);
+    result.prix_m2_sdp = sdp && sdp > 0 ? round(valeurTerrain / sdp, 0) : null;
+    result.confiance = computeConfiance(
+      retenus,
+      prixMedian,
+      result.criteres.rayon_m,
+      fenetreMois,
+      dateRef,
+    );
+    result.meta.reason = "ok";
+    return result;
+  } catch (e) {
+    result.meta.reason = "dvf_exception";
+    result.meta.error = e instanceof Error ? e.message : String(e);
+    return result;
+  }
+}
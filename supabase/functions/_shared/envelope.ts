@@ -0,0 +1,333 @@
+// supabase/functions/_shared/envelope.ts
+//
+// Enveloppe constructible d'une parcelle à partir des retraits PLU
+//  - classification des limites : rue / latérale / fond de parcelle
+//    (détection de la rue : segments connus, parcelles voisines ou point de voirie)
+//  - retraits appliqués comme « buffers » intérieurs par limite
+//  - sortie : emprise constructible (GeoJSON WGS84) + surface
+//
+// Les calculs se font dans une projection métrique locale centrée sur la parcelle.
+
+import {
+  centroid,
+  differenceGeometries,
+  geodesicAreaM2,
+  makeLocalProjection,
+  mapPositions,
+  pointInPolygon,
+  type PolygonGeometry,
+  polygonsOf,
+  type Position,
+  unionGeometries,
+} from "./geo.ts";
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+export type EdgeRole = "rue" | "laterale" | "fond";
+
+export type RueDetection =
+  | "segments_rue"
+  | "parcelles_voisines"
+  | "point_voirie"
+  | "aucune";
+
+export type EnvelopeOptions = {
+  // Limites sur rue déjà connues (ex : héritées de la parcelle mère)
+  rue_segments?: [Position, Position][];
+  neighbours?: any[];
+  voirie_point?: Position | null;
+};
+
+export type Setbacks = {
+  rue_m: number;
+  lateraux_m: number;
+  fond_m: number;
+};
+
+export type ClassifiedEdge = {
+  polygon_index: number;
+  edge_index: number;
+  role: EdgeRole;
+  length_m: number;
+  setback_m: number;
+};
+
+export type EnvelopeResult = {
+  footprint: PolygonGeometry | null;
+  surface_m2: number;
+  surface_parcelle_m2: number;
+  detection_rue: RueDetection;
+  lineaire_facade_rue_m: number;
+  aretes: ClassifiedEdge[];
+};
+
+type XY = [number, number];
+
+type MetricEdge = {
+  polygon_index: number;
+  edge_index: number;
+  a: XY;
+  b: XY;
+  length: number;
+  // Normale unitaire vers l'extérieur de la parcelle
+  normal: XY;
+};
+
+// Distance de sondage perpendiculaire à une limite pour savoir
+// si l'on tombe chez un voisin ou sur le domaine public (m)
+const PROBE_DISTANCE_M = 1.5;
+
+// Une limite est sur un segment de rue connu si son milieu en est à moins de (m)
+const SEGMENT_MATCH_M = 0.1;
+
+// Une limite mitoyenne dont la normale s'oppose à celle de la rue
+// (angle > 120°) est considérée comme fond de parcelle
+const FOND_DOT_THRESHOLD = -0.5;
+
+const CAPSULE_STEPS = 8;
+
+// -------------------------------------------------
+// Helpers
+// -------------------------------------------------
+
+function metricEdges(
+  geometry: any,
+  forward: (p: Position) => XY,
+): MetricEdge[] {
+  const edges: MetricEdge[] = [];
+
+  polygonsOf(geometry).forEach((poly, polygonIndex) => {
+    const ring = (poly[0] ?? []).map(forward);
+    if (ring.length < 4) return;
+
+    // Sens de parcours du contour extérieur (aire signée > 0 ⇒ anti-horaire)
+    let signed = 0;
+    for (let i = 1; i < ring.length; i++) {
+      signed += ring[i - 1][0] * ring[i][1] - ring[i][0] * ring[i - 1][1];
+    }
+    const ccw = signed > 0;
+
+    for (let i = 1; i < ring.length; i++) {
+      const a = ring[i - 1];
+      const b = ring[i];
+      const dx = b[0] - a[0];
+      const dy = b[1] - a[1];
+      const length = Math.hypot(dx, dy);
+      if (length < 0.01) continue;
+
+      const ux = dx / length;
+      const uy = dy / length;
+
+      edges.push({
+        polygon_index: polygonIndex,
+        edge_index: i - 1,
+        a,
+        b,
+        length,
+        normal: ccw ? [uy, -ux] : [-uy, ux],
+      });
+    }
+  });
+
+  return edges;
+}
+
+function distancePointToSegment(p: XY, a: XY, b: XY): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const len2 = dx * dx + dy * dy;
+  let t = len2 > 0 ? ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / len2 : 0;
+  t = Math.max(0, Math.min(1, t));
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+}
+
+/**
+ * Segment [a, b] épaissi de d de part et d'autre, extrémités arrondies
+ * (somme de Minkowski segment ⊕ disque).
+ */
+function capsule(a: XY, b: XY, d: number): XY[] {
+  const angle = Math.atan2(b[1] - a[1], b[0] - a[0]);
+  const pts: XY[] = [];
+
+  for (let k = 0; k <= CAPSULE_STEPS; k++) {
+    const th = angle - Math.PI / 2 + (Math.PI * k) / CAPSULE_STEPS;
+    pts.push([b[0] + d * Math.cos(th), b[1] + d * Math.sin(th)]);
+  }
+  for (let k = 0; k <= CAPSULE_STEPS; k++) {
+    const th = angle + Math.PI / 2 + (Math.PI * k) / CAPSULE_STEPS;
+    pts.push([a[0] + d * Math.cos(th), a[1] + d * Math.sin(th)]);
+  }
+
+  pts.push(pts[0]);
+  return pts;
+}
+
+// -------------------------------------------------
+// Classification des limites
+// -------------------------------------------------
+
+/**
+ * Attribue un rôle (rue / latérale / fond) à chaque limite extérieure.
+ *
+ * - Segments de rue fournis : une limite est sur rue si elle est portée
+ *   par l'un de ces segments.
+ * - Sinon, parcelles voisines fournies : une limite est sur rue si, juste derrière,
+ *   on ne tombe dans aucune parcelle (domaine public non cadastré).
+ * - Sinon, point de voirie fourni (ex : adresse géocodée) : la limite
+ *   la plus proche de ce point est sur rue.
+ * - Sinon : aucune rue détectée, toutes les limites sont latérales.
+ */
+export function classifyParcelEdges(
+  geometry: any,
+  options: EnvelopeOptions = {},
+): {
+  detection: RueDetection;
+  edges: (MetricEdge & { role: EdgeRole })[];
+  forward: (p: Position) => XY;
+  inverse: (xy: XY) => Position;
+} | null {
+  const origin = centroid(geometry);
+  if (!origin) return null;
+
+  const proj = makeLocalProjection(origin);
+  const edges = metricEdges(geometry, proj.forward);
+  const neighbours = (options.neighbours ?? []).filter(Boolean);
+
+  let detection: RueDetection = "aucune";
+  const isRue = new Array(edges.length).fill(false);
+
+  if (options.rue_segments?.length) {
+    detection = "segments_rue";
+
+    const segments = options.rue_segments.map(
+      ([a, b]) => [proj.forward(a), proj.forward(b)] as [XY, XY],
+    );
+    edges.forEach((e, i) => {
+      const mid: XY = [(e.a[0] + e.b[0]) / 2, (e.a[1] + e.b[1]) / 2];
+      isRue[i] = segments.some(([a, b]) =>
+        distancePointToSegment(mid, a, b) <= SEGMENT_MATCH_M
+      );
+    });
+  } else if (neighbours.length > 0) {
+    detection = "parcelles_voisines";
+
+    edges.forEach((e, i) => {
+      let outside = 0;
+      for (const t of [0.25, 0.5, 0.75]) {
+        const probe = proj.inverse([
+          e.a[0] + t * (e.b[0] - e.a[0]) + e.normal[0] * PROBE_DISTANCE_M,
+          e.a[1] + t * (e.b[1] - e.a[1]) + e.normal[1] * PROBE_DISTANCE_M,
+        ]);
+        if (!neighbours.some((g) => pointInPolygon(probe, g))) outside++;
+      }
+      isRue[i] = outside >= 2;
+    });
+  } else if (options.voirie_point) {
+    detection = "point_voirie";
+
+    const p = proj.forward(options.voirie_point);
+    let best = -1;
+    let bestDist = Infinity;
+    edges.forEach((e, i) => {
+      const d = distancePointToSegment(p, e.a, e.b);
+      if (d < bestDist) {
+        bestDist = d;
+        best = i;
+      }
+    });
+    if (best >= 0) isRue[best] = true;
+  }
+
+  // Direction moyenne (pondérée) de la façade sur rue
+  let rx = 0;
+  let ry = 0;
+  edges.forEach((e, i) => {
+    if (!isRue[i]) return;
+    rx += e.normal[0] * e.length;
+    ry += e.normal[1] * e.length;
+  });
+  const rNorm = Math.hypot(rx, ry);
+
+  return {
+    detection,
+    edges: edges.map((e, i) => {
+      let role: EdgeRole = "laterale";
+      if (isRue[i]) role = "rue";
+      else if (
+        rNorm > 0 &&
+        (e.normal[0] * rx + e.normal[1] * ry) / rNorm < FOND_DOT_THRESHOLD
+      ) {
+        role = "fond";
+      }
+      return { ...e, role };
+    }),
+    forward: proj.forward,
+    inverse: proj.inverse,
+  };
+}
+
+// -------------------------------------------------
+// Enveloppe constructible
+// -------------------------------------------------
+
+/**
+ * Applique les retraits (rue, latéraux, fond) comme buffers intérieurs :
+ * emprise = parcelle − ⋃ (limite ⊕ disque de rayon retrait).
+ */
+export function computeBuildableEnvelope(
+  geometry: any,
+  setbacks: Setbacks,
+  options: EnvelopeOptions = {},
+): EnvelopeResult | null {
+  const classified = classifyParcelEdges(geometry, options);
+  if (!classified) return null;
+
+  const { edges, forward, inverse, detection } = classified;
+
+  const setbackFor = (role: EdgeRole) =>
+    Math.max(
+      0,
+      role === "rue"
+        ? setbacks.rue_m
+        : role === "fond"
+        ? setbacks.fond_m
+        : setbacks.lateraux_m,
+    );
+
+  const strips = edges
+    .filter((e) => setbackFor(e.role) > 0)
+    .map((e) => ({
+      type: "Polygon",
+      coordinates: [capsule(e.a, e.b, setbackFor(e.role))],
+    }));
+
+  const parcelMetric = mapPositions(geometry, (p) => forward(p));
+  const stripsUnion = strips.length > 0 ? unionGeometries(strips) : null;
+
+  const footprintMetric = stripsUnion
+    ? differenceGeometries(parcelMetric, stripsUnion)
+    : parcelMetric;
+
+  const footprint = footprintMetric
+    ? mapPositions(footprintMetric, (xy) => inverse(xy))
+    : null;
+
+  return {
+    footprint,
+    surface_m2: footprint ? geodesicAreaM2(footprint) : 0,
+    surface_parcelle_m2: geodesicAreaM2(geometry),
+    detection_rue: detection,
+    lineaire_facade_rue_m: edges
+      .filter((e) => e.role === "rue")
+      .reduce((sum, e) => sum + e.length, 0),
+    aretes: edges.map((e) => ({
+      polygon_index: e.polygon_index,
+      edge_index: e.edge_index,
+      role: e.role,
+      length_m: Math.round(e.length * 100) / 100,
+      setback_m: setbackFor(e.role),
+    })),
+  };
+}
@@ -0,0 +1,731 @@
+// supabase/functions/_shared/geo.ts
+//
+// Bibliothèque géométrique partagée pour les parcelles cadastrales (GeoJSON WGS84)
+//  - test d'appartenance point / Polygon / MultiPolygon (avec trous)
+//  - distance d'un point au contour d'une parcelle (en mètres)
+//  - résolution de la parcelle pour un point (contenance, sinon arête la plus proche)
+//  - mesures : aire géodésique, centroïde, périmètre, arêtes, bounding box
+//  - projections : Lambert-93 (EPSG:2154) ↔ WGS84, projection métrique locale
+//  - opérations booléennes : union, intersection, différence
+//  - simplification (Douglas-Peucker) pour l'affichage cartographique
+//
+// Dépendances :
+//  - polygon-clipping (esm.sh) pour les opérations booléennes
+
+import polygonClipping from "https://esm.sh/polygon-clipping@0.15.7";
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+export type Position = [number, number]; // [lon, lat]
+export type Ring = Position[];
+export type PolygonCoords = Ring[];
+
+export type PolygonGeometry =
+  | { type: "Polygon"; coordinates: PolygonCoords }
+  | { type: "MultiPolygon"; coordinates: PolygonCoords[] };
+
+export type ParcelMatchMethod = "point_in_polygon" | "nearest_edge";
+
+export type ParcelMatch<F = any> = {
+  feature: F;
+  method: ParcelMatchMethod;
+  // Distance entre le point et le contour de la parcelle retenue (m)
+  distance_to_boundary_m: number;
+};
+
+// Rayon moyen de la Terre (m)
+export const EARTH_RADIUS_M = 6371008.8;
+
+// Au-delà de cette distance, on considère qu'aucune parcelle ne correspond
+// (point en mer, hors commune, etc.)
+const DEFAULT_MAX_FALLBACK_DISTANCE_M = 50;
+
+// -------------------------------------------------
+// Helpers géométrie
+// -------------------------------------------------
+
+/**
+ * Renvoie la liste des polygones (chacun = [extérieur, ...trous])
+ * d'une géométrie Polygon / MultiPolygon, ou [] pour tout autre type.
+ */
+export function polygonsOf(geometry: any): PolygonCoords[] {
+  if (!geometry || !geometry.coordinates) return [];
+  if (geometry.type === "Polygon") return [geometry.coordinates];
+  if (geometry.type === "MultiPolygon") return geometry.coordinates;
+  return [];
+}
+
+/**
+ * Ray casting (règle pair-impair) sur un anneau.
+ */
+export function pointInRing(pt: Position, ring: Ring): boolean {
+  const [x, y] = pt;
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+
+    const intersects = (yi > y) !== (yj > y) &&
+      x < ((xj - xi) * (y - yi)) / (yj - yi) + xi;
+
+    if (intersects) inside = !inside;
+  }
+
+  return inside;
+}
+
+/**
+ * Vrai si le point est dans l'anneau extérieur d'un des polygones
+ * et hors de tous ses trous.
+ */
+export function pointInPolygon(pt: Position, geometry: any): boolean {
+  for (const poly of polygonsOf(geometry)) {
+    if (!poly.length || !pointInRing(pt, poly[0])) continue;
+
+    let inHole = false;
+    for (let k = 1; k < poly.length; k++) {
+      if (pointInRing(pt, poly[k])) {
+        inHole = true;
+        break;
+      }
+    }
+
+    if (!inHole) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Bounding box [minLon, minLat, maxLon, maxLat] d'une géométrie surfacique.
+ */
+export function bboxOf(
+  geometry: any,
+): [number, number, number, number] | null {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  for (const poly of polygonsOf(geometry)) {
+    // Le contour extérieur suffit : les trous sont inclus dedans
+    for (const [x, y] of poly[0] ?? []) {
+      if (x < minX) minX = x;
+      if (y < minY) minY = y;
+      if (x > maxX) maxX = x;
+      if (y > maxY) maxY = y;
+    }
+  }
+
+  if (!Number.isFinite(minX)) return null;
+  return [minX, minY, maxX, maxY];
+}
+
+/**
+ * Distance (m) d'un point au contour (extérieurs + trous) d'une géométrie.
+ * Projection équirectangulaire locale centrée sur le point : précise
+ * à l'échelle d'une parcelle.
+ */
+export function distanceToBoundaryM(pt: Position, geometry: any): number {
+  const [lon0, lat0] = pt;
+  const kx = (Math.PI / 180) * EARTH_RADIUS_M * Math.cos((lat0 * Math.PI) / 180);
+  const ky = (Math.PI / 180) * EARTH_RADIUS_M;
+
+  let best = Infinity;
+
+  for (const poly of polygonsOf(geometry)) {
+    for (const ring of poly) {
+      for (let i = 1; i < ring.length; i++) {
+        const ax = (ring[i - 1][0] - lon0) * kx;
+        const ay = (ring[i - 1][1] - lat0) * ky;
+        const bx = (ring[i][0] - lon0) * kx;
+        const by = (ring[i][1] - lat0) * ky;
+
+        const d = distanceOriginToSegment(ax, ay, bx, by);
+        if (d < best) best = d;
+      }
+    }
+  }
+
+  return best;
+}
+
+function distanceOriginToSegment(
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number,
+): number {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const len2 = dx * dx + dy * dy;
+
+  let t = len2 > 0 ? -(ax * dx + ay * dy) / len2 : 0;
+  t = Math.max(0, Math.min(1, t));
+
+  const px = ax + t * dx;
+  const py = ay + t * dy;
+  return Math.sqrt(px * px + py * py);
+}
+
+// -------------------------------------------------
+// Résolution de la parcelle pour un point
+// -------------------------------------------------
+
+/**
+ * Choisit la feature qui contient le point (lon, lat).
+ *
+ * - Si une parcelle contient le point → method = "point_in_polygon".
+ * - Sinon (point sur la voirie, non cadastrée) → parcelle dont le contour
+ *   est le plus proche, dans la limite de maxFallbackDistanceM
+ *   → method = "nearest_edge".
+ */
+export function locateParcelForPoint<
+  F extends { geometry?: any; properties?: any },
+>(
+  features: F[],
+  lat: number,
+  lon: number,
+  maxFallbackDistanceM = DEFAULT_MAX_FALLBACK_DISTANCE_M,
+): ParcelMatch<F> | null {
+  const pt: Position = [lon, lat];
+
+  // Marge en degrés pour le préfiltre bbox du fallback
+  const marginLat = maxFallbackDistanceM / ((Math.PI / 180) * EARTH_RADIUS_M);
+  const marginLon = marginLat / Math.max(0.01, Math.cos((lat * Math.PI) / 180));
+
+  let nearest: F | null = null;
+  let nearestDist = Infinity;
+
+  for (const f of features) {
+    if (!f || !f.geometry) continue;
+
+    const bbox = bboxOf(f.geometry);
+    if (!bbox) continue;
+
+    const [minX, minY, maxX, maxY] = bbox;
+    if (
+      lon < minX - marginLon || lon > maxX + marginLon ||
+      lat < minY - marginLat || lat > maxY + marginLat
+    ) {
+      continue;
+    }
+
+    const insideBbox = lon >= minX && lon <= maxX && lat >= minY && lat <= maxY;
+
+    if (insideBbox && pointInPolygon(pt, f.geometry)) {
+      return {
+        feature: f,
+        method: "point_in_polygon",
+        distance_to_boundary_m: distanceToBoundaryM(pt, f.geometry),
+      };
+    }
+
+    const d = distanceToBoundaryM(pt, f.geometry);
+    if (d < nearestDist) {
+      nearestDist = d;
+      nearest = f;
+    }
+  }
+
+  if (!nearest || nearestDist > maxFallbackDistanceM) return null;
+
+  return {
+    feature: nearest,
+    method: "nearest_edge",
+    distance_to_boundary_m: nearestDist,
+  };
+}
+
+// -------------------------------------------------
+// Mesures géodésiques
+// -------------------------------------------------
+
+// Rayon de la sphère authalique GRS80 (même surface que l'ellipsoïde)
+const AUTHALIC_RADIUS_M = 6371007.2;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+/**
+ * Aire (m², non signée) d'un anneau lon/lat sur la sphère authalique.
+ * Formule de Chamberlain & Duquette (JPL, 2007).
+ */
+export function ringAreaM2(ring: Ring): number {
+  const n = ring.length;
+  if (n < 3) return 0;
+
+  let total = 0;
+  for (let i = 0; i < n; i++) {
+    const [lon1, lat1] = ring[i];
+    const [lon2, lat2] = ring[(i + 1) % n];
+    total += toRad(lon2 - lon1) *
+      (2 + Math.sin(toRad(lat1)) + Math.sin(toRad(lat2)));
+  }
+
+  return Math.abs((total * AUTHALIC_RADIUS_M * AUTHALIC_RADIUS_M) / 2);
+}
+
+/**
+ * Aire géodésique (m²) d'un Polygon / MultiPolygon, trous déduits.
+ */
+export function geodesicAreaM2(geometry: any): number {
+  let area = 0;
+
+  for (const poly of polygonsOf(geometry)) {
+    if (!poly.length) continue;
+    area += ringAreaM2(poly[0]);
+    for (let k = 1; k < poly.length; k++) area -= ringAreaM2(poly[k]);
+  }
+
+  return Math.max(0, area);
+}
+
+/**
+ * Distance orthodromique (m) entre deux positions lon/lat (haversine).
+ */
+export function haversineM(a: Position, b: Position): number {
+  const dLat = toRad(b[1] - a[1]);
+  const dLon = toRad(b[0] - a[0]);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a[1])) * Math.cos(toRad(b[1])) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Périmètre (m) des contours extérieurs d'une géométrie.
+ * Les trous ne sont pas comptés (ils ne bordent pas l'extérieur de la parcelle).
+ */
+export function perimeterM(geometry: any): number {
+  let total = 0;
+
+  for (const poly of polygonsOf(geometry)) {
+    const ring = poly[0] ?? [];
+    for (let i = 1; i < ring.length; i++) total += haversineM(ring[i - 1], ring[i]);
+  }
+
+  return total;
+}
+
+export type Edge = {
+  // Index du polygone (MultiPolygon) et de l'arête dans son contour extérieur
+  polygon_index: number;
+  edge_index: number;
+  start: Position;
+  end: Position;
+  length_m: number;
+  // Azimut de start → end, en degrés depuis le nord (0–360)
+  bearing_deg: number;
+};
+
+/**
+ * Arêtes des contours extérieurs avec longueur et azimut,
+ * base des calculs de façade / linéaire sur rue.
+ */
+export function exteriorEdges(geometry: any): Edge[] {
+  const edges: Edge[] = [];
+
+  polygonsOf(geometry).forEach((poly, polygonIndex) => {
+    const ring = poly[0] ?? [];
+    for (let i = 1; i < ring.length; i++) {
+      const start = ring[i - 1];
+      const end = ring[i];
+      const length = haversineM(start, end);
+      if (length <= 0) continue;
+
+      edges.push({
+        polygon_index: polygonIndex,
+        edge_index: i - 1,
+        start,
+        end,
+        length_m: length,
+        bearing_deg: bearingDeg(start, end),
+      });
+    }
+  });
+
+  return edges;
+}
+
+export function bearingDeg(a: Position, b: Position): number {
+  const phi1 = toRad(a[1]);
+  const phi2 = toRad(b[1]);
+  const dLon = toRad(b[0] - a[0]);
+  const y = Math.sin(dLon) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) -
+    Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLon);
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+}
+
+// -------------------------------------------------
+// Projection métrique locale
+// -------------------------------------------------
+
+export type LocalProjection = {
+  origin: Position;
+  forward: (p: Position) => [number, number];
+  inverse: (xy: [number, number]) => Position;
+};
+
+/**
+ * Projection équirectangulaire centrée sur origin : (x, y) en mètres.
+ * Suffisante à l'échelle d'un îlot ; valable partout (métropole et DOM).
+ */
+export function makeLocalProjection(origin: Position): LocalProjection {
+  const kx = toRad(1) * EARTH_RADIUS_M * Math.cos(toRad(origin[1]));
+  const ky = toRad(1) * EARTH_RADIUS_M;
+
+  return {
+    origin,
+    forward: ([lon, lat]) => [(lon - origin[0]) * kx, (lat - origin[1]) * ky],
+    inverse: ([x, y]) => [origin[0] + x / kx, origin[1] + y / ky],
+  };
+}
+
+/**
+ * Applique une fonction de transformation à toutes les positions d'une géometrie.
+ */
+export function mapPositions(
+  geometry: any,
+  fn: (p: Position) => Position,
+): PolygonGeometry | null {
+  if (!geometry) return null;
+
+  const mapPoly = (poly: PolygonCoords) =>
+    poly.map((ring) => ring.map((p) => fn(p)));
+
+  if (geometry.type === "Polygon") {
+    return { type: "Polygon", coordinates: mapPoly(geometry.coordinates) };
+  }
+  if (geometry.type === "MultiPolygon") {
+    return {
+      type: "MultiPolygon",
+      coordinates: geometry.coordinates.map(mapPoly),
+    };
+  }
+  return null;
+}
+
+// -------------------------------------------------
+// Centroïde
+// -------------------------------------------------
+
+/**
+ * Centroïde surfacique (pondéré par l'aire, trous déduits) en lon/lat.
+ * Calculé dans une projection locale centrée sur la bbox.
+ */
+export function centroid(geometry: any): Position | null {
+  const bbox = bboxOf(geometry);
+  if (!bbox) return null;
+
+  const proj = makeLocalProjection([
+    (bbox[0] + bbox[2]) / 2,
+    (bbox[1] + bbox[3]) / 2,
+  ]);
+
+  let sumA = 0;
+  let sumX = 0;
+  let sumY = 0;
+
+  for (const poly of polygonsOf(geometry)) {
+    poly.forEach((ring, k) => {
+      const m = ringMoments(ring.map(proj.forward));
+      // Contour extérieur compté positivement, trous négativement
+      const sign = k === 0 ? 1 : -1;
+      sumA += sign * m.area;
+      sumX += sign * m.area * m.cx;
+      sumY += sign * m.area * m.cy;
+    });
+  }
+
+  if (Math.abs(sumA) < 1e-9) return null;
+  return proj.inverse([sumX / sumA, sumY / sumA]);
+}
+
+function ringMoments(
+  ring: [number, number][],
+): { area: number; cx: number; cy: number } {
+  let a = 0;
+  let cx = 0;
+  let cy = 0;
+
+  for (let i = 0; i < ring.length; i++) {
+    const [x1, y1] = ring[i];
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    const cross = x1 * y2 - x2 * y1;
+    a += cross;
+    cx += (x1 + x2) * cross;
+    cy += (y1 + y2) * cross;
+  }
+
+  if (Math.abs(a) < 1e-12) return { area: 0, cx: 0, cy: 0 };
+
+  // Aire non signée, centroïde indépendant du sens de parcours
+  return { area: Math.abs(a / 2), cx: cx / (3 * a), cy: cy / (3 * a) };
+}
+
+// -------------------------------------------------
+// Lambert-93 (EPSG:2154) ↔ WGS84
+// -------------------------------------------------
+// RGF93 et WGS84 sont confondus à l'échelle métrique : pas de transformation
+// de datum, seulement la projection conique conforme sécante (IGN NTG_71).
+
+const L93 = {
+  a: 6378137,
+  e: 0.0818191910428158,
+  lon0: toRad(3),
+  x0: 700000,
+  y0: 6600000,
+  n: 0.725607765053267,
+  c: 11754255.4261,
+  xs: 700000,
+  ys: 12655612.0499,
+};
+
+function isometricLatitude(phi: number, e: number): number {
+  return Math.log(
+    Math.tan(Math.PI / 4 + phi / 2) *
+      ((1 - e * Math.sin(phi)) / (1 + e * Math.sin(phi))) ** (e / 2),
+  );
+}
+
+/**
+ * WGS84 [lon, lat] → Lambert-93 [x, y] (m).
+ */
+export function wgs84ToLambert93([lon, lat]: Position): [number, number] {
+  const l = isometricLatitude(toRad(lat), L93.e);
+  const r = L93.c * Math.exp(-L93.n * l);
+  const gamma = L93.n * (toRad(lon) - L93.lon0);
+
+  return [L93.xs + r * Math.sin(gamma), L93.ys - r * Math.cos(gamma)];
+}
+
+/**
+ * Lambert-93 [x, y] (m) → WGS84 [lon, lat].
+ */
+export function lambert93ToWgs84([x, y]: [number, number]): Position {
+  const dx = x - L93.xs;
+  const dy = y - L93.ys;
+  const r = Math.sqrt(dx * dx + dy * dy);
+  const gamma = Math.atan2(dx, -dy);
+  const l = -Math.log(r / L93.c) / L93.n;
+
+  // Inversion itérative de la latitude isométrique
+  let phi = 2 * Math.atan(Math.exp(l)) - Math.PI / 2;
+  for (let i = 0; i < 10; i++) {
+    const es = L93.e * Math.sin(phi);
+    const next = 2 *
+        Math.atan(((1 + es) / (1 - es)) ** (L93.e / 2) * Math.exp(l)) -
+      Math.PI / 2;
+    if (Math.abs(next - phi) < 1e-12) {
+      phi = next;
+      break;
+    }
+    phi = next;
+  }
+
+  return [toDeg(L93.lon0 + gamma / L93.n), toDeg(phi)];
+}
+
+export function geometryToLambert93(geometry: any): PolygonGeometry | null {
+  return mapPositions(geometry, (p) => wgs84ToLambert93(p));
+}
+
+export function geometryFromLambert93(geometry: any): PolygonGeometry | null {
+  return mapPositions(geometry, (p) => lambert93ToWgs84(p));
+}
+
+// -------------------------------------------------
+// Opérations booléennes
+// -------------------------------------------------
+
+function toClipInput(geometry: any): any {
+  return polygonsOf(geometry);
+}
+
+function fromClipOutput(multi: PolygonCoords[]): PolygonGeometry | null {
+  if (!multi || multi.length === 0) return null;
+  if (multi.length === 1) return { type: "Polygon", coordinates: multi[0] };
+  return { type: "MultiPolygon", coordinates: multi };
+}
+
+/**
+ * Union d'une liste de Polygon / MultiPolygon (null si vide).
+ */
+export function unionGeometries(geometries: any[]): PolygonGeometry | null {
+  const inputs = geometries.map(toClipInput).filter((g) => g.length > 0);
+  if (inputs.length === 0) return null;
+
+  const [first, ...rest] = inputs;
+  return fromClipOutput(polygonClipping.union(first, ...rest) as any);
+}
+
+/**
+ * Intersection de deux géométries (null si disjointes).
+ */
+export function intersectGeometries(a: any, b: any): PolygonGeometry | null {
+  const ga = toClipInput(a);
+  const gb = toClipInput(b);
+  if (!ga.length || !gb.length) return null;
+
+  return fromClipOutput(polygonClipping.intersection(ga, gb) as any);
+}
+
+/**
+ * Différence a − b (null si a est entièrement couvert par b).
+ */
+export function differenceGeometries(a: any, b: any): PolygonGeometry | null {
+  const ga = toClipInput(a);
+  const gb = toClipInput(b);
+  if (!ga.length) return null;
+  if (!gb.length) return fromClipOutput(ga);
+
+  return fromClipOutput(polygonClipping.difference(ga, gb) as any);
+}
+
+// -------------------------------------------------
+// Simplification
+// -------------------------------------------------
+
+function douglasPeucker(points: [number, number][], toleranceM: number): boolean[] {
+  const keep = new Array(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length) {
+    const [first, last] = stack.pop()!;
+    const [ax, ay] = points[first];
+    const [bx, by] = points[last];
+    const dx = bx - ax;
+    const dy = by - ay;
+    const len = Math.hypot(dx, dy);
+
+    let maxDist = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const [px, py] = points[i];
+      const d = len > 0
+        ? Math.abs(dy * px - dx * py + bx * ay - by * ax) / len
+        : Math.hypot(px - ax, py - ay);
+      if (d > maxDist) {
+        maxDist = d;
+        index = i;
+      }
+    }
+
+    if (index >= 0 && maxDist > toleranceM) {
+      keep[index] = true;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return keep;
+}
+
+/**
+ * Simplifie un Polygon / MultiPolygon (Douglas-Peucker, tolérance en mètres).
+ * Un contour qui dégénère (< 4 positions) est conservé tel quel s'il est
+ * extérieur, supprimé s'il s'agit d'un trou.
+ */
+export function simplifyGeometry(
+  geometry: any,
+  toleranceM: number,
+): PolygonGeometry | null {
+  const polygons = polygonsOf(geometry);
+  if (polygons.length === 0) return null;
+  if (!(toleranceM > 0)) return mapPositions(geometry, (p) => p);
+
+  const proj = makeLocalProjection(centroid(geometry) ?? polygons[0][0][0]);
+
+  const simplifyRing = (ring: Ring, exterior: boolean): Ring | null => {
+    if (ring.length <= 4) return ring;
+    const keep = douglasPeucker(ring.map(proj.forward), toleranceM);
+    const out = ring.filter((_, i) => keep[i]);
+    if (out.length >= 4) return out;
+    return exterior ? ring : null;
+  };
+
+  const simplified = polygons.map((poly) =>
+    poly
+      .map((ring, k) => simplifyRing(ring, k === 0))
+      .filter((ring): ring is Ring => ring !== null)
+  );
+
+  return geometry.type === "MultiPolygon"
+    ? { type: "MultiPolygon", coordinates: simplified }
+    : { type: "Polygon", coordinates: simplified[0] };
+}
+
+// -------------------------------------------------
+// Synthèse + contrôle de surface
+// -------------------------------------------------
+
+export type GeometryMetrics = {
+  area_m2: number;
+  perimeter_m: number;
+  centroid: { lon: number; lat: number } | null;
+  bbox: [number, number, number, number] | null;
+};
+
+export function geometryMetrics(geometry: any): GeometryMetrics | null {
+  if (!polygonsOf(geometry).length) return null;
+
+  const c = centroid(geometry);
+
+  return {
+    area_m2: Math.round(geodesicAreaM2(geometry) * 100) / 100,
+    perimeter_m: Math.round(perimeterM(geometry) * 100) / 100,
+    centroid: c ? { lon: c[0], lat: c[1] } : null,
+    bbox: bboxOf(geometry),
+  };
+}
+
+export type SurfaceCheck = {
+  surface_declaree_m2: number | null;
+  surface_geometrie_m2: number;
+  ecart_m2: number | null;
+  ecart_pct: number | null;
+  // false si l'écart dépasse la tolérance : contenance ou géométrie à vérifier
+  coherent: boolean | null;
+  tolerance_pct: number;
+};
+
+// La contenance cadastrale est une surface fiscale : quelques % d'écart
+// avec la surface graphique sont normaux.
+const DEFAULT_SURFACE_TOLERANCE_PCT = 10;
+
+/**
+ * Compare une surface déclarée (contenance, surface_terrain_m2…)
+ * à l'aire géodésique de la géométrie.
+ */
+export function checkSurfaceAgainstGeometry(
+  surfaceDeclareeM2: number | null | undefined,
+  geometry: any,
+  tolerancePct = DEFAULT_SURFACE_TOLERANCE_PCT,
+): SurfaceCheck | null {
+  if (!polygonsOf(geometry).length) return null;
+
+  const geomArea = geodesicAreaM2(geometry);
+  const declared = typeof surfaceDeclareeM2 === "number" &&
+      Number.isFinite(surfaceDeclareeM2) && surfaceDeclareeM2 > 0
+    ? surfaceDeclareeM2
+    : null;
+
+  const ecart = declared != null ? declared - geomArea : null;
+  const ecartPct = declared != null && geomArea > 0
+    ? (ecart! / geomArea) * 100
+    : null;
+
+  return {
+    surface_declaree_m2: declared,
+    surface_geometrie_m2: Math.round(geomArea * 100) / 100,
+    ecart_m2: ecart != null ? Math.round(ecart * 100) / 100 : null,
+    ecart_pct: ecartPct != null ? Math.round(ecartPct * 10) / 10 : null,
+    coherent: ecartPct != null ? Math.abs(ecartPct) <= tolerancePct : null,
+    tolerance_pct: tolerancePct,
+  };
+}
@@ -0,0 +1,267 @@
+// supabase/functions/_shared/idu.ts
+//
+// Identifiant de parcelle cadastrale (IDU, 14 caractères)
+//  - découpage : département (2-3) + commune (3-2) | préfixe (3) | section (2) | numéro (4)
+//    ex : 64024 000 AB 0123  →  64024000AB0123
+//  - formes acceptées : parcel_id / id / idu (espaces, tirets, minuscules tolérés)
+//    ou code commune + section + numéro (+ préfixe)
+//  - Paris, Lyon, Marseille : l'IDU porte le code d'arrondissement (75107, 69383, 13208…) ;
+//    la forme « commune + préfixe d'arrondissement » (75056 107 …) est normalisée
+//  - Corse (2A / 2B) et DOM (971 à 976)
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+export type ParcelIdParts = {
+  // IDU normalisé (14 caractères, forme Etalab)
+  idu: string;
+  code_departement: string;
+  // Code commune de l'IDU (code d'arrondissement pour Paris / Lyon / Marseille)
+  code_cadastre: string;
+  // Code INSEE de la commune (75056, 69123, 13055 pour les arrondissements)
+  commune_insee: string;
+  code_arrondissement: string | null;
+  prefixe: string;
+  section: string;
+  numero: string;
+  corse: boolean;
+  dom: boolean;
+};
+
+export type ParcelIdInput = {
+  parcel_id?: unknown;
+  id?: unknown;
+  idu?: unknown;
+  code_commune?: unknown;
+  commune_insee?: unknown;
+  prefixe?: unknown;
+  section?: unknown;
+  numero?: unknown;
+};
+
+export type ParcelIdParseResult =
+  | { ok: true; parts: ParcelIdParts }
+  | { ok: false; error: string };
+
+// Communes à arrondissements : code INSEE → plage des codes d'arrondissement
+const ARRONDISSEMENTS: Record<string, { min: number; max: number }> = {
+  "75056": { min: 75101, max: 75120 }, // Paris
+  "69123": { min: 69381, max: 69389 }, // Lyon
+  "13055": { min: 13201, max: 13216 }, // Marseille
+};
+
+const IDU_REGEX = /^([0-9][0-9AB][0-9]{3})([0-9]{3})([0-9A-Z]{2})([0-9]{4})$/;
+
+// -------------------------------------------------
+// Codes commune / département
+// -------------------------------------------------
+
+/**
+ * Code département d'un code commune (2A / 2B pour la Corse, 3 chiffres pour les DOM).
+ */
+export function departementOfCommune(codeCommune: string): string {
+  return codeCommune.startsWith("97") || codeCommune.startsWith("98")
+    ? codeCommune.slice(0, 3)
+    : codeCommune.slice(0, 2);
+}
+
+/**
+ * Vrai si le code commune est plausible : département métropolitain
+ * (01 à 95 hors 20), Corse (2A / 2B) ou DOM (971 à 976).
+ */
+export function isValidCodeCommune(code: string): boolean {
+  if (!/^[0-9][0-9AB][0-9]{3}$/.test(code)) return false;
+
+  const dep = code.slice(0, 2);
+  if (dep === "2A" || dep === "2B") return /^2[AB][0-9]{3}$/.test(code);
+  if (/[AB]/.test(code)) return false;
+
+  if (dep === "97") return /^97[1-6][0-9]{2}$/.test(code);
+
+  const n = Number(dep);
+  return n >= 1 && n <= 95 && n !== 20;
+}
+
+/**
+ * Code INSEE de la commune pour un code cadastre
+ * (arrondissement → commune : 75107 → 75056, 69383 → 69123, 13208 → 13055).
+ */
+export function inseeFromCodeCadastre(codeCadastre: string): string {
+  const n = Number(codeCadastre);
+  if (Number.isFinite(n)) {
+    for (const [insee, range] of Object.entries(ARRONDISSEMENTS)) {
+      if (n >= range.min && n <= range.max) return insee;
+    }
+  }
+  return codeCadastre;
+}
+
+export function isArrondissementCode(codeCadastre: string): boolean {
+  return inseeFromCodeCadastre(codeCadastre) !== codeCadastre;
+}
+
+/**
+ * Arrondissement désigné par le préfixe de section d'une commune à
+ * arrondissements (75056 + 107 → 75107), ou null.
+ */
+function arrondissementFromPrefixe(
+  codeCommune: string,
+  prefixe: string,
+): string | null {
+  const range = ARRONDISSEMENTS[codeCommune];
+  if (!range) return null;
+
+  const candidate = `${codeCommune.slice(0, 2)}${prefixe}`;
+  const n = Number(candidate);
+  return n >= range.min && n <= range.max ? candidate : null;
+}
+
+// -------------------------------------------------
+// Parsing / normalisation
+// -------------------------------------------------
+
+function clean(value: unknown): string {
+  return String(value ?? "").replace(/[\s\-_.]/g, "").toUpperCase();
+}
+
+function buildParts(
+  codeCommune: string,
+  prefixe: string,
+  section: string,
+  numero: string,
+): ParcelIdParseResult {
+  if (!isValidCodeCommune(codeCommune)) {
+    return { ok: false, error: `Code commune invalide : ${codeCommune}` };
+  }
+  if (!/^[0-9]{3}$/.test(prefixe)) {
+    return { ok: false, error: `Préfixe de section invalide : ${prefixe}` };
+  }
+  if (!/^[0-9A-Z]{2}$/.test(section) || section === "00") {
+    return { ok: false, error: `Section invalide : ${section}` };
+  }
+  if (!/^[0-9]{4}$/.test(numero) || numero === "0000") {
+    return { ok: false, error: `Numéro de parcelle invalide : ${numero}` };
+  }
+
+  // Forme « commune + préfixe d'arrondissement » → code d'arrondissement
+  let codeCadastre = codeCommune;
+  const arrondissement = arrondissementFromPrefixe(codeCommune, prefixe);
+  if (arrondissement) {
+    codeCadastre = arrondissement;
+    prefixe = "000";
+  } else if (ARRONDISSEMENTS[codeCommune]) {
+    return {
+      ok: false,
+      error:
+        `IDU ${codeCommune} sans arrondissement : utilisez le code d'arrondissement ou le préfixe correspondant`,
+    };
+  }
+
+  const codeDepartement = departementOfCommune(codeCadastre);
+  const communeInsee = inseeFromCodeCadastre(codeCadastre);
+
+  return {
+    ok: true,
+    parts: {
+      idu: `${codeCadastre}${prefixe}${section}${numero}`,
+      code_departement: codeDepartement,
+      code_cadastre: codeCadastre,
+      commune_insee: communeInsee,
+      code_arrondissement: communeInsee !== codeCadastre ? codeCadastre : null,
+      prefixe,
+      section,
+      numero,
+      corse: codeDepartement === "2A" || codeDepartement === "2B",
+      dom: codeDepartement.length === 3,
+    },
+  };
+}
+
+/**
+ * Analyse un IDU (14 caractères). Tolère espaces / tirets / minuscules.
+ */
+export function parseParcelId(value: unknown): ParcelIdParseResult {
+  const raw = clean(value);
+  if (!raw) return { ok: false, error: "Identifiant de parcelle vide" };
+
+  const m = raw.match(IDU_REGEX);
+  if (!m) {
+    return {
+      ok: false,
+      error:
+        `IDU invalide : ${raw} (attendu 14 caractères, ex : 64024000AB0123)`,
+    };
+  }
+
+  return buildParts(m[1], m[2], m[3], m[4]);
+}
+
+/**
+ * Construit l'IDU à partir de ses composantes (section « A » → « 0A »,
+ * numéro « 12 » → « 0012 », préfixe par défaut « 000 »).
+ */
+export function buildParcelId(input: {
+  code_commune: unknown;
+  prefixe?: unknown;
+  section: unknown;
+  numero: unknown;
+}): ParcelIdParseResult {
+  const codeCommune = clean(input.code_commune);
+  const prefixe = clean(input.prefixe ?? "") || "000";
+  const section = clean(input.section);
+  const numero = clean(input.numero);
+
+  if (!codeCommune || !section || !numero) {
+    return {
+      ok: false,
+      error: "code_commune, section et numero sont requis",
+    };
+  }
+
+  return buildParts(
+    codeCommune,
+    prefixe.padStart(3, "0"),
+    section.padStart(2, "0"),
+    numero.padStart(4, "0"),
+  );
+}
+
+/**
+ * Identifiant de parcelle depuis un corps de requête :
+ * parcel_id, id ou idu, sinon (code_commune | commune_insee) + section + numero.
+ */
+export function parcelIdFromRequest(body: ParcelIdInput | null | undefined): ParcelIdParseResult {
+  if (!body) return { ok: false, error: "Corps de requête vide" };
+
+  const direct = body.parcel_id ?? body.idu ?? body.id;
+  if (direct !== undefined && direct !== null && direct !== "") {
+    return parseParcelId(direct);
+  }
+
+  if (body.section !== undefined && body.numero !== undefined) {
+    return buildParcelId({
+      code_commune: body.code_commune ?? body.commune_insee,
+      prefixe: body.prefixe,
+      section: body.section,
+      numero: body.numero,
+    });
+  }
+
+  return {
+    ok: false,
+    error:
+      "Identifiant de parcelle manquant : parcel_id (ou id / idu) ou code_commune + section + numero",
+  };
+}
+
+/**
+ * Vrai si la parcelle appartient à la commune (code INSEE ou code d'arrondissement).
+ */
+export function parcelBelongsToCommune(
+  parts: ParcelIdParts,
+  communeCode: string,
+): boolean {
+  const code = clean(communeCode);
+  return code === parts.code_cadastre || code === parts.commune_insee;
+}
@@ -0,0 +1,65 @@
+// supabase/functions/_shared/json-diff.ts
+//
+// Écarts feuille à feuille entre deux JSON (chemins pointés).
+// Utilisé par promoteur-projets (comparaison de versions) et plu-review
+// (corrections du relecteur contre l'extraction machine).
+
+export type Difference = {
+  chemin: string;
+  a: unknown;
+  b: unknown;
+};
+
+const MAX_DIFFERENCES_DEFAUT = 200;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Écarts feuille à feuille entre deux JSON (chemins pointés, index pour
+ * les tableaux). Les chemins ignorés et leurs sous-chemins sont sautés.
+ */
+export function diffJson(
+  a: unknown,
+  b: unknown,
+  options: { ignorer?: string[]; max?: number } = {},
+): { differences: Difference[]; tronque: boolean } {
+  const ignorer = options.ignorer ?? [];
+  const max = options.max ?? MAX_DIFFERENCES_DEFAUT;
+  const differences: Difference[] = [];
+  let tronque = false;
+
+  const walk = (x: unknown, y: unknown, chemin: string) => {
+    if (tronque) return;
+    if (chemin && ignorer.includes(chemin)) return;
+
+    const prefix = chemin ? `${chemin}.` : "";
+
+    if (isObject(x) && isObject(y)) {
+      const keys = Array.from(new Set([...Object.keys(x), ...Object.keys(y)]))
+        .sort();
+      for (const key of keys) walk(x[key], y[key], `${prefix}${key}`);
+      return;
+    }
+
+    if (Array.isArray(x) && Array.isArray(y)) {
+      const n = Math.max(x.length, y.length);
+      for (let i = 0; i < n; i++) walk(x[i], y[i], `${prefix}${i}`);
+      return;
+    }
+
+    // Absent et null sont équivalents
+    if ((x ?? null) === (y ?? null)) return;
+    if (JSON.stringify(x) === JSON.stringify(y)) return;
+
+    if (differences.length >= max) {
+      tronque = true;
+      return;
+    }
+    differences.push({ chemin, a: x ?? null, b: y ?? null });
+  };
+
+  walk(a, b, "");
+  return { differences, tronque };
+}
@@ -0,0 +1,145 @@
+// supabase/functions/_shared/montecarlo.ts
+//
+// Outils de simulation : générateur pseudo-aléatoire reproductible (graine),
+// tirages selon des lois paramétrées, percentiles.
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+export type Distribution =
+  | { type: "fixe"; valeur: number }
+  | { type: "uniforme"; min: number; max: number }
+  | { type: "triangulaire"; min: number; mode: number; max: number }
+  | { type: "normale"; moyenne: number; ecart_type: number; min?: number; max?: number };
+
+export type Random = () => number;
+
+// -------------------------------------------------
+// Générateur
+// -------------------------------------------------
+
+/**
+ * Générateur mulberry32 : mêmes tirages pour une même graine.
+ */
+export function createRandom(seed: number): Random {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// -------------------------------------------------
+// Lois
+// -------------------------------------------------
+
+function num(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Valide une loi reçue en JSON ; null si incomplète ou incohérente.
+ */
+export function parseDistribution(raw: any): Distribution | null {
+  if (!raw || typeof raw !== "object") return null;
+
+  switch (raw.type) {
+    case "fixe": {
+      const valeur = num(raw.valeur);
+      return valeur != null ? { type: "fixe", valeur } : null;
+    }
+    case "uniforme": {
+      const min = num(raw.min);
+      const max = num(raw.max);
+      return min != null && max != null && min <= max
+        ? { type: "uniforme", min, max }
+        : null;
+    }
+    case "triangulaire": {
+      const min = num(raw.min);
+      const mode = num(raw.mode);
+      const max = num(raw.max);
+      return min != null && mode != null && max != null && min <= mode &&
+          mode <= max
+        ? { type: "triangulaire", min, mode, max }
+        : null;
+    }
+    case "normale": {
+      const moyenne = num(raw.moyenne);
+      const ecartType = num(raw.ecart_type);
+      if (moyenne == null || ecartType == null || ecartType < 0) return null;
+      return {
+        type: "normale",
+        moyenne,
+        ecart_type: ecartType,
+        min: num(raw.min) ?? undefined,
+        max: num(raw.max) ?? undefined,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+export function sample(d: Distribution, random: Random): number {
+  switch (d.type) {
+    case "fixe":
+      return d.valeur;
+    case "uniforme":
+      return d.min + (d.max - d.min) * random();
+    case "triangulaire": {
+      const u = random();
+      const range = d.max - d.min;
+      if (range <= 0) return d.mode;
+      const c = (d.mode - d.min) / range;
+      return u < c
+        ? d.min + Math.sqrt(u * range * (d.mode - d.min))
+        : d.max - Math.sqrt((1 - u) * range * (d.max - d.mode));
+    }
+    case "normale": {
+      // Box-Muller, bornée si min / max renseignés
+      const u1 = Math.max(random(), Number.EPSILON);
+      const u2 = random();
+      const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+      let v = d.moyenne + d.ecart_type * z;
+      if (d.min != null) v = Math.max(d.min, v);
+      if (d.max != null) v = Math.min(d.max, v);
+      return v;
+    }
+  }
+}
+
+// -------------------------------------------------
+// Statistiques
+// -------------------------------------------------
+
+/**
+ * Percentile (interpolation linéaire) d'une série déjà triée.
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const idx = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+}
+
+export function mean(values: number[]): number | null {
+  return values.length
+    ? values.reduce((a, b) => a + b, 0) / values.length
+    : null;
+}
+
+export function stdDev(values: number[]): number | null {
+  const m = mean(values);
+  if (m == null) return null;
+  return Math.sqrt(
+    values.reduce((acc, v) => acc + (v - m) ** 2, 0) / values.length,
+  );
+}
@@ -0,0 +1,126 @@
+// supabase/functions/_shared/pdf-text.ts
+//
+// Extraction du texte d'un PDF page par page (pdf.js sans worker, via unpdf),
+// sans service externe :
+//  - lignes reconstituées à partir des positions des fragments de texte
+//  - en-têtes / pieds de page répétés retirés (titre du document, n° de page…)
+//
+// Utilisé par plu-ingest-from-storage et scripts/plu-ingest-pdf.ts.
+
+import { getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+
+export type PdfPage = {
+  page_number: number;
+  text: string;
+};
+
+// Écart vertical (en points) au-delà duquel deux fragments sont sur deux lignes
+const SEUIL_NOUVELLE_LIGNE = 2;
+
+// Une ligne présente sur au moins cette part des pages est un en-tête / pied de page
+const PART_LIGNE_REPETEE = 0.5;
+const MIN_PAGES_LIGNE_REPETEE = 3;
+// Lignes examinées en haut et en bas de chaque page
+const LIGNES_MARGE = 3;
+
+/**
+ * Texte de chaque page du PDF (page_number à partir de 1).
+ */
+export async function extractPdfPages(bytes: Uint8Array): Promise<PdfPage[]> {
+  const pdf = await getDocumentProxy(bytes);
+  const pages: PdfPage[] = [];
+
+  for (let n = 1; n <= pdf.numPages; n++) {
+    const page = await pdf.getPage(n);
+    const content = await page.getTextContent();
+
+    let text = "";
+    let lastY: number | null = null;
+
+    for (const item of content.items as any[]) {
+      if (typeof item?.str !== "string") continue;
+
+      const y = Array.isArray(item.transform) ? Number(item.transform[5]) : null;
+      if (
+        lastY !== null && y !== null &&
+        Math.abs(y - lastY) > SEUIL_NOUVELLE_LIGNE &&
+        !text.endsWith("\n")
+      ) {
+        text += "\n";
+      }
+
+      text += item.str;
+      if (item.hasEOL) text += "\n";
+      if (y !== null) lastY = y;
+    }
+
+    pages.push({ page_number: n, text: text.replace(/[ \t]+\n/g, "\n") });
+  }
+
+  return pages;
+}
+
+/**
+ * Pages d'un texte déjà extrait (pdftotext sépare les pages par \f).
+ */
+export function pagesFromText(text: string): PdfPage[] {
+  return text
+    .replace(/\r\n/g, "\n")
+    .split("\f")
+    .map((t, i) => ({ page_number: i + 1, text: t }));
+}
+
+// Ligne comparée sans chiffres (numéro de page) ni espaces multiples
+function cleLigne(line: string): string {
+  return line.replace(/\d+/g, "#").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+// Indices des premières / dernières lignes non vides d'une page
+function indicesMarges(lines: string[]): number[] {
+  const nonVides = lines
+    .map((line, i) => (line.trim() ? i : -1))
+    .filter((i) => i >= 0);
+  return Array.from(
+    new Set([
+      ...nonVides.slice(0, LIGNES_MARGE),
+      ...nonVides.slice(-LIGNES_MARGE),
+    ]),
+  );
+}
+
+/**
+ * Retire les lignes de haut / bas de page répétées sur la majorité des pages
+ * (en-têtes, pieds de page, numérotation "Page 12 / 80").
+ */
+export function removeRunningHeaders(pages: PdfPage[]): PdfPage[] {
+  if (pages.length < MIN_PAGES_LIGNE_REPETEE) return pages;
+
+  const occurrences = new Map<string, number>();
+  for (const page of pages) {
+    const lines = page.text.split("\n");
+    const cles = new Set(indicesMarges(lines).map((i) => cleLigne(lines[i])));
+    for (const cle of cles) occurrences.set(cle, (occurrences.get(cle) ?? 0) + 1);
+  }
+
+  const seuil = Math.max(
+    MIN_PAGES_LIGNE_REPETEE,
+    Math.ceil(pages.length * PART_LIGNE_REPETEE),
+  );
+  const repetees = new Set(
+    Array.from(occurrences.entries())
+      .filter(([, n]) => n >= seuil)
+      .map(([cle]) => cle),
+  );
+  if (repetees.size === 0) return pages;
+
+  return pages.map((page) => {
+    const lines = page.text.split("\n");
+    const retirees = new Set(
+      indicesMarges(lines).filter((i) => repetees.has(cleLigne(lines[i]))),
+    );
+    return {
+      ...page,
+      text: lines.filter((_, i) => !retirees.has(i)).join("\n"),
+    };
+  });
+}
@@ -0,0 +1,363 @@
+// supabase/functions/_shared/plu-chunker.ts
+//
+// Découpage d'un règlement PLU (texte page par page) en chunks plu_text_chunks :
+//  - titres de zone ("ZONE UG", "DISPOSITIONS APPLICABLES À LA ZONE UCa")
+//  - articles ("ARTICLE UG.6", "Article UC 6", "ARTICLE 6" dans la zone courante)
+//  - sous-sections ("6.1 Implantation…", "Paragraphe 2")
+// Motifs configurables (expressions régulières, groupes nommés zone / numero / label).
+//
+// Remplace plu_auto_chunker_from_txt.js et scripts/plu-split-ascain-uc.js.
+// Utilisé par plu-ingest-from-storage et scripts/plu-ingest-pdf.ts.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { PdfPage } from "./pdf-text.ts";
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+// Expressions régulières (source), testées ligne par ligne dans l'ordre :
+//  - zone : groupe (?<zone>…)
+//  - article : groupes (?<numero>…) et optionnellement (?<zone>…)
+//  - sous_section : groupe (?<label>…)
+export type ChunkPatterns = {
+  zone: string[];
+  article: string[];
+  sous_section: string[];
+};
+
+export type ChunkOptions = {
+  // Remplacent les motifs par défaut clé par clé
+  patterns?: Partial<ChunkPatterns> | null;
+  // Un chunk par sous-section (sinon un chunk par article)
+  decouper_sous_sections?: boolean;
+  // Zone des articles sans zone détectée (règlement d'une seule zone)
+  zone_par_defaut?: string | null;
+  // Garder le texte placé avant le premier titre de zone (dispositions générales)
+  garder_hors_zone?: boolean;
+  // Longueur max d'un chunk (au-delà : découpe sur les paragraphes)
+  max_chars?: number;
+};
+
+export type PluTextChunk = {
+  ordre: number;
+  zone_code: string | null;
+  article_code: string | null; // ex : "UG.6"
+  sous_section: string | null; // ex : "6.1"
+  section_label: string; // ex : "Article UG.6 § 6.1"
+  page_number: number;
+  page_fin: number;
+  raw_text: string;
+};
+
+// -------------------------------------------------
+// Motifs par défaut
+// -------------------------------------------------
+
+// Code de zone : UA, UCa, UC1, 1AU, AUh, Nh…
+const ZONE = "\\d?[A-Z]{1,3}[a-z0-9]{0,3}";
+// Code de zone accolé au numéro d'article ("UA10") : pas de chiffre final,
+// sinon "UA10" serait lu zone UA1 / article 0
+const ZONE_ACCOLEE = "\\d?[A-Z]{1,3}[a-z]{0,3}";
+// Références au code de l'urbanisme (Article L151-19, R.151-21…) : pas des articles du règlement
+const PAS_CODE_URBA = "(?![LRD]\\.?\\s*\\d{3})";
+
+export const DEFAULT_CHUNK_PATTERNS: ChunkPatterns = {
+  // Titres en majuscules ("ZONE UA", "DISPOSITIONS APPLICABLES À LA ZONE UA")
+  // ou "Zone UA" seul / suivi d'un tiret : une phrase ("zone U. Les…") n'est pas un titre
+  zone: [
+    `^\\s*(?:CHAPITRE\\s+[IVX\\d]+\\s*[-–:.]?\\s*)?(?:DISPOSITIONS\\s+APPLICABLES\\s+(?:AUX?|[ÀA]\\s+LA)\\s+)?ZONES?\\s+(?<zone>${ZONE})\\s*(?:$|[-–:(])`,
+    `^\\s*Zone\\s+(?<zone>${ZONE})\\s*(?:$|[-–])`,
+    `^\\s*(?:R[ÈE]GLEMENT|REGLES?)\\s+(?:DE\\s+|DES\\s+|APPLICABLES?\\s+(?:[ÀA]\\s+LA\\s+)?)?ZONES?\\s+(?<zone>${ZONE})\\b`,
+  ],
+  article: [
+    `^\\s*(?:ARTICLE|Article)\\s+${PAS_CODE_URBA}(?<zone>${ZONE})\\s*[.\\-_ ]\\s*(?<numero>\\d{1,2})\\b`,
+    `^\\s*(?:ARTICLE|Article)\\s+${PAS_CODE_URBA}(?<zone>${ZONE_ACCOLEE})(?<numero>\\d{1,2})\\b`,
+    `^\\s*(?:ARTICLE|Article)\\s+${PAS_CODE_URBA}(?<numero>\\d{1,2})\\b`,
+  ],
+  sous_section: [
+    `^\\s*(?<label>\\d{1,2}\\.\\d{1,2}(?:\\.\\d{1,2})?)\\.?\\s*[-–:)]?\\s+[A-ZÀ-Ý]`,
+    `^\\s*(?:PARAGRAPHE|Paragraphe|SECTION|Section)\\s+(?<label>\\d{1,2}|[IVX]{1,4})\\b`,
+  ],
+};
+
+const MAX_CHARS_DEFAUT = 8000;
+
+// Un titre (zone, article, sous-section) tient sur une ligne courte
+const TITRE_MAX_CHARS = 160;
+
+// Ligne de sommaire ("ZONE UA ........ 12") : jamais un titre
+const LIGNE_SOMMAIRE = /(?:\.{4,}|…{2,}|_{4,})\s*\d+\s*$/;
+
+// -------------------------------------------------
+// Helpers
+// -------------------------------------------------
+
+type Regles = { zone: RegExp[]; article: RegExp[]; sous_section: RegExp[] };
+
+function compilePatterns(patterns?: Partial<ChunkPatterns> | null): Regles {
+  const compile = (key: keyof ChunkPatterns) => {
+    const sources = patterns?.[key]?.length
+      ? patterns[key]!
+      : DEFAULT_CHUNK_PATTERNS[key];
+    return sources.map((src) => {
+      try {
+        return new RegExp(src);
+      } catch (e) {
+        throw new Error(
+          `Motif ${key} invalide (${src}) : ${e instanceof Error ? e.message : e}`,
+        );
+      }
+    });
+  };
+
+  return {
+    zone: compile("zone"),
+    article: compile("article"),
+    sous_section: compile("sous_section"),
+  };
+}
+
+function firstMatch(
+  regles: RegExp[],
+  line: string,
+): Record<string, string> | null {
+  if (line.length > TITRE_MAX_CHARS || LIGNE_SOMMAIRE.test(line)) return null;
+  for (const re of regles) {
+    const m = line.match(re);
+    if (m) return m.groups ?? {};
+  }
+  return null;
+}
+
+function sectionLabel(
+  zone: string | null,
+  article: string | null,
+  sousSection: string | null,
+): string {
+  if (!article) return zone ? `Zone ${zone}` : "Dispositions générales";
+  return sousSection ? `Article ${article} § ${sousSection}` : `Article ${article}`;
+}
+
+// Découpe d'un texte trop long sur les paragraphes (lignes vides)
+function splitLongText(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const parts: string[] = [];
+  let current = "";
+  for (const para of text.split(/\n\s*\n/)) {
+    if (current && current.length + para.length + 2 > maxChars) {
+      parts.push(current);
+      current = "";
+    }
+    // Paragraphe seul trop long : coupe franche
+    for (let i = 0; i < para.length; i += maxChars) {
+      const piece = para.slice(i, i + maxChars);
+      if (piece.length === maxChars) {
+        if (current) parts.push(current);
+        parts.push(piece);
+        current = "";
+      } else {
+        current = current ? `${current}\n\n${piece}` : piece;
+      }
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+// -------------------------------------------------
+// Découpage
+// -------------------------------------------------
+
+/**
+ * Chunks d'un règlement à partir de ses pages : un chunk par article (ou
+ * sous-section), plus l'introduction de chaque zone. Les numéros de page de
+ * début et de fin sont conservés.
+ */
+export function chunkPluPages(
+  pages: PdfPage[],
+  options: ChunkOptions = {},
+): PluTextChunk[] {
+  const regles = compilePatterns(options.patterns);
+  const decouperSousSections = options.decouper_sous_sections ?? true;
+  const maxChars = options.max_chars && options.max_chars > 500
+    ? options.max_chars
+    : MAX_CHARS_DEFAUT;
+
+  const chunks: PluTextChunk[] = [];
+
+  let zone: string | null = options.zone_par_defaut ?? null;
+  let article: string | null = null;
+  let sousSection: string | null = null;
+  let lines: { text: string; page: number }[] = [];
+
+  const flush = () => {
+    const raw = lines.map((l) => l.text).join("\n").trim();
+    const keep = raw.length > 0 && (zone !== null || options.garder_hors_zone);
+
+    if (keep) {
+      const parts = splitLongText(raw, maxChars);
+      parts.forEach((part, i) => {
+        chunks.push({
+          ordre: chunks.length + 1,
+          zone_code: zone,
+          article_code: article,
+          sous_section: sousSection,
+          section_label: sectionLabel(zone, article, sousSection) +
+            (parts.length > 1 ? ` (${i + 1}/${parts.length})` : ""),
+          page_number: lines[0].page,
+          page_fin: lines[lines.length - 1].page,
+          raw_text: part,
+        });
+      });
+    }
+    lines = [];
+  };
+
+  for (const page of pages) {
+    for (const text of page.text.split("\n")) {
+      const line = text.replace(/\s+$/, "");
+
+      const zoneMatch = firstMatch(regles.zone, line);
+      if (zoneMatch?.zone) {
+        flush();
+        zone = zoneMatch.zone;
+        article = null;
+        sousSection = null;
+        lines.push({ text: line, page: page.page_number });
+        continue;
+      }
+
+      const articleMatch = firstMatch(regles.article, line);
+      if (articleMatch?.numero) {
+        flush();
+        if (articleMatch.zone) zone = articleMatch.zone;
+        article = zone ? `${zone}.${Number(articleMatch.numero)}` : String(
+          Number(articleMatch.numero),
+        );
+        sousSection = null;
+        lines.push({ text: line, page: page.page_number });
+        continue;
+      }
+
+      if (decouperSousSections && article) {
+        const sousMatch = firstMatch(regles.sous_section, line);
+        if (sousMatch?.label) {
+          flush();
+          sousSection = sousMatch.label;
+          lines.push({ text: line, page: page.page_number });
+          continue;
+        }
+      }
+
+      if (line.trim() || lines.length > 0) {
+        lines.push({ text: line, page: page.page_number });
+      }
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Résumé par zone (nombre de chunks, articles, pages couvertes).
+ */
+export function summariseChunks(chunks: PluTextChunk[]) {
+  const zones = new Map<
+    string,
+    { zone_code: string; chunks: number; articles: Set<string>; page_debut: number; page_fin: number }
+  >();
+
+  for (const c of chunks) {
+    if (!c.zone_code) continue;
+    const z = zones.get(c.zone_code) ?? {
+      zone_code: c.zone_code,
+      chunks: 0,
+      articles: new Set<string>(),
+      page_debut: c.page_number,
+      page_fin: c.page_fin,
+    };
+    z.chunks += 1;
+    if (c.article_code) z.articles.add(c.article_code);
+    z.page_debut = Math.min(z.page_debut, c.page_number);
+    z.page_fin = Math.max(z.page_fin, c.page_fin);
+    zones.set(c.zone_code, z);
+  }
+
+  return Array.from(zones.values()).map((z) => ({
+    ...z,
+    articles: Array.from(z.articles),
+  }));
+}
+
+// -------------------------------------------------
+// Écriture plu_text_chunks
+// -------------------------------------------------
+
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * Remplace les chunks d'une source (source_id) par ceux fournis : insertion
+ * sous un nouvel import_id, puis suppression des imports précédents. Si une
+ * insertion échoue, les chunks déjà insérés sont retirés et les anciens restent.
+ */
+export async function savePluChunks(
+  supabase: SupabaseClient,
+  input: {
+    source_id: string;
+    commune_insee: string;
+    storage_path?: string | null;
+    chunks: PluTextChunk[];
+  },
+): Promise<{ deleted: number; inserted: number }> {
+  const importId = crypto.randomUUID();
+
+  const rows = input.chunks.map((c) => ({
+    source_id: input.source_id,
+    import_id: importId,
+    commune_insee: input.commune_insee,
+    storage_path: input.storage_path ?? null,
+    zone_code: c.zone_code,
+    article_code: c.article_code,
+    sous_section: c.sous_section,
+    section_label: c.section_label,
+    page_number: c.page_number,
+    page_fin: c.page_fin,
+    ordre: c.ordre,
+    raw_text: c.raw_text,
+  }));
+
+  let inserted = 0;
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + INSERT_BATCH_SIZE);
+    const { error } = await supabase.from("plu_text_chunks").insert(batch);
+    if (error) {
+      console.error("❌ savePluChunks insert error:", error);
+      const { error: cleanupError } = await supabase
+        .from("plu_text_chunks")
+        .delete()
+        .eq("source_id", input.source_id)
+        .eq("import_id", importId);
+      if (cleanupError) {
+        console.error("❌ savePluChunks cleanup error:", cleanupError);
+      }
+      throw new Error(`Insertion des chunks : ${error.message}`);
+    }
+    inserted += batch.length;
+  }
+
+  const { error: delError, count } = await supabase
+    .from("plu_text_chunks")
+    .delete({ count: "exact" })
+    .eq("source_id", input.source_id)
+    .or(`import_id.is.null,import_id.neq.${importId}`);
+
+  if (delError) {
+    console.error("❌ savePluChunks delete error:", delError);
+    throw new Error(`Suppression des anciens chunks : ${delError.message}`);
+  }
+
+  return { deleted: count ?? 0, inserted };
+}
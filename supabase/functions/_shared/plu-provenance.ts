@@ -0,0 +1,307 @@
+// supabase/functions/_shared/plu-provenance.ts
+//
+// Provenance champ par champ des rulesets PLU extraits
+//  - chaque champ numérique reçoit : extracteur (llm / regex / manual),
+//    extrait cité, chunk plu_text_chunks (id, page, section) et confiance 0–1
+//  - les citations du modèle (clé "provenance" de sa réponse) et les traces
+//    des heuristiques locales sont recherchées dans les chunks sources
+//  - stockée dans le ruleset (clé "provenance"), exposée par plu-get-rules-for-zone
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+export type Extracteur = "llm" | "regex" | "manual";
+
+// Chunk de plu_text_chunks (ou bloc [PAGE n - section] d'un texte assemblé)
+export type ChunkSource = {
+  id?: number | string | null;
+  source_id?: string | null;
+  page_number: number | null;
+  section_label: string | null;
+  raw_text: string;
+};
+
+// Citation déclarée par le modèle pour un champ
+export type CitationLlm = {
+  extrait?: string | null;
+  article?: string | null;
+  confiance?: number | null;
+};
+
+// Trace d'une heuristique locale (regex) ayant renseigné un champ
+export type TraceHeuristique = {
+  chemin: string;
+  extrait: string;
+  motif: string;
+};
+
+export type ProvenanceChamp = {
+  valeur: number;
+  extracteur: Extracteur;
+  confiance: number;
+  extrait: string | null;
+  article: string | null;
+  chunk_id: number | string | null;
+  source_id: string | null;
+  page_number: number | null;
+  section_label: string | null;
+  // Extrait retrouvé dans le texte source / valeur présente dans l'extrait
+  extrait_retrouve: boolean;
+  valeur_dans_extrait: boolean;
+  motif?: string;
+};
+
+export type ProvenanceRuleset = Record<string, ProvenanceChamp>;
+
+// -------------------------------------------------
+// Constantes
+// -------------------------------------------------
+
+export const CLE_PROVENANCE = "provenance";
+
+const CONFIANCE_LLM_DEFAUT = 0.5;
+const CONFIANCE_LLM_MAX = 0.9;
+const CONFIANCE_LLM_SANS_EXTRAIT = 0.2;
+const CONFIANCE_REGEX = 0.6;
+const CONFIANCE_MANUELLE = 1;
+
+// Pénalités : extrait introuvable dans le texte / valeur absente de l'extrait
+const FACTEUR_EXTRAIT_INTROUVABLE = 0.5;
+const FACTEUR_VALEUR_ABSENTE = 0.7;
+
+const EXTRAIT_MAX_CHARS = 300;
+
+// -------------------------------------------------
+// Helpers
+// -------------------------------------------------
+
+function normaliser(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[’']/g, "'")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function round(value: number, decimals = 2): number {
+  return Math.round(value * 10 ** decimals) / 10 ** decimals;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Chemins pointés de tous les champs numériques d'un ruleset
+ * (hors clé de provenance).
+ */
+export function numericFieldPaths(
+  ruleset: unknown,
+  prefix = "",
+): { chemin: string; valeur: number }[] {
+  if (!isObject(ruleset)) return [];
+
+  const out: { chemin: string; valeur: number }[] = [];
+  for (const [key, value] of Object.entries(ruleset)) {
+    if (!prefix && key === CLE_PROVENANCE) continue;
+    const chemin = prefix ? `${prefix}.${key}` : key;
+
+    if (typeof value === "number" && Number.isFinite(value)) {
+      out.push({ chemin, valeur: value });
+    } else if (isObject(value)) {
+      out.push(...numericFieldPaths(value, chemin));
+    }
+  }
+  return out;
+}
+
+/**
+ * Découpe un texte assemblé "[PAGE n - section]\n…" en chunks (sans id).
+ */
+export function chunksFromText(text: string): ChunkSource[] {
+  const marker = /\[PAGE\s+(\d+)\s*-\s*([^\]]*)\]\s*\n?/g;
+  const chunks: ChunkSource[] = [];
+
+  let match: RegExpExecArray | null;
+  let last: { page: number; section: string; start: number } | null = null;
+
+  while ((match = marker.exec(text)) !== null) {
+    if (last) {
+      chunks.push({
+        page_number: last.page,
+        section_label: last.section || null,
+        raw_text: text.slice(last.start, match.index),
+      });
+    }
+    last = {
+      page: Number(match[1]),
+      section: match[2].trim(),
+      start: match.index + match[0].length,
+    };
+  }
+
+  if (last) {
+    chunks.push({
+      page_number: last.page,
+      section_label: last.section || null,
+      raw_text: text.slice(last.start),
+    });
+  }
+
+  return chunks.length > 0
+    ? chunks
+    : [{ page_number: null, section_label: null, raw_text: text }];
+}
+
+/**
+ * Chunk contenant l'extrait (comparaison sans casse, accents ni espaces
+ * multiples). À défaut, chunk partageant le plus de mots (≥ 80 %).
+ */
+export function locateExcerpt(
+  extrait: string,
+  chunks: ChunkSource[],
+): ChunkSource | null {
+  const cible = normaliser(extrait);
+  if (!cible) return null;
+
+  const exact = chunks.find((c) => normaliser(c.raw_text).includes(cible));
+  if (exact) return exact;
+
+  const mots = cible.split(" ").filter((m) => m.length > 2);
+  if (mots.length < 4) return null;
+
+  let meilleur: { chunk: ChunkSource; score: number } | null = null;
+  for (const chunk of chunks) {
+    const texte = normaliser(chunk.raw_text);
+    const score = mots.filter((m) => texte.includes(m)).length / mots.length;
+    if (!meilleur || score > meilleur.score) meilleur = { chunk, score };
+  }
+
+  return meilleur && meilleur.score >= 0.8 ? meilleur.chunk : null;
+}
+
+// Écritures possibles d'une valeur dans le texte (ratios aussi en %)
+function formesValeur(valeur: number): string[] {
+  const formes = new Set<string>();
+  for (const v of [valeur, valeur * 100]) {
+    const arrondi = round(v, 2);
+    const point = String(arrondi);
+    formes.add(point);
+    formes.add(point.replace(".", ","));
+  }
+  return Array.from(formes);
+}
+
+export function valueInExcerpt(valeur: number, extrait: string): boolean {
+  const texte = normaliser(extrait);
+  return formesValeur(valeur).some((f) =>
+    new RegExp(`(^|[^0-9.,])${f.replace(/[.]/g, "\\.")}([^0-9]|$)`).test(texte)
+  );
+}
+
+/**
+ * Extrait de texte autour d'une correspondance (phrase, tronquée).
+ */
+export function excerptAround(text: string, index: number, length: number): string {
+  const debut = Math.max(
+    text.lastIndexOf(".", index) + 1,
+    text.lastIndexOf("\n", index) + 1,
+    index - EXTRAIT_MAX_CHARS / 2,
+    0,
+  );
+  const finPoint = text.indexOf(".", index + length);
+  const fin = Math.min(
+    finPoint >= 0 ? finPoint + 1 : text.length,
+    index + length + EXTRAIT_MAX_CHARS / 2,
+    text.length,
+  );
+  return text.slice(debut, fin).replace(/\s+/g, " ").trim();
+}
+
+// -------------------------------------------------
+// Construction de la provenance
+// -------------------------------------------------
+
+/**
+ * Provenance de chaque champ numérique du ruleset :
+ *  - trace d'heuristique → "regex"
+ *  - citation du modèle → "llm" (confiance déclarée, plafonnée, pénalisée si
+ *    l'extrait est introuvable ou ne contient pas la valeur)
+ *  - extraction manuelle → "manual"
+ */
+export function buildProvenance(input: {
+  ruleset: unknown;
+  chunks: ChunkSource[];
+  extracteur: Extracteur;
+  citations?: Record<string, CitationLlm> | null;
+  heuristiques?: TraceHeuristique[];
+}): ProvenanceRuleset {
+  const provenance: ProvenanceRuleset = {};
+  const citations = isObject(input.citations) ? input.citations : {};
+  const traces = new Map(
+    (input.heuristiques ?? []).map((t) => [t.chemin, t]),
+  );
+
+  for (const { chemin, valeur } of numericFieldPaths(input.ruleset)) {
+    const trace = traces.get(chemin);
+    const citation = isObject(citations[chemin])
+      ? (citations[chemin] as CitationLlm)
+      : null;
+
+    const extracteur: Extracteur = trace ? "regex" : input.extracteur;
+    const extrait = trace?.extrait ??
+      (typeof citation?.extrait === "string" && citation.extrait.trim()
+        ? citation.extrait.trim().slice(0, EXTRAIT_MAX_CHARS)
+        : null);
+
+    const chunk = extrait ? locateExcerpt(extrait, input.chunks) : null;
+    const valeurDansExtrait = extrait ? valueInExcerpt(valeur, extrait) : false;
+
+    let confiance: number;
+    if (extracteur === "manual") {
+      confiance = CONFIANCE_MANUELLE;
+    } else if (extracteur === "regex") {
+      confiance = CONFIANCE_REGEX;
+    } else if (!extrait) {
+      confiance = CONFIANCE_LLM_SANS_EXTRAIT;
+    } else {
+      const declaree = typeof citation?.confiance === "number"
+        ? citation.confiance
+        : CONFIANCE_LLM_DEFAUT;
+      confiance = Math.min(Math.max(declaree, 0), CONFIANCE_LLM_MAX);
+      if (!chunk) confiance *= FACTEUR_EXTRAIT_INTROUVABLE;
+      if (!valeurDansExtrait) confiance *= FACTEUR_VALEUR_ABSENTE;
+    }
+
+    provenance[chemin] = {
+      valeur,
+      extracteur,
+      confiance: round(confiance),
+      extrait,
+      article: citation?.article ?? chunk?.section_label ?? null,
+      chunk_id: chunk?.id ?? null,
+      source_id: chunk?.source_id ?? null,
+      page_number: chunk?.page_number ?? null,
+      section_label: chunk?.section_label ?? null,
+      extrait_retrouve: !!chunk,
+      valeur_dans_extrait: valeurDansExtrait,
+      ...(trace ? { motif: trace.motif } : {}),
+    };
+  }
+
+  return provenance;
+}
+
+/**
+ * Remplace les citations brutes du modèle par la provenance résolue.
+ */
+export function withProvenance<T>(
+  ruleset: T,
+  provenance: ProvenanceRuleset,
+): T {
+  if (!isObject(ruleset)) return ruleset;
+  return { ...ruleset, [CLE_PROVENANCE]: provenance } as T;
+}
@@ -0,0 +1,312 @@
+// supabase/functions/_shared/plu-review.ts
+//
+// Relecture des rulesets PLU (plu_rulesets, plu_rulesets_universal,
+// plu_ruleset_normalized) :
+//  - statuts draft → in_review → approved → superseded
+//  - corrections du relecteur appliquées au ruleset, extraction machine
+//    conservée (machine_ruleset) et écarts stockés en diff (review_diff)
+//  - commentaires par champ (plu_ruleset_review_comments)
+//
+// Utilisé par plu-ruleset-review, et par les extracteurs pour enregistrer un
+// ruleset (ré)extrait en brouillon sans toucher au ruleset approuvé.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { type Difference, diffJson } from "./json-diff.ts";
+import { CLE_PROVENANCE, type ProvenanceChamp } from "./plu-provenance.ts";
+
+// -------------------------------------------------
+// Types & constantes
+// -------------------------------------------------
+
+export type ReviewStatus = "draft" | "in_review" | "approved" | "superseded";
+
+export type RulesetTable =
+  | "plu_rulesets"
+  | "plu_rulesets_universal"
+  | "plu_ruleset_normalized";
+
+// Colonnes JSON portant le ruleset, par ordre de priorité
+// (plu_rulesets : rules via plu-extract-ruleset, raw_rules via plu-universal-parser)
+export const REVIEW_TABLES: Record<RulesetTable, { colonnes: string[] }> = {
+  plu_rulesets: { colonnes: ["rules", "raw_rules"] },
+  plu_rulesets_universal: { colonnes: ["ruleset"] },
+  plu_ruleset_normalized: { colonnes: ["ruleset"] },
+};
+
+export const STATUT_APPROUVE: ReviewStatus = "approved";
+
+// Transitions manuelles (approved → superseded est fait par plu_ruleset_approuver)
+export const REVIEW_TRANSITIONS: Record<ReviewStatus, ReviewStatus[]> = {
+  draft: ["in_review"],
+  in_review: ["approved", "draft"],
+  approved: [],
+  superseded: [],
+};
+
+// Statuts dans lesquels le relecteur peut corriger des valeurs
+const STATUTS_MODIFIABLES: ReviewStatus[] = ["draft", "in_review"];
+
+// Tables alimentées par les extracteurs (plu_ruleset_enregistrer_extraction)
+export type ExtractionTable = "plu_rulesets" | "plu_rulesets_universal";
+
+export type RulesetRow = {
+  id: number | string;
+  commune_insee: string;
+  commune_nom?: string | null;
+  zone_code: string;
+  review_status: ReviewStatus;
+  machine_ruleset: Record<string, unknown> | null;
+  review_diff: Difference[] | null;
+  submitted_at: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  [key: string]: unknown;
+};
+
+export type ModificationChamp = {
+  chemin: string;
+  valeur: unknown;
+};
+
+export type CommentaireRow = {
+  id: string;
+  ruleset_table: RulesetTable;
+  ruleset_id: string;
+  chemin: string | null;
+  auteur: string | null;
+  commentaire: string;
+  resolu: boolean;
+  created_at: string;
+};
+
+// -------------------------------------------------
+// Helpers
+// -------------------------------------------------
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+export function isRulesetTable(value: unknown): value is RulesetTable {
+  return typeof value === "string" && Object.hasOwn(REVIEW_TABLES, value);
+}
+
+// Chemin de correction : segments non vides, jamais vers un prototype
+const SEGMENTS_INTERDITS = new Set(["__proto__", "constructor", "prototype"]);
+
+export function isCheminValide(chemin: unknown): chemin is string {
+  return typeof chemin === "string" &&
+    chemin.split(".").every((key) => key !== "" && !SEGMENTS_INTERDITS.has(key));
+}
+
+export function canTransition(from: ReviewStatus, to: ReviewStatus): boolean {
+  return Object.hasOwn(REVIEW_TRANSITIONS, from) &&
+    REVIEW_TRANSITIONS[from].includes(to);
+}
+
+export function isModifiable(status: ReviewStatus): boolean {
+  return STATUTS_MODIFIABLES.includes(status);
+}
+
+/**
+ * Colonne et contenu du ruleset d'une ligne (première colonne non vide).
+ */
+export function rulesetContent(
+  table: RulesetTable,
+  row: Record<string, unknown>,
+): { colonne: string; contenu: Record<string, unknown> | null } {
+  const { colonnes } = REVIEW_TABLES[table];
+  const colonne = colonnes.find((c) => isObject(row[c])) ?? colonnes[0];
+  return {
+    colonne,
+    contenu: isObject(row[colonne]) ? row[colonne] as Record<string, unknown> : null,
+  };
+}
+
+// Copie de l'objet avec la valeur posée au chemin pointé (objets créés au besoin)
+function setPath(
+  obj: Record<string, unknown>,
+  chemin: string,
+  valeur: unknown,
+): Record<string, unknown> {
+  const [key, ...reste] = chemin.split(".");
+  if (reste.length === 0) return { ...obj, [key]: valeur };
+
+  const enfant = isObject(obj[key]) ? obj[key] as Record<string, unknown> : {};
+  return { ...obj, [key]: setPath(enfant, reste.join("."), valeur) };
+}
+
+/**
+ * Applique les corrections du relecteur :
+ *  - valeurs posées aux chemins indiqués
+ *  - provenance des champs numériques corrigés passée en "manual"
+ *  - diff recalculé contre l'extraction machine (provenance exclue)
+ */
+export function applyReviewerEdits(
+  contenu: Record<string, unknown>,
+  machine: Record<string, unknown>,
+  modifications: ModificationChamp[],
+): { contenu: Record<string, unknown>; diff: Difference[] } {
+  let next = contenu;
+
+  for (const { chemin, valeur } of modifications) {
+    next = setPath(next, chemin, valeur);
+
+    const provenance = next[CLE_PROVENANCE];
+    if (isObject(provenance) && typeof valeur === "number") {
+      const avant = isObject(provenance[chemin])
+        ? provenance[chemin] as ProvenanceChamp
+        : null;
+      const champ: ProvenanceChamp = {
+        extrait: null,
+        article: null,
+        chunk_id: null,
+        source_id: null,
+        page_number: null,
+        section_label: null,
+        extrait_retrouve: false,
+        valeur_dans_extrait: false,
+        ...avant,
+        valeur,
+        extracteur: "manual",
+        confiance: 1,
+      };
+      next = { ...next, [CLE_PROVENANCE]: { ...provenance, [chemin]: champ } };
+    }
+  }
+
+  const { differences } = diffJson(machine, next, {
+    ignorer: [CLE_PROVENANCE],
+    max: 1000,
+  });
+  return { contenu: next, diff: differences };
+}
+
+// -------------------------------------------------
+// Écritures des extracteurs
+// -------------------------------------------------
+
+/**
+ * Enregistre des rulesets (ré)extraits : le brouillon ouvert de la zone
+ * (draft / in_review) est remplacé et remis en draft, sinon un nouveau
+ * brouillon est créé. Le ruleset approuvé n'est remplacé qu'à l'approbation
+ * (plu_ruleset_approuver).
+ */
+export async function saveExtractedRulesets(
+  supabase: SupabaseClient,
+  table: ExtractionTable,
+  rows: Record<string, unknown>[],
+): Promise<RulesetRow[]> {
+  const { data, error } = await supabase.rpc(
+    "plu_ruleset_enregistrer_extraction",
+    { p_table: table, p_rows: rows },
+  );
+
+  if (error) {
+    console.error("❌ saveExtractedRulesets error:", error);
+    throw new Error(`Enregistrement dans ${table} : ${error.message}`);
+  }
+  return (data as RulesetRow[] | null) ?? [];
+}
+
+// -------------------------------------------------
+// Lectures
+// -------------------------------------------------
+
+export async function fetchRulesetRow(
+  supabase: SupabaseClient,
+  table: RulesetTable,
+  id: string | number,
+): Promise<RulesetRow | null> {
+  const { data, error } = await supabase
+    .from(table)
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("❌ fetchRulesetRow error:", error);
+    throw new Error(`Lecture du ruleset : ${error.message}`);
+  }
+  return (data as RulesetRow | null) ?? null;
+}
+
+export async function fetchReviewComments(
+  supabase: SupabaseClient,
+  table: RulesetTable,
+  id: string | number,
+): Promise<CommentaireRow[]> {
+  const { data, error } = await supabase
+    .from("plu_ruleset_review_comments")
+    .select("*")
+    .eq("ruleset_table", table)
+    .eq("ruleset_id", String(id))
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("❌ fetchReviewComments error:", error);
+    throw new Error(`Lecture des commentaires : ${error.message}`);
+  }
+  return (data as CommentaireRow[] | null) ?? [];
+}
+
+/**
+ * Rulesets en attente de relecture, toutes tables confondues
+ * (plus anciens soumis en premier).
+ */
+export async function listPendingReviews(
+  supabase: SupabaseClient,
+  options: {
+    statuts?: ReviewStatus[];
+    tables?: RulesetTable[];
+    commune_insee?: string | null;
+    limit?: number;
+  } = {},
+) {
+  const statuts = options.statuts ?? ["in_review"];
+  const tables = options.tables ?? (Object.keys(REVIEW_TABLES) as RulesetTable[]);
+  const limit = options.limit ?? 100;
+
+  const parTable = await Promise.all(
+    tables.map(async (table) => {
+      let q = supabase
+        .from(table)
+        .select(
+          "id, commune_insee, commune_nom, zone_code, review_status, submitted_at, review_diff",
+        )
+        .in("review_status", statuts);
+
+      if (options.commune_insee) q = q.eq("commune_insee", options.commune_insee);
+
+      const { data, error } = await q
+        .order("submitted_at", { ascending: true, nullsFirst: false })
+        .limit(limit);
+
+      if (error) {
+        console.error(`❌ listPendingReviews error (${table}):`, error);
+        throw new Error(`Lecture de ${table} : ${error.message}`);
+      }
+
+      return ((data ?? []) as any[]).map((row) => ({
+        table,
+        id: row.id,
+        commune_insee: row.commune_insee,
+        commune_nom: row.commune_nom ?? null,
+        zone_code: row.zone_code,
+        review_status: row.review_status as ReviewStatus,
+        submitted_at: row.submitted_at ?? null,
+        nb_corrections: Array.isArray(row.review_diff) ? row.review_diff.length : 0,
+      }));
+    }),
+  );
+
+  return parTable
+    .flat()
+    .sort((a, b) => {
+      if (!a.submitted_at || !b.submitted_at) {
+        return (a.submitted_at ? 0 : 1) - (b.submitted_at ? 0 : 1);
+      }
+      return a.submitted_at.localeCompare(b.submitted_at);
+    })
+    .slice(0, limit);
+}
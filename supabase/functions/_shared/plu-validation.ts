@@ -0,0 +1,619 @@
+// supabase/functions/_shared/plu-validation.ts
+//
+// Validation stricte des rulesets PLU produits par un LLM
+//  - schémas déclaratifs : PLURulesetV2 (plu-extract-ruleset) et format
+//    plat de plu-universal-parser
+//  - contrôle des types, bornes et unités : ratios dans [0, 1], hauteurs et
+//    distances en mètres, nombres entiers
+//  - corrections sûres appliquées et tracées : "40 %" ou 40 → 0.4,
+//    "12 m" → 12, "350 cm" → 3.5, "0,5" → 0.5
+//  - boucle de réparation bornée : les erreurs restantes sont renvoyées au
+//    modèle, qui renvoie un JSON corrigé
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+export type FieldSpec =
+  | { type: "texte"; requis?: boolean; valeurs?: readonly string[] }
+  | { type: "booleen"; requis?: boolean }
+  | {
+    type: "nombre";
+    requis?: boolean;
+    min?: number;
+    max?: number;
+    entier?: boolean;
+  }
+  // Ratio 0–1 (pourcentages convertis)
+  | { type: "ratio"; requis?: boolean }
+  // Longueur en mètres (centimètres convertis)
+  | { type: "metres"; requis?: boolean; max: number }
+  | { type: "liste_texte"; requis?: boolean }
+  | { type: "objet"; requis?: boolean; champs: Record<string, FieldSpec> }
+  // Clés libres (articles, secteurs…), valeurs d'un même schéma
+  | { type: "dictionnaire"; requis?: boolean; valeurs: FieldSpec };
+
+export type SchemaPlu = {
+  nom: string;
+  champs: Record<string, FieldSpec>;
+  // Paires de chemins devant vérifier inferieur <= superieur
+  coherences?: { inferieur: string; superieur: string }[];
+};
+
+export type ErreurValidation = {
+  chemin: string;
+  message: string;
+  valeur?: unknown;
+};
+
+export type CorrectionValidation = {
+  chemin: string;
+  avant: unknown;
+  apres: unknown;
+  motif: string;
+};
+
+export type RapportValidation = {
+  schema: string;
+  valide: boolean;
+  erreurs: ErreurValidation[];
+  corrections: CorrectionValidation[];
+  avertissements: ErreurValidation[];
+  // Allers-retours de réparation effectués avec le modèle
+  tentatives_reparation: number;
+  historique: { tentative: number; nb_erreurs: number }[];
+  erreur_reparation?: string;
+};
+
+// -------------------------------------------------
+// Schémas
+// -------------------------------------------------
+
+const HAUTEUR_MAX_M = 200;
+const DISTANCE_MAX_M = 100;
+
+const TEXTE: FieldSpec = { type: "texte" };
+const HAUTEUR: FieldSpec = { type: "metres", max: HAUTEUR_MAX_M };
+const DISTANCE: FieldSpec = { type: "metres", max: DISTANCE_MAX_M };
+const NB_NIVEAUX: FieldSpec = { type: "nombre", min: 0, max: 60, entier: true };
+const PLACES: FieldSpec = { type: "nombre", min: 0, max: 10 };
+const PLACES_PAR_M2: FieldSpec = { type: "nombre", min: 0, max: 1 };
+
+// Citations du modèle par champ numérique (cf. plu-provenance.ts)
+const PROVENANCE: FieldSpec = {
+  type: "dictionnaire",
+  valeurs: {
+    type: "objet",
+    champs: {
+      extrait: TEXTE,
+      article: TEXTE,
+      confiance: { type: "ratio" },
+    },
+  },
+};
+
+export const PLU_RULESET_V2_SCHEMA: SchemaPlu = {
+  nom: "PLURulesetV2",
+  champs: {
+    meta: {
+      type: "objet",
+      requis: true,
+      champs: {
+        commune_insee: { type: "texte", requis: true },
+        commune_nom: { type: "texte", requis: true },
+        zone_code: { type: "texte", requis: true },
+        secteur: TEXTE,
+        source_label: TEXTE,
+        source_type: {
+          type: "texte",
+          valeurs: ["pdf_upload", "plui", "test", "autre"],
+        },
+      },
+    },
+    usages: {
+      type: "objet",
+      requis: true,
+      champs: {
+        autorises: { type: "liste_texte", requis: true },
+        interdits: { type: "liste_texte" },
+        sous_conditions: { type: "liste_texte" },
+      },
+    },
+    implantation: {
+      type: "objet",
+      requis: true,
+      champs: {
+        alignement_rue: {
+          type: "texte",
+          valeurs: ["obligatoire", "facultatif", "interdit"],
+        },
+        recul_min_rue_m: DISTANCE,
+        recul_min_limite_laterale_m: DISTANCE,
+        recul_min_fond_parcelle_m: DISTANCE,
+        regles_prospect: TEXTE,
+      },
+    },
+    densite_emprise: {
+      type: "objet",
+      requis: true,
+      champs: {
+        emprise_max_ratio: { type: "ratio" },
+        emprise_max_surface_m2: { type: "nombre", min: 0 },
+        cos_existe: { type: "booleen", requis: true },
+        cos_max: { type: "nombre", min: 0, max: 10 },
+        max_sdp_m2_par_m2_terrain: { type: "nombre", min: 0, max: 20 },
+        commentaires: TEXTE,
+      },
+    },
+    hauteurs: {
+      type: "objet",
+      requis: true,
+      champs: {
+        h_max_egout_m: HAUTEUR,
+        h_max_faitage_m: HAUTEUR,
+        nb_niveaux_max: NB_NIVEAUX,
+        secteurs_overrides: {
+          type: "dictionnaire",
+          valeurs: {
+            type: "objet",
+            champs: {
+              h_max_egout_m: HAUTEUR,
+              h_max_faitage_m: HAUTEUR,
+              nb_niveaux_max: NB_NIVEAUX,
+            },
+          },
+        },
+        regle_prospect: TEXTE,
+        commentaires: TEXTE,
+      },
+    },
+    pleine_terre: {
+      type: "objet",
+      requis: true,
+      champs: {
+        ratio_min: { type: "ratio" },
+        commentaire: TEXTE,
+      },
+    },
+    stationnement: {
+      type: "objet",
+      requis: true,
+      champs: {
+        logement: {
+          type: "objet",
+          champs: {
+            places_par_logement: PLACES,
+            places_par_m2_sdp: PLACES_PAR_M2,
+            min_places_par_logement: PLACES,
+            places_visiteur_par_logements: {
+              type: "objet",
+              champs: {
+                logements: { type: "nombre", requis: true, min: 1, entier: true },
+                places: { type: "nombre", requis: true, min: 0 },
+              },
+            },
+          },
+        },
+        bureau: {
+          type: "objet",
+          champs: { places_par_m2_sdp: PLACES_PAR_M2 },
+        },
+        commerce: {
+          type: "objet",
+          champs: { places_par_m2_sdp: PLACES_PAR_M2 },
+        },
+        commentaires: TEXTE,
+      },
+    },
+    voirie_acces: {
+      type: "objet",
+      requis: true,
+      champs: {
+        largeur_min_acces_m: { type: "metres", max: 50 },
+        observations: TEXTE,
+      },
+    },
+    divers: {
+      type: "objet",
+      requis: true,
+      champs: {
+        contraintes_patrimoniales: TEXTE,
+        contraintes_paysageres: TEXTE,
+        autres: TEXTE,
+      },
+    },
+    brut: {
+      type: "objet",
+      requis: true,
+      champs: {
+        articles: {
+          type: "dictionnaire",
+          requis: true,
+          valeurs: {
+            type: "objet",
+            champs: {
+              titre: TEXTE,
+              contenu: { type: "texte", requis: true },
+            },
+          },
+        },
+        notes_generales: TEXTE,
+      },
+    },
+    provenance: PROVENANCE,
+  },
+  coherences: [
+    { inferieur: "hauteurs.h_max_egout_m", superieur: "hauteurs.h_max_faitage_m" },
+  ],
+};
+
+export const PLU_UNIVERSAL_SCHEMA: SchemaPlu = {
+  nom: "plu-universal-parser",
+  champs: {
+    commune_insee: { type: "texte", requis: true },
+    commune_nom: { type: "texte", requis: true },
+    zone_code: { type: "texte", requis: true },
+    zone_libelle: TEXTE,
+    plu_version_label: TEXTE,
+    densite: {
+      type: "objet",
+      champs: {
+        cos_existe: { type: "booleen" },
+        cos_max: { type: "nombre", min: 0, max: 10 },
+        max_sdp_m2_par_m2_terrain: { type: "nombre", min: 0, max: 20 },
+        commentaire: TEXTE,
+      },
+    },
+    hauteur: {
+      type: "objet",
+      champs: {
+        hauteur_max_m: HAUTEUR,
+        hauteur_min_m: HAUTEUR,
+        commentaire: TEXTE,
+      },
+    },
+    emprise_sol: {
+      type: "objet",
+      champs: {
+        emprise_sol_max: { type: "ratio" },
+        commentaire: TEXTE,
+      },
+    },
+    reculs_alignements: { type: "objet", champs: { commentaire: TEXTE } },
+    stationnement: { type: "objet", champs: { commentaire: TEXTE } },
+    autres_regles: { type: "objet", champs: { commentaire: TEXTE } },
+    articles_source: { type: "liste_texte" },
+    provenance: PROVENANCE,
+  },
+  coherences: [
+    { inferieur: "hauteur.hauteur_min_m", superieur: "hauteur.hauteur_max_m" },
+  ],
+};
+
+// -------------------------------------------------
+// Validation
+// -------------------------------------------------
+
+const NOMBRE_REGEX =
+  /^(-?\d+(?:[.,]\d+)?)\s*(%|cm|m|mètres?|metres?|ml)?\.?$/i;
+
+// Nombre éventuellement saisi en texte, avec son unité
+function lireNombre(value: unknown): { n: number; unite: string | null } | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? { n: value, unite: null } : null;
+  }
+  if (typeof value !== "string") return null;
+
+  const match = NOMBRE_REGEX.exec(value.trim().replace(/ /g, " "));
+  if (!match) return null;
+
+  const n = Number(match[1].replace(",", "."));
+  if (!Number.isFinite(n)) return null;
+
+  const unite = match[2]?.toLowerCase() ?? null;
+  return { n, unite: unite && unite.startsWith("m") ? "m" : unite };
+}
+
+function arrondi(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function typeDe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "tableau";
+  return typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function getPath(obj: unknown, path: string): unknown {
+  let current: any = obj;
+  for (const key of path.split(".")) {
+    if (current === null || current === undefined) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+type Contexte = Pick<
+  RapportValidation,
+  "erreurs" | "corrections" | "avertissements"
+>;
+
+function validerChamp(
+  spec: FieldSpec,
+  value: unknown,
+  chemin: string,
+  ctx: Contexte,
+): unknown {
+  if (value === null || value === undefined) {
+    if (spec.requis) {
+      ctx.erreurs.push({ chemin, message: "champ obligatoire manquant" });
+    }
+    return value ?? null;
+  }
+
+  const corriger = (apres: unknown, motif: string) => {
+    ctx.corrections.push({ chemin, avant: value, apres, motif });
+    return apres;
+  };
+  const erreur = (message: string) => {
+    ctx.erreurs.push({ chemin, message, valeur: value });
+    return value;
+  };
+
+  switch (spec.type) {
+    case "texte": {
+      if (typeof value === "number" || typeof value === "boolean") {
+        return corriger(String(value), "converti en texte");
+      }
+      if (typeof value !== "string") {
+        return erreur(`texte attendu, reçu ${typeDe(value)}`);
+      }
+      if (spec.valeurs && !spec.valeurs.includes(value)) {
+        return erreur(`valeur hors liste (${spec.valeurs.join(", ")})`);
+      }
+      return value;
+    }
+
+    case "booleen": {
+      if (typeof value === "boolean") return value;
+      if (value === "true" || value === "oui") return corriger(true, "booléen");
+      if (value === "false" || value === "non") return corriger(false, "booléen");
+      return erreur(`booléen attendu, reçu ${typeDe(value)}`);
+    }
+
+    case "nombre": {
+      const lu = lireNombre(value);
+      if (!lu || (lu.unite && lu.unite !== "m")) {
+        return erreur(`nombre attendu, reçu ${JSON.stringify(value)}`);
+      }
+      const n = lu.n;
+      if (spec.entier && !Number.isInteger(n)) {
+        return erreur("nombre entier attendu");
+      }
+      if (spec.min != null && n < spec.min) return erreur(`doit être ≥ ${spec.min}`);
+      if (spec.max != null && n > spec.max) return erreur(`doit être ≤ ${spec.max}`);
+      return typeof value === "number" ? value : corriger(n, "nombre saisi en texte");
+    }
+
+    case "ratio": {
+      const lu = lireNombre(value);
+      if (!lu || (lu.unite && lu.unite !== "%")) {
+        return erreur(`ratio attendu, reçu ${JSON.stringify(value)}`);
+      }
+      let n = lu.n;
+      let motif: string | null = typeof value === "number" ? null : "nombre saisi en texte";
+      if (lu.unite === "%" || (n > 1 && n <= 100)) {
+        n = arrondi(n / 100);
+        motif = "pourcentage converti en ratio 0–1";
+      }
+      if (n < 0 || n > 1) return erreur("ratio attendu entre 0 et 1");
+      return motif ? corriger(n, motif) : value;
+    }
+
+    case "metres": {
+      const lu = lireNombre(value);
+      if (!lu || (lu.unite && lu.unite !== "m" && lu.unite !== "cm")) {
+        return erreur(`longueur en mètres attendue, reçu ${JSON.stringify(value)}`);
+      }
+      let n = lu.n;
+      let motif: string | null = typeof value === "number" ? null : "longueur saisie en texte";
+      if (lu.unite === "cm") {
+        n = arrondi(n / 100);
+        motif = "centimètres convertis en mètres";
+      }
+      if (n < 0) return erreur("longueur négative");
+      if (n > spec.max) {
+        return erreur(`longueur > ${spec.max} m (unité incorrecte ?)`);
+      }
+      return motif ? corriger(n, motif) : value;
+    }
+
+    case "liste_texte": {
+      if (typeof value === "string") {
+        return corriger(value.trim() ? [value] : [], "texte converti en liste");
+      }
+      if (!Array.isArray(value)) {
+        return erreur(`liste attendue, reçu ${typeDe(value)}`);
+      }
+      value.forEach((v, i) => {
+        if (typeof v !== "string") {
+          ctx.erreurs.push({
+            chemin: `${chemin}.${i}`,
+            message: `texte attendu, reçu ${typeDe(v)}`,
+            valeur: v,
+          });
+        }
+      });
+      return value;
+    }
+
+    case "objet": {
+      if (!isObject(value)) return erreur(`objet attendu, reçu ${typeDe(value)}`);
+      return validerObjet(spec.champs, value, chemin, ctx);
+    }
+
+    case "dictionnaire": {
+      if (!isObject(value)) return erreur(`objet attendu, reçu ${typeDe(value)}`);
+      const out: Record<string, unknown> = {};
+      for (const [key, v] of Object.entries(value)) {
+        out[key] = validerChamp(spec.valeurs, v, `${chemin}.${key}`, ctx);
+      }
+      return out;
+    }
+  }
+}
+
+function validerObjet(
+  champs: Record<string, FieldSpec>,
+  value: Record<string, unknown>,
+  chemin: string,
+  ctx: Contexte,
+): Record<string, unknown> {
+  const prefix = chemin ? `${chemin}.` : "";
+  const out: Record<string, unknown> = {};
+
+  for (const [key, spec] of Object.entries(champs)) {
+    if (key in value || spec.requis) {
+      out[key] = validerChamp(spec, value[key], `${prefix}${key}`, ctx);
+    }
+  }
+
+  // Champs hors schéma : conservés, signalés
+  for (const key of Object.keys(value)) {
+    if (!(key in champs)) {
+      out[key] = value[key];
+      ctx.avertissements.push({
+        chemin: `${prefix}${key}`,
+        message: "champ hors schéma (conservé)",
+      });
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Valide un ruleset et renvoie sa version corrigée (unités, types) avec le
+ * rapport. La valeur d'entrée n'est pas modifiée.
+ */
+export function validateRuleset(
+  schema: SchemaPlu,
+  value: unknown,
+): { valeur: unknown; validation: RapportValidation } {
+  const ctx: Contexte = { erreurs: [], corrections: [], avertissements: [] };
+
+  let valeur: unknown = value;
+  if (isObject(value)) {
+    valeur = validerObjet(schema.champs, value, "", ctx);
+  } else {
+    ctx.erreurs.push({
+      chemin: "",
+      message: `objet JSON attendu, reçu ${typeDe(value)}`,
+    });
+  }
+
+  for (const { inferieur, superieur } of schema.coherences ?? []) {
+    const a = getPath(valeur, inferieur);
+    const b = getPath(valeur, superieur);
+    if (typeof a === "number" && typeof b === "number" && a > b) {
+      ctx.erreurs.push({
+        chemin: inferieur,
+        message: `doit être ≤ ${superieur} (${b})`,
+        valeur: a,
+      });
+    }
+  }
+
+  return {
+    valeur,
+    validation: {
+      schema: schema.nom,
+      valide: ctx.erreurs.length === 0,
+      ...ctx,
+      tentatives_reparation: 0,
+      historique: [{ tentative: 0, nb_erreurs: ctx.erreurs.length }],
+    },
+  };
+}
+
+// -------------------------------------------------
+// Réparation par le modèle
+// -------------------------------------------------
+
+export const MAX_REPARATIONS_DEFAUT = 2;
+export const MAX_REPARATIONS_PLAFOND = 3;
+
+/**
+ * Message utilisateur demandant au modèle de corriger son JSON.
+ */
+export function buildRepairPrompt(validation: RapportValidation): string {
+  const lignes = validation.erreurs.map((e) =>
+    `- ${e.chemin || "(racine)"} : ${e.message}` +
+    (e.valeur !== undefined ? ` (valeur : ${JSON.stringify(e.valeur)})` : "")
+  );
+
+  return `
+Le JSON que tu as renvoyé ne respecte pas le schéma ${validation.schema} :
+${lignes.join("\n")}
+
+Rappels :
+- ratios entre 0 et 1 (60 % → 0.6)
+- hauteurs et distances en mètres, sous forme de nombres
+- champs obligatoires présents, null si l'information est absente du texte
+
+Corrige uniquement ces points et renvoie le JSON complet, sans texte avant ou après.
+`;
+}
+
+/**
+ * Valide, puis tant que des erreurs subsistent et que le nombre maximal
+ * d'allers-retours n'est pas atteint, demande au modèle une version corrigée.
+ * Une erreur d'appel au modèle arrête la boucle (rapport conservé).
+ */
+export async function validateWithRepair(
+  schema: SchemaPlu,
+  initial: unknown,
+  repair: (precedent: unknown, validation: RapportValidation) => Promise<unknown>,
+  maxReparations = MAX_REPARATIONS_DEFAUT,
+): Promise<{ valeur: unknown; validation: RapportValidation }> {
+  const max = Math.max(0, Math.min(maxReparations, MAX_REPARATIONS_PLAFOND));
+
+  let courant = validateRuleset(schema, initial);
+  const historique = [...courant.validation.historique];
+  let tentatives = 0;
+  let erreurReparation: string | undefined;
+
+  while (!courant.validation.valide && tentatives < max) {
+    tentatives++;
+    console.log(
+      `🔁 Réparation ${tentatives}/${max} (${courant.validation.erreurs.length} erreurs ${schema.nom})`,
+    );
+
+    try {
+      const repare = await repair(courant.valeur, courant.validation);
+      courant = validateRuleset(schema, repare);
+      historique.push({
+        tentative: tentatives,
+        nb_erreurs: courant.validation.erreurs.length,
+      });
+    } catch (err) {
+      console.error("❌ Réparation impossible:", err);
+      erreurReparation = err instanceof Error ? err.message : String(err);
+      break;
+    }
+  }
+
+  return {
+    valeur: courant.valeur,
+    validation: {
+      ...courant.validation,
+      tentatives_reparation: tentatives,
+      historique,
+      ...(erreurReparation ? { erreur_reparation: erreurReparation } : {}),
+    },
+  };
+}
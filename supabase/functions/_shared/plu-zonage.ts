@@ -0,0 +1,171 @@
+// supabase/functions/_shared/plu-zonage.ts
+//
+// Zonage PLU / carte communale d'un point ou d'une parcelle à partir des
+// couches CNIG importées (plu_zonage, scripts/plu-zonage-import.ts) :
+//  - toutes les zones intersectées, avec leur part de la surface
+//  - document d'urbanisme (idurba, partition) et date d'approbation
+//
+// Utilisé par plu-zonage-lookup et plu-from-parcelle.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+export type CoucheZonage = "zone_urba" | "secteur_cc";
+
+export type ZonageZone = {
+  couche: CoucheZonage;
+  zone_code: string;
+  libelong: string | null;
+  typezone: string | null;
+  destdomi: string | null;
+  idurba: string | null;
+  partition: string | null;
+  insee: string | null;
+  datappro: string | null;
+  datvalid: string | null;
+  nomfic: string | null;
+  urlfic: string | null;
+  surface_intersection_m2: number;
+  // Part de la surface de la géométrie dans la zone (0–1, 1 pour un point)
+  part_surface: number;
+  // Recouvrement résiduel (erreur de calage cadastre / zonage)
+  negligeable: boolean;
+};
+
+export type ZonageDocument = {
+  idurba: string | null;
+  partition: string | null;
+  couche: CoucheZonage;
+  insee: string | null;
+  datappro: string | null;
+  datvalid: string | null;
+  nomfic: string | null;
+  urlfic: string | null;
+};
+
+export type ZonageLookup = {
+  found: boolean;
+  // Zone couvrant la plus grande part (hors recouvrements négligeables)
+  zone_principale: ZonageZone | null;
+  multizone: boolean;
+  zones: ZonageZone[];
+  documents: ZonageDocument[];
+};
+
+// En dessous : recouvrement dû au calage cadastre / zonage, signalé mais ignoré
+const PART_NEGLIGEABLE = 0.01;
+
+function round(value: number, decimals: number): number {
+  return Math.round(value * 10 ** decimals) / 10 ** decimals;
+}
+
+// -------------------------------------------------
+// Lookup
+// -------------------------------------------------
+
+/**
+ * Synthèse des lignes plu_zonage_for_geometry (triées par part décroissante).
+ */
+export function summariseZonage(rows: any[]): ZonageLookup {
+  const zones: ZonageZone[] = rows.map((r) => {
+    const part = Number(r.part_surface ?? 0);
+    return {
+      couche: r.couche,
+      zone_code: r.zone_code,
+      libelong: r.libelong ?? null,
+      typezone: r.typezone ?? null,
+      destdomi: r.destdomi ?? null,
+      idurba: r.idurba ?? null,
+      partition: r.partition ?? null,
+      insee: r.insee ?? null,
+      datappro: r.datappro ?? null,
+      datvalid: r.datvalid ?? null,
+      nomfic: r.nomfic ?? null,
+      urlfic: r.urlfic ?? null,
+      surface_intersection_m2: round(Number(r.surface_intersection_m2 ?? 0), 1),
+      part_surface: round(part, 4),
+      negligeable: part < PART_NEGLIGEABLE,
+    };
+  });
+
+  const significatives = zones.filter((z) => !z.negligeable);
+
+  const documents = new Map<string, ZonageDocument>();
+  for (const z of zones) {
+    const key = `${z.couche}:${z.idurba ?? z.partition ?? z.insee ?? ""}`;
+    if (documents.has(key)) continue;
+    documents.set(key, {
+      idurba: z.idurba,
+      partition: z.partition,
+      couche: z.couche,
+      insee: z.insee,
+      datappro: z.datappro,
+      datvalid: z.datvalid,
+      nomfic: z.nomfic,
+      urlfic: z.urlfic,
+    });
+  }
+
+  return {
+    found: zones.length > 0,
+    zone_principale: significatives[0] ?? zones[0] ?? null,
+    multizone: new Set(significatives.map((z) => z.zone_code)).size > 1,
+    zones,
+    documents: Array.from(documents.values()),
+  };
+}
+
+/**
+ * Zones CNIG intersectant une géométrie GeoJSON WGS84 (Point, Polygon,
+ * MultiPolygon). En cas d'erreur (table absente, géométrie invalide),
+ * renvoie un lookup vide avec `error`.
+ */
+export async function fetchZonageForGeometry(
+  supabase: SupabaseClient,
+  geometry: any,
+  couches?: CoucheZonage[] | null,
+): Promise<ZonageLookup & { error?: string }> {
+  const empty: ZonageLookup = {
+    found: false,
+    zone_principale: null,
+    multizone: false,
+    zones: [],
+    documents: [],
+  };
+  if (!geometry) return empty;
+
+  const { data, error } = await supabase.rpc("plu_zonage_for_geometry", {
+    p_geometry: geometry,
+    p_couches: couches?.length ? couches : null,
+  });
+
+  if (error) {
+    console.error("Erreur plu_zonage_for_geometry:", error);
+    return { ...empty, error: error.message };
+  }
+
+  return summariseZonage((data ?? []) as any[]);
+}
+
+/**
+ * Géométrie d'une parcelle (cadastre_parcelles, GeoJSON WGS84) ou null.
+ */
+export async function fetchParcelleGeometry(
+  supabase: SupabaseClient,
+  parcelId: string,
+): Promise<any | null> {
+  const { data, error } = await supabase
+    .from("cadastre_parcelles")
+    .select("geom")
+    .eq("id", parcelId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Erreur fetchParcelleGeometry:", error);
+    return null;
+  }
+  return data?.geom ?? null;
+}
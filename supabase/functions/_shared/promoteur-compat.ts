@@ -0,0 +1,229 @@
+// supabase/functions/_shared/promoteur-compat.ts
+//
+// Couche de compatibilité avec l'ancienne fonction SQL promoteur_v1(input jsonb)
+// appelée par promoteur-from-parcelle :
+//  - entrée historique { parcel_id, parcel_ids, commune_insee, zone_code,
+//    zones_par_parcelle, surface_terrain_m2, rules } → PromoteurInput du moteur TypeScript
+//  - réponse du moteur → forme historique { success, version, appreciation, bilan },
+//    bilan ramené aux clés à plat de promoteur_v1 (LegacyBilan)
+//
+// Le calcul lui-même est celui de promoteur-v1 (runPromoteur) : une parcelle
+// donne le même bilan quel que soit le point d'entrée.
+
+import {
+  type EngineDeps,
+  type PromoteurInput,
+  type PromoteurResult,
+  runPromoteur,
+} from "./promoteur-engine.ts";
+import { parseParcelId } from "./idu.ts";
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+export type LegacyPromoteurInput = {
+  parcel_id: string;
+  parcel_ids?: string[];
+  commune_insee?: string | null;
+  zone_code?: string | null;
+  // Assemblage : zone PLU de chaque parcelle (PLU normalisé chargé par zone)
+  zones_par_parcelle?: Record<string, string | null> | null;
+  surface_terrain_m2?: number | null;
+  // Règles renvoyées par plu_get_for_parcelle_any (schéma quelconque)
+  rules?: Record<string, unknown> | null;
+  // Géométrie GeoJSON WGS84 de la parcelle / de l'unité foncière
+  geometry?: unknown;
+  // Paramètres promoteur-v1 optionnels (défauts du moteur sinon)
+  projet?: PromoteurInput["projet"] | null;
+  financement?: PromoteurInput["financement"] | null;
+  foncier?: PromoteurInput["foncier"] | null;
+  calendrier?: PromoteurInput["calendrier"] | null;
+  taxes?: PromoteurInput["taxes"] | null;
+};
+
+// Bilan à plat de promoteur_v1 (montants en €, surfaces en m²)
+export type LegacyBilan = {
+  surface_terrain_m2: number | null;
+  sdp_m2: number | null;
+  nb_logements: number | null;
+  chiffre_affaires: number | null;
+  cout_foncier: number | null;
+  cout_construction: number | null;
+  cout_honoraires: number | null;
+  frais_financiers: number | null;
+  taxes: number | null;
+  cout_total: number | null;
+  marge: number | null;
+  marge_pct: number | null;
+  valeur_residuelle_terrain: number | null;
+};
+
+export type LegacyPromoteurBilan = {
+  success: boolean;
+  version?: string;
+  appreciation?: string | null;
+  bilan?: LegacyBilan | null;
+  error?: string;
+  [key: string]: unknown;
+};
+
+// Projet par défaut de l'ancienne fonction SQL : logements seuls
+const PROJET_DEFAUT: PromoteurInput["projet"] = {
+  destination_principale: "logement",
+};
+
+// -------------------------------------------------
+// Conversion entrée / sortie
+// -------------------------------------------------
+
+/**
+ * Requête promoteur-v1 équivalente à une entrée promoteur_v1(input jsonb).
+ * Les règles transmises ne servent que si la zone n'a pas de PLU normalisé,
+ * comme pour un appel direct à promoteur-v1.
+ */
+export function promoteurInputFromLegacy(
+  input: LegacyPromoteurInput,
+): PromoteurInput {
+  const parsed = parseParcelId(input.parcel_id);
+  const communeInsee = input.commune_insee ??
+    (parsed.ok ? parsed.parts.commune_insee : "");
+
+  // Zones connues par parcelle : la zone de repli est la première d'entre elles
+  const zonesParParcelle: Record<string, string> = {};
+  for (const [id, zone] of Object.entries(input.zones_par_parcelle ?? {})) {
+    if (zone) zonesParParcelle[id] = zone;
+  }
+  const zones = Object.values(zonesParParcelle);
+
+  return {
+    // L'unité foncière est déjà fusionnée par l'appelant : géométrie + surface
+    parcel: {
+      parcel_id: input.parcel_id,
+      parcel_ids: input.parcel_ids?.length ? input.parcel_ids : undefined,
+      surface_terrain_m2: input.surface_terrain_m2 ?? null,
+      geometry: input.geometry ?? undefined,
+    },
+    plu: {
+      commune_insee: communeInsee,
+      zone_code: input.zone_code ?? zones[0] ?? "",
+      zones_par_parcelle: zones.length ? zonesParParcelle : null,
+    },
+    projet: input.projet ?? PROJET_DEFAUT,
+    financement: input.financement ?? undefined,
+    foncier: input.foncier ?? undefined,
+    calendrier: input.calendrier ?? null,
+    taxes: input.taxes ?? null,
+    plu_overrides: input.rules
+      ? {
+        ruleset: input.rules,
+        source: { plu_source_type: "plu_get_for_parcelle_any" },
+        priorite: "secours",
+      }
+      : null,
+  };
+}
+
+function nombreOuNull(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Bilan promoteur-v1 (bilan_promoteur) ramené aux clés de promoteur_v1.
+ */
+export function legacyBilanFromEngine(
+  body: Record<string, any>,
+): LegacyBilan | null {
+  const bilan = body.bilan_promoteur;
+  if (!bilan) return null;
+
+  return {
+    surface_terrain_m2: nombreOuNull(body.etude_archi?.surface_terrain_m2),
+    sdp_m2: nombreOuNull(body.etude_archi?.sdp_totale_potentielle_m2),
+    nb_logements: nombreOuNull(bilan.logements?.nb_logements),
+    chiffre_affaires: nombreOuNull(bilan.ventes?.ca_total),
+    cout_foncier: nombreOuNull(bilan.couts?.foncier),
+    cout_construction: nombreOuNull(bilan.couts?.construction),
+    cout_honoraires: nombreOuNull(bilan.couts?.honoraires),
+    frais_financiers: nombreOuNull(bilan.couts?.frais_financiers),
+    taxes: nombreOuNull(bilan.couts?.taxes),
+    cout_total: nombreOuNull(bilan.couts?.cout_total),
+    marge: nombreOuNull(bilan.marge?.montant),
+    marge_pct: nombreOuNull(bilan.marge?.taux_sur_ca),
+    valeur_residuelle_terrain: nombreOuNull(
+      bilan.indicateurs?.valeur_residuelle_terrain_theorique,
+    ),
+  };
+}
+
+/**
+ * Réponse du moteur au format historique de promoteur_v1.
+ */
+export function legacyBilanFromResult(
+  result: PromoteurResult,
+): LegacyPromoteurBilan {
+  const body = result.body as Record<string, any>;
+
+  if (result.status !== 200 || !body.success) {
+    return {
+      success: false,
+      version: "promoteur-v1",
+      appreciation: result.status === 404 ? "indisponible" : "erreur",
+      bilan: null,
+      error: body.error ?? `Statut ${result.status}`,
+      details: body.details ?? null,
+    };
+  }
+
+  return {
+    success: true,
+    version: "promoteur-v1",
+    appreciation: body.bilan_promoteur?.marge?.appreciation ?? null,
+    bilan: legacyBilanFromEngine(body),
+    // Détail complet du moteur, hors forme historique
+    bilan_promoteur: body.bilan_promoteur ?? null,
+    etude_archi: body.etude_archi ?? null,
+    plu_ruleset: body.plu_ruleset ?? null,
+  };
+}
+
+// -------------------------------------------------
+// Point d'entrée
+// -------------------------------------------------
+
+/**
+ * Remplace l'appel RPC promoteur_v1 : même entrée, même forme de réponse,
+ * calcul par le moteur promoteur-v1.
+ */
+export async function runPromoteurLegacy(
+  deps: EngineDeps,
+  input: LegacyPromoteurInput,
+): Promise<LegacyPromoteurBilan> {
+  const zoneConnue = !!input.zone_code ||
+    Object.values(input.zones_par_parcelle ?? {}).some(Boolean);
+
+  if (!zoneConnue && !input.rules) {
+    return {
+      success: false,
+      version: "promoteur-v1",
+      appreciation: "indisponible",
+      bilan: null,
+      error: "Zone PLU inconnue pour cette parcelle",
+    };
+  }
+
+  try {
+    return legacyBilanFromResult(
+      await runPromoteur(deps, promoteurInputFromLegacy(input)),
+    );
+  } catch (e) {
+    console.error("❌ runPromoteurLegacy error:", e);
+    return {
+      success: false,
+      version: "promoteur-v1",
+      appreciation: "erreur",
+      bilan: null,
+      error: e instanceof Error ? e.message : String(e),
+    };
+  }
+}
@@ -0,0 +1,2381 @@
+// supabase/functions/_shared/promoteur-engine.ts
+//
+// Moteur promoteur : étude archi, bilan par usage, trésorerie, analyses
+//  - runPromoteur(deps, body) : entrée et sortie de l'endpoint promoteur-v1
+//  - deps.cache : mémorise les lectures base / réseau (PLU, profil, cadastre,
+//    bâti, DVF) pour réévaluer le bilan sans les refaire (promoteur-solver)
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { fetchNeighbourGeometries } from "./cadastre.ts";
+import {
+  assembleParcels,
+  type AssemblageResult,
+  mergeRulesetsMostRestrictive,
+  type StrategieMultizone,
+} from "./assemblage.ts";
+import {
+  computeCoutStationnement,
+  fetchIndexationBt01,
+  type NatureSol,
+  parseNatureSol,
+  parseQualite,
+  type QualiteConstruction,
+  type ReferenceCouts,
+  resolveReferenceCouts,
+} from "./couts-construction.ts";
+import {
+  computeBuildableEnvelope,
+  type EnvelopeResult,
+} from "./envelope.ts";
+import {
+  batiExistantFromSaisie,
+  type BatiExistantSummary,
+  fetchBatiExistant,
+} from "./batiments.ts";
+import {
+  CALENDRIER_DEFAUT,
+  type CalendrierParams,
+  computeCashflow,
+} from "./cashflow.ts";
+import { estimateFoncierFromComparables } from "./dvf.ts";
+import { centroid, geodesicAreaM2, pointInPolygon } from "./geo.ts";
+import {
+  createRandom,
+  type Distribution,
+  mean,
+  parseDistribution,
+  percentile,
+  sample,
+  stdDev,
+} from "./montecarlo.ts";
+import {
+  fetchNormalizedRuleset,
+  normaliseRuleset,
+  type PluRuleset,
+  setbacksFromRuleset,
+} from "./ruleset.ts";
+import {
+  applyTaxesOverrides,
+  combineParametresTaxes,
+  computeTaxesUrbanisme,
+  fetchParametresTaxes,
+  type ParametresTaxes,
+  type TaxesOverrides,
+} from "./taxes-urbanisme.ts";
+import {
+  computeUnitMix,
+  type FinancementSocial,
+  FINANCEMENTS_SOCIAUX,
+  PRIX_SOCIAL_DEFAUT,
+  resolveQuotaSocial,
+  SURFACES_MOYENNES_DEFAUT,
+  type Typologie,
+  TYPOLOGIES,
+} from "./typologie.ts";
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+interface ParcelInput {
+  parcel_id?: string;
+  // Assemblage : plusieurs parcelles contiguës étudiées comme une seule unité foncière
+  parcel_ids?: string[];
+  lat?: number;
+  lon?: number;
+  surface_terrain_m2?: number | null;
+  // Géométrie GeoJSON (WGS84) si déjà connue côté front
+  geometry?: any;
+  // Bâti existant saisi (à défaut : emprises cadastre_batiments sur la géométrie)
+  bati_existant?: { emprise_m2?: number | null; sdp_m2?: number | null } | null;
+}
+
+interface PluInput {
+  commune_insee: string;
+  commune_nom?: string;
+  zone_code: string;
+  // Assemblage : zone PLU de chaque parcelle (à défaut zone_code pour toutes)
+  zones_par_parcelle?: Record<string, string> | null;
+  // N'utiliser que des rulesets relus et approuvés (plu-ruleset-review)
+  approuve_uniquement?: boolean;
+}
+
+type VarianteBatiExistant = "demolition_reconstruction" | "conservation_extension";
+
+type Usage = "logement" | "commerce" | "bureaux" | "residence_services";
+
+const USAGES: Usage[] = ["logement", "commerce", "bureaux", "residence_services"];
+
+type ScenarioProgramme =
+  | "logement_seul"
+  | "commerce_rdc_logements"
+  | "bureaux"
+  | "residence_services"
+  | "mixte";
+
+interface ProjetInput {
+  destination_principale: string;
+  // logement_seul | commerce_rdc_logements | bureaux | residence_services | mixte
+  scenario?: string;
+  // Scénario "mixte" : parts de SDP des étages par usage (défaut 70 % logement / 30 % bureaux)
+  mix?: Partial<Record<Usage, number>> | null;
+  // Logements : mix cible T1–T5 et surfaces habitables moyennes (sinon profil)
+  typologie?: {
+    mix_cible?: Partial<Record<Typologie, number>> | null;
+    surfaces_moyennes_m2?: Partial<Record<Typologie, number>> | null;
+  } | null;
+  // Quota social imposé au projet (sinon PLU, sinon commune carencée SRU)
+  logement_social?: {
+    taux_pct?: number | null;
+    repartition?: Partial<Record<FinancementSocial, number>> | null;
+    commune_carencee_sru?: boolean | null;
+  } | null;
+  // Variante retenue pour le bilan quand la parcelle est déjà bâtie
+  variante_bati_existant?: VarianteBatiExistant;
+  // SDP du programme (m²), plafonnée aux droits à construire de la variante retenue
+  // (défaut : toute la SDP constructible)
+  sdp_programme_m2?: number | null;
+  // Coûts de référence (si le profil ne fixe pas couts.construction)
+  construction?: {
+    qualite?: QualiteConstruction | null;
+    sol?: NatureSol | null;
+    // Niveaux de sous-sol autorisés (défaut : autant que nécessaire)
+    niveaux_sous_sol?: number | null;
+    emprise_sous_sol_m2?: number | null;
+    // Date de valeur de l'indexation BT01 (défaut : aujourd'hui)
+    date_valeur?: string | null;
+  } | null;
+}
+
+interface FinancementInput {
+  profile_code?: string | null;
+  overrides?: Record<string, unknown> | null;
+  // Frais financiers du bilan : "reels" (défaut, trésorerie mois par mois)
+  // ou "forfait" (couts.frais_financiers_pct du CA)
+  frais_financiers?: "reels" | "forfait";
+}
+
+type FoncierMode = "saisi" | "residuel" | "none" | "dvf";
+
+interface FoncierInput {
+  mode?: FoncierMode;
+  valeur_terrain_saisi?: number | null;
+  // Mode "dvf" : critères de sélection des ventes de terrains comparables
+  dvf?: {
+    rayon_m?: number | null;
+    rayon_max_m?: number | null;
+    fenetre_mois?: number | null;
+    surface_ratio_min?: number | null;
+    surface_ratio_max?: number | null;
+    // Ne garder que les ventes situées dans la (les) zone(s) PLU du projet
+    filtrer_zone_plu?: boolean;
+    terrains_a_batir_seulement?: boolean;
+  } | null;
+}
+
+interface PluOverrides {
+  source?: Record<string, unknown>;
+  // Schéma PluRuleset, PLURulesetV2 ou ligne plu_rulesets (cf. normaliseRuleset)
+  ruleset: PluRuleset | Record<string, unknown>;
+  // "remplace" (défaut) : prioritaire sur plu_ruleset_normalized
+  // "secours" : utilisé seulement si la zone n'a pas de PLU normalisé
+  priorite?: "remplace" | "secours";
+}
+
+interface AssemblageInput {
+  // "plus_restrictive" (défaut) : une étude avec la règle la plus contraignante
+  // "par_zone" : une étude par zone, sommée
+  strategie_multizone?: StrategieMultizone;
+  tolerance_m?: number;
+}
+
+export interface PromoteurInput {
+  parcel: ParcelInput;
+  plu: PluInput;
+  projet: ProjetInput;
+  financement?: FinancementInput;
+  foncier?: FoncierInput;
+  plu_overrides?: PluOverrides | null;
+  assemblage?: AssemblageInput | null;
+  // Calendrier de l'opération (prioritaire sur params.calendrier du profil)
+  calendrier?: CalendrierParams | null;
+  // Analyse de sensibilité ou Monte Carlo sur la marge
+  analyse?: AnalyseInput | null;
+  // Taxes d'urbanisme : année, taux / participations saisis (sinon table commune)
+  taxes?: TaxesOverrides | null;
+}
+
+// Variables d'analyse : écarts en % (prix, coûts, SDP) ou en mois (délais)
+type VariableAnalyse =
+  | "prix_vente_pct"
+  | "cout_construction_pct"
+  | "sdp_pct"
+  | "delais_mois";
+
+interface AnalyseInput {
+  mode: "sensibilite" | "monte_carlo";
+  sensibilite?: {
+    // Amplitude (±) de chaque variable pour le tornado
+    variations?: Partial<Record<VariableAnalyse, number>>;
+    // Tableau croisé prix × coût (écarts en %)
+    grille_prix_vente_pct?: number[];
+    grille_cout_construction_pct?: number[];
+  } | null;
+  monte_carlo?: {
+    iterations?: number;
+    graine?: number;
+    distributions?: Partial<Record<VariableAnalyse, unknown>>;
+  } | null;
+}
+
+interface PromoteurParams {
+  ventes?: any;
+  couts?: any;
+  objectif?: any;
+  programme?: any;
+  calendrier?: any;
+  financement?: any;
+  taxes?: any;
+}
+
+// -------------------------------------------------
+// Helpers
+// -------------------------------------------------
+
+function safeNumber(value: unknown, fallback: number | null = null): number | null {
+  if (value === null || value === undefined) return fallback;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function round(value: number | null, decimals = 0): number | null {
+  if (value == null || !Number.isFinite(value)) return null;
+  return Math.round(value * 10 ** decimals) / 10 ** decimals;
+}
+
+export function deepMerge<T>(base: T, override: any): T {
+  if (!override || typeof override !== "object") return base;
+  const result: any = Array.isArray(base) ? [...(base as any)] : { ...(base as any) };
+  for (const key of Object.keys(override)) {
+    const b = (base as any)[key];
+    const o = override[key];
+    if (
+      b &&
+      typeof b === "object" &&
+      !Array.isArray(b) &&
+      o &&
+      typeof o === "object" &&
+      !Array.isArray(o)
+    ) {
+      result[key] = deepMerge(b, o);
+    } else result[key] = o;
+  }
+  return result as T;
+}
+
+// -------------------------------------------------
+// Dépendances & cache des lectures
+// -------------------------------------------------
+
+export interface EngineDeps {
+  supabase: SupabaseClient;
+  // Lectures déjà faites (clé → promesse), partagées entre évaluations
+  cache?: Map<string, Promise<unknown>>;
+}
+
+function memo<T>(
+  deps: EngineDeps,
+  key: string,
+  load: () => Promise<T>,
+): Promise<T> {
+  if (!deps.cache) return load();
+
+  const hit = deps.cache.get(key);
+  if (hit) return hit as Promise<T>;
+
+  const pending = load();
+  deps.cache.set(key, pending);
+  return pending;
+}
+
+// -------------------------------------------------
+// Chargement du PLU normalisé
+// -------------------------------------------------
+
+function fetchPluRuleset(deps: EngineDeps, input: PluInput): Promise<{
+  ruleset: PluRuleset | null;
+  meta: Record<string, unknown> | null;
+}> {
+  const approuveUniquement = !!input.approuve_uniquement;
+  return memo(
+    deps,
+    `plu:${input.commune_insee}:${input.zone_code}:${approuveUniquement ? "approuve" : "actif"}`,
+    () =>
+      fetchNormalizedRuleset(deps.supabase, {
+        commune_insee: input.commune_insee,
+        zone_code: input.zone_code,
+        approuve_uniquement: approuveUniquement,
+      }),
+  );
+}
+
+// -------------------------------------------------
+// Profil Promoteur
+// -------------------------------------------------
+
+async function fetchPromoteurProfile(
+  deps: EngineDeps,
+  financement?: FinancementInput,
+): Promise<{ code: string; params: PromoteurParams; source: "db" | "default" }> {
+  const defaults: PromoteurParams = {
+    ventes: {
+      logement: { prix_vente_m2: 7000, taux_vacance: 0 },
+      commerce: { prix_vente_m2: 8000, taux_vacance: 0 },
+      bureaux: { prix_vente_m2: 7500, taux_vacance: 0 },
+      residence_services: { prix_vente_m2: 5500, taux_vacance: 0 },
+      // Cession aux bailleurs / accession maîtrisée (€ / m² SHAB)
+      logement_social: {
+        PLAI: { prix_vente_m2: 1900 },
+        PLUS: { prix_vente_m2: 2100 },
+        PLS: { prix_vente_m2: 2500 },
+        BRS: { prix_vente_m2: 3300 },
+      },
+    },
+    couts: {
+      // construction.<usage>_m2 et stationnement_place : sans valeur dans le
+      // profil, référentiel indexé (voir _shared/couts-construction.ts)
+      honoraires_pct: 0.05,
+      frais_etudes_pct: 0.02,
+      frais_commerciaux_pct: 0.03,
+      frais_financiers_pct: 0.04,
+      taxes_pct: 0.03, // sans paramètres de taxes d'urbanisme (voir taxes)
+      demolition_m2: 120, // € par m² de SDP existante démolie
+    },
+    objectif: { marge_cible_pct_sur_ca: 0.12 }, // 🔹 marge par défaut = 12%
+    programme: {
+      // Surface vendable / SDP par usage
+      efficience: {
+        logement: 0.9,
+        commerce: 0.95,
+        bureaux: 0.92,
+        residence_services: 0.75,
+      },
+      // Utilisé quand le PLU ne fixe pas de norme de stationnement
+      stationnement: {
+        logement: {
+          places_par_m2_sdp: 1 / 60,
+          places_par_logement: 1,
+          places_par_logement_social: 0.5,
+        },
+        commerce: { places_par_m2_sdp: 1 / 50 },
+        bureaux: { places_par_m2_sdp: 1 / 55 },
+        residence_services: { places_par_m2_sdp: 1 / 100 },
+      },
+      typologie: {
+        mix_cible: { T1: 0.1, T2: 0.3, T3: 0.35, T4: 0.2, T5: 0.05 },
+        surfaces_moyennes_m2: { T1: 30, T2: 45, T3: 65, T4: 82, T5: 100 },
+      },
+      logement_social: {
+        repartition: { PLAI: 0.3, PLUS: 0.4, PLS: 0.3 },
+      },
+    },
+    // Trésorerie mensuelle (voir _shared/cashflow.ts)
+    calendrier: {
+      duree_etudes_mois: 4,
+      delai_permis_mois: 6,
+      seuil_precommercialisation: 0.4,
+      rythme_ventes_mensuel: 0.06,
+      duree_travaux_mois: 18,
+    },
+    financement: {
+      fonds_propres_pct: 0.15,
+      credit_plafond_pct: 0.6,
+      credit_taux_annuel: 0.045,
+      credit_frais_mise_en_place_pct: 0.01,
+    },
+    // Surfaces taxables (voir _shared/taxes-urbanisme.ts)
+    taxes: {
+      coef_surface_taxable: 1,
+      surface_par_place_couverte_m2: 25,
+      part_places_exterieures: 0,
+      abattement_residence_principale: true,
+    },
+  };
+
+  if (!financement?.profile_code) {
+    return {
+      code: "DEFAULT",
+      params: financement?.overrides
+        ? deepMerge(defaults, financement.overrides)
+        : defaults,
+      source: "default",
+    };
+  }
+
+  const profileCode = financement.profile_code;
+  const { data, error } = await memo(
+    deps,
+    `profil:${profileCode}`,
+    async () =>
+      await deps.supabase
+        .from("promoteur_profiles")
+        .select("code, params")
+        .eq("code", profileCode)
+        .eq("is_default", true)
+        .maybeSingle(),
+  );
+
+  if (error || !data) {
+    return {
+      code: financement.profile_code,
+      params: financement.overrides
+        ? deepMerge(defaults, financement.overrides)
+        : defaults,
+      source: "default",
+    };
+  }
+
+  return {
+    code: data.code,
+    params: financement.overrides
+      ? deepMerge(data.params, financement.overrides)
+      : data.params,
+    source: "db",
+  };
+}
+
+// -------------------------------------------------
+// Surface + géométrie depuis le cadastre
+// -------------------------------------------------
+
+async function fetchParcelFromCadastre(
+  deps: EngineDeps,
+  parcel: ParcelInput,
+): Promise<{ surface: number | null; geometry: any | null }> {
+  const parcelId = parcel.parcel_id;
+  if (!parcelId) return { surface: null, geometry: null };
+
+  const { data, error } = await memo(
+    deps,
+    `parcelle:${parcelId}`,
+    async () =>
+      await deps.supabase
+        .from("cadastre_parcelles")
+        .select("*")
+        .eq("id", parcelId)
+        .maybeSingle(),
+  );
+
+  if (error || !data) return { surface: null, geometry: null };
+
+  const props = (data as any).props || {};
+
+  const candidates = [
+    safeNumber((data as any).surface_terrain_m2),
+    safeNumber((data as any).surface_m2),
+    safeNumber((data as any).surface),
+    safeNumber((data as any).superficie),
+    safeNumber((data as any).contenance),
+    safeNumber(props?.contenance),
+  ];
+
+  const rawGeom = (data as any).geom ?? (data as any).geometry ?? null;
+  const geometry = rawGeom && typeof rawGeom === "object" ? rawGeom : null;
+
+  const declared = candidates.find((x) => x && x > 0) ?? null;
+  if (declared != null) return { surface: declared, geometry };
+
+  // Pas de contenance : on retombe sur l'aire de la géométrie si disponible
+  if (geometry) {
+    const area = geodesicAreaM2(geometry);
+    if (area > 0) return { surface: area, geometry };
+  }
+
+  return { surface: null, geometry };
+}
+
+// -------------------------------------------------
+// Enveloppe constructible (retraits PLU appliqués à la géométrie)
+// -------------------------------------------------
+
+async function computeEnveloppe(
+  deps: EngineDeps,
+  parcel: ParcelInput,
+  geometry: any,
+  ruleset: PluRuleset | null,
+): Promise<EnvelopeResult | null> {
+  const setbacks = setbacksFromRuleset(ruleset);
+
+  const parcelIds = parcel.parcel_ids?.length
+    ? parcel.parcel_ids
+    : parcel.parcel_id
+    ? [parcel.parcel_id]
+    : [];
+
+  const neighbours = parcelIds.length
+    ? await memo(
+      deps,
+      `voisins:${parcelIds.join(",")}:${JSON.stringify(geometry)}`,
+      () => fetchNeighbourGeometries(parcelIds, geometry),
+    )
+    : [];
+
+  // Point saisi hors parcelle (adresse géocodée sur la voirie) : indice de rue
+  const lat = safeNumber(parcel.lat, null);
+  const lon = safeNumber(parcel.lon, null);
+  const voiriePoint: [number, number] | null =
+    lat != null && lon != null && !pointInPolygon([lon, lat], geometry)
+      ? [lon, lat]
+      : null;
+
+  try {
+    return computeBuildableEnvelope(geometry, setbacks, {
+      neighbours,
+      voirie_point: voiriePoint,
+    });
+  } catch (e) {
+    console.error("Erreur computeBuildableEnvelope:", e);
+    return null;
+  }
+}
+
+// -------------------------------------------------
+// Assemblage multi-parcelles
+// -------------------------------------------------
+
+async function loadAssemblage(
+  deps: EngineDeps,
+  parcelIds: string[],
+  toleranceM?: number,
+): Promise<AssemblageResult> {
+  const parcels = await Promise.all(
+    parcelIds.map(async (id) => {
+      const fromCadastre = await fetchParcelFromCadastre(deps, { parcel_id: id });
+      return {
+        parcel_id: id,
+        surface_m2: fromCadastre.surface,
+        geometry: fromCadastre.geometry,
+      };
+    }),
+  );
+
+  return assembleParcels(parcels, toleranceM);
+}
+
+/**
+ * Agrège des études archi calculées zone par zone (stratégie "par_zone").
+ */
+function combineEtudesArchi(
+  etudes: { zone_code: string; parcel_ids: string[]; etude: any }[],
+) {
+  const sum = (pick: (e: any) => unknown) =>
+    etudes.reduce((acc, z) => acc + (safeNumber(pick(z.etude), 0) ?? 0), 0);
+
+  return {
+    surface_terrain_m2: round(sum((e) => e.surface_terrain_m2), 2),
+    emprise_reglementaire_m2: round(sum((e) => e.emprise_reglementaire_m2), 2),
+    emprise_autorisee_m2: round(sum((e) => e.emprise_autorisee_m2), 2),
+    nb_niveaux_possibles: Math.max(
+      ...etudes.map((z) => z.etude.nb_niveaux_possibles ?? 1),
+    ),
+    sdp_totale_potentielle_m2: round(
+      sum((e) => e.sdp_totale_potentielle_m2),
+      2,
+    ),
+    repartition_fonctions: {
+      rdc: {
+        type: etudes[0]?.etude.repartition_fonctions?.rdc?.type ?? "logement",
+        m2: sum((e) => e.repartition_fonctions?.rdc?.m2),
+      },
+      etages: {
+        type: etudes[0]?.etude.repartition_fonctions?.etages?.type ??
+          "logement",
+        m2: sum((e) => e.repartition_fonctions?.etages?.m2),
+      },
+      par_usage: Object.fromEntries(
+        USAGES.map((u) => [
+          u,
+          round(sum((e) => e.repartition_fonctions?.par_usage?.[u]), 2),
+        ]),
+      ),
+    },
+    par_zone: etudes,
+  };
+}
+
+// -------------------------------------------------
+// Programme : répartition de la SDP par usage
+// -------------------------------------------------
+
+// Usage du RDC et mix des étages par scénario
+const SCENARIOS: Record<
+  ScenarioProgramme,
+  { rdc: Usage; etages: Partial<Record<Usage, number>> }
+> = {
+  logement_seul: { rdc: "logement", etages: { logement: 1 } },
+  commerce_rdc_logements: { rdc: "commerce", etages: { logement: 1 } },
+  bureaux: { rdc: "bureaux", etages: { bureaux: 1 } },
+  residence_services: {
+    rdc: "residence_services",
+    etages: { residence_services: 1 },
+  },
+  mixte: { rdc: "commerce", etages: { logement: 0.7, bureaux: 0.3 } },
+};
+
+function matchScenario(value: unknown): ScenarioProgramme | null {
+  const s = String(value ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+  if (!s) return null;
+  if (s in SCENARIOS) return s as ScenarioProgramme;
+
+  if (s.includes("mixte")) return "mixte";
+  if (s.includes("commerce") && s.includes("logement")) {
+    return "commerce_rdc_logements";
+  }
+  if (s.includes("residence") || s.includes("service")) {
+    return "residence_services";
+  }
+  if (s.includes("bureau")) return "bureaux";
+  if (s.includes("logement") || s.includes("habitation")) {
+    return "logement_seul";
+  }
+  return null;
+}
+
+/**
+ * Scénario du projet : `scenario`, à défaut `destination_principale`,
+ * à défaut logement seul.
+ */
+function resolveScenario(projet: ProjetInput): ScenarioProgramme {
+  return matchScenario(projet.scenario) ??
+    matchScenario(projet.destination_principale) ??
+    "logement_seul";
+}
+
+function normaliseMix(
+  mix: Partial<Record<Usage, number>> | null | undefined,
+): Partial<Record<Usage, number>> | null {
+  if (!mix || typeof mix !== "object") return null;
+
+  const entries = USAGES
+    .map((u) => [u, safeNumber(mix[u], 0) ?? 0] as const)
+    .filter(([, v]) => v > 0);
+  const total = entries.reduce((acc, [, v]) => acc + v, 0);
+  if (total <= 0) return null;
+
+  return Object.fromEntries(entries.map(([u, v]) => [u, v / total]));
+}
+
+/**
+ * Répartit la SDP : un niveau de RDC à l'usage du scénario, les étages
+ * selon le mix du scénario (ou `projet.mix` pour "mixte").
+ */
+function repartirProgramme(
+  sdpTotaleM2: number,
+  nbNiveaux: number,
+  scenario: ScenarioProgramme,
+  mix: Partial<Record<Usage, number>> | null | undefined,
+) {
+  const def = SCENARIOS[scenario];
+  const mixEtages = scenario === "mixte"
+    ? normaliseMix(mix) ?? def.etages
+    : def.etages;
+
+  const sdpRdc = sdpTotaleM2 / Math.max(1, nbNiveaux);
+  const sdpEtages = sdpTotaleM2 - sdpRdc;
+
+  const parUsage = Object.fromEntries(USAGES.map((u) => [u, 0])) as Record<
+    Usage,
+    number
+  >;
+  parUsage[def.rdc] += sdpRdc;
+  for (const [u, part] of Object.entries(mixEtages) as [Usage, number][]) {
+    parUsage[u] += sdpEtages * part;
+  }
+
+  const usagesEtages = Object.keys(mixEtages);
+
+  return {
+    rdc: { type: def.rdc, m2: sdpRdc },
+    etages: {
+      type: usagesEtages.length === 1 ? usagesEtages[0] : "mixte",
+      m2: sdpEtages,
+      mix: mixEtages,
+    },
+    par_usage: Object.fromEntries(
+      USAGES.map((u) => [u, round(parUsage[u], 2)]),
+    ) as Record<Usage, number>,
+  };
+}
+
+// -------------------------------------------------
+// Étude architecturale
+// -------------------------------------------------
+
+function computeEtudeArchi(
+  surfaceTerrainM2: number,
+  ruleset: PluRuleset | null,
+  projet: ProjetInput,
+  enveloppe: EnvelopeResult | null = null,
+) {
+  const empriseRatio =
+    safeNumber(ruleset?.emprise_sol?.max_ratio, null) ?? 0.6;
+
+  const empriseMaxM2FromRatio = surfaceTerrainM2 * empriseRatio;
+  const empriseMaxM2Fixed = safeNumber(ruleset?.emprise_sol?.max_m2, null);
+
+  const empriseReglementaireM2 =
+    empriseMaxM2Fixed != null
+      ? Math.min(empriseMaxM2Fixed, empriseMaxM2FromRatio)
+      : empriseMaxM2FromRatio;
+
+  // L'enveloppe géométrique (retraits) plafonne l'emprise réglementaire
+  const empriseAutoriseeM2 = enveloppe
+    ? Math.min(empriseReglementaireM2, enveloppe.surface_m2)
+    : empriseReglementaireM2;
+
+  const empriseLimitante = enveloppe &&
+      enveloppe.surface_m2 < empriseReglementaireM2
+    ? "enveloppe_retraits"
+    : empriseMaxM2Fixed != null && empriseMaxM2Fixed < empriseMaxM2FromRatio
+    ? "emprise_max_m2"
+    : "emprise_max_ratio";
+
+  const hauteurMaxM =
+    safeNumber(ruleset?.hauteur?.hauteur_max_m, null) ?? 15;
+
+  const hauteurNiveauM = 3;
+  const nbNiveauxPossibles = Math.max(
+    1,
+    Math.floor(hauteurMaxM / hauteurNiveauM),
+  );
+
+  const tauxEfficiencesPlans = 0.85;
+  const surfaceNiveauTypiqueM2 = empriseAutoriseeM2 * tauxEfficiencesPlans;
+  const sdpTotalePotentielleM2 =
+    surfaceNiveauTypiqueM2 * nbNiveauxPossibles;
+
+  const scenario = resolveScenario(projet);
+
+  const repartition = repartirProgramme(
+    sdpTotalePotentielleM2,
+    nbNiveauxPossibles,
+    scenario,
+    projet.mix,
+  );
+
+  return {
+    surface_terrain_m2: round(surfaceTerrainM2, 2),
+    emprise_reglementaire_m2: round(empriseReglementaireM2, 2),
+    emprise_autorisee_m2: round(empriseAutoriseeM2, 2),
+    emprise_limitante: empriseLimitante,
+    enveloppe_constructible: enveloppe
+      ? {
+        surface_m2: round(enveloppe.surface_m2, 2),
+        surface_parcelle_geometrie_m2: round(enveloppe.surface_parcelle_m2, 2),
+        detection_rue: enveloppe.detection_rue,
+        lineaire_facade_rue_m: round(enveloppe.lineaire_facade_rue_m, 2),
+        aretes: enveloppe.aretes,
+        footprint_geojson: enveloppe.footprint,
+      }
+      : null,
+    retraits: {
+      rue_m: safeNumber(ruleset?.implantation?.retrait_rue_m, 0),
+      fond_m: safeNumber(
+        ruleset?.implantation?.retrait_fond_parcelle_m,
+        null,
+      ),
+      lateraux_m: safeNumber(
+        ruleset?.implantation?.retrait_lateraux_m,
+        null,
+      ),
+    },
+    hauteur_max_m: hauteurMaxM,
+    hypotheses: {
+      hauteur_niveau_m: hauteurNiveauM,
+      taux_efficiences_plans: tauxEfficiencesPlans,
+      scenario_projet: scenario,
+    },
+    nb_niveaux_possibles: nbNiveauxPossibles,
+    surface_niveau_typique_m2: round(surfaceNiveauTypiqueM2, 2),
+    sdp_totale_potentielle_m2: round(sdpTotalePotentielleM2, 2),
+    repartition_fonctions: repartition,
+  };
+}
+
+// -------------------------------------------------
+// Bâti existant : droits à construire restants
+// -------------------------------------------------
+
+/**
+ * Emprise et SDP restantes compte tenu du bâti existant, en deux variantes :
+ *  - demolition_reconstruction : droits complets, coût de démolition en plus
+ *  - conservation_extension : le bâti est gardé, seul le reliquat est construit
+ */
+function computeDroitsRestants(
+  etudeArchi: any,
+  bati: BatiExistantSummary & { error?: string },
+  profil: { code: string; params: PromoteurParams },
+  variante: VarianteBatiExistant | undefined,
+) {
+  const empriseAutorisee = safeNumber(etudeArchi?.emprise_autorisee_m2, 0) ?? 0;
+  const sdpPotentielle =
+    safeNumber(etudeArchi?.sdp_totale_potentielle_m2, 0) ?? 0;
+
+  const empriseExistante = bati.emprise_existante_m2;
+  const sdpExistante = bati.sdp_existante_m2;
+
+  const prixDemolitionM2 =
+    safeNumber(profil.params?.couts?.demolition_m2, 120) ?? 120;
+  const coutDemolition = sdpExistante * prixDemolitionM2;
+
+  const empriseRestante = Math.max(0, empriseAutorisee - empriseExistante);
+  const sdpRestante = Math.max(0, sdpPotentielle - sdpExistante);
+
+  const varianteRetenue: VarianteBatiExistant =
+    variante === "conservation_extension"
+      ? "conservation_extension"
+      : "demolition_reconstruction";
+
+  return {
+    source: bati.source,
+    nb_batiments: bati.nb_batiments,
+    emprise_existante_m2: round(empriseExistante, 2),
+    sdp_existante_m2: round(sdpExistante, 2),
+    batiments: bati.batiments.map((b) => ({
+      ...b,
+      surface_bati_m2: round(b.surface_bati_m2, 2),
+      surface_intersection_m2: round(b.surface_intersection_m2, 2),
+      sdp_estimee_m2: round(b.sdp_estimee_m2, 2),
+    })),
+    hypotheses: {
+      ...bati.hypotheses,
+      demolition_m2: prixDemolitionM2,
+    },
+    error: bati.error,
+    variantes: {
+      demolition_reconstruction: {
+        emprise_constructible_m2: round(empriseAutorisee, 2),
+        sdp_constructible_m2: round(sdpPotentielle, 2),
+        sdp_totale_apres_projet_m2: round(sdpPotentielle, 2),
+        cout_demolition: round(coutDemolition, 0),
+      },
+      conservation_extension: {
+        emprise_constructible_m2: round(empriseRestante, 2),
+        sdp_constructible_m2: round(sdpRestante, 2),
+        sdp_totale_apres_projet_m2: round(sdpExistante + sdpRestante, 2),
+        cout_demolition: 0,
+      },
+    },
+    variante_retenue: varianteRetenue,
+    // Valeurs brutes utilisées par le bilan
+    sdp_programme_brut: varianteRetenue === "conservation_extension"
+      ? sdpRestante
+      : sdpPotentielle,
+    cout_demolition_brut: varianteRetenue === "conservation_extension"
+      ? 0
+      : coutDemolition,
+  };
+}
+
+// -------------------------------------------------
+// Revenus & coûts hors foncier
+// -------------------------------------------------
+
+// Valeurs par défaut par usage (si absentes du profil promoteur)
+const USAGE_DEFAUTS: Record<
+  Usage,
+  {
+    prix_vente_m2: number;
+    efficience: number;
+    places_par_m2_sdp: number;
+  }
+> = {
+  logement: {
+    prix_vente_m2: 7000,
+    efficience: 0.9,
+    places_par_m2_sdp: 1 / 60,
+  },
+  commerce: {
+    prix_vente_m2: 8000,
+    efficience: 0.95,
+    places_par_m2_sdp: 1 / 50,
+  },
+  bureaux: {
+    prix_vente_m2: 7500,
+    efficience: 0.92,
+    places_par_m2_sdp: 1 / 55,
+  },
+  residence_services: {
+    prix_vente_m2: 5500,
+    efficience: 0.75,
+    places_par_m2_sdp: 1 / 100,
+  },
+};
+
+// Surface moyenne d'un logement pour convertir une norme « places par logement »
+const SDP_MOYENNE_LOGEMENT_M2 = 65;
+
+/**
+ * Norme de stationnement d'un usage (places par m² de SDP) :
+ * PLU si renseigné, sinon profil promoteur, sinon valeur par défaut.
+ */
+function stationnementRatio(
+  usage: Usage,
+  ruleset: PluRuleset | null,
+  profil: { code: string; params: PromoteurParams },
+): { places_par_m2_sdp: number; source: "plu" | "profil" | "defaut" } {
+  const plu = ruleset?.stationnement;
+  const fromPlu = usage === "logement"
+    ? safeNumber(plu?.logement?.places_par_m2_sdp, null) ??
+      (() => {
+        const parLogement = safeNumber(plu?.logement?.places_par_logement, null);
+        return parLogement != null ? parLogement / SDP_MOYENNE_LOGEMENT_M2 : null;
+      })()
+    : usage === "bureaux"
+    ? safeNumber(plu?.bureau?.places_par_m2_sdp, null)
+    : usage === "commerce"
+    ? safeNumber(plu?.commerce?.places_par_m2_sdp, null)
+    : null;
+  if (fromPlu != null) return { places_par_m2_sdp: fromPlu, source: "plu" };
+
+  const fromProfil = safeNumber(
+    profil.params?.programme?.stationnement?.[usage]?.places_par_m2_sdp,
+    null,
+  );
+  if (fromProfil != null) {
+    return { places_par_m2_sdp: fromProfil, source: "profil" };
+  }
+
+  return {
+    places_par_m2_sdp: USAGE_DEFAUTS[usage].places_par_m2_sdp,
+    source: "defaut",
+  };
+}
+
+// Le stationnement des logements sociaux ne peut être exigé au-delà
+// d'une place par logement (art. L.151-35 du code de l'urbanisme)
+const PLACES_MAX_PAR_LOGEMENT_SOCIAL = 1;
+
+/**
+ * Norme de stationnement des logements exprimée par logement (PLU, sinon
+ * profil), ou null si le PLU la fixe en m² de SDP (calcul surfacique conservé).
+ */
+function stationnementParLogement(
+  ruleset: PluRuleset | null,
+  profil: { code: string; params: PromoteurParams },
+): { libre: number; social: number; source: "plu" | "profil" | "defaut" } | null {
+  const plu = ruleset?.stationnement?.logement;
+  const pluParLogement = safeNumber(plu?.places_par_logement, null);
+  if (pluParLogement != null) {
+    return {
+      libre: pluParLogement,
+      social: Math.min(pluParLogement, PLACES_MAX_PAR_LOGEMENT_SOCIAL),
+      source: "plu",
+    };
+  }
+  if (safeNumber(plu?.places_par_m2_sdp, null) != null) return null;
+
+  const p = profil.params?.programme?.stationnement?.logement;
+  const libre = safeNumber(p?.places_par_logement, null);
+  const social = safeNumber(p?.places_par_logement_social, null);
+  return {
+    libre: libre ?? 1,
+    social: Math.min(social ?? 0.5, PLACES_MAX_PAR_LOGEMENT_SOCIAL),
+    source: libre != null || social != null ? "profil" : "defaut",
+  };
+}
+
+/**
+ * Mix de logements (T1–T5, quota social) sur la surface habitable.
+ */
+function computeLogements(
+  sdpM2: number,
+  shabM2: number,
+  prixLibreM2: number,
+  projet: ProjetInput | null,
+  ruleset: PluRuleset | null,
+  profil: { code: string; params: PromoteurParams },
+) {
+  const typo = profil.params?.programme?.typologie ?? {};
+
+  const surfaces = Object.fromEntries(
+    TYPOLOGIES.map((t) => [
+      t,
+      safeNumber(projet?.typologie?.surfaces_moyennes_m2?.[t], null) ??
+        safeNumber(typo.surfaces_moyennes_m2?.[t], null) ??
+        SURFACES_MOYENNES_DEFAUT[t],
+    ]),
+  ) as Record<Typologie, number>;
+
+  const prixSocial = Object.fromEntries(
+    FINANCEMENTS_SOCIAUX.map((f) => [
+      f,
+      safeNumber(
+        profil.params?.ventes?.logement_social?.[f]?.prix_vente_m2,
+        null,
+      ) ?? PRIX_SOCIAL_DEFAUT[f],
+    ]),
+  ) as Record<FinancementSocial, number>;
+
+  const quota = resolveQuotaSocial({
+    projet: projet?.logement_social ?? null,
+    plu: ruleset?.mixite_sociale ?? null,
+    repartition_defaut: profil.params?.programme?.logement_social?.repartition,
+  });
+
+  const stationnement = stationnementParLogement(ruleset, profil);
+
+  const mix = computeUnitMix({
+    shab_m2: shabM2,
+    sdp_m2: sdpM2,
+    mix_cible: projet?.typologie?.mix_cible ?? typo.mix_cible ?? {},
+    surfaces_moyennes_m2: surfaces,
+    prix_libre_m2: prixLibreM2,
+    prix_social_m2: prixSocial,
+    quota,
+    places_par_logement_libre: stationnement?.libre ?? 0,
+    places_par_logement_social: stationnement?.social ?? 0,
+  });
+
+  return { ...mix, stationnement_source: stationnement?.source ?? null };
+}
+
+function computeRevenusEtCoutsHorsFoncier(
+  etudeArchi: any,
+  profil: { code: string; params: PromoteurParams },
+  options: {
+    ruleset?: PluRuleset | null;
+    coutDemolition?: number;
+    projet?: ProjetInput | null;
+    taxes?: ParametresTaxes | null;
+    coutsReference?: ReferenceCouts | null;
+    // Variation des coûts de travaux (analyses)
+    coefCoutConstruction?: number;
+    // Frais financiers réels (trésorerie) ; à défaut frais_financiers_pct du CA
+    fraisFinanciers?: number | null;
+  } = {},
+) {
+  const sdpTotale =
+    safeNumber(etudeArchi?.sdp_totale_potentielle_m2, 0) ?? 0;
+  const coutDemolition = options.coutDemolition ?? 0;
+
+  // SDP par usage, ramenée à la SDP retenue (variante bâti existant)
+  const parUsageEtude = etudeArchi?.repartition_fonctions?.par_usage ?? null;
+  const sdpRepartie = USAGES.reduce(
+    (acc, u) => acc + (safeNumber(parUsageEtude?.[u], 0) ?? 0),
+    0,
+  );
+  const sdpParUsage = (usage: Usage): number => {
+    if (sdpRepartie <= 0) return usage === "logement" ? sdpTotale : 0;
+    return ((safeNumber(parUsageEtude?.[usage], 0) ?? 0) / sdpRepartie) *
+      sdpTotale;
+  };
+
+  const reference = options.coutsReference ?? resolveReferenceCouts({});
+  const coefCout = options.coefCoutConstruction ?? 1;
+
+  // Détail des logements (affecté lors du calcul de l'usage logement)
+  let logements = null as
+    | Omit<ReturnType<typeof computeLogements>, "ca_brut">
+    | null;
+
+  const lignes = USAGES.map((usage) => {
+    const d = USAGE_DEFAUTS[usage];
+    const sdp = sdpParUsage(usage);
+
+    const efficience = safeNumber(
+      profil.params?.programme?.efficience?.[usage],
+      d.efficience,
+    ) ?? d.efficience;
+    const prixM2 = safeNumber(
+      profil.params?.ventes?.[usage]?.prix_vente_m2,
+      d.prix_vente_m2,
+    ) ?? d.prix_vente_m2;
+    const constructionProfil = safeNumber(
+      profil.params?.couts?.construction?.[`${usage}_m2`],
+      null,
+    );
+    const constructionM2 =
+      (constructionProfil ?? reference.cout_m2[usage]) * coefCout;
+
+    const surfaceVendable = sdp * efficience;
+    const stationnement = stationnementRatio(usage, options.ruleset ?? null, profil);
+    let places = sdp > 0 ? Math.ceil(sdp * stationnement.places_par_m2_sdp) : 0;
+    let ca = surfaceVendable * prixM2;
+    let prixMoyenM2 = prixM2;
+
+    // Logements : CA au prix moyen pondéré (libre + social), places par logement
+    if (usage === "logement" && sdp > 0) {
+      const { ca_brut, ...detail } = computeLogements(
+        sdp,
+        surfaceVendable,
+        prixM2,
+        options.projet ?? null,
+        options.ruleset ?? null,
+        profil,
+      );
+      logements = detail;
+      ca = ca_brut;
+      prixMoyenM2 = surfaceVendable > 0 ? ca / surfaceVendable : prixM2;
+      if (detail.stationnement_source) {
+        places = detail.stationnement.places;
+      }
+    }
+
+    return {
+      usage,
+      sdp,
+      efficience,
+      surfaceVendable,
+      prixM2: prixMoyenM2,
+      ca,
+      constructionM2,
+      constructionSource: constructionProfil != null ? "profil" : "reference",
+      construction: sdp * constructionM2,
+      stationnement,
+      places,
+    };
+  });
+
+  const total = (pick: (l: (typeof lignes)[number]) => number) =>
+    lignes.reduce((acc, l) => acc + pick(l), 0);
+
+  const caTotal = total((l) => l.ca);
+  const coutConstructionTotal = total((l) => l.construction);
+  const placesTotal = total((l) => l.places);
+
+  // Stationnement : prix par place du profil, sinon places réparties par
+  // niveau de sous-sol sous l'emprise
+  const prixPlaceProfil = safeNumber(
+    profil.params?.couts?.stationnement_place,
+    null,
+  );
+  const empriseM2 = safeNumber(etudeArchi?.emprise_autorisee_m2, 0) ?? 0;
+  const parkingReference = prixPlaceProfil == null
+    ? computeCoutStationnement(reference, {
+      places: placesTotal,
+      emprise_sous_sol_m2:
+        safeNumber(options.projet?.construction?.emprise_sous_sol_m2, null) ??
+          empriseM2,
+      niveaux_sous_sol: safeNumber(
+        options.projet?.construction?.niveaux_sous_sol,
+        null,
+      ),
+      coef: coefCout,
+    })
+    : null;
+  const prixPlace = parkingReference
+    ? parkingReference.cout_moyen_place
+    : (prixPlaceProfil as number) * coefCout;
+  const coutStationnementTotal = placesTotal * prixPlace;
+
+  // Fondations spéciales (sol médiocre / mauvais), au prorata de la SDP
+  const fondationsSpeciales = sdpTotale > 0
+    ? empriseM2 * reference.fondations_speciales_m2_emprise * coefCout
+    : 0;
+
+  const coutTravaux = coutConstructionTotal + coutStationnementTotal +
+    fondationsSpeciales;
+
+  const honorairesPct =
+    safeNumber(profil.params?.couts?.honoraires_pct, 0.05) ?? 0.05;
+  const fraisEtudesPct =
+    safeNumber(profil.params?.couts?.frais_etudes_pct, 0.02) ?? 0.02;
+  const fraisCommerciauxPct =
+    safeNumber(profil.params?.couts?.frais_commerciaux_pct, 0.03) ?? 0.03;
+  const fraisFinanciersPct =
+    safeNumber(profil.params?.couts?.frais_financiers_pct, 0.04) ?? 0.04;
+  const taxesPct =
+    safeNumber(profil.params?.couts?.taxes_pct, 0.03) ?? 0.03;
+
+  // Taxes d'urbanisme ligne par ligne ; à défaut de paramètres, forfait sur le CA
+  const logementsLigne = lignes.find((l) => l.usage === "logement");
+  const taxesUrbanisme = options.taxes
+    ? computeTaxesUrbanisme({
+      usages: lignes.map((l) => ({
+        usage: l.usage,
+        sdp_m2: l.sdp,
+        places: l.places,
+      })),
+      logements: logements && logementsLigne
+        ? {
+          sdp_m2: logementsLigne.sdp,
+          shab_m2: logements.shab_m2,
+          nb_logements: logements.nb_logements,
+          nb_libre: logements.accession_libre.nb,
+          par_financement: logements.quota_social.par_financement as Partial<
+            Record<FinancementSocial, { nb: number; shab_m2: number }>
+          >,
+        }
+        : null,
+      ca_total: caTotal,
+      parametres: options.taxes,
+      hypotheses: profil.params?.taxes ?? undefined,
+    })
+    : null;
+
+  // Honoraires / études au prorata des travaux, frais commerciaux et
+  // financiers au prorata du CA, taxes par usage, démolition au prorata de la SDP
+  const pctTravaux = honorairesPct + fraisEtudesPct;
+  const taxesUsage = (l: (typeof lignes)[number]) =>
+    taxesUrbanisme
+      ? taxesUrbanisme.par_usage[l.usage] ?? 0
+      : l.ca * taxesPct;
+
+  const honoraires = coutTravaux * honorairesPct;
+  const fraisEtudes = coutTravaux * fraisEtudesPct;
+  const fraisCommerciaux = caTotal * fraisCommerciauxPct;
+  const fraisFinanciers = options.fraisFinanciers ?? caTotal * fraisFinanciersPct;
+  const pctCa = fraisCommerciauxPct +
+    (caTotal > 0 ? fraisFinanciers / caTotal : fraisFinanciersPct);
+  const taxes = taxesUrbanisme?.total_brut ?? caTotal * taxesPct;
+
+  const coutHorsFoncierTotal =
+    coutTravaux +
+    honoraires +
+    fraisEtudes +
+    fraisCommerciaux +
+    fraisFinanciers +
+    taxes +
+    coutDemolition;
+
+  const parUsage: Record<string, unknown> = {};
+  for (const l of lignes) {
+    if (l.sdp <= 0) continue;
+
+    const coutStationnement = l.places * prixPlace;
+    const fondations = sdpTotale > 0
+      ? fondationsSpeciales * (l.sdp / sdpTotale)
+      : 0;
+    const travaux = l.construction + coutStationnement + fondations;
+    const coutsIndirects = travaux * pctTravaux + l.ca * pctCa + taxesUsage(l);
+    const demolition = sdpTotale > 0 ? coutDemolition * (l.sdp / sdpTotale) : 0;
+    const coutUsage = travaux + coutsIndirects + demolition;
+
+    parUsage[l.usage] = {
+      sdp_m2: round(l.sdp, 2),
+      efficience: l.efficience,
+      surface_vendable_m2: round(l.surfaceVendable, 2),
+      prix_vente_m2: round(l.prixM2, 0),
+      ca: round(l.ca, 0),
+      part_ca_pct: caTotal > 0 ? round((l.ca / caTotal) * 100, 1) : null,
+      cout_construction_m2: round(l.constructionM2, 0),
+      cout_construction_source: l.constructionSource,
+      cout_construction: round(l.construction, 0),
+      fondations_speciales: round(fondations, 0),
+      stationnement: {
+        places: l.places,
+        places_par_m2_sdp: round(l.stationnement.places_par_m2_sdp, 4),
+        source: l.stationnement.source,
+        cout: round(coutStationnement, 0),
+      },
+      couts_indirects: round(coutsIndirects, 0),
+      demolition: round(demolition, 0),
+      cout_total_hors_foncier: round(coutUsage, 0),
+      marge_avant_foncier: round(l.ca - coutUsage, 0),
+    };
+  }
+
+  const ventes: Record<string, unknown> = {};
+  for (const l of lignes) {
+    ventes[l.usage] = {
+      m2: round(l.sdp, 2),
+      surface_vendable_m2: round(l.surfaceVendable, 2),
+      prix_m2: round(l.prixM2, 0),
+      ca: round(l.ca, 0),
+    };
+  }
+  ventes.ca_total = round(caTotal, 0);
+
+  return {
+    sdpTotale,
+    ventes,
+    par_usage: parUsage,
+    logements,
+    stationnement: {
+      places_total: placesTotal,
+      cout_place: round(prixPlace, 0),
+      cout_place_source: parkingReference ? "reference" : "profil",
+      cout_total: round(coutStationnementTotal, 0),
+      sous_sol: parkingReference
+        ? {
+          places_par_niveau: parkingReference.places_par_niveau,
+          niveaux_sous_sol: parkingReference.niveaux_sous_sol,
+          niveaux: parkingReference.niveaux,
+          places_aeriennes: parkingReference.places_aeriennes,
+          cout_place_aerienne: parkingReference.cout_place_aerienne,
+        }
+        : null,
+    },
+    couts_construction_reference: {
+      qualite: reference.qualite,
+      sol: reference.sol,
+      region_code: reference.region_code,
+      region_nom: reference.region_nom,
+      coef_regional: reference.coef_regional,
+      indexation: reference.indexation,
+      coef_total: round(reference.coef_total, 4),
+      cout_m2: Object.fromEntries(
+        Object.entries(reference.cout_m2).map(([k, v]) => [k, round(v, 0)]),
+      ),
+      fondations_speciales_m2_emprise: round(
+        reference.fondations_speciales_m2_emprise,
+        0,
+      ),
+    },
+    couts_hors_foncier: {
+      construction: round(coutConstructionTotal, 0),
+      stationnement: round(coutStationnementTotal, 0),
+      fondations_speciales: round(fondationsSpeciales, 0),
+      honoraires: round(honoraires, 0),
+      frais_etudes: round(fraisEtudes, 0),
+      frais_commerciaux: round(fraisCommerciaux, 0),
+      frais_financiers: round(fraisFinanciers, 0),
+      frais_financiers_source: options.fraisFinanciers != null
+        ? "tresorerie"
+        : "forfait",
+      taxes: round(taxes, 0),
+      taxes_detail: taxesUrbanisme
+        ? {
+          ...taxesUrbanisme.lignes,
+          total: taxesUrbanisme.total,
+        }
+        : { forfait_pct_ca: round(taxesPct * 100, 2), total: round(taxes, 0) },
+      demolition: round(coutDemolition, 0),
+      cout_total_hors_foncier: round(coutHorsFoncierTotal, 0),
+    },
+    taxes_urbanisme: taxesUrbanisme
+      ? (({ total_brut, par_usage, ...rest }) => rest)(taxesUrbanisme)
+      : null,
+    ca_total_brut: caTotal,
+    cout_total_hors_foncier_brut: coutHorsFoncierTotal,
+  };
+}
+
+// -------------------------------------------------
+// Foncier + marge
+// -------------------------------------------------
+
+function computeFoncierEtMarge(
+  caTotal: number,
+  coutHorsFoncierTotal: number,
+  sdpTotale: number,
+  surfaceTerrainM2: number,
+  profil: { code: string; params: PromoteurParams },
+  foncier?: FoncierInput,
+) {
+  const margeCible =
+    safeNumber(
+      profil.params?.objectif?.marge_cible_pct_sur_ca,
+      0.12, // 🔹 fallback 12 %
+    ) ?? 0.12;
+
+  const valeurTerrainResiduelle =
+    caTotal * (1 - margeCible) - coutHorsFoncierTotal;
+
+  let mode: FoncierMode = foncier?.mode ?? "none";
+  if (!["saisi", "residuel", "none", "dvf"].includes(mode)) {
+    mode = "none";
+  }
+
+  const valeurTerrainSaisi = safeNumber(
+    foncier?.valeur_terrain_saisi,
+    null,
+  );
+
+  let coutFoncierEffectif = 0;
+  if (mode === "saisi" && valeurTerrainSaisi && valeurTerrainSaisi > 0) {
+    coutFoncierEffectif = valeurTerrainSaisi;
+  }
+
+  const coutTotalEffectif = coutHorsFoncierTotal + coutFoncierEffectif;
+
+  const margeMontant = caTotal - coutTotalEffectif;
+  const margeTaux = caTotal > 0 ? margeMontant / caTotal : 0;
+
+  let appreciation = "inconnu";
+  if (margeTaux >= margeCible + 0.05) appreciation = "très confortable";
+  else if (margeTaux >= margeCible) appreciation = "confortable";
+  else if (margeTaux >= margeCible - 0.03) appreciation = "tendue";
+  else appreciation = "faible";
+
+  const sdp = sdpTotale > 0 ? sdpTotale : 1;
+  const terrainM2 = surfaceTerrainM2 > 0 ? surfaceTerrainM2 : 1;
+
+  const foncierResiduelParM2Sdp = valeurTerrainResiduelle / sdp;
+  const foncierResiduelParM2Terrain = valeurTerrainResiduelle / terrainM2;
+
+  const foncierSaisiParM2Sdp = coutFoncierEffectif / sdp;
+  const foncierSaisiParM2Terrain = coutFoncierEffectif / terrainM2;
+
+  const deltaVsResiduel = coutFoncierEffectif - valeurTerrainResiduelle;
+  const deltaVsResiduelPct =
+    valeurTerrainResiduelle !== 0
+      ? deltaVsResiduel / valeurTerrainResiduelle
+      : null;
+
+  return {
+    cout_foncier_effectif: round(coutFoncierEffectif, 0),
+    cout_total_effectif: round(coutTotalEffectif, 0),
+    valeur_terrain_residuelle: round(valeurTerrainResiduelle, 0),
+    marge: {
+      montant: round(margeMontant, 0),
+      taux_sur_ca: round(margeTaux * 100, 1),
+      marge_cible_pct_sur_ca: round(margeCible * 100, 1),
+      appreciation,
+    },
+    foncier_detail: {
+      mode,
+      valeur_terrain_saisi: round(valeurTerrainSaisi, 0),
+      valeur_terrain_residuelle: round(valeurTerrainResiduelle, 0),
+      delta_vs_residuel: round(deltaVsResiduel, 0),
+      delta_vs_residuel_pct:
+        deltaVsResiduelPct != null
+          ? round(deltaVsResiduelPct * 100, 1)
+          : null,
+      par_m2_sdp: {
+        residuel: round(foncierResiduelParM2Sdp, 0),
+        saisi:
+          coutFoncierEffectif > 0
+            ? round(foncierSaisiParM2Sdp, 0)
+            : null,
+      },
+      par_m2_terrain: {
+        residuel: round(foncierResiduelParM2Terrain, 0),
+        saisi:
+          coutFoncierEffectif > 0
+            ? round(foncierSaisiParM2Terrain, 0)
+            : null,
+      },
+    },
+  };
+}
+
+// -------------------------------------------------
+// Bilan complet (revenus, foncier + marge, trésorerie)
+// -------------------------------------------------
+
+// Écart appliqué aux hypothèses (analyses de sensibilité / Monte Carlo)
+interface Variation {
+  // Multiplicateur des prix de vente libres (hors prix sociaux encadrés)
+  prix_vente: number;
+  // Multiplicateur des coûts de construction et de stationnement
+  cout_construction: number;
+  // Multiplicateur de la SDP du programme
+  sdp: number;
+  // Mois ajoutés au délai d'obtention du permis
+  delais_mois: number;
+}
+
+const VARIATION_NULLE: Variation = {
+  prix_vente: 1,
+  cout_construction: 1,
+  sdp: 1,
+  delais_mois: 0,
+};
+
+interface BilanContext {
+  etudeArchi: any;
+  sdpProgramme: number;
+  coutDemolition: number;
+  surfaceTerrain: number;
+  profil: { code: string; params: PromoteurParams };
+  ruleset: PluRuleset | null;
+  projet: ProjetInput;
+  foncier: FoncierInput;
+  calendrier: CalendrierParams;
+  taxes: ParametresTaxes | null;
+  coutsReference: ReferenceCouts | null;
+  // Marge du bilan avec les frais financiers de la trésorerie
+  fraisFinanciersReels: boolean;
+}
+
+function applyVariationToProfil(
+  profil: { code: string; params: PromoteurParams },
+  variation: Variation,
+): { code: string; params: PromoteurParams } {
+  if (variation.prix_vente === 1) return profil;
+
+  const params = profil.params ?? {};
+  const ventes = { ...(params.ventes ?? {}) };
+
+  for (const u of USAGES) {
+    const d = USAGE_DEFAUTS[u];
+    ventes[u] = {
+      ...(ventes[u] ?? {}),
+      prix_vente_m2: (safeNumber(ventes[u]?.prix_vente_m2, null) ??
+        d.prix_vente_m2) * variation.prix_vente,
+    };
+  }
+
+  return { ...profil, params: { ...params, ventes } };
+}
+
+/**
+ * Enchaîne revenus & coûts, foncier + marge et trésorerie mensuelle.
+ */
+function computeBilan(
+  ctx: BilanContext,
+  variation: Variation = VARIATION_NULLE,
+  detailMensuel = true,
+) {
+  const profil = applyVariationToProfil(ctx.profil, variation);
+
+  const revenusEtMarge = (fraisFinanciers: number | null) => {
+    const revenusCouts = computeRevenusEtCoutsHorsFoncier(
+      {
+        ...ctx.etudeArchi,
+        sdp_totale_potentielle_m2: ctx.sdpProgramme * variation.sdp,
+      },
+      profil,
+      {
+        ruleset: ctx.ruleset,
+        coutDemolition: ctx.coutDemolition,
+        projet: ctx.projet,
+        taxes: ctx.taxes,
+        coutsReference: ctx.coutsReference,
+        coefCoutConstruction: variation.cout_construction,
+        fraisFinanciers,
+      },
+    );
+
+    const foncierEtMarge = computeFoncierEtMarge(
+      revenusCouts.ca_total_brut ?? 0,
+      revenusCouts.cout_total_hors_foncier_brut ?? 0,
+      revenusCouts.sdpTotale,
+      ctx.surfaceTerrain,
+      profil,
+      ctx.foncier,
+    );
+
+    return { revenusCouts, foncierEtMarge };
+  };
+
+  let { revenusCouts, foncierEtMarge } = revenusEtMarge(null);
+
+  const calendrier = variation.delais_mois
+    ? {
+      ...ctx.calendrier,
+      delai_permis_mois: Math.max(
+        0,
+        (safeNumber(ctx.calendrier.delai_permis_mois, null) ??
+          CALENDRIER_DEFAUT.delai_permis_mois) + variation.delais_mois,
+      ),
+    }
+    : ctx.calendrier;
+
+  const chf = revenusCouts.couts_hors_foncier;
+  const tresorerie = computeCashflow({
+    ca: revenusCouts.ca_total_brut ?? 0,
+    couts: {
+      foncier: foncierEtMarge.cout_foncier_effectif ?? 0,
+      frais_etudes: chf.frais_etudes ?? 0,
+      honoraires: chf.honoraires ?? 0,
+      travaux: (chf.construction ?? 0) + (chf.stationnement ?? 0) +
+        (chf.fondations_speciales ?? 0) + (chf.demolition ?? 0),
+      frais_commerciaux: chf.frais_commerciaux ?? 0,
+      taxes: chf.taxes ?? 0,
+    },
+    calendrier,
+    financement: profil.params?.financement ?? null,
+    detail_mensuel: detailMensuel,
+  });
+
+  // La trésorerie ne dépend pas des frais financiers du bilan : on les remplace
+  // par les frais réels (intérêts + mise en place du crédit)
+  if (ctx.fraisFinanciersReels) {
+    ({ revenusCouts, foncierEtMarge } = revenusEtMarge(
+      tresorerie.frais_financiers.total,
+    ));
+  }
+
+  return { revenusCouts, foncierEtMarge, tresorerie };
+}
+
+// -------------------------------------------------
+// Analyses : sensibilité (tornado, prix × coût) et Monte Carlo
+// -------------------------------------------------
+
+const VARIABLES_ANALYSE: VariableAnalyse[] = [
+  "prix_vente_pct",
+  "cout_construction_pct",
+  "sdp_pct",
+  "delais_mois",
+];
+
+const AMPLITUDES_SENSIBILITE_DEFAUT: Record<VariableAnalyse, number> = {
+  prix_vente_pct: 10,
+  cout_construction_pct: 10,
+  sdp_pct: 10,
+  delais_mois: 6,
+};
+
+const GRILLE_SENSIBILITE_DEFAUT = [-10, -5, 0, 5, 10];
+
+const DISTRIBUTIONS_DEFAUT: Record<VariableAnalyse, Distribution> = {
+  prix_vente_pct: { type: "normale", moyenne: 0, ecart_type: 5, min: -30, max: 30 },
+  cout_construction_pct: { type: "triangulaire", min: -5, mode: 0, max: 15 },
+  sdp_pct: { type: "triangulaire", min: -10, mode: 0, max: 5 },
+  delais_mois: { type: "triangulaire", min: 0, mode: 0, max: 6 },
+};
+
+// Bornées pour rester dans le budget CPU d'une Edge Function
+const MONTE_CARLO_ITERATIONS_DEFAUT = 500;
+const MONTE_CARLO_ITERATIONS_MAX = 1000;
+
+const PERCENTILES = [5, 10, 25, 50, 75, 90, 95];
+
+type AnalyseConfig =
+  | {
+    mode: "sensibilite";
+    amplitudes: Record<VariableAnalyse, number>;
+    grille_prix: number[];
+    grille_cout: number[];
+  }
+  | {
+    mode: "monte_carlo";
+    iterations: number;
+    graine: number;
+    distributions: Record<VariableAnalyse, Distribution>;
+  };
+
+function parseGrille(value: unknown): number[] | null {
+  if (!Array.isArray(value)) return null;
+  const grille = value.map((v) => safeNumber(v, null)).filter((v): v is number =>
+    v != null
+  );
+  return grille.length ? grille.slice(0, 11) : null;
+}
+
+function parseAnalyse(
+  raw: AnalyseInput | null | undefined,
+): { ok: true; config: AnalyseConfig | null } | { ok: false; error: string } {
+  if (!raw) return { ok: true, config: null };
+
+  if (raw.mode === "sensibilite") {
+    const amplitudes = { ...AMPLITUDES_SENSIBILITE_DEFAUT };
+    for (const v of VARIABLES_ANALYSE) {
+      const a = safeNumber(raw.sensibilite?.variations?.[v], null);
+      if (a != null) amplitudes[v] = Math.abs(a);
+    }
+    return {
+      ok: true,
+      config: {
+        mode: "sensibilite",
+        amplitudes,
+        grille_prix: parseGrille(raw.sensibilite?.grille_prix_vente_pct) ??
+          GRILLE_SENSIBILITE_DEFAUT,
+        grille_cout: parseGrille(raw.sensibilite?.grille_cout_construction_pct) ??
+          GRILLE_SENSIBILITE_DEFAUT,
+      },
+    };
+  }
+
+  if (raw.mode === "monte_carlo") {
+    const distributions = { ...DISTRIBUTIONS_DEFAUT };
+    for (const v of VARIABLES_ANALYSE) {
+      const d = raw.monte_carlo?.distributions?.[v];
+      if (d === undefined || d === null) continue;
+      const parsed = parseDistribution(d);
+      if (!parsed) {
+        return {
+          ok: false,
+          error:
+            `analyse.monte_carlo.distributions.${v} invalide (types : fixe, uniforme, triangulaire, normale)`,
+        };
+      }
+      distributions[v] = parsed;
+    }
+
+    const iterations = Math.round(
+      safeNumber(raw.monte_carlo?.iterations, null) ??
+        MONTE_CARLO_ITERATIONS_DEFAUT,
+    );
+
+    return {
+      ok: true,
+      config: {
+        mode: "monte_carlo",
+        iterations: Math.min(MONTE_CARLO_ITERATIONS_MAX, Math.max(10, iterations)),
+        graine: Math.round(safeNumber(raw.monte_carlo?.graine, null) ?? 1),
+        distributions,
+      },
+    };
+  }
+
+  return {
+    ok: false,
+    error: "analyse.mode invalide : 'sensibilite' ou 'monte_carlo' attendu",
+  };
+}
+
+function variationFrom(values: Partial<Record<VariableAnalyse, number>>): Variation {
+  return {
+    prix_vente: 1 + (values.prix_vente_pct ?? 0) / 100,
+    cout_construction: 1 + (values.cout_construction_pct ?? 0) / 100,
+    sdp: Math.max(0, 1 + (values.sdp_pct ?? 0) / 100),
+    delais_mois: Math.round(values.delais_mois ?? 0),
+  };
+}
+
+/**
+ * Marge après frais financiers réels (trésorerie) et TRI fonds propres.
+ */
+function indicateursAnalyse(bilan: ReturnType<typeof computeBilan>) {
+  const ca = bilan.revenusCouts.ca_total_brut ?? 0;
+  const resultat = bilan.tresorerie.resultat;
+  return {
+    marge_pct: ca > 0 ? (resultat / ca) * 100 : 0,
+    marge_montant: resultat,
+    tri_fonds_propres_pct: bilan.tresorerie.tri_fonds_propres_pct,
+  };
+}
+
+function computeSensibilite(
+  ctx: BilanContext,
+  config: Extract<AnalyseConfig, { mode: "sensibilite" }>,
+) {
+  const base = indicateursAnalyse(computeBilan(ctx, VARIATION_NULLE, false));
+
+  const tornado = VARIABLES_ANALYSE.map((variable) => {
+    const a = config.amplitudes[variable];
+    const bas = indicateursAnalyse(
+      computeBilan(ctx, variationFrom({ [variable]: -a }), false),
+    );
+    const haut = indicateursAnalyse(
+      computeBilan(ctx, variationFrom({ [variable]: a }), false),
+    );
+    return {
+      variable,
+      amplitude: a,
+      bas: {
+        ecart: -a,
+        marge_pct: round(bas.marge_pct, 2),
+        marge_montant: round(bas.marge_montant, 0),
+        tri_fonds_propres_pct: bas.tri_fonds_propres_pct,
+      },
+      haut: {
+        ecart: a,
+        marge_pct: round(haut.marge_pct, 2),
+        marge_montant: round(haut.marge_montant, 0),
+        tri_fonds_propres_pct: haut.tri_fonds_propres_pct,
+      },
+      etendue_marge_pts: round(Math.abs(haut.marge_pct - bas.marge_pct), 2),
+    };
+  }).sort((x, y) => (y.etendue_marge_pts ?? 0) - (x.etendue_marge_pts ?? 0));
+
+  // Lignes : écart de prix ; colonnes : écart de coût
+  const margePct = config.grille_prix.map((p) =>
+    config.grille_cout.map((c) =>
+      round(
+        indicateursAnalyse(
+          computeBilan(
+            ctx,
+            variationFrom({ prix_vente_pct: p, cout_construction_pct: c }),
+            false,
+          ),
+        ).marge_pct,
+        2,
+      )
+    )
+  );
+
+  return {
+    mode: "sensibilite",
+    indicateur: "marge_apres_frais_financiers_reels",
+    base: {
+      marge_pct: round(base.marge_pct, 2),
+      marge_montant: round(base.marge_montant, 0),
+      tri_fonds_propres_pct: base.tri_fonds_propres_pct,
+    },
+    tornado,
+    prix_x_cout: {
+      prix_vente_pct: config.grille_prix,
+      cout_construction_pct: config.grille_cout,
+      marge_pct: margePct,
+    },
+  };
+}
+
+function statistiques(values: number[], decimals: number) {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    moyenne: round(mean(sorted), decimals),
+    ecart_type: round(stdDev(sorted), decimals),
+    min: round(sorted[0] ?? null, decimals),
+    max: round(sorted[sorted.length - 1] ?? null, decimals),
+    percentiles: Object.fromEntries(
+      PERCENTILES.map((p) => [`p${p}`, round(percentile(sorted, p), decimals)]),
+    ),
+  };
+}
+
+function computeMonteCarlo(
+  ctx: BilanContext,
+  config: Extract<AnalyseConfig, { mode: "monte_carlo" }>,
+) {
+  const random = createRandom(config.graine);
+  const margeCiblePct = (safeNumber(
+    ctx.profil.params?.objectif?.marge_cible_pct_sur_ca,
+    0.12,
+  ) ?? 0.12) * 100;
+
+  const marges: number[] = [];
+  const montants: number[] = [];
+  const tris: number[] = [];
+  let sousCible = 0;
+
+  for (let i = 0; i < config.iterations; i++) {
+    const tirage = Object.fromEntries(
+      VARIABLES_ANALYSE.map((v) => [v, sample(config.distributions[v], random)]),
+    ) as Record<VariableAnalyse, number>;
+
+    const r = indicateursAnalyse(
+      computeBilan(ctx, variationFrom(tirage), false),
+    );
+    marges.push(r.marge_pct);
+    montants.push(r.marge_montant);
+    if (r.tri_fonds_propres_pct != null) tris.push(r.tri_fonds_propres_pct);
+    if (r.marge_pct < margeCiblePct) sousCible++;
+  }
+
+  return {
+    mode: "monte_carlo",
+    indicateur: "marge_apres_frais_financiers_reels",
+    iterations: config.iterations,
+    graine: config.graine,
+    distributions: config.distributions,
+    marge_cible_pct_sur_ca: round(margeCiblePct, 1),
+    probabilite_sous_marge_cible: round(sousCible / config.iterations, 3),
+    marge_pct: statistiques(marges, 2),
+    marge_montant: statistiques(montants, 0),
+    tri_fonds_propres_pct: tris.length ? statistiques(tris, 1) : null,
+  };
+}
+
+// -------------------------------------------------
+// Point d'entrée du moteur
+// -------------------------------------------------
+
+export type PromoteurResult = {
+  status: number;
+  body: Record<string, unknown>;
+};
+
+/**
+ * Calcule l'étude complète pour une requête promoteur-v1. Les erreurs
+ * fonctionnelles sont renvoyées avec leur statut HTTP (400 / 404) ;
+ * les exceptions sont laissées à l'appelant.
+ */
+export async function runPromoteur(
+  deps: EngineDeps,
+  body: PromoteurInput,
+): Promise<PromoteurResult> {
+  if (!body?.parcel || !body?.plu || !body?.projet) {
+    return {
+      status: 400,
+      body: {
+        success: false,
+        error:
+          "Champs requis manquants : parcel, plu, projet sont obligatoires.",
+      },
+    };
+  }
+
+  const analyseParsed = parseAnalyse(body.analyse);
+  if (!analyseParsed.ok) {
+    return {
+      status: 400,
+      body: { success: false, error: analyseParsed.error },
+    };
+  }
+  const analyseConfig = analyseParsed.config;
+
+  const parcel = body.parcel;
+  const plu = body.plu;
+  const projet = body.projet;
+  const financement = body.financement;
+  const foncierInput = body.foncier;
+  const pluOverrides = body.plu_overrides ?? null;
+
+  // 1) Surface terrain + géométrie (parcelle seule ou assemblage)
+  let surfaceTerrain = safeNumber(parcel.surface_terrain_m2, null);
+  let parcelGeometry: any = parcel.geometry ?? null;
+
+  const parcelIds = Array.from(new Set(parcel.parcel_ids ?? []));
+  const isAssemblage = parcelIds.length >= 2;
+  let assemblage: AssemblageResult | null = null;
+
+  if (isAssemblage) {
+    assemblage = await loadAssemblage(
+      deps,
+      parcelIds,
+      safeNumber(body.assemblage?.tolerance_m, null) ?? undefined,
+    );
+
+    if (assemblage.contigu === false) {
+      return {
+        status: 400,
+        body: {
+          success: false,
+          error:
+            "Les parcelles de l'assemblage ne sont pas contiguës : une seule unité foncière est requise.",
+          details: {
+            parcel_ids: parcelIds,
+            composantes: assemblage.composantes,
+          },
+        },
+      };
+    }
+
+    if (surfaceTerrain == null) {
+      surfaceTerrain = assemblage.surface_m2 ??
+        assemblage.surface_geometrie_m2;
+    }
+    if (!parcelGeometry) parcelGeometry = assemblage.geometry;
+  } else if (
+    (surfaceTerrain == null || !parcelGeometry) && parcel.parcel_id
+  ) {
+    const fromCadastre = await fetchParcelFromCadastre(deps, parcel);
+    if (surfaceTerrain == null) surfaceTerrain = fromCadastre.surface;
+    if (!parcelGeometry) parcelGeometry = fromCadastre.geometry;
+  }
+
+  if (surfaceTerrain == null) {
+    return {
+      status: 400,
+      body: {
+        success: false,
+        error:
+          "Impossible de déterminer la surface du terrain : fournissez surface_terrain_m2 ou assurez-vous que parcel_id existe dans cadastre_parcelles avec une surface.",
+        details: {
+          parcel_id: parcel.parcel_id ?? null,
+          parcel_ids: isAssemblage ? parcelIds : undefined,
+        },
+      },
+    };
+  }
+
+  // 2) Chargement PLU (DB + overrides éventuels), une fois par zone
+  const zonesParParcelle: Record<string, string> = {};
+  for (const id of parcelIds) {
+    zonesParParcelle[id] = plu.zones_par_parcelle?.[id] ?? plu.zone_code;
+  }
+
+  const zones = isAssemblage
+    ? Array.from(new Set(Object.values(zonesParParcelle)))
+    : [plu.zone_code];
+  const isMultizone = zones.length > 1;
+
+  const strategieMultizone: StrategieMultizone =
+    body.assemblage?.strategie_multizone === "par_zone"
+      ? "par_zone"
+      : "plus_restrictive";
+
+  const pluParZone = await Promise.all(
+    zones.map(async (zone_code) => ({
+      zone_code,
+      ...(await fetchPluRuleset(deps, { ...plu, zone_code })),
+    })),
+  );
+
+  const zonesSansPlu = pluParZone
+    .filter((z) => !z.ruleset)
+    .map((z) => z.zone_code);
+
+  // Zone unique : comportement historique. Multizone : règle la plus restrictive
+  const rulesetFromDb = zonesSansPlu.length > 0
+    ? null
+    : isMultizone
+    ? mergeRulesetsMostRestrictive<PluRuleset>(
+      pluParZone.map((z) => z.ruleset),
+    )
+    : pluParZone[0].ruleset;
+
+  const pluMetaFromDb = isMultizone
+    ? {
+      commune_insee: plu.commune_insee,
+      zone_code: zones.join("+"),
+      plu_source_type: `multizone_${strategieMultizone}`,
+      zones: pluParZone.map((z) => z.meta),
+    }
+    : pluParZone[0].meta;
+
+  const overridesRuleset = normaliseRuleset(pluOverrides?.ruleset);
+  const hasOverrides = !!overridesRuleset &&
+    !(pluOverrides?.priorite === "secours" && rulesetFromDb);
+
+  if (!rulesetFromDb && !hasOverrides) {
+    return {
+      status: 404,
+      body: {
+        success: false,
+        error: plu.approuve_uniquement
+          ? "Aucun PLU normalisé approuvé pour cette commune / zone (relecture via plu-ruleset-review) et aucun plu_overrides fourni."
+          : "Aucun PLU normalisé trouvé pour cette commune / zone (plu_ruleset_normalized vide) et aucun plu_overrides fourni.",
+        details: {
+          commune_insee: plu.commune_insee,
+          zone_code: plu.zone_code,
+          zones_sans_plu: zonesSansPlu,
+          approuve_uniquement: !!plu.approuve_uniquement,
+        },
+      },
+    };
+  }
+
+  const finalRuleset: PluRuleset = hasOverrides
+    ? overridesRuleset as PluRuleset
+    : rulesetFromDb as PluRuleset;
+
+  const finalPluSource: Record<string, unknown> | null = (() => {
+    const overSource = hasOverrides ? pluOverrides?.source : null;
+    if (!pluMetaFromDb && !overSource) return null;
+    const base = (pluMetaFromDb ?? {}) as Record<string, unknown>;
+    const over = (overSource ?? {}) as Record<string, unknown>;
+    const merged = { ...base, ...over };
+    if (!merged["plu_source_type"]) merged["plu_source_type"] = "override";
+    return merged;
+  })();
+
+  // 3) Profil promoteur + taux des taxes d'urbanisme de la commune
+  const profil = await fetchPromoteurProfile(deps, financement);
+
+  const taxesAnnee = safeNumber(body.taxes?.annee, null) ??
+    new Date().getFullYear();
+  const taxesZone = (zoneCode: string) =>
+    memo(
+      deps,
+      `taxes:${plu.commune_insee}:${zoneCode}:${taxesAnnee}`,
+      () =>
+        fetchParametresTaxes(deps.supabase, plu.commune_insee, zoneCode, {
+          annee: taxesAnnee,
+        }),
+    );
+
+  // Assemblage multizone : taux du secteur de chaque zone, pondérés par la
+  // surface de ses parcelles
+  const parametresTaxes = applyTaxesOverrides(
+    isMultizone
+      ? combineParametresTaxes(
+        await Promise.all(zones.map(async (zoneCode) => {
+          const surfaces = await Promise.all(
+            parcelIds
+              .filter((id) => zonesParParcelle[id] === zoneCode)
+              .map(async (id) =>
+                (await fetchParcelFromCadastre(deps, { parcel_id: id })).surface
+              ),
+          );
+          return {
+            zone_code: zoneCode,
+            parametres: await taxesZone(zoneCode),
+            surface_m2: surfaces.some((x) => x == null)
+              ? null
+              : surfaces.reduce((a: number, b) => a + (b ?? 0), 0),
+          };
+        })),
+      )
+      : await taxesZone(plu.zone_code),
+    body.taxes ?? null,
+  );
+
+  // Référentiel de coûts : qualité, sol, région de la commune, indexation BT01
+  const dateValeurCouts = projet.construction?.date_valeur ??
+    new Date().toISOString().slice(0, 10);
+  const coutsReference = resolveReferenceCouts({
+    commune_insee: plu.commune_insee,
+    qualite: parseQualite(projet.construction?.qualite),
+    sol: parseNatureSol(projet.construction?.sol),
+    indexation: await memo(
+      deps,
+      `bt01:${dateValeurCouts.slice(0, 7)}`,
+      () => fetchIndexationBt01(deps.supabase, dateValeurCouts),
+    ),
+    overrides: profil.params?.couts?.reference ?? null,
+  });
+
+  // 4) Étude archi (emprise plafonnée par l'enveloppe des retraits si géométrie)
+  let etudeArchi: any;
+
+  if (isMultizone && strategieMultizone === "par_zone" && !hasOverrides) {
+    // Une sous-étude par zone, sur l'union des parcelles de la zone
+    const etudes = [];
+    for (const z of pluParZone) {
+      const ids = parcelIds.filter((id) => zonesParParcelle[id] === z.zone_code);
+      const sousUnite = await loadAssemblage(
+        deps,
+        ids,
+        safeNumber(body.assemblage?.tolerance_m, null) ?? undefined,
+      );
+      const surfaceZone = sousUnite.surface_m2 ??
+        sousUnite.surface_geometrie_m2 ?? 0;
+
+      const enveloppeZone = sousUnite.geometry
+        ? await computeEnveloppe(
+          deps,
+          { ...parcel, parcel_ids: ids },
+          sousUnite.geometry,
+          z.ruleset,
+        )
+        : null;
+
+      etudes.push({
+        zone_code: z.zone_code,
+        parcel_ids: ids,
+        etude: computeEtudeArchi(surfaceZone, z.ruleset, projet, enveloppeZone),
+      });
+    }
+
+    etudeArchi = combineEtudesArchi(etudes);
+  } else {
+    const enveloppe = parcelGeometry
+      ? await computeEnveloppe(deps, parcel, parcelGeometry, finalRuleset)
+      : null;
+
+    etudeArchi = computeEtudeArchi(
+      surfaceTerrain,
+      finalRuleset,
+      projet,
+      enveloppe,
+    );
+  }
+
+  // 4 bis) Bâti existant : saisi, sinon emprises importées sur la géométrie
+  const batiExistant = parcel.bati_existant
+    ? batiExistantFromSaisie(parcel.bati_existant)
+    : await memo(
+    deps,
+    `bati:${JSON.stringify(parcelGeometry)}`,
+    () => fetchBatiExistant(deps.supabase, parcelGeometry),
+  );
+
+  const droitsRestants = computeDroitsRestants(
+    etudeArchi,
+    batiExistant,
+    profil,
+    projet.variante_bati_existant,
+  );
+  const {
+    sdp_programme_brut: sdpDroits,
+    cout_demolition_brut,
+    ...batiExistantPayload
+  } = droitsRestants;
+  etudeArchi = { ...etudeArchi, bati_existant: batiExistantPayload };
+
+  // SDP du programme saisie (solveur : SDP minimale…), dans la limite des droits
+  const sdpSaisie = safeNumber(projet.sdp_programme_m2, null);
+  const sdp_programme_brut = sdpSaisie != null && sdpSaisie >= 0
+    ? Math.min(sdpSaisie, sdpDroits)
+    : sdpDroits;
+
+  // 5) DVF / foncier
+  let foncierEffective: FoncierInput = foncierInput
+    ? { ...foncierInput }
+    : { mode: "none" };
+  let dvfInfo: any = null;
+
+  if (foncierEffective.mode === "dvf") {
+    // Centre de recherche : point saisi, sinon centroïde de la géométrie
+    const lat = safeNumber(parcel.lat, null);
+    const lon = safeNumber(parcel.lon, null);
+    const centre = lat != null && lon != null
+      ? [lon, lat]
+      : parcelGeometry
+      ? centroid(parcelGeometry)
+      : null;
+
+    const criteres = foncierEffective.dvf ?? {};
+    const dvf = centre
+      ? await memo(
+        deps,
+        `dvf:${centre.join(",")}:${surfaceTerrain}:${sdp_programme_brut}:${
+          JSON.stringify(criteres)
+        }`,
+        () =>
+          estimateFoncierFromComparables(deps.supabase, {
+            lon: centre[0],
+            lat: centre[1],
+            surface_terrain_m2: surfaceTerrain as number,
+            sdp_potentielle_m2: sdp_programme_brut,
+            rayon_m: criteres.rayon_m,
+            rayon_max_m: criteres.rayon_max_m,
+            fenetre_mois: criteres.fenetre_mois,
+            surface_ratio_min: criteres.surface_ratio_min,
+            surface_ratio_max: criteres.surface_ratio_max,
+            zone_codes: criteres.filtrer_zone_plu ? zones : null,
+            terrains_a_batir_seulement: criteres.terrains_a_batir_seulement,
+          }),
+      )
+      : null;
+
+    const { meta: dvfMeta, ...dvfDetail } = dvf ??
+      { meta: { reason: "no_location" } };
+
+    if (dvf?.valeur_terrain != null) {
+      foncierEffective = {
+        mode: "saisi",
+        valeur_terrain_saisi: dvf.valeur_terrain,
+      };
+
+      dvfInfo = {
+        source: "dvf_comparables",
+        ...dvfMeta,
+        ...dvfDetail,
+        valeur_terrain_estimee: dvf.valeur_terrain,
+        used_for_foncier: true,
+      };
+    } else {
+      dvfInfo = {
+        source: "dvf_comparables",
+        ...dvfMeta,
+        ...dvfDetail,
+        used_for_foncier: false,
+        human_message:
+          "DVF n'a pas trouvé de transactions de terrains nus suffisamment comparables pour estimer un prix de terrain. Mimmoza utilisera la valeur de terrain résiduelle (calculée avec la marge cible) comme estimation du foncier.",
+      };
+      // On garde foncierEffective.mode = "dvf" pour activer le fallback plus bas
+    }
+  }
+
+  // 6) Bilan : revenus & coûts (SDP de la variante retenue), foncier + marge, trésorerie
+  const bilanContext: BilanContext = {
+    etudeArchi,
+    sdpProgramme: sdp_programme_brut,
+    coutDemolition: cout_demolition_brut,
+    surfaceTerrain,
+    profil,
+    ruleset: finalRuleset,
+    projet,
+    foncier: foncierEffective,
+    calendrier: {
+      ...(profil.params?.calendrier ?? {}),
+      ...(body.calendrier ?? {}),
+    },
+    taxes: parametresTaxes,
+    coutsReference,
+    fraisFinanciersReels: financement?.frais_financiers !== "forfait",
+  };
+
+  let bilan = computeBilan(bilanContext);
+
+  // 🎯 Fallback automatique : mode = "dvf" mais DVF inutilisable
+  if (
+    foncierEffective.mode === "dvf" &&
+    dvfInfo &&
+    dvfInfo.used_for_foncier === false
+  ) {
+    const valeurResiduelle =
+      bilan.foncierEtMarge.valeur_terrain_residuelle ?? 0;
+
+    foncierEffective = {
+      mode: "saisi",
+      valeur_terrain_saisi: valeurResiduelle > 0 ? valeurResiduelle : 0,
+    };
+
+    if (dvfInfo) {
+      dvfInfo.human_message =
+        "DVF n'a pas trouvé de transactions de terrains nus suffisamment comparables. Mimmoza utilise donc la valeur de terrain résiduelle comme estimation du foncier, calculée avec la marge cible (par défaut 12 %).";
+      dvfInfo.used_for_foncier = true;
+      dvfInfo.fallback_mode = "residuel_from_marge";
+      dvfInfo.valeur_terrain_residuelle_utilisee = valeurResiduelle;
+    }
+
+    bilanContext.foncier = foncierEffective;
+    bilan = computeBilan(bilanContext);
+  }
+
+  const { revenusCouts, foncierEtMarge, tresorerie } = bilan;
+  const chf = revenusCouts.couts_hors_foncier;
+
+  // 7) Analyse de sensibilité / Monte Carlo (foncier figé)
+  const analyse = analyseConfig?.mode === "sensibilite"
+    ? computeSensibilite(bilanContext, analyseConfig)
+    : analyseConfig?.mode === "monte_carlo"
+    ? computeMonteCarlo(bilanContext, analyseConfig)
+    : null;
+
+  const coutsFinal = {
+    foncier: foncierEtMarge.cout_foncier_effectif,
+    construction: revenusCouts.couts_hors_foncier.construction,
+    stationnement: revenusCouts.couts_hors_foncier.stationnement,
+    fondations_speciales: revenusCouts.couts_hors_foncier.fondations_speciales,
+    honoraires: revenusCouts.couts_hors_foncier.honoraires,
+    frais_etudes: revenusCouts.couts_hors_foncier.frais_etudes,
+    frais_commerciaux: revenusCouts.couts_hors_foncier.frais_commerciaux,
+    frais_financiers: revenusCouts.couts_hors_foncier.frais_financiers,
+    taxes: revenusCouts.couts_hors_foncier.taxes,
+    taxes_detail: revenusCouts.couts_hors_foncier.taxes_detail,
+    demolition: revenusCouts.couts_hors_foncier.demolition,
+    cout_total: foncierEtMarge.cout_total_effectif,
+  };
+
+  const responsePayload = {
+    success: true,
+    version: "promoteur-v1",
+    inputs: {
+      parcel,
+      plu,
+      projet,
+      foncier: foncierInput ?? null,
+      plu_overrides: pluOverrides ?? null,
+      assemblage: body.assemblage ?? null,
+      calendrier: body.calendrier ?? null,
+      analyse: body.analyse ?? null,
+      taxes: body.taxes ?? null,
+    },
+    assemblage: assemblage
+      ? {
+        parcel_ids: assemblage.parcel_ids,
+        contigu: assemblage.contigu,
+        parcelles_sans_geometrie: assemblage.parcelles_sans_geometrie,
+        surface_m2: assemblage.surface_m2,
+        surface_geometrie_m2: assemblage.surface_geometrie_m2,
+        geometry: assemblage.geometry,
+        zones_par_parcelle: zonesParParcelle,
+        multizone: isMultizone,
+        strategie_multizone: isMultizone ? strategieMultizone : null,
+      }
+      : null,
+    plu_ruleset: {
+      source: finalPluSource,
+      ruleset: finalRuleset,
+    },
+    etude_archi: etudeArchi,
+    bilan_promoteur: {
+      variante_bati_existant: droitsRestants.variante_retenue,
+      sdp_programme: {
+        droits_m2: round(sdpDroits, 2),
+        retenue_m2: round(sdp_programme_brut, 2),
+        source: sdpSaisie != null && sdpSaisie >= 0 ? "saisie" : "droits",
+      },
+      ventes: revenusCouts.ventes,
+      par_usage: revenusCouts.par_usage,
+      logements: revenusCouts.logements,
+      stationnement: revenusCouts.stationnement,
+      couts: coutsFinal,
+      couts_construction_reference: revenusCouts.couts_construction_reference,
+      taxes_urbanisme: revenusCouts.taxes_urbanisme,
+      marge: foncierEtMarge.marge,
+      indicateurs: {
+        valeur_residuelle_terrain_theorique:
+          foncierEtMarge.valeur_terrain_residuelle,
+        marge_developpeur: foncierEtMarge.marge.appreciation,
+      },
+      foncier_detail: foncierEtMarge.foncier_detail,
+      dvf_info: dvfInfo,
+      // Frais financiers du bilan : ceux de la trésorerie (défaut) ou le
+      // forfait frais_financiers_pct (financement.frais_financiers = "forfait")
+      tresorerie: {
+        ...tresorerie,
+        frais_financiers_bilan: chf.frais_financiers_source,
+      },
+    },
+    analyse,
+  };
+
+  return { status: 200, body: responsePayload };
+}
@@ -0,0 +1,260 @@
+// supabase/functions/_shared/promoteur-projets.ts
+//
+// Projets promoteur enregistrés (tables promoteur_projets / promoteur_scenarios /
+// promoteur_scenario_versions) :
+//  - requête promoteur-v1 d'un scénario = entrées du projet + hypothèses du scénario
+//  - lecture des scénarios et des versions de résultats
+//  - comparaison de deux versions (entrées et résultats)
+//
+// Utilisé par promoteur-projets et promoteur-projets-compare.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { type Difference, diffJson } from "./json-diff.ts";
+import { deepMerge, type PromoteurInput } from "./promoteur-engine.ts";
+
+export type { Difference };
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+export type ProjetRow = {
+  id: string;
+  nom: string;
+  description: string | null;
+  parcel: PromoteurInput["parcel"];
+  plu: PromoteurInput["plu"];
+  plu_overrides: PromoteurInput["plu_overrides"] | null;
+  financement: PromoteurInput["financement"] | null;
+  assemblage: PromoteurInput["assemblage"] | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// Hypothèses propres à un scénario (le reste vient du projet)
+export type ScenarioHypotheses = {
+  projet?: PromoteurInput["projet"];
+  foncier?: PromoteurInput["foncier"];
+  calendrier?: PromoteurInput["calendrier"];
+  taxes?: PromoteurInput["taxes"];
+  analyse?: PromoteurInput["analyse"];
+  // Profil et overrides : fusionnés avec ceux du projet
+  financement?: PromoteurInput["financement"];
+};
+
+export type ScenarioRow = {
+  id: string;
+  projet_id: string;
+  nom: string;
+  description: string | null;
+  hypotheses: ScenarioHypotheses;
+  created_at: string;
+  updated_at: string;
+};
+
+export type VersionRow = {
+  id: string;
+  scenario_id: string;
+  version: number;
+  requete: PromoteurInput;
+  resultat: Record<string, unknown>;
+  http_status: number;
+  commentaire: string | null;
+  created_at: string;
+};
+
+// Indicateurs clés du bilan comparés en tête (chemins dans la réponse promoteur-v1)
+export const INDICATEURS_SCENARIO: { cle: string; chemin: string }[] = [
+  { cle: "sdp_m2", chemin: "etude_archi.sdp_totale_potentielle_m2" },
+  { cle: "nb_logements", chemin: "bilan_promoteur.logements.nb_logements" },
+  { cle: "chiffre_affaires", chemin: "bilan_promoteur.ventes.ca_total" },
+  { cle: "cout_foncier", chemin: "bilan_promoteur.couts.foncier" },
+  { cle: "cout_construction", chemin: "bilan_promoteur.couts.construction" },
+  { cle: "cout_total", chemin: "bilan_promoteur.couts.cout_total" },
+  { cle: "marge_montant", chemin: "bilan_promoteur.marge.montant" },
+  { cle: "marge_pct", chemin: "bilan_promoteur.marge.taux_sur_ca" },
+  {
+    cle: "valeur_residuelle_terrain",
+    chemin: "bilan_promoteur.indicateurs.valeur_residuelle_terrain_theorique",
+  },
+  {
+    cle: "pic_besoin_financement",
+    chemin: "bilan_promoteur.tresorerie.pic_besoin_financement",
+  },
+  {
+    cle: "tri_fonds_propres_pct",
+    chemin: "bilan_promoteur.tresorerie.tri_fonds_propres_pct",
+  },
+];
+
+// Parties du résultat exclues du détail des écarts (redondantes ou mensuelles)
+const CHEMINS_IGNORES_RESULTAT = ["inputs", "bilan_promoteur.tresorerie.mois"];
+
+// -------------------------------------------------
+// Requête promoteur-v1 d'un scénario
+// -------------------------------------------------
+
+/**
+ * Requête promoteur-v1 complète : parcelle(s), PLU et profil du projet,
+ * hypothèses du scénario (le profil / les overrides du scénario priment).
+ */
+export function buildScenarioRequete(
+  projet: ProjetRow,
+  hypotheses: ScenarioHypotheses,
+): PromoteurInput {
+  const financement = projet.financement || hypotheses.financement
+    ? {
+      profile_code: hypotheses.financement?.profile_code ??
+        projet.financement?.profile_code ?? null,
+      overrides: deepMerge(
+        projet.financement?.overrides ?? {},
+        hypotheses.financement?.overrides ?? null,
+      ),
+    }
+    : undefined;
+
+  return {
+    parcel: projet.parcel,
+    plu: projet.plu,
+    plu_overrides: projet.plu_overrides ?? null,
+    assemblage: projet.assemblage ?? null,
+    projet: hypotheses.projet ?? { destination_principale: "logement" },
+    financement,
+    foncier: hypotheses.foncier ?? undefined,
+    calendrier: hypotheses.calendrier ?? null,
+    taxes: hypotheses.taxes ?? null,
+    analyse: hypotheses.analyse ?? null,
+  };
+}
+
+// -------------------------------------------------
+// Lectures
+// -------------------------------------------------
+
+export async function fetchScenarioAvecProjet(
+  supabase: SupabaseClient,
+  scenarioId: string,
+): Promise<{ scenario: ScenarioRow; projet: ProjetRow } | null> {
+  const { data, error } = await supabase
+    .from("promoteur_scenarios")
+    .select("*, projet:promoteur_projets(*)")
+    .eq("id", scenarioId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("❌ fetchScenarioAvecProjet error:", error);
+    throw new Error(`Lecture du scénario : ${error.message}`);
+  }
+  if (!data) return null;
+
+  const { projet, ...scenario } = data as ScenarioRow & { projet: ProjetRow };
+  return { scenario, projet };
+}
+
+/**
+ * Version demandée d'un scénario, ou la plus récente si version absente.
+ */
+export async function fetchScenarioVersion(
+  supabase: SupabaseClient,
+  scenarioId: string,
+  version?: number | null,
+): Promise<VersionRow | null> {
+  let q = supabase
+    .from("promoteur_scenario_versions")
+    .select("*")
+    .eq("scenario_id", scenarioId);
+
+  q = version != null
+    ? q.eq("version", version)
+    : q.order("version", { ascending: false });
+
+  const { data, error } = await q.limit(1).maybeSingle();
+
+  if (error) {
+    console.error("❌ fetchScenarioVersion error:", error);
+    throw new Error(`Lecture de la version : ${error.message}`);
+  }
+  return (data as VersionRow | null) ?? null;
+}
+
+// -------------------------------------------------
+// Comparaison
+// -------------------------------------------------
+
+function getPath(obj: unknown, path: string): unknown {
+  let current: any = obj;
+  for (const key of path.split(".")) {
+    if (current === null || current === undefined) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+function round(value: number, decimals: number): number {
+  return Math.round(value * 10 ** decimals) / 10 ** decimals;
+}
+
+/**
+ * Indicateurs clés d'un résultat promoteur-v1 (null si absents).
+ */
+export function indicateursResultat(resultat: unknown): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const { cle, chemin } of INDICATEURS_SCENARIO) {
+    out[cle] = getPath(resultat, chemin) ?? null;
+  }
+  return out;
+}
+
+/**
+ * Indicateurs clés côte à côte, avec écart absolu et relatif (b − a).
+ */
+export function compareIndicateurs(
+  resultatA: unknown,
+  resultatB: unknown,
+) {
+  return INDICATEURS_SCENARIO.map(({ cle, chemin }) => {
+    const va = getPath(resultatA, chemin);
+    const vb = getPath(resultatB, chemin);
+    const a = typeof va === "number" ? va : null;
+    const b = typeof vb === "number" ? vb : null;
+    const ecart = a != null && b != null ? round(b - a, 2) : null;
+
+    return {
+      cle,
+      chemin,
+      a,
+      b,
+      ecart,
+      ecart_pct: ecart != null && a ? round((ecart / Math.abs(a)) * 100, 1) : null,
+    };
+  });
+}
+
+/**
+ * Comparaison complète de deux versions : requêtes (entrées) et résultats.
+ */
+export function compareVersions(
+  a: VersionRow,
+  b: VersionRow,
+  max?: number,
+) {
+  const entrees = diffJson(a.requete, b.requete, { max });
+  const resultats = diffJson(a.resultat, b.resultat, {
+    ignorer: CHEMINS_IGNORES_RESULTAT,
+    max,
+  });
+
+  return {
+    entrees: {
+      nb_differences: entrees.differences.length,
+      tronque: entrees.tronque,
+      differences: entrees.differences,
+    },
+    resultats: {
+      indicateurs: compareIndicateurs(a.resultat, b.resultat),
+      nb_differences: resultats.differences.length,
+      tronque: resultats.tronque,
+      differences: resultats.differences,
+    },
+  };
+}
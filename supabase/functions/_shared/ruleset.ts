@@ -0,0 +1,289 @@
+// supabase/functions/_shared/ruleset.ts
+//
+// Schéma du PLU normalisé (table plu_ruleset_normalized) tel que consommé
+// par les moteurs promoteur-v1 / division-parcellaire-v1.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { Setbacks } from "./envelope.ts";
+import { STATUT_APPROUVE } from "./plu-review.ts";
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+export interface PluRuleset {
+  implantation?: {
+    retrait_rue_m?: number | null;
+    retrait_fond_parcelle_m?: number | null;
+    retrait_lateraux_m?: number | null;
+  };
+  emprise_sol?: {
+    max_ratio?: number | null;
+    max_m2?: number | null;
+  };
+  hauteur?: {
+    hauteur_max_m?: number | null;
+    hauteur_min_m?: number | null;
+    commentaire?: string | null;
+  };
+  densite?: {
+    cos_existe?: boolean | null;
+    max_sdp_m2_par_m2_terrain?: number | null;
+  };
+  pleine_terre?: {
+    ratio_min?: number | null;
+    commentaire?: string | null;
+  };
+  stationnement?: {
+    logement?: {
+      places_par_logement?: number | null;
+      places_par_m2_sdp?: number | null;
+    } | null;
+    bureau?: { places_par_m2_sdp?: number | null } | null;
+    commerce?: { places_par_m2_sdp?: number | null } | null;
+    commentaires?: string | null;
+  };
+  mixite_sociale?: {
+    taux_logement_social_pct?: number | null;
+    seuil_logements?: number | null;
+    seuil_sdp_m2?: number | null;
+    repartition?: Partial<Record<"PLAI" | "PLUS" | "PLS" | "BRS", number>> | null;
+    commentaire?: string | null;
+  };
+  voirie_acces?: {
+    largeur_min_acces_m?: number | null;
+    observations?: string | null;
+  };
+}
+
+// -------------------------------------------------
+// Helpers
+// -------------------------------------------------
+
+function num(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Retraits du PLU (0 si non renseignés), au format attendu par l'enveloppe.
+ */
+export function setbacksFromRuleset(ruleset: PluRuleset | null): Setbacks {
+  return {
+    rue_m: num(ruleset?.implantation?.retrait_rue_m) ?? 0,
+    lateraux_m: num(ruleset?.implantation?.retrait_lateraux_m) ?? 0,
+    fond_m: num(ruleset?.implantation?.retrait_fond_parcelle_m) ?? 0,
+  };
+}
+
+// -------------------------------------------------
+// Compatibilité des schémas PLU
+// -------------------------------------------------
+//
+// Trois nommages coexistent en base :
+//  - PluRuleset (ci-dessus) : plu_ruleset_normalized.ruleset
+//  - PLURulesetV2 (plu-extract-ruleset) : recul_min_*, densite_emprise, hauteurs
+//  - ligne plate de plu_rulesets (plu-universal-parser, plu_get_for_parcelle_any) :
+//    hauteur_max_m, emprise_sol_max, cos_existe… (+ raw_rules)
+// normaliseRuleset les ramène tous au schéma PluRuleset, valeur canonique prioritaire.
+
+type AnyRecord = Record<string, any>;
+
+function obj(value: unknown): AnyRecord {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as AnyRecord)
+    : {};
+}
+
+function first(...values: unknown[]): number | null {
+  for (const v of values) {
+    if (v === "" || typeof v === "boolean") continue;
+    const n = num(v);
+    if (n !== null) return n;
+  }
+  return null;
+}
+
+// Ratio exprimé en % (ex. 40) → 0.4
+function ratio(...values: unknown[]): number | null {
+  const n = first(...values);
+  if (n === null) return null;
+  return n > 1 && n <= 100 ? n / 100 : n;
+}
+
+function text(...values: unknown[]): string | null {
+  for (const v of values) {
+    if (typeof v === "string" && v.trim()) return v;
+  }
+  return null;
+}
+
+function compact<T extends AnyRecord>(value: T): T | undefined {
+  const entries = Object.entries(value).filter(([, v]) =>
+    v !== null && v !== undefined
+  );
+  return entries.length > 0 ? (Object.fromEntries(entries) as T) : undefined;
+}
+
+/**
+ * Ramène un ruleset PLU de n'importe quel schéma connu au format PluRuleset.
+ * Renvoie null si aucune règle exploitable n'est trouvée.
+ */
+export function normaliseRuleset(input: unknown): PluRuleset | null {
+  const root = obj(input);
+  if (Object.keys(root).length === 0) return null;
+
+  // Ligne plu_rulesets : le JSON d'origine est dans raw_rules
+  const raw = obj(root.raw_rules);
+  const src = Object.keys(raw).length > 0 ? { ...raw, ...root } : root;
+
+  const impl = obj(src.implantation);
+  const emprise = obj(src.emprise_sol);
+  const densEmp = obj(src.densite_emprise);
+  const densite = obj(src.densite);
+  const hauteur = obj(src.hauteur);
+  const hauteurs = obj(src.hauteurs);
+  const pleineTerre = obj(src.pleine_terre);
+  const stat = obj(src.stationnement);
+  const mixite = obj(src.mixite_sociale);
+  const voirie = obj(src.voirie_acces);
+
+  const ruleset: PluRuleset = {
+    implantation: compact({
+      retrait_rue_m: first(
+        impl.retrait_rue_m,
+        impl.recul_min_rue_m,
+        src.retrait_rue_m,
+        src.recul_min_rue_m,
+      ),
+      retrait_fond_parcelle_m: first(
+        impl.retrait_fond_parcelle_m,
+        impl.recul_min_fond_parcelle_m,
+        src.retrait_fond_parcelle_m,
+        src.recul_min_fond_parcelle_m,
+      ),
+      retrait_lateraux_m: first(
+        impl.retrait_lateraux_m,
+        impl.recul_min_limite_laterale_m,
+        src.retrait_lateraux_m,
+        src.recul_min_limite_laterale_m,
+      ),
+    }),
+    emprise_sol: compact({
+      max_ratio: ratio(
+        emprise.max_ratio,
+        emprise.emprise_sol_max,
+        densEmp.emprise_max_ratio,
+        src.emprise_sol_max,
+        src.ces,
+      ),
+      max_m2: first(emprise.max_m2, densEmp.emprise_max_surface_m2),
+    }),
+    hauteur: compact({
+      hauteur_max_m: first(
+        hauteur.hauteur_max_m,
+        hauteurs.h_max_faitage_m,
+        hauteurs.h_max_egout_m,
+        src.hauteur_max_m,
+      ),
+      hauteur_min_m: first(hauteur.hauteur_min_m, src.hauteur_min_m),
+      commentaire: text(
+        hauteur.commentaire,
+        hauteurs.commentaires,
+        src.hauteur_commentaire,
+      ),
+    }),
+    densite: compact({
+      cos_existe: typeof (densite.cos_existe ?? densEmp.cos_existe ??
+          src.cos_existe) === "boolean"
+        ? Boolean(densite.cos_existe ?? densEmp.cos_existe ?? src.cos_existe)
+        : null,
+      max_sdp_m2_par_m2_terrain: first(
+        densite.max_sdp_m2_par_m2_terrain,
+        densEmp.max_sdp_m2_par_m2_terrain,
+        src.max_sdp_m2_par_m2_terrain,
+        densite.cos_max,
+        densEmp.cos_max,
+        src.cos_max,
+      ),
+    }),
+    pleine_terre: compact({
+      ratio_min: ratio(pleineTerre.ratio_min, src.pleine_terre_ratio_min),
+      commentaire: text(pleineTerre.commentaire),
+    }),
+    stationnement: Object.keys(stat).length > 0
+      ? {
+        ...stat,
+        commentaires: text(
+          stat.commentaires,
+          stat.commentaire,
+          src.stationnement_commentaire,
+        ),
+      }
+      : src.stationnement_commentaire
+      ? { commentaires: text(src.stationnement_commentaire) }
+      : undefined,
+    mixite_sociale: Object.keys(mixite).length > 0 ? mixite : undefined,
+    voirie_acces: compact({
+      largeur_min_acces_m: first(voirie.largeur_min_acces_m),
+      observations: text(voirie.observations),
+    }),
+  };
+
+  const cleaned = compact(ruleset as AnyRecord) as PluRuleset | undefined;
+  return cleaned ?? null;
+}
+
+// -------------------------------------------------
+// Chargement (plu_ruleset_normalized)
+// -------------------------------------------------
+
+/**
+ * Ruleset actif d'une commune / zone, ramené au format PluRuleset
+ * (approuvé uniquement si demandé).
+ */
+export async function fetchNormalizedRuleset(
+  supabase: SupabaseClient,
+  input: {
+    commune_insee: string;
+    zone_code: string;
+    approuve_uniquement?: boolean;
+  },
+): Promise<{ ruleset: PluRuleset | null; meta: Record<string, unknown> | null }> {
+  let query = supabase
+    .from("plu_ruleset_normalized")
+    .select(
+      "id, commune_insee, commune_nom, zone_code, plu_version_label, plu_source_type, plu_source_url, plu_source_page_range, review_status, ruleset",
+    )
+    .eq("commune_insee", input.commune_insee)
+    .eq("zone_code", input.zone_code)
+    .eq("is_active", true);
+
+  if (input.approuve_uniquement) {
+    query = query.eq("review_status", STATUT_APPROUVE);
+  }
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) {
+    console.error("Erreur fetchNormalizedRuleset:", error);
+    throw new Error("Erreur PLU normalisé");
+  }
+
+  if (!data) return { ruleset: null, meta: null };
+
+  const meta = {
+    id: data.id,
+    commune_insee: data.commune_insee,
+    commune_nom: data.commune_nom,
+    zone_code: data.zone_code,
+    plu_version_label: data.plu_version_label,
+    plu_source_type: data.plu_source_type,
+    plu_source_url: data.plu_source_url,
+    plu_source_page_range: data.plu_source_page_range,
+    review_status: data.review_status,
+  };
+
+  return { ruleset: normaliseRuleset(data.ruleset) ?? {}, meta };
+}
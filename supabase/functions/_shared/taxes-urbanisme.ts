@@ -0,0 +1,598 @@
+// supabase/functions/_shared/taxes-urbanisme.ts
+//
+// Taxes et participations d'urbanisme d'une opération
+//  - taxe d'aménagement : parts communale, départementale, régionale (IDF)
+//    assiette = surface taxable × valeur forfaitaire au m² + places de
+//    stationnement extérieures × valeur forfaitaire par place
+//  - redevance d'archéologie préventive : même assiette, taux national
+//  - participations (PUP, ZAC, raccordements…) saisies par commune
+//
+// Taux par commune (et secteur) dans taxes_urbanisme_communes, valeurs
+// forfaitaires indexées chaque année dans taxe_amenagement_valeurs.
+// Le client Supabase est fourni par la fonction appelante (service role).
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { type FinancementSocial, FINANCEMENTS_SOCIAUX } from "./typologie.ts";
+
+// -------------------------------------------------
+// Hypothèses par défaut
+// -------------------------------------------------
+
+// Valeurs forfaitaires de la dernière année connue (arrêté annuel)
+export const VALEURS_FORFAITAIRES_DEFAUT: ValeursForfaitaires = {
+  annee: 2025,
+  valeur_m2: 914,
+  valeur_m2_idf: 1036,
+  valeur_place: 2000,
+  taux_rap_pct: 0.68, // 0,40 % jusqu'en 2023
+};
+
+// Commune sans délibération connue : taux communal plafond de droit commun
+export const TAUX_DEFAUT = {
+  communal_pct: 5,
+  departemental_pct: 2.5,
+  regional_idf_pct: 1,
+};
+
+export const DEPARTEMENTS_IDF = new Set([
+  "75",
+  "77",
+  "78",
+  "91",
+  "92",
+  "93",
+  "94",
+  "95",
+]);
+
+// Abattement de 50 % : logements sociaux hors PLAI (exonérés de plein droit)
+// et 100 premiers m² des résidences principales
+const ABATTEMENT_PCT = 0.5;
+const SURFACE_ABATTUE_RESIDENCE_PRINCIPALE_M2 = 100;
+const FINANCEMENTS_EXONERES: FinancementSocial[] = ["PLAI"];
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+export type ValeursForfaitaires = {
+  annee: number;
+  valeur_m2: number;
+  valeur_m2_idf: number;
+  valeur_place: number;
+  taux_rap_pct: number;
+};
+
+export type BaseParticipation =
+  | "m2_sdp"
+  | "logement"
+  | "place"
+  | "forfait"
+  | "pct_ca";
+
+export type Participation = {
+  libelle: string;
+  base: BaseParticipation;
+  montant: number; // € par unité, € forfaitaires ou % du CA
+};
+
+export type ParametresTaxes = {
+  annee: number;
+  commune_insee: string;
+  secteur: string | null;
+  idf: boolean;
+  valeur_m2: number;
+  valeur_place: number;
+  taux_communal_pct: number;
+  taux_departemental_pct: number;
+  taux_regional_pct: number;
+  taux_rap_pct: number;
+  participations: Participation[];
+  // Hypothèses de surfaces saisies pour le projet (priment sur le profil)
+  hypotheses?: Partial<HypothesesSurfaces>;
+  // Assemblage multizone : taux de chaque zone et poids dans la moyenne
+  secteurs?: SecteurTaxes[];
+  source: {
+    taux: "table" | "defaut" | "saisi";
+    valeurs: "table" | "defaut";
+    annee_taux: number | null;
+    annee_valeurs: number;
+    // Taux différents selon les zones : moyenne pondérée par la surface
+    approximation?: "moyenne_ponderee_zones";
+    error?: string;
+  };
+};
+
+export type SecteurTaxes = {
+  zone_code: string;
+  secteur: string | null;
+  poids: number;
+  taux_communal_pct: number;
+  taux_departemental_pct: number;
+  taux_regional_pct: number;
+};
+
+// Champs modifiables dans la requête (priment sur la table)
+export type TaxesOverrides = Partial<
+  Pick<
+    ParametresTaxes,
+    | "valeur_m2"
+    | "valeur_place"
+    | "taux_communal_pct"
+    | "taux_departemental_pct"
+    | "taux_regional_pct"
+    | "taux_rap_pct"
+    | "participations"
+    | "hypotheses"
+  >
+> & { annee?: number };
+
+export type HypothesesSurfaces = {
+  // Surface taxable / SDP (murs intérieurs, locaux non décomptés de la SDP)
+  coef_surface_taxable: number;
+  // Places couvertes : surface taxable par place (circulations comprises)
+  surface_par_place_couverte_m2: number;
+  // Places extérieures : valeur forfaitaire par place
+  part_places_exterieures: number;
+  abattement_residence_principale: boolean;
+};
+
+export const HYPOTHESES_SURFACES_DEFAUT: HypothesesSurfaces = {
+  coef_surface_taxable: 1,
+  surface_par_place_couverte_m2: 25,
+  part_places_exterieures: 0,
+  abattement_residence_principale: true,
+};
+
+export type TaxesUrbanismeInput = {
+  usages: { usage: string; sdp_m2: number; places: number }[];
+  // Détail des logements (mix T1–T5) pour les exonérations / abattements
+  logements: {
+    sdp_m2: number;
+    shab_m2: number;
+    nb_logements: number;
+    nb_libre: number;
+    par_financement: Partial<
+      Record<FinancementSocial, { nb: number; shab_m2: number }>
+    >;
+  } | null;
+  ca_total: number;
+  parametres: ParametresTaxes;
+  // Hypothèses du profil promoteur
+  hypotheses?: Partial<HypothesesSurfaces>;
+};
+
+// -------------------------------------------------
+// Helpers
+// -------------------------------------------------
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function round(value: number, digits = 0): number {
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
+}
+
+export function departementOf(communeInsee: string): string {
+  return communeInsee.startsWith("97") || communeInsee.startsWith("98")
+    ? communeInsee.slice(0, 3)
+    : communeInsee.slice(0, 2);
+}
+
+function parseParticipations(raw: unknown): Participation[] {
+  if (!Array.isArray(raw)) return [];
+  const bases: BaseParticipation[] = [
+    "m2_sdp",
+    "logement",
+    "place",
+    "forfait",
+    "pct_ca",
+  ];
+  return raw
+    .map((p: any) => ({
+      libelle: String(p?.libelle ?? "Participation"),
+      base: bases.includes(p?.base) ? p.base as BaseParticipation : "forfait",
+      montant: toNumber(p?.montant) ?? 0,
+    }))
+    .filter((p) => p.montant > 0);
+}
+
+// -------------------------------------------------
+// Chargement des taux
+// -------------------------------------------------
+
+/**
+ * Taux applicables à une commune pour une année : ligne du secteur (zone
+ * PLU) si la commune a des taux sectorisés, sinon ligne communale. Sans
+ * ligne en base, taux par défaut ; les overrides de la requête priment.
+ */
+export async function fetchParametresTaxes(
+  supabase: SupabaseClient,
+  communeInsee: string,
+  zoneCode: string | null,
+  overrides: TaxesOverrides | null = null,
+): Promise<ParametresTaxes> {
+  const annee = toNumber(overrides?.annee) ?? new Date().getFullYear();
+  const idf = DEPARTEMENTS_IDF.has(departementOf(communeInsee));
+  const errors: string[] = [];
+
+  // 1) Valeurs forfaitaires : dernière année ≤ année demandée
+  let valeurs = VALEURS_FORFAITAIRES_DEFAUT;
+  let valeursSource: "table" | "defaut" = "defaut";
+  const { data: valeursRow, error: valeursError } = await supabase
+    .from("taxe_amenagement_valeurs")
+    .select("annee, valeur_m2, valeur_m2_idf, valeur_place, taux_rap_pct")
+    .lte("annee", annee)
+    .order("annee", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (valeursError) {
+    console.error("Erreur taxe_amenagement_valeurs:", valeursError);
+    errors.push(valeursError.message);
+  } else if (valeursRow) {
+    valeurs = {
+      annee: Number(valeursRow.annee),
+      valeur_m2: toNumber(valeursRow.valeur_m2) ?? valeurs.valeur_m2,
+      valeur_m2_idf: toNumber(valeursRow.valeur_m2_idf) ?? valeurs.valeur_m2_idf,
+      valeur_place: toNumber(valeursRow.valeur_place) ?? valeurs.valeur_place,
+      taux_rap_pct: toNumber(valeursRow.taux_rap_pct) ?? valeurs.taux_rap_pct,
+    };
+    valeursSource = "table";
+  }
+
+  // 2) Taux communaux : dernière délibération ≤ année, secteur prioritaire
+  const { data: tauxRows, error: tauxError } = await supabase
+    .from("taxes_urbanisme_communes")
+    .select(
+      "annee, secteur, taux_communal_pct, taux_departemental_pct, taux_regional_pct, valeur_place, participations",
+    )
+    .eq("commune_insee", communeInsee)
+    .lte("annee", annee)
+    .order("annee", { ascending: false })
+    .limit(50);
+
+  if (tauxError) {
+    console.error("Erreur taxes_urbanisme_communes:", tauxError);
+    errors.push(tauxError.message);
+  }
+
+  const rows = (tauxRows ?? []) as any[];
+  const derniereAnnee = rows.length ? Number(rows[0].annee) : null;
+  const rowsAnnee = rows.filter((r) => Number(r.annee) === derniereAnnee);
+  const tauxRow = rowsAnnee.find((r) => zoneCode && r.secteur === zoneCode) ??
+    rowsAnnee.find((r) => !r.secteur) ??
+    null;
+
+  const parametres: ParametresTaxes = {
+    annee,
+    commune_insee: communeInsee,
+    secteur: tauxRow?.secteur ?? null,
+    idf,
+    valeur_m2: idf ? valeurs.valeur_m2_idf : valeurs.valeur_m2,
+    valeur_place: toNumber(tauxRow?.valeur_place) ?? valeurs.valeur_place,
+    taux_communal_pct: toNumber(tauxRow?.taux_communal_pct) ??
+      TAUX_DEFAUT.communal_pct,
+    taux_departemental_pct: toNumber(tauxRow?.taux_departemental_pct) ??
+      TAUX_DEFAUT.departemental_pct,
+    taux_regional_pct: toNumber(tauxRow?.taux_regional_pct) ??
+      (idf ? TAUX_DEFAUT.regional_idf_pct : 0),
+    taux_rap_pct: valeurs.taux_rap_pct,
+    participations: parseParticipations(tauxRow?.participations),
+    source: {
+      taux: tauxRow ? "table" : "defaut",
+      valeurs: valeursSource,
+      annee_taux: tauxRow ? derniereAnnee : null,
+      annee_valeurs: valeurs.annee,
+      error: errors.length ? errors.join(" ; ") : undefined,
+    },
+  };
+
+  return applyTaxesOverrides(parametres, overrides);
+}
+
+/**
+ * Taux d'un assemblage multizone : identiques si toutes les zones ont les
+ * mêmes taux, sinon moyenne pondérée par la surface de terrain de chaque
+ * zone (approximation : la taxe est due sur la surface construite de chaque
+ * secteur). Participations au prorata ; forfaits conservés, un forfait
+ * identique (libellé et montant) sur plusieurs zones n'étant compté qu'une fois.
+ */
+export function combineParametresTaxes(
+  zones: { zone_code: string; parametres: ParametresTaxes; surface_m2: number | null }[],
+): ParametresTaxes {
+  const premier = zones[0].parametres;
+  // Surface inconnue pour une zone : poids égaux
+  const surfaces = zones.map((z) => z.surface_m2);
+  const totalSurface = surfaces.every((x) => x != null && x > 0)
+    ? surfaces.reduce((a: number, b) => a + (b as number), 0)
+    : 0;
+  const poids = zones.map((_, i) =>
+    totalSurface > 0 ? (surfaces[i] as number) / totalSurface : 1 / zones.length
+  );
+
+  const secteurs: SecteurTaxes[] = zones.map((z, i) => ({
+    zone_code: z.zone_code,
+    secteur: z.parametres.secteur,
+    poids: round(poids[i], 4),
+    taux_communal_pct: z.parametres.taux_communal_pct,
+    taux_departemental_pct: z.parametres.taux_departemental_pct,
+    taux_regional_pct: z.parametres.taux_regional_pct,
+  }));
+
+  const cle = (p: ParametresTaxes) =>
+    JSON.stringify([
+      p.taux_communal_pct,
+      p.taux_departemental_pct,
+      p.taux_regional_pct,
+      p.valeur_place,
+      p.participations,
+    ]);
+  if (zones.every((z) => cle(z.parametres) === cle(premier))) {
+    return { ...premier, secteurs };
+  }
+
+  const moyenne = (pick: (p: ParametresTaxes) => number) =>
+    zones.reduce((acc, z, i) => acc + pick(z.parametres) * poids[i], 0);
+
+  // Forfaits communs à toute la commune : présents sur plusieurs zones à l'identique
+  const cleForfait = (part: Participation) =>
+    JSON.stringify([part.libelle, part.montant]);
+  const zonesParForfait = new Map<string, number>();
+  for (const z of zones) {
+    const cles = new Set(
+      z.parametres.participations
+        .filter((part) => part.base === "forfait")
+        .map(cleForfait),
+    );
+    for (const c of cles) zonesParForfait.set(c, (zonesParForfait.get(c) ?? 0) + 1);
+  }
+  const forfaitsCommuns = new Set<string>();
+
+  return {
+    ...premier,
+    secteur: null,
+    valeur_place: moyenne((p) => p.valeur_place),
+    taux_communal_pct: round(moyenne((p) => p.taux_communal_pct), 4),
+    taux_departemental_pct: round(moyenne((p) => p.taux_departemental_pct), 4),
+    taux_regional_pct: round(moyenne((p) => p.taux_regional_pct), 4),
+    participations: zones.flatMap((z, i) =>
+      z.parametres.participations.flatMap((part) => {
+        if (part.base !== "forfait") {
+          return [{
+            ...part,
+            libelle: `${part.libelle} (${z.zone_code})`,
+            montant: part.montant * poids[i],
+          }];
+        }
+        const c = cleForfait(part);
+        if ((zonesParForfait.get(c) ?? 0) < 2) {
+          return [{ ...part, libelle: `${part.libelle} (${z.zone_code})` }];
+        }
+        if (forfaitsCommuns.has(c)) return [];
+        forfaitsCommuns.add(c);
+        return [{ ...part }];
+      })
+    ),
+    secteurs,
+    source: {
+      ...premier.source,
+      taux: zones.some((z) => z.parametres.source.taux === "table")
+        ? "table"
+        : premier.source.taux,
+      approximation: "moyenne_ponderee_zones",
+    },
+  };
+}
+
+export function applyTaxesOverrides(
+  parametres: ParametresTaxes,
+  overrides: TaxesOverrides | null,
+): ParametresTaxes {
+  if (!overrides) return parametres;
+
+  const result = { ...parametres, source: { ...parametres.source } };
+  let saisi = false;
+  for (
+    const key of [
+      "valeur_m2",
+      "valeur_place",
+      "taux_communal_pct",
+      "taux_departemental_pct",
+      "taux_regional_pct",
+      "taux_rap_pct",
+    ] as const
+  ) {
+    const v = toNumber(overrides[key]);
+    if (v != null && v >= 0) {
+      result[key] = v;
+      saisi = true;
+    }
+  }
+  if (overrides.hypotheses && typeof overrides.hypotheses === "object") {
+    result.hypotheses = overrides.hypotheses;
+  }
+  if (Array.isArray(overrides.participations)) {
+    result.participations = parseParticipations(overrides.participations);
+    saisi = true;
+  }
+  if (saisi) result.source.taux = "saisi";
+  return result;
+}
+
+// -------------------------------------------------
+// Calcul
+// -------------------------------------------------
+
+/**
+ * Taxe d'aménagement, redevance d'archéologie préventive et participations
+ * d'un programme, ligne par ligne et ventilées par usage.
+ */
+export function computeTaxesUrbanisme(input: TaxesUrbanismeInput) {
+  const p = input.parametres;
+  const definies = (h?: Partial<HypothesesSurfaces>) =>
+    Object.fromEntries(Object.entries(h ?? {}).filter(([, v]) => v != null));
+  const h: HypothesesSurfaces = {
+    ...HYPOTHESES_SURFACES_DEFAUT,
+    ...definies(input.hypotheses),
+    ...definies(p.hypotheses),
+  };
+  const partExt = Math.min(1, Math.max(0, h.part_places_exterieures));
+
+  // Surfaces de logement exonérées (PLAI) ou abattues (autres financements
+  // sociaux, 100 premiers m² des résidences principales)
+  const log = input.logements;
+  const taxableParShab = log && log.shab_m2 > 0
+    ? (log.sdp_m2 * h.coef_surface_taxable) / log.shab_m2
+    : 0;
+
+  let surfaceExoneree = 0;
+  let surfaceAbattue = 0;
+  if (log) {
+    let shabSocialAbattue = 0;
+    let shabSocial = 0;
+    for (const f of FINANCEMENTS_SOCIAUX) {
+      const shab = log.par_financement[f]?.shab_m2 ?? 0;
+      shabSocial += shab;
+      if (FINANCEMENTS_EXONERES.includes(f)) surfaceExoneree += shab * taxableParShab;
+      else shabSocialAbattue += shab;
+    }
+    surfaceAbattue += shabSocialAbattue * taxableParShab;
+
+    if (h.abattement_residence_principale && log.nb_libre > 0) {
+      const taxableLibre = Math.max(0, log.shab_m2 - shabSocial) * taxableParShab;
+      const parLogement = taxableLibre / log.nb_libre;
+      surfaceAbattue += Math.min(
+        SURFACE_ABATTUE_RESIDENCE_PRINCIPALE_M2,
+        parLogement,
+      ) * log.nb_libre;
+    }
+  }
+
+  // Assiette par usage : surfaces × valeur forfaitaire + places extérieures
+  const tauxTa = (p.taux_communal_pct + p.taux_departemental_pct +
+    p.taux_regional_pct) / 100;
+  const tauxRap = p.taux_rap_pct / 100;
+
+  const sdpTotale = input.usages.reduce((acc, u) => acc + u.sdp_m2, 0);
+  const nbLogements = log?.nb_logements ?? 0;
+  const placesTotal = input.usages.reduce((acc, u) => acc + u.places, 0);
+
+  let surfaceTaxable = 0;
+  let valeurSurfaces = 0;
+  let placesExterieures = 0;
+  const assietteParUsage: Record<string, number> = {};
+
+  for (const u of input.usages) {
+    const placesExt = Math.round(u.places * partExt);
+    const placesCouvertes = u.places - placesExt;
+    const surface = u.sdp_m2 * h.coef_surface_taxable +
+      placesCouvertes * h.surface_par_place_couverte_m2;
+
+    let surfaceNette = surface;
+    if (u.usage === "logement") {
+      surfaceNette -= surfaceExoneree + surfaceAbattue * ABATTEMENT_PCT;
+    }
+
+    surfaceTaxable += surface;
+    placesExterieures += placesExt;
+    valeurSurfaces += Math.max(0, surfaceNette) * p.valeur_m2;
+    assietteParUsage[u.usage] = Math.max(0, surfaceNette) * p.valeur_m2 +
+      placesExt * p.valeur_place;
+  }
+
+  const valeurPlaces = placesExterieures * p.valeur_place;
+  const assiette = valeurSurfaces + valeurPlaces;
+
+  // Participations : quantité selon la base
+  const participations = p.participations.map((part) => {
+    const quantite = part.base === "m2_sdp"
+      ? sdpTotale
+      : part.base === "logement"
+      ? nbLogements
+      : part.base === "place"
+      ? placesTotal
+      : 1;
+    const montant = part.base === "pct_ca"
+      ? input.ca_total * (part.montant / 100)
+      : quantite * part.montant;
+    return {
+      libelle: part.libelle,
+      base: part.base,
+      montant_unitaire: part.montant,
+      quantite: part.base === "pct_ca" || part.base === "forfait"
+        ? null
+        : round(quantite, 2),
+      montant: round(montant, 0),
+      montant_brut: montant,
+    };
+  });
+  const totalParticipations = participations.reduce(
+    (acc, x) => acc + x.montant_brut,
+    0,
+  );
+
+  const lignes = {
+    taxe_amenagement_commune: assiette * (p.taux_communal_pct / 100),
+    taxe_amenagement_departement: assiette * (p.taux_departemental_pct / 100),
+    taxe_amenagement_region: assiette * (p.taux_regional_pct / 100),
+    redevance_archeologie_preventive: assiette * tauxRap,
+  };
+  const total = Object.values(lignes).reduce((a, b) => a + b, 0) +
+    totalParticipations;
+
+  // Ventilation par usage : taxes au prorata de l'assiette, participations
+  // au prorata de la SDP
+  const parUsage: Record<string, number> = {};
+  for (const u of input.usages) {
+    const taxesUsage = (assietteParUsage[u.usage] ?? 0) * (tauxTa + tauxRap);
+    const partSdp = sdpTotale > 0 ? u.sdp_m2 / sdpTotale : 0;
+    parUsage[u.usage] = taxesUsage + totalParticipations * partSdp;
+  }
+
+  return {
+    annee: p.annee,
+    commune_insee: p.commune_insee,
+    secteur: p.secteur,
+    secteurs: p.secteurs,
+    source: p.source,
+    hypotheses: {
+      valeur_forfaitaire_m2: p.valeur_m2,
+      valeur_forfaitaire_place: p.valeur_place,
+      taux_communal_pct: p.taux_communal_pct,
+      taux_departemental_pct: p.taux_departemental_pct,
+      taux_regional_pct: p.taux_regional_pct,
+      taux_rap_pct: p.taux_rap_pct,
+      ...h,
+    },
+    assiette: {
+      surface_taxable_m2: round(surfaceTaxable, 2),
+      surface_exoneree_m2: round(surfaceExoneree, 2),
+      surface_abattue_m2: round(surfaceAbattue, 2),
+      places_exterieures: placesExterieures,
+      valeur_surfaces: round(valeurSurfaces, 0),
+      valeur_places: round(valeurPlaces, 0),
+      valeur_totale: round(assiette, 0),
+    },
+    lignes: {
+      taxe_amenagement_commune: round(lignes.taxe_amenagement_commune, 0),
+      taxe_amenagement_departement: round(
+        lignes.taxe_amenagement_departement,
+        0,
+      ),
+      taxe_amenagement_region: round(lignes.taxe_amenagement_region, 0),
+      redevance_archeologie_preventive: round(
+        lignes.redevance_archeologie_preventive,
+        0,
+      ),
+      participations: participations.map(({ montant_brut, ...rest }) => rest),
+    },
+    par_usage: parUsage,
+    total_brut: total,
+    total: round(total, 0),
+  };
+}
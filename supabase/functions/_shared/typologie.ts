@@ -0,0 +1,351 @@
+// supabase/functions/_shared/typologie.ts
+//
+// Typologie des logements (T1 à T5) et quotas de logement social
+//  - surface habitable → nombre de logements selon un mix cible et des surfaces moyennes
+//  - quota social (projet, PLU ou commune carencée SRU) réparti PLAI / PLUS / PLS / BRS
+//  - prix de vente réduits pour la part sociale, prix moyen pondéré
+//  - places de stationnement exigées (libre / social)
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+export type Typologie = "T1" | "T2" | "T3" | "T4" | "T5";
+
+export type FinancementSocial = "PLAI" | "PLUS" | "PLS" | "BRS";
+
+export const TYPOLOGIES: Typologie[] = ["T1", "T2", "T3", "T4", "T5"];
+
+export const FINANCEMENTS_SOCIAUX: FinancementSocial[] = [
+  "PLAI",
+  "PLUS",
+  "PLS",
+  "BRS",
+];
+
+export type QuotaSocial = {
+  // Part des logements (0 à 1)
+  taux: number;
+  source: "projet" | "plu" | "sru" | "aucun";
+  // Seuils de déclenchement (l'un ou l'autre suffit, aucun = toujours)
+  seuil_logements: number | null;
+  seuil_sdp_m2: number | null;
+  repartition: Partial<Record<FinancementSocial, number>>;
+};
+
+export type UnitMixInput = {
+  shab_m2: number;
+  sdp_m2: number;
+  mix_cible: Partial<Record<Typologie, number>>;
+  surfaces_moyennes_m2: Record<Typologie, number>;
+  prix_libre_m2: number;
+  prix_social_m2: Record<FinancementSocial, number>;
+  quota: QuotaSocial;
+  places_par_logement_libre: number;
+  places_par_logement_social: number;
+};
+
+// -------------------------------------------------
+// Valeurs par défaut
+// -------------------------------------------------
+
+export const MIX_CIBLE_DEFAUT: Record<Typologie, number> = {
+  T1: 0.1,
+  T2: 0.3,
+  T3: 0.35,
+  T4: 0.2,
+  T5: 0.05,
+};
+
+// Surfaces habitables moyennes (m²)
+export const SURFACES_MOYENNES_DEFAUT: Record<Typologie, number> = {
+  T1: 30,
+  T2: 45,
+  T3: 65,
+  T4: 82,
+  T5: 100,
+};
+
+// Prix de cession aux bailleurs / accession maîtrisée (€ / m² SHAB)
+export const PRIX_SOCIAL_DEFAUT: Record<FinancementSocial, number> = {
+  PLAI: 1900,
+  PLUS: 2100,
+  PLS: 2500,
+  BRS: 3300,
+};
+
+export const REPARTITION_SOCIALE_DEFAUT: Partial<
+  Record<FinancementSocial, number>
+> = { PLAI: 0.3, PLUS: 0.4, PLS: 0.3 };
+
+// Commune carencée (art. L.111-24 CCH) : 30 % de PLUS / PLAI au-delà
+// de 12 logements ou 800 m² de SDP
+const SRU_CARENCE_TAUX = 0.3;
+const SRU_CARENCE_SEUIL_LOGEMENTS = 12;
+const SRU_CARENCE_SEUIL_SDP_M2 = 800;
+const SRU_CARENCE_REPARTITION: Partial<Record<FinancementSocial, number>> = {
+  PLAI: 0.3,
+  PLUS: 0.7,
+};
+
+// -------------------------------------------------
+// Helpers
+// -------------------------------------------------
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function round(value: number, decimals = 0): number {
+  return Math.round(value * 10 ** decimals) / 10 ** decimals;
+}
+
+/**
+ * Parts positives normalisées à 1 (null si aucune).
+ */
+export function normaliseShares<K extends string>(
+  shares: Partial<Record<K, unknown>> | null | undefined,
+  keys: K[],
+): Partial<Record<K, number>> | null {
+  if (!shares || typeof shares !== "object") return null;
+
+  const entries = keys
+    .map((k) => [k, toNumber(shares[k]) ?? 0] as const)
+    .filter(([, v]) => v > 0);
+  const total = entries.reduce((acc, [, v]) => acc + v, 0);
+  if (total <= 0) return null;
+
+  return Object.fromEntries(entries.map(([k, v]) => [k, v / total])) as Partial<
+    Record<K, number>
+  >;
+}
+
+/**
+ * Répartit un total entier selon des poids (méthode du plus fort reste).
+ */
+export function allocateLargestRemainder<K extends string>(
+  total: number,
+  weights: Partial<Record<K, number>>,
+): Record<K, number> {
+  const keys = Object.keys(weights) as K[];
+  const sum = keys.reduce((acc, k) => acc + (weights[k] ?? 0), 0);
+  const result = Object.fromEntries(keys.map((k) => [k, 0])) as Record<K, number>;
+  if (total <= 0 || sum <= 0) return result;
+
+  const exact = keys.map((k) => ({ k, v: (total * (weights[k] ?? 0)) / sum }));
+  for (const e of exact) result[e.k] = Math.floor(e.v);
+
+  let reste = total - exact.reduce((acc, e) => acc + Math.floor(e.v), 0);
+  for (const e of [...exact].sort((a, b) => (b.v % 1) - (a.v % 1))) {
+    if (reste <= 0) break;
+    result[e.k] += 1;
+    reste -= 1;
+  }
+
+  return result;
+}
+
+// -------------------------------------------------
+// Quota de logement social
+// -------------------------------------------------
+
+/**
+ * Quota applicable : saisie projet, sinon règle de mixité sociale du PLU,
+ * sinon obligation des communes carencées SRU, sinon aucun.
+ */
+export function resolveQuotaSocial(input: {
+  projet?: {
+    taux_pct?: unknown;
+    repartition?: Partial<Record<FinancementSocial, unknown>> | null;
+    commune_carencee_sru?: boolean | null;
+  } | null;
+  plu?: {
+    taux_logement_social_pct?: unknown;
+    seuil_logements?: unknown;
+    seuil_sdp_m2?: unknown;
+    repartition?: Partial<Record<FinancementSocial, unknown>> | null;
+  } | null;
+  repartition_defaut?: Partial<Record<FinancementSocial, unknown>> | null;
+}): QuotaSocial {
+  const repartitionDefaut =
+    normaliseShares(input.repartition_defaut, FINANCEMENTS_SOCIAUX) ??
+      REPARTITION_SOCIALE_DEFAUT;
+  const repartitionProjet = normaliseShares(
+    input.projet?.repartition,
+    FINANCEMENTS_SOCIAUX,
+  );
+
+  const tauxProjet = toNumber(input.projet?.taux_pct);
+  if (tauxProjet != null) {
+    return {
+      taux: Math.min(1, Math.max(0, tauxProjet / 100)),
+      source: "projet",
+      seuil_logements: null,
+      seuil_sdp_m2: null,
+      repartition: repartitionProjet ?? repartitionDefaut,
+    };
+  }
+
+  const tauxPlu = toNumber(input.plu?.taux_logement_social_pct);
+  if (tauxPlu != null && tauxPlu > 0) {
+    return {
+      taux: Math.min(1, tauxPlu / 100),
+      source: "plu",
+      seuil_logements: toNumber(input.plu?.seuil_logements),
+      seuil_sdp_m2: toNumber(input.plu?.seuil_sdp_m2),
+      repartition: repartitionProjet ??
+        normaliseShares(input.plu?.repartition, FINANCEMENTS_SOCIAUX) ??
+        repartitionDefaut,
+    };
+  }
+
+  if (input.projet?.commune_carencee_sru) {
+    return {
+      taux: SRU_CARENCE_TAUX,
+      source: "sru",
+      seuil_logements: SRU_CARENCE_SEUIL_LOGEMENTS,
+      seuil_sdp_m2: SRU_CARENCE_SEUIL_SDP_M2,
+      repartition: repartitionProjet ?? SRU_CARENCE_REPARTITION,
+    };
+  }
+
+  return {
+    taux: 0,
+    source: "aucun",
+    seuil_logements: null,
+    seuil_sdp_m2: null,
+    repartition: repartitionDefaut,
+  };
+}
+
+function quotaApplicable(
+  quota: QuotaSocial,
+  nbLogements: number,
+  sdpM2: number,
+): boolean {
+  if (quota.taux <= 0) return false;
+  if (quota.seuil_logements == null && quota.seuil_sdp_m2 == null) return true;
+  return (quota.seuil_logements != null && nbLogements > quota.seuil_logements) ||
+    (quota.seuil_sdp_m2 != null && sdpM2 > quota.seuil_sdp_m2);
+}
+
+// -------------------------------------------------
+// Mix de logements
+// -------------------------------------------------
+
+/**
+ * Découpe la surface habitable en logements T1 à T5, applique le quota
+ * social et calcule CA, prix moyen pondéré et stationnement exigé.
+ * Les surfaces moyennes sont ajustées pour que la somme des logements
+ * couvre exactement la surface habitable.
+ */
+export function computeUnitMix(input: UnitMixInput) {
+  const mix = normaliseShares(input.mix_cible, TYPOLOGIES) ?? MIX_CIBLE_DEFAUT;
+  const shab = Math.max(0, input.shab_m2);
+
+  const surfaceMoyenneCible = (Object.keys(mix) as Typologie[]).reduce(
+    (acc, t) => acc + (mix[t] ?? 0) * input.surfaces_moyennes_m2[t],
+    0,
+  );
+  const nbLogements = surfaceMoyenneCible > 0
+    ? Math.floor(shab / surfaceMoyenneCible)
+    : 0;
+
+  const nbParTypo = allocateLargestRemainder(nbLogements, mix);
+  const shabTheorique = (Object.keys(nbParTypo) as Typologie[]).reduce(
+    (acc, t) => acc + nbParTypo[t] * input.surfaces_moyennes_m2[t],
+    0,
+  );
+  const ajustement = shabTheorique > 0 ? shab / shabTheorique : 0;
+
+  // Quota social (arrondi au logement supérieur)
+  const applicable = quotaApplicable(input.quota, nbLogements, input.sdp_m2);
+  const nbSocial = applicable
+    ? Math.min(nbLogements, Math.ceil(nbLogements * input.quota.taux))
+    : 0;
+  const socialParTypo = allocateLargestRemainder(nbSocial, nbParTypo);
+
+  const parTypologie: Record<string, unknown> = {};
+  let shabSocial = 0;
+  for (const t of Object.keys(nbParTypo) as Typologie[]) {
+    const surfaceMoyenne = input.surfaces_moyennes_m2[t] * ajustement;
+    shabSocial += socialParTypo[t] * surfaceMoyenne;
+    parTypologie[t] = {
+      nb: nbParTypo[t],
+      nb_libre: nbParTypo[t] - socialParTypo[t],
+      nb_social: socialParTypo[t],
+      surface_moyenne_m2: round(surfaceMoyenne, 1),
+      shab_m2: round(nbParTypo[t] * surfaceMoyenne, 2),
+    };
+  }
+
+  const shabLibre = shab - shabSocial;
+  const nbLibre = nbLogements - nbSocial;
+  const caLibre = shabLibre * input.prix_libre_m2;
+
+  // Part sociale par financement
+  const nbParFinancement = allocateLargestRemainder(
+    nbSocial,
+    input.quota.repartition,
+  );
+  const shabParLogementSocial = nbSocial > 0 ? shabSocial / nbSocial : 0;
+
+  let caSocial = 0;
+  const parFinancement: Record<string, unknown> = {};
+  for (const f of Object.keys(nbParFinancement) as FinancementSocial[]) {
+    const shabF = nbParFinancement[f] * shabParLogementSocial;
+    const prix = input.prix_social_m2[f];
+    caSocial += shabF * prix;
+    parFinancement[f] = {
+      nb: nbParFinancement[f],
+      shab_m2: round(shabF, 2),
+      prix_m2: round(prix, 0),
+      ca: round(shabF * prix, 0),
+    };
+  }
+
+  const ca = caLibre + caSocial;
+
+  const placesLibre = Math.ceil(nbLibre * input.places_par_logement_libre);
+  const placesSocial = Math.ceil(nbSocial * input.places_par_logement_social);
+
+  return {
+    nb_logements: nbLogements,
+    shab_m2: round(shab, 2),
+    surface_moyenne_m2: nbLogements > 0 ? round(shab / nbLogements, 1) : null,
+    mix_cible: mix,
+    par_typologie: parTypologie,
+    accession_libre: {
+      nb: nbLibre,
+      shab_m2: round(shabLibre, 2),
+      prix_m2: round(input.prix_libre_m2, 0),
+      ca: round(caLibre, 0),
+    },
+    quota_social: {
+      source: input.quota.source,
+      taux_pct: round(input.quota.taux * 100, 1),
+      applicable,
+      seuil_logements: input.quota.seuil_logements,
+      seuil_sdp_m2: input.quota.seuil_sdp_m2,
+      nb_logements: nbSocial,
+      taux_effectif_pct: nbLogements > 0
+        ? round((nbSocial / nbLogements) * 100, 1)
+        : 0,
+      shab_m2: round(shabSocial, 2),
+      ca: round(caSocial, 0),
+      par_financement: parFinancement,
+    },
+    stationnement: {
+      places: placesLibre + placesSocial,
+      places_libre: placesLibre,
+      places_social: placesSocial,
+      places_par_logement_libre: input.places_par_logement_libre,
+      places_par_logement_social: input.places_par_logement_social,
+    },
+    ca_brut: ca,
+    ca: round(ca, 0),
+    prix_moyen_m2: shab > 0 ? round(ca / shab, 0) : null,
+  };
+}
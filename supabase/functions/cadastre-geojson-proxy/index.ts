@@ -0,0 +1,377 @@
+// supabase/functions/cadastre-geojson-proxy/index.ts
+// Couche parcellaire pour la carte (front-end)
+//
+//  - Entrée (GET query string ou POST JSON) :
+//      bbox=minLon,minLat,maxLon,maxLat  |  commune=<code INSEE / cadastre>
+//      zoom (défaut 16), limit (défaut 1000, max 5000), include_plu (défaut true)
+//  - Sortie : FeatureCollection GeoJSON (WGS84)
+//      properties : id, section, numero, surface_m2, code_commune, zone_code
+//      + membre "meta" : communes, niveau Etalab, cache, troncature, simplification
+//
+// Les téléchargements Etalab (.json.gz) sont mis en cache par instance
+// (cf. downloadParcellesGeoJSONWithFallback).
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  type BBox,
+  communesForBBox,
+  downloadParcellesGeoJSONWithFallback,
+  etalabFeatureSurfaceM2,
+  featuresInBBox,
+  parcelFromEtalabFeature,
+} from "../_shared/cadastre.ts";
+import { simplifyGeometry } from "../_shared/geo.ts";
+import { departementOfCommune } from "../_shared/idu.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+console.log("✅ cadastre-geojson-proxy – function loaded");
+
+// -----------------------------
+// Types
+// -----------------------------
+type ProxyRequest = {
+  bbox?: BBox | string;
+  commune?: string;
+  zoom?: number | string;
+  limit?: number | string;
+  include_plu?: boolean | string;
+};
+
+const DEFAULT_ZOOM = 16;
+const DEFAULT_LIMIT = 1000;
+const MAX_LIMIT = 5000;
+
+// Emprise max d'une bbox (degrés) : au-delà, la carte doit zoomer
+const MAX_BBOX_SPAN_DEG = 0.15;
+
+// Nombre max de communes couvertes par une bbox
+const MAX_COMMUNES = 4;
+
+// Tolérance de simplification (en pixels à l'écran)
+const SIMPLIFY_TOLERANCE_PX = 0.5;
+
+// Au-delà de ce zoom, les géométries sont renvoyées telles quelles
+const NO_SIMPLIFY_ZOOM = 18;
+
+const CACHE_CONTROL = "public, max-age=300";
+
+// -----------------------------
+// HTTP server
+// -----------------------------
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const params = await readParams(req);
+
+    const zoom = clamp(toNumber(params.zoom) ?? DEFAULT_ZOOM, 0, 22);
+    const limit = clamp(
+      Math.floor(toNumber(params.limit) ?? DEFAULT_LIMIT),
+      1,
+      MAX_LIMIT,
+    );
+    const includePlu = params.include_plu !== false &&
+      params.include_plu !== "false";
+
+    const bbox = parseBBox(params.bbox);
+    const communeParam = typeof params.commune === "string"
+      ? params.commune.trim().toUpperCase()
+      : null;
+
+    if (!bbox && !communeParam) {
+      return jsonResponse(
+        {
+          success: false,
+          error: "MISSING_BBOX_OR_COMMUNE",
+          details: "Paramètre bbox=minLon,minLat,maxLon,maxLat ou commune requis.",
+        },
+        400,
+      );
+    }
+
+    if (
+      bbox &&
+      (bbox[2] - bbox[0] > MAX_BBOX_SPAN_DEG ||
+        bbox[3] - bbox[1] > MAX_BBOX_SPAN_DEG)
+    ) {
+      return jsonResponse(
+        {
+          success: false,
+          error: "BBOX_TOO_LARGE",
+          details: `Emprise max ${MAX_BBOX_SPAN_DEG}° : zoomez davantage.`,
+        },
+        400,
+      );
+    }
+
+    // 1) Communes à charger
+    const communes = communeParam
+      ? [communeParam]
+      : (await communesForBBox(bbox!, MAX_COMMUNES)).map((c) =>
+        c.codeCadastre ?? c.code
+      );
+
+    if (communes.length === 0) {
+      return jsonResponse({ success: false, error: "NO_COMMUNE_FOUND" }, 404);
+    }
+
+    // 2) Parcelles Etalab (cache) + filtre bbox
+    const candidates: any[] = [];
+    const sources: Record<string, unknown>[] = [];
+
+    for (const code of communes) {
+      const download = await downloadParcellesGeoJSONWithFallback(
+        code,
+        departementOfCommune(code),
+      );
+
+      if (!download.success) {
+        console.warn("⚠️ cadastre-geojson-proxy NO_GEOJSON:", code, download);
+        sources.push({ commune: code, error: "NO_GEOJSON" });
+        continue;
+      }
+
+      sources.push({
+        commune: code,
+        level: download.level,
+        cache: download.cache,
+      });
+
+      const features = bbox
+        ? featuresInBBox(download.geojson.features, bbox)
+        : download.geojson.features;
+
+      for (const f of features) {
+        if (!f?.geometry) continue;
+        // Fichier département : ne garder que la commune demandée
+        if (
+          download.level === "departement" &&
+          !String(f.properties?.id ?? "").startsWith(code)
+        ) {
+          continue;
+        }
+        candidates.push({ feature: f, code });
+      }
+    }
+
+    // Une parcelle peut apparaître dans deux fichiers (commune + département)
+    const seen = new Set<string>();
+    const unique = candidates.filter(({ feature }) => {
+      const id = feature.properties?.id;
+      if (!id) return true;
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+
+    const truncated = unique.length > limit;
+    const selected = unique.slice(0, limit);
+
+    // 3) Zones PLU (un seul RPC pour toutes les parcelles)
+    const ids = selected
+      .map(({ feature }) => feature.properties?.id)
+      .filter(Boolean) as string[];
+    const zones = includePlu ? await fetchZoneCodes(ids) : new Map();
+
+    // 4) Simplification selon le zoom
+    const toleranceM = zoom >= NO_SIMPLIFY_ZOOM
+      ? 0
+      : metersPerPixel(zoom, bbox ? (bbox[1] + bbox[3]) / 2 : 46.5) *
+        SIMPLIFY_TOLERANCE_PX;
+    const decimals = coordinateDecimals(toleranceM);
+
+    const features = selected.map(({ feature, code }) => {
+      const parcel = parcelFromEtalabFeature(feature, {
+        code,
+        codeDepartement: departementOfCommune(code),
+        nom: feature.properties?.commune ?? "",
+      });
+
+      const geometry = simplifyGeometry(feature.geometry, toleranceM);
+
+      return {
+        type: "Feature",
+        id: parcel.id,
+        geometry: geometry ? roundGeometry(geometry, decimals) : null,
+        properties: {
+          id: parcel.id,
+          section: parcel.section,
+          numero: parcel.numero,
+          surface_m2: etalabFeatureSurfaceM2(feature.properties),
+          code_commune: code,
+          zone_code: parcel.id ? zones.get(parcel.id) ?? null : null,
+        },
+      };
+    });
+
+    console.log(
+      `✅ cadastre-geojson-proxy: ${features.length}/${unique.length} parcelles (zoom ${zoom})`,
+    );
+
+    return new Response(
+      JSON.stringify({
+        type: "FeatureCollection",
+        features,
+        meta: {
+          communes: sources,
+          bbox: bbox ?? null,
+          zoom,
+          limit,
+          total: unique.length,
+          returned: features.length,
+          truncated,
+          simplification_tolerance_m: Math.round(toleranceM * 100) / 100,
+          include_plu: includePlu,
+        },
+      }),
+      {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/geo+json",
+          "Cache-Control": CACHE_CONTROL,
+        },
+      },
+    );
+  } catch (err) {
+    console.error("❌ cadastre-geojson-proxy global error:", err);
+    return jsonResponse(
+      { success: false, error: "INTERNAL_ERROR", details: String(err) },
+      500,
+    );
+  }
+});
+
+// =================================================
+// JSON helper
+// =================================================
+function jsonResponse(body: any, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+// =================================================
+// Paramètres
+// =================================================
+
+async function readParams(req: Request): Promise<ProxyRequest> {
+  const url = new URL(req.url);
+  const fromQuery: ProxyRequest = {
+    bbox: url.searchParams.get("bbox") ?? undefined,
+    commune: url.searchParams.get("commune") ?? undefined,
+    zoom: url.searchParams.get("zoom") ?? undefined,
+    limit: url.searchParams.get("limit") ?? undefined,
+    include_plu: url.searchParams.get("include_plu") ?? undefined,
+  };
+
+  if (req.method !== "POST") return fromQuery;
+
+  const body = (await req.json().catch(() => ({}))) as ProxyRequest;
+  return { ...fromQuery, ...body };
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function parseBBox(value: ProxyRequest["bbox"]): BBox | null {
+  if (!value) return null;
+
+  const parts = (Array.isArray(value) ? value : String(value).split(","))
+    .map((v) => Number(v));
+
+  if (parts.length !== 4 || parts.some((v) => !Number.isFinite(v))) {
+    return null;
+  }
+
+  const [minLon, minLat, maxLon, maxLat] = parts;
+  if (minLon >= maxLon || minLat >= maxLat) return null;
+
+  return [minLon, minLat, maxLon, maxLat];
+}
+
+// =================================================
+// PLU : codes de zone par parcelle
+// =================================================
+
+async function fetchZoneCodes(ids: string[]): Promise<Map<string, string>> {
+  const zones = new Map<string, string>();
+  if (ids.length === 0) return zones;
+
+  try {
+    const { data, error } = await supabase.rpc("plu_zone_codes_for_parcelles", {
+      p_parcelle_ids: ids,
+    });
+
+    if (error) {
+      console.error("❌ fetchZoneCodes error:", error);
+      return zones;
+    }
+
+    for (const row of (data ?? []) as any[]) {
+      if (row?.parcelle_id && row?.zone_code) {
+        zones.set(row.parcelle_id, row.zone_code);
+      }
+    }
+  } catch (err) {
+    console.error("❌ fetchZoneCodes exception:", err);
+  }
+
+  return zones;
+}
+
+// =================================================
+// Simplification / précision selon le zoom
+// =================================================
+
+/**
+ * Résolution au sol (m / pixel) d'une tuile Web Mercator 256 px.
+ */
+function metersPerPixel(zoom: number, lat: number): number {
+  return (156543.03392 * Math.cos((lat * Math.PI) / 180)) / 2 ** zoom;
+}
+
+/**
+ * Nombre de décimales utiles pour une tolérance donnée
+ * (1e-5° ≈ 1,1 m ; 1e-7° ≈ 1 cm).
+ */
+function coordinateDecimals(toleranceM: number): number {
+  if (!(toleranceM > 0)) return 7;
+  return clamp(Math.ceil(-Math.log10(toleranceM / 111_320)), 5, 7);
+}
+
+function roundGeometry(geometry: any, decimals: number): any {
+  const f = 10 ** decimals;
+  const r = (v: number) => Math.round(v * f) / f;
+  const ring = (positions: number[][]) => positions.map(([x, y]) => [r(x), r(y)]);
+
+  return geometry.type === "MultiPolygon"
+    ? {
+      type: "MultiPolygon",
+      coordinates: geometry.coordinates.map((poly: number[][][]) =>
+        poly.map(ring)
+      ),
+    }
+    : { type: "Polygon", coordinates: geometry.coordinates.map(ring) };
+}
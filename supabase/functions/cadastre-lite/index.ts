@@ -2,6 +2,22 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
+import {
+  type BBox,
+  communesForBBox,
+  downloadParcellesGeoJSONWithFallback,
+  type EtalabCommune,
+  type EtalabParcel,
+  featuresInBBox,
+  geocodeAddress,
+  getCommuneFromCode,
+  getCommuneFromLatLon,
+  type ParcelMatchInfo,
+  parcelFromEtalabFeature,
+  pickParcelForPoint,
+} from "../_shared/cadastre.ts";
+import { checkSurfaceAgainstGeometry, type SurfaceCheck } from "../_shared/geo.ts";
+import { isValidCodeCommune, parseParcelId } from "../_shared/idu.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
@@ -15,49 +31,43 @@ console.log("✅ cadastre-lite – function loaded");
 // -----------------------------
 // Types
 // -----------------------------
+type CadastreLiteMode = "point" | "parcel_id" | "address" | "bbox" | "section";
+
 type CadastreLiteRequest = {
-  mode: "point";
-  lat: number;
-  lon: number;
+  mode: CadastreLiteMode;
+  // mode point
+  lat?: number;
+  lon?: number;
+  // mode parcel_id (IDU 14 caractères, ex : 64024000AB0123)
+  parcel_id?: string;
+  // mode address
+  address?: string;
+  // mode bbox : [minLon, minLat, maxLon, maxLat]
+  bbox?: BBox;
+  // mode section
+  code_commune?: string;
+  section?: string;
+  prefixe?: string;
+  // modes bbox / section
+  limit?: number;
   include_plu?: boolean;
 };
 
-type EtalabCommune = {
-  // code INSEE normalisé (ex : 75056 pour Paris)
-  code: string;
-  codeDepartement: string;
-  nom: string;
-  // code utilisé par le cadastre Etalab (ex : 75107 pour Paris 7e)
-  codeCadastre?: string;
+type ParcelItem = {
+  parcel: any;
+  match: ParcelMatchInfo | null;
+  surface_check: SurfaceCheck | null;
+  plu: any;
 };
 
-type EtalabParcel = {
-  id: string | null;
-  code_commune: string;
-  nom_commune: string;
-  section: string | null;
-  numero: string | null;
-  surface_m2: number | null;
-  geometry: any; // GeoJSON geometry
-};
+// Emprise max d'une bbox en mode bbox (degrés)
+const MAX_BBOX_SPAN_DEG = 0.05;
 
-type DownloadResult =
-  | {
-      success: true;
-      level: "commune" | "departement";
-      geojson: any;
-      url: string;
-      statusCommune?: number;
-      statusDepartement?: number;
-    }
-  | {
-      success: false;
-      error: "NO_GEOJSON";
-      urlCommune: string;
-      urlDepartement: string;
-      statusCommune?: number;
-      statusDepartement?: number;
-    };
+const DEFAULT_MULTI_LIMIT = 200;
+const MAX_MULTI_LIMIT = 1000;
+
+// Enrichissement PLU en mode multi-parcelles : appels RPC par lots
+const PLU_BATCH_SIZE = 10;
 
 // -----------------------------
 // HTTP server
@@ -70,8 +80,17 @@ serve(async (req) => {
   try {
     const body = (await req.json()) as CadastreLiteRequest;
 
-    if (body.mode === "point") {
-      return await handlePoint(body);
+    switch (body.mode) {
+      case "point":
+        return await handlePoint(body);
+      case "parcel_id":
+        return await handleParcelId(body);
+      case "address":
+        return await handleAddress(body);
+      case "bbox":
+        return await handleBBox(body);
+      case "section":
+        return await handleSection(body);
     }
 
     return jsonResponse({ success: false, error: "INVALID_MODE" }, 400);
@@ -85,26 +104,41 @@ serve(async (req) => {
 });
 
 // =================================================
-// Handler : MODE POINT
+// Réponse commune à tous les modes
 // =================================================
-async function handlePoint(body: CadastreLiteRequest): Promise<Response> {
-  const { lat, lon, include_plu = false } = body;
-
-  console.log("📍 handlePoint:", { lat, lon, include_plu });
-
-  // 1) Commune via geo.api.gouv.fr (avec normalisation Paris)
-  const commune = await getCommuneFromLatLon(lat, lon);
-  if (!commune) {
-    return jsonResponse(
-      { success: false, error: "NO_COMMUNE_FOUND" },
-      404,
-    );
-  }
+// Modes mono-parcelle (point, parcel_id, address) : parcel / match /
+// surface_check / plu renseignés, parcels = [cette parcelle].
+// Modes multi-parcelles (bbox, section) : parcel / match / surface_check /
+// plu à null, résultats dans parcels.
+function parcelsResponse(
+  mode: CadastreLiteMode,
+  commune: EtalabCommune | EtalabCommune[],
+  items: ParcelItem[],
+  extra: { single: boolean; truncated?: boolean; [key: string]: unknown },
+): Response {
+  const { single, truncated = false, ...rest } = extra;
+  const first = single ? items[0] ?? null : null;
 
-  console.log("🌍 handlePoint – commune:", commune);
+  return jsonResponse({
+    success: true,
+    source: "etalab",
+    mode,
+    commune,
+    parcel: first?.parcel ?? null,
+    match: first?.match ?? null,
+    surface_check: first?.surface_check ?? null,
+    plu: first?.plu ?? null,
+    parcels: items,
+    count: items.length,
+    truncated,
+    ...rest,
+  });
+}
 
-  // 2) Parcelles via Etalab (GeoJSON.gz)
-  //    👉 On utilise le code cadastre (arrondissement pour Paris), sinon le code normalisé
+async function loadCommuneParcels(
+  commune: EtalabCommune,
+): Promise<{ geojson: any } | { error: Response }> {
+  // 👉 On utilise le code cadastre (arrondissement pour Paris), sinon le code normalisé
   const codeForCadastre = commune.codeCadastre ?? commune.code;
 
   const download = await downloadParcellesGeoJSONWithFallback(
@@ -114,346 +148,358 @@ async function handlePoint(body: CadastreLiteRequest): Promise<Response> {
 
   if (!download.success) {
     console.error("❌ NO_GEOJSON details:", download);
-    return jsonResponse(
-      {
-        success: false,
-        error: "NO_GEOJSON",
-        commune,
-        debug: download,
-      },
-      500,
-    );
+    return {
+      error: jsonResponse(
+        {
+          success: false,
+          error: "NO_GEOJSON",
+          commune,
+          debug: download,
+        },
+        500,
+      ),
+    };
   }
 
-  const geojson = download.geojson;
   console.log(
-    `✅ GeoJSON chargé (${download.level}) depuis ${download.url} avec ${
-      geojson.features.length
+    `✅ GeoJSON chargé (${download.level}, cache ${download.cache}) depuis ${download.url} avec ${
+      download.geojson.features.length
     } features`,
   );
 
-  // 3) Choisir la parcelle la plus proche du point
-  const parcel = pickNearestParcel(geojson, lat, lon, commune);
-  if (!parcel) {
-    return jsonResponse(
-      { success: false, error: "NO_PARCEL_FOUND", commune },
-      404,
-    );
-  }
+  return { geojson: download.geojson };
+}
 
-  // 4) Upsert dans le cache
+/**
+ * Upsert cache + PLU optionnel pour une parcelle Etalab.
+ */
+async function enrichParcel(
+  parcel: EtalabParcel,
+  includePlu: boolean,
+): Promise<{ parcel: any; plu: any }> {
   const cached = await upsertParcelIntoCache(parcel);
 
-  // 5) PLU (optionnel)
   let plu: any = null;
-  if (include_plu && cached && cached.id) {
+  if (includePlu && cached && cached.id) {
     plu = await fetchPluForParcel(cached.id as string);
   }
 
-  return jsonResponse({
-    success: true,
-    source: "etalab",
-    commune,
-    parcel: cached,
-    plu,
-  });
+  return { parcel: cached, plu };
 }
 
-// =================================================
-// JSON helper
-// =================================================
-function jsonResponse(body: any, status = 200): Response {
-  return new Response(JSON.stringify(body), {
-    status,
-    headers: {
-      ...corsHeaders,
-      "Content-Type": "application/json",
-    },
-  });
+/**
+ * Mode multi-parcelles : pas d'upsert systématique ; avec include_plu,
+ * upsert + PLU par lots de PLU_BATCH_SIZE.
+ */
+async function buildMultiItems(
+  parcels: EtalabParcel[],
+  includePlu: boolean,
+): Promise<ParcelItem[]> {
+  const items: ParcelItem[] = [];
+
+  for (let i = 0; i < parcels.length; i += PLU_BATCH_SIZE) {
+    const batch = parcels.slice(i, i + PLU_BATCH_SIZE);
+    const enriched = includePlu
+      ? await Promise.all(batch.map((p) => enrichParcel(p, true)))
+      : batch.map((p) => ({ parcel: p, plu: null }));
+
+    batch.forEach((p, k) => {
+      items.push({
+        parcel: enriched[k].parcel,
+        match: null,
+        surface_check: checkSurfaceAgainstGeometry(p.surface_m2, p.geometry),
+        plu: enriched[k].plu,
+      });
+    });
+  }
+
+  return items;
+}
+
+function multiLimit(limit: unknown): number {
+  const n = Number(limit);
+  if (!Number.isFinite(n) || n <= 0) return DEFAULT_MULTI_LIMIT;
+  return Math.min(MAX_MULTI_LIMIT, Math.floor(n));
 }
 
 // =================================================
-// Etalab helpers – commune via geo.api.gouv.fr
+// Handler : MODE POINT
 // =================================================
+async function handlePoint(
+  body: CadastreLiteRequest,
+  extra: Record<string, unknown> = {},
+): Promise<Response> {
+  const { include_plu = false } = body;
+  const lat = Number(body.lat);
+  const lon = Number(body.lon);
 
-/**
- * Recherche la commune correspondante à un point (lat, lon)
- * via l'API publique geo.api.gouv.fr
- *
- * - code         → INSEE normalisé (ex: 75056 pour Paris)
- * - codeCadastre → INSEE brut Etalab (ex: 75107 pour Paris 7e)
- */
-async function getCommuneFromLatLon(
-  lat: number,
-  lon: number,
-): Promise<EtalabCommune | null> {
-  const url =
-    `https://geo.api.gouv.fr/communes?lat=${lat}&lon=${lon}&format=json`;
+  console.log("📍 handlePoint:", { lat, lon, include_plu });
 
-  console.log("🌍 getCommuneFromLatLon URL:", url);
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) {
+    return jsonResponse(
+      { success: false, error: "MISSING_LAT_LON" },
+      400,
+    );
+  }
 
-  try {
-    const res = await fetch(url);
-    console.log("🌍 getCommuneFromLatLon status:", res.status);
+  // 1) Commune via geo.api.gouv.fr (avec normalisation Paris)
+  const commune = await getCommuneFromLatLon(lat, lon);
+  if (!commune) {
+    return jsonResponse(
+      { success: false, error: "NO_COMMUNE_FOUND" },
+      404,
+    );
+  }
 
-    if (!res.ok) {
-      console.error("❌ getCommuneFromLatLon HTTP error:", res.status);
-      return null;
-    }
+  console.log("🌍 handlePoint – commune:", commune);
 
-    const json = await res.json();
-    console.log("🌍 getCommuneFromLatLon raw json:", json);
+  // 2) Parcelles via Etalab (GeoJSON.gz)
+  const loaded = await loadCommuneParcels(commune);
+  if ("error" in loaded) return loaded.error;
 
-    if (!Array.isArray(json) || json.length === 0) {
-      console.warn("⚠️ getCommuneFromLatLon: aucune commune trouvée (array vide)");
-      return null;
-    }
+  // 3) Choisir la parcelle qui contient le point (fallback : arête la plus proche)
+  const picked = pickParcelForPoint(loaded.geojson, lat, lon, commune);
+  if (!picked) {
+    return jsonResponse(
+      { success: false, error: "NO_PARCEL_FOUND", commune },
+      404,
+    );
+  }
 
-    const c = json[0];
-    console.log("🌍 getCommuneFromLatLon first item:", c);
+  const { parcel, match, surface_check } = picked;
 
-    if (!c.code || !c.codeDepartement) {
-      console.warn(
-        "⚠️ getCommuneFromLatLon: réponse incomplète (pas de code ou codeDepartement)",
-        c,
-      );
-      return null;
-    }
+  // 4) Upsert dans le cache + 5) PLU (optionnel)
+  const enriched = await enrichParcel(parcel, include_plu);
 
-    const rawCode = c.code as string;
-    const depCode = c.codeDepartement as string;
-
-    // 🔧 Normalisation spéciale Paris : arrondissements 75101–75120 → 75056
-    let normalizedCode = rawCode;
-    if (depCode === "75" && rawCode.startsWith("751")) {
-      console.log(
-        "ℹ️ Normalisation Paris : arrondissement",
-        rawCode,
-        "→ 75056",
-      );
-      normalizedCode = "75056";
-    }
+  return parcelsResponse(
+    "point",
+    commune,
+    [{ parcel: enriched.parcel, match, surface_check, plu: enriched.plu }],
+    { single: true, ...extra },
+  );
+}
 
-    const commune: EtalabCommune = {
-      code: normalizedCode, // code INSEE normalisé pour Mimmoza / PLU / DVF
-      codeDepartement: depCode,
-      nom: c.nom ?? "",
-      codeCadastre: rawCode, // code utilisé par le cadastre (arrondissement)
-    };
+// =================================================
+// Handler : MODE ADDRESS (géocodage puis point)
+// =================================================
+async function handleAddress(body: CadastreLiteRequest): Promise<Response> {
+  const address = body.address?.trim();
+  if (!address) {
+    return jsonResponse({ success: false, error: "MISSING_ADDRESS" }, 400);
+  }
 
-    console.log("✅ Commune trouvée (normalisée + cadastre):", commune);
-    return commune;
-  } catch (e) {
-    console.error("❌ Exception getCommuneFromLatLon:", e);
-    return null;
+  const geocoded = await geocodeAddress(address);
+  if (!geocoded) {
+    return jsonResponse(
+      { success: false, error: "GEOCODING_FAILED", address },
+      404,
+    );
   }
+
+  const response = await handlePoint(
+    { ...body, mode: "point", lat: geocoded.lat, lon: geocoded.lon },
+    {
+      geocoding: {
+        address,
+        label: geocoded.label,
+        score: geocoded.score,
+        lat: geocoded.lat,
+        lon: geocoded.lon,
+      },
+    },
+  );
+
+  // Même forme de réponse, mode "address"
+  const json = await response.json();
+  if (json?.success) json.mode = "address";
+  return jsonResponse(json, response.status);
 }
 
 // =================================================
-// Etalab helpers – parcelles GeoJSON (commune + fallback département)
+// Handler : MODE PARCEL_ID (IDU 14 caractères)
 // =================================================
+async function handleParcelId(body: CadastreLiteRequest): Promise<Response> {
+  const { include_plu = false } = body;
+  const parsed = parseParcelId(body.parcel_id);
 
-async function downloadParcellesGeoJSONWithFallback(
-  codeCommune: string,
-  codeDepartement: string,
-): Promise<DownloadResult> {
-  const baseUrl =
-    "https://cadastre.data.gouv.fr/data/etalab-cadastre/2025-09-01/geojson";
+  if (!parsed.ok) {
+    return jsonResponse(
+      {
+        success: false,
+        error: "INVALID_PARCEL_ID",
+        details: parsed.error,
+        parcel_id: body.parcel_id ?? null,
+      },
+      400,
+    );
+  }
 
-  const urlCommune =
-    `${baseUrl}/communes/${codeDepartement}/${codeCommune}/cadastre-${codeCommune}-parcelles.json.gz`;
+  const idu = parsed.parts.idu;
+  const commune = await getCommuneFromCode(parsed.parts.code_cadastre);
 
-  const urlDepartement =
-    `${baseUrl}/departements/${codeDepartement}/cadastre-${codeDepartement}-parcelles.json.gz`;
+  const loaded = await loadCommuneParcels(commune);
+  if ("error" in loaded) return loaded.error;
 
-  let statusCommune: number | undefined;
-  let statusDepartement: number | undefined;
+  const feature = loaded.geojson.features.find((f: any) =>
+    f?.properties?.id === idu
+  );
 
-  try {
-    console.log("🌍 Tentative commune Etalab:", urlCommune);
-    const resCommune = await fetch(urlCommune);
-    statusCommune = resCommune.status;
-    console.log(
-      "🌍 downloadParcellesGeoJSON commune status:",
-      statusCommune,
+  if (!feature) {
+    return jsonResponse(
+      { success: false, error: "NO_PARCEL_FOUND", commune, parcel_id: idu },
+      404,
     );
-
-    if (resCommune.ok && resCommune.body) {
-      const ds = new DecompressionStream("gzip");
-      const decompressedStream = resCommune.body.pipeThrough(ds);
-      const text = await new Response(decompressedStream).text();
-
-      const geojson = JSON.parse(text);
-      if (
-        geojson && geojson.type === "FeatureCollection" &&
-        Array.isArray(geojson.features)
-      ) {
-        return {
-          success: true,
-          level: "commune",
-          geojson,
-          url: urlCommune,
-          statusCommune,
-        };
-      }
-    }
-  } catch (e) {
-    console.error("❌ Erreur commune Etalab:", e);
   }
 
-  // Fallback département
-  try {
-    console.log("🌍 Tentative département Etalab:", urlDepartement);
-    const resDep = await fetch(urlDepartement);
-    statusDepartement = resDep.status;
-    console.log(
-      "🌍 downloadParcellesGeoJSON département status:",
-      statusDepartement,
-    );
-
-    if (resDep.ok && resDep.body) {
-      const ds = new DecompressionStream("gzip");
-      const decompressedStream = resDep.body.pipeThrough(ds);
-      const text = await new Response(decompressedStream).text();
-
-      const geojson = JSON.parse(text);
-      if (
-        geojson && geojson.type === "FeatureCollection" &&
-        Array.isArray(geojson.features)
-      ) {
-        return {
-          success: true,
-          level: "departement",
-          geojson,
-          url: urlDepartement,
-          statusCommune,
-          statusDepartement,
-        };
-      }
-    }
-  } catch (e) {
-    console.error("❌ Erreur département Etalab:", e);
-  }
+  const parcel = parcelFromEtalabFeature(feature, commune);
+  const surface_check = checkSurfaceAgainstGeometry(
+    parcel.surface_m2,
+    parcel.geometry,
+  );
+  const enriched = await enrichParcel(parcel, include_plu);
 
-  return {
-    success: false,
-    error: "NO_GEOJSON",
-    urlCommune,
-    urlDepartement,
-    statusCommune,
-    statusDepartement,
-  };
+  return parcelsResponse(
+    "parcel_id",
+    commune,
+    [{ parcel: enriched.parcel, match: null, surface_check, plu: enriched.plu }],
+    { single: true },
+  );
 }
 
-function approxCentroid(geometry: any): [number, number] | null {
-  if (!geometry) return null;
+// =================================================
+// Handler : MODE BBOX
+// =================================================
+async function handleBBox(body: CadastreLiteRequest): Promise<Response> {
+  const { include_plu = false } = body;
+  const bbox = Array.isArray(body.bbox) && body.bbox.length === 4
+    ? body.bbox.map(Number) as BBox
+    : null;
+
+  if (
+    !bbox || bbox.some((v) => !Number.isFinite(v)) ||
+    bbox[0] >= bbox[2] || bbox[1] >= bbox[3]
+  ) {
+    return jsonResponse(
+      {
+        success: false,
+        error: "INVALID_BBOX",
+        details: "bbox attendue : [minLon, minLat, maxLon, maxLat].",
+      },
+      400,
+    );
+  }
 
-  const type = geometry.type;
-  const coords = geometry.coordinates;
-  if (!coords) return null;
+  if (
+    bbox[2] - bbox[0] > MAX_BBOX_SPAN_DEG ||
+    bbox[3] - bbox[1] > MAX_BBOX_SPAN_DEG
+  ) {
+    return jsonResponse(
+      { success: false, error: "BBOX_TOO_LARGE", max_span_deg: MAX_BBOX_SPAN_DEG },
+      400,
+    );
+  }
 
-  let sumX = 0;
-  let sumY = 0;
-  let count = 0;
+  const communes = await communesForBBox(bbox);
+  if (communes.length === 0) {
+    return jsonResponse({ success: false, error: "NO_COMMUNE_FOUND" }, 404);
+  }
 
-  if (type === "Polygon") {
-    for (const ring of coords) {
-      for (const pt of ring) {
-        sumX += pt[0];
-        sumY += pt[1];
-        count++;
-      }
-    }
-  } else if (type === "MultiPolygon") {
-    for (const poly of coords) {
-      for (const ring of poly) {
-        for (const pt of ring) {
-          sumX += pt[0];
-          sumY += pt[1];
-          count++;
-        }
-      }
+  const limit = multiLimit(body.limit);
+  const parcels: EtalabParcel[] = [];
+  const seen = new Set<string>();
+
+  for (const commune of communes) {
+    const loaded = await loadCommuneParcels(commune);
+    if ("error" in loaded) return loaded.error;
+
+    const codeCadastre = commune.codeCadastre ?? commune.code;
+    for (const f of featuresInBBox(loaded.geojson.features, bbox)) {
+      const id = f.properties?.id ?? null;
+      // Fichier département : ne garder que la commune courante
+      if (id && (!String(id).startsWith(codeCadastre) || seen.has(id))) continue;
+      if (id) seen.add(id);
+      parcels.push(parcelFromEtalabFeature(f, commune));
     }
-  } else {
-    return null;
   }
 
-  if (count === 0) return null;
-  return [sumX / count, sumY / count];
+  const items = await buildMultiItems(parcels.slice(0, limit), include_plu);
+
+  return parcelsResponse("bbox", communes, items, {
+    single: false,
+    truncated: parcels.length > limit,
+    total: parcels.length,
+    bbox,
+  });
 }
 
-function pickNearestParcel(
-  geojson: any,
-  lat: number,
-  lon: number,
-  commune: EtalabCommune,
-): EtalabParcel | null {
-  let bestFeature: any = null;
-  let bestDist2 = Number.POSITIVE_INFINITY;
-
-  for (const f of geojson.features) {
-    if (!f || !f.geometry) continue;
-    const centroid = approxCentroid(f.geometry);
-    if (!centroid) continue;
-
-    const cx = centroid[0];
-    const cy = centroid[1];
-    const dx = lon - cx;
-    const dy = lat - cy;
-    const dist2 = dx * dx + dy * dy;
-
-    if (dist2 < bestDist2) {
-      bestDist2 = dist2;
-      bestFeature = f;
-    }
+// =================================================
+// Handler : MODE SECTION
+// =================================================
+async function handleSection(body: CadastreLiteRequest): Promise<Response> {
+  const { include_plu = false } = body;
+  const codeCommune = String(body.code_commune ?? "").trim().toUpperCase();
+  const section = String(body.section ?? "").trim().toUpperCase()
+    .padStart(2, "0");
+  const prefixe = body.prefixe
+    ? String(body.prefixe).trim().padStart(3, "0")
+    : null;
+
+  if (!isValidCodeCommune(codeCommune) || !/^[0-9A-Z]{2}$/.test(section)) {
+    return jsonResponse(
+      {
+        success: false,
+        error: "INVALID_SECTION",
+        details: "code_commune (5 caractères) et section (1-2 caractères) requis.",
+      },
+      400,
+    );
   }
 
-  if (!bestFeature) {
-    console.warn(
-      "⚠️ pickNearestParcel: aucune parcelle trouvée proche du point",
+  const commune = await getCommuneFromCode(codeCommune);
+
+  const loaded = await loadCommuneParcels(commune);
+  if ("error" in loaded) return loaded.error;
+
+  const parcels = (loaded.geojson.features as any[])
+    .filter((f) => {
+      const id = String(f?.properties?.id ?? "");
+      if (!id.startsWith(codeCommune)) return false;
+      // IDU : préfixe en 6-8, section en 9-10
+      if (id.slice(8, 10) !== section) return false;
+      return prefixe ? id.slice(5, 8) === prefixe : true;
+    })
+    .map((f) => parcelFromEtalabFeature(f, commune));
+
+  if (parcels.length === 0) {
+    return jsonResponse(
+      { success: false, error: "NO_PARCEL_FOUND", commune, section, prefixe },
+      404,
     );
-    return null;
   }
 
-  const props = bestFeature.properties ?? {};
-
-  const id =
-    props.id ??
-    props.id_parcelle ??
-    props.numero_parcelle ??
-    null;
-
-  const section =
-    props.section ??
-    props.prefixe_section ??
-    null;
-
-  const numero =
-    props.numero ??
-    props.numero_parcelle ??
-    null;
-
-  const surface =
-    (typeof props.contenance === "number"
-      ? props.contenance
-      : Number(props.contenance)) ||
-    (typeof props.surface === "number"
-      ? props.surface
-      : Number(props.surface)) ||
-    null;
-
-  const parcel: EtalabParcel = {
-    id,
-    code_commune: commune.code, // on garde le code normalisé pour Mimmoza
-    nom_commune: commune.nom,
+  const limit = multiLimit(body.limit);
+  const items = await buildMultiItems(parcels.slice(0, limit), include_plu);
+
+  return parcelsResponse("section", commune, items, {
+    single: false,
+    truncated: parcels.length > limit,
+    total: parcels.length,
     section,
-    numero,
-    surface_m2: surface,
-    geometry: bestFeature.geometry,
-  };
+    prefixe,
+  });
+}
 
-  console.log("✅ Parcelle choisie (Etalab):", parcel.id);
-  return parcel;
+// =================================================
+// JSON helper
+// =================================================
+function jsonResponse(body: any, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
 }
 
 // =================================================
@@ -0,0 +1,728 @@
+// supabase/functions/division-parcellaire-v1/index.ts
+// Version : division-parcellaire-v1
+//
+// Objectif :
+//  - Entrée : parcel_id (ou geometry) + commune / zone PLU (+ plu_overrides)
+//  - Étapes :
+//      1) Géométrie de la parcelle (cadastre_parcelles) + limites sur rue
+//      2) Propositions de lignes de division :
+//           - "cote_a_cote" : lots juxtaposés, chacun avec façade sur rue
+//           - "drapeau"     : lot de fond desservi par une bande d'accès
+//      3) Contrôle de chaque lot : façade, largeur d'accès
+//         (voirie_acces.largeur_min_acces_m), emprise, pleine terre
+//      4) Valeur du lot détaché via DVF (ventes de terrains comparables)
+//  - Sortie : { success, version, inputs, parcel, regles, propositions, dvf_info }
+//
+// Dépendances :
+//  - @supabase/supabase-js v2
+//  - ../_shared/cors.ts, geo.ts, envelope.ts, cadastre.ts, ruleset.ts (PLU normalisé), dvf.ts
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { fetchNeighbourGeometries } from "../_shared/cadastre.ts";
+import { estimateFoncierFromComparables } from "../_shared/dvf.ts";
+import {
+  classifyParcelEdges,
+  computeBuildableEnvelope,
+} from "../_shared/envelope.ts";
+import {
+  centroid,
+  differenceGeometries,
+  geodesicAreaM2,
+  intersectGeometries,
+  mapPositions,
+  pointInPolygon,
+  type PolygonGeometry,
+  polygonsOf,
+  type Position,
+  unionGeometries,
+} from "../_shared/geo.ts";
+import {
+  fetchNormalizedRuleset,
+  normaliseRuleset,
+  type PluRuleset,
+  setbacksFromRuleset,
+} from "../_shared/ruleset.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+type TypeDivision = "cote_a_cote" | "drapeau";
+
+interface DivisionOptions {
+  // Nombre de lots pour la division "cote_a_cote" (défaut 2)
+  nb_lots?: number;
+  // Surface visée pour le lot de fond en "drapeau" (défaut : moitié du terrain)
+  surface_lot_detache_m2?: number | null;
+  // Façade minimale sur rue par lot (défaut : largeur_min_acces_m du PLU)
+  facade_min_m?: number | null;
+  // Largeur de la bande d'accès en "drapeau" (défaut : largeur_min_acces_m, sinon 3,5 m)
+  largeur_acces_m?: number | null;
+  cote_acces?: "gauche" | "droite";
+  // Emprise au sol minimale pour qu'un lot soit jugé constructible
+  // (sert aussi au contrôle de pleine terre des lots détachés)
+  emprise_min_constructible_m2?: number;
+  // Maison existante conservée sur le lot 1 (sur rue)
+  emprise_bati_existant_m2?: number | null;
+}
+
+interface DivisionRequest {
+  parcel_id?: string;
+  geometry?: any;
+  // Point sur la voirie (adresse géocodée), utile si le voisinage est indisponible
+  lat?: number;
+  lon?: number;
+  plu: { commune_insee: string; zone_code: string };
+  plu_overrides?: {
+    source?: Record<string, unknown>;
+    // Schéma PluRuleset, PLURulesetV2 ou ligne plu_rulesets (cf. normaliseRuleset)
+    ruleset: PluRuleset | Record<string, unknown>;
+  } | null;
+  types?: TypeDivision[];
+  options?: DivisionOptions;
+}
+
+type XY = [number, number];
+
+// Repère lié à la façade principale : s le long de la rue, d en profondeur
+type FrontFrame = {
+  toFrame: (p: XY) => XY;
+  fromFrame: (s: number, d: number) => XY;
+  longueur_facade_m: number;
+  smin: number;
+  smax: number;
+  dmin: number;
+  dmax: number;
+};
+
+const DEFAULT_LARGEUR_ACCES_M = 3.5;
+const DEFAULT_EMPRISE_MIN_CONSTRUCTIBLE_M2 = 40;
+const MAX_LOTS = 6;
+const BISECTION_STEPS = 40;
+
+// -------------------------------------------------
+// Helpers
+// -------------------------------------------------
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function safeNumber(value: unknown, fallback: number | null = null): number | null {
+  if (value === null || value === undefined) return fallback;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function round(value: number | null, decimals = 0): number | null {
+  if (value == null || !Number.isFinite(value)) return null;
+  return Math.round(value * 10 ** decimals) / 10 ** decimals;
+}
+
+/**
+ * Aire plane (m²) d'une géométrie en coordonnées métriques locales.
+ */
+function planarArea(geometry: any): number {
+  let area = 0;
+  for (const poly of polygonsOf(geometry)) {
+    poly.forEach((ring, k) => {
+      let a = 0;
+      for (let i = 1; i < ring.length; i++) {
+        a += ring[i - 1][0] * ring[i][1] - ring[i][0] * ring[i - 1][1];
+      }
+      area += (k === 0 ? 1 : -1) * Math.abs(a / 2);
+    });
+  }
+  return Math.max(0, area);
+}
+
+/**
+ * Plus petit t de [lo, hi] tel que f(t) atteint target (f monotone).
+ */
+function bisect(
+  f: (t: number) => number,
+  target: number,
+  lo: number,
+  hi: number,
+  increasing: boolean,
+): number {
+  for (let i = 0; i < BISECTION_STEPS; i++) {
+    const mid = (lo + hi) / 2;
+    const below = increasing ? f(mid) < target : f(mid) > target;
+    if (below) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+// -------------------------------------------------
+// Chargement parcelle + PLU
+// -------------------------------------------------
+
+async function fetchParcelGeometry(parcelId: string): Promise<any | null> {
+  const { data, error } = await supabase
+    .from("cadastre_parcelles")
+    .select("*")
+    .eq("id", parcelId)
+    .maybeSingle();
+
+  if (error || !data) return null;
+
+  const geom = (data as any).geom ?? (data as any).geometry ?? null;
+  return geom && typeof geom === "object" ? geom : null;
+}
+
+// -------------------------------------------------
+// Géométrie de la division (repère façade)
+// -------------------------------------------------
+
+function buildFrontFrame(
+  parcelM: PolygonGeometry,
+  front: { a: XY; b: XY; length: number; normal: XY },
+): FrontFrame {
+  const ux = (front.b[0] - front.a[0]) / front.length;
+  const uy = (front.b[1] - front.a[1]) / front.length;
+  // Profondeur comptée vers l'intérieur de la parcelle
+  const vx = -front.normal[0];
+  const vy = -front.normal[1];
+
+  const toFrame = ([x, y]: XY): XY => {
+    const dx = x - front.a[0];
+    const dy = y - front.a[1];
+    return [dx * ux + dy * uy, dx * vx + dy * vy];
+  };
+
+  const fromFrame = (s: number, d: number): XY => [
+    front.a[0] + s * ux + d * vx,
+    front.a[1] + s * uy + d * vy,
+  ];
+
+  let smin = Infinity;
+  let smax = -Infinity;
+  let dmin = Infinity;
+  let dmax = -Infinity;
+  for (const poly of polygonsOf(parcelM)) {
+    for (const p of poly[0] ?? []) {
+      const [s, d] = toFrame(p as XY);
+      smin = Math.min(smin, s);
+      smax = Math.max(smax, s);
+      dmin = Math.min(dmin, d);
+      dmax = Math.max(dmax, d);
+    }
+  }
+
+  return {
+    toFrame,
+    fromFrame,
+    longueur_facade_m: front.length,
+    smin,
+    smax,
+    dmin,
+    dmax,
+  };
+}
+
+function frameRect(
+  frame: FrontFrame,
+  s0: number,
+  s1: number,
+  d0: number,
+  d1: number,
+): PolygonGeometry {
+  const ring = [
+    frame.fromFrame(s0, d0),
+    frame.fromFrame(s1, d0),
+    frame.fromFrame(s1, d1),
+    frame.fromFrame(s0, d1),
+    frame.fromFrame(s0, d0),
+  ];
+  return { type: "Polygon", coordinates: [ring] };
+}
+
+/**
+ * Lots juxtaposés le long de la rue, de surfaces égales.
+ */
+function splitCoteACote(
+  parcelM: PolygonGeometry,
+  frame: FrontFrame,
+  nbLots: number,
+): { lots: PolygonGeometry[]; lignes: XY[][] } {
+  const total = planarArea(parcelM);
+  const { smin, smax, dmin, dmax } = frame;
+
+  const leftOf = (t: number) =>
+    intersectGeometries(parcelM, frameRect(frame, smin - 1, t, dmin - 1, dmax + 1));
+
+  const cuts: number[] = [];
+  for (let k = 1; k < nbLots; k++) {
+    cuts.push(
+      bisect((t) => planarArea(leftOf(t)), (total * k) / nbLots, smin, smax, true),
+    );
+  }
+
+  const bounds = [smin - 1, ...cuts, smax + 1];
+  const lots: PolygonGeometry[] = [];
+  for (let k = 0; k < nbLots; k++) {
+    const lot = intersectGeometries(
+      parcelM,
+      frameRect(frame, bounds[k], bounds[k + 1], dmin - 1, dmax + 1),
+    );
+    if (lot) lots.push(lot);
+  }
+
+  return {
+    lots,
+    lignes: cuts.map((t) => [frame.fromFrame(t, dmin), frame.fromFrame(t, dmax)]),
+  };
+}
+
+/**
+ * Lot de fond (drapeau) relié à la rue par une bande d'accès le long
+ * d'une limite latérale. Le lot 1 (sur rue) conserve le reste.
+ */
+function splitDrapeau(
+  parcelM: PolygonGeometry,
+  frame: FrontFrame,
+  surfaceFondM2: number,
+  largeurAccesM: number,
+  cote: "gauche" | "droite",
+): {
+  lots: PolygonGeometry[];
+  lignes: XY[][];
+  bande_acces_m: number;
+  surface_acces_m2: number;
+} | null {
+  const { smin, smax, dmin, dmax } = frame;
+  const [b0, b1] = cote === "gauche"
+    ? [0, largeurAccesM]
+    : [frame.longueur_facade_m - largeurAccesM, frame.longueur_facade_m];
+
+  const fondFrom = (t: number) =>
+    unionGeometries([
+      intersectGeometries(parcelM, frameRect(frame, smin - 1, smax + 1, t, dmax + 1)),
+      intersectGeometries(parcelM, frameRect(frame, b0, b1, dmin - 1, t)),
+    ].filter(Boolean));
+
+  // La bande seule dépasse déjà la surface visée : division impossible
+  if (planarArea(fondFrom(dmax)) >= surfaceFondM2) return null;
+
+  const t = bisect(
+    (x) => planarArea(fondFrom(x)),
+    surfaceFondM2,
+    dmin,
+    dmax,
+    false,
+  );
+
+  const fond = fondFrom(t);
+  const avant = fond ? differenceGeometries(parcelM, fond) : null;
+  if (!fond || !avant) return null;
+
+  const [innerS, outerS] = cote === "gauche" ? [b1, smax] : [b0, smin];
+
+  return {
+    lots: [avant, fond],
+    lignes: [[
+      frame.fromFrame(outerS, t),
+      frame.fromFrame(innerS, t),
+      frame.fromFrame(innerS, dmin),
+    ]],
+    bande_acces_m: largeurAccesM,
+    // Partie du lot de fond occupée par la bande (imperméabilisée)
+    surface_acces_m2: planarArea(
+      intersectGeometries(fond, frameRect(frame, b0, b1, dmin - 1, t)),
+    ),
+  };
+}
+
+// -------------------------------------------------
+// Contrôle d'un lot
+// -------------------------------------------------
+
+type LotContext = {
+  ruleset: PluRuleset | null;
+  inverse: (xy: XY) => Position;
+  rueSegmentsM: [XY, XY][];
+  rueSegments: [Position, Position][];
+  facadeMinM: number | null;
+  largeurMinAccesM: number | null;
+  empriseMinM2: number;
+  empriseBatiExistantM2: number | null;
+  prixTerrainM2: number | null;
+};
+
+function lengthOnRue(lotM: PolygonGeometry, rueSegmentsM: [XY, XY][]): number {
+  let total = 0;
+
+  for (const poly of polygonsOf(lotM)) {
+    const ring = poly[0] ?? [];
+    for (let i = 1; i < ring.length; i++) {
+      const a = ring[i - 1] as XY;
+      const b = ring[i] as XY;
+      const mid: XY = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+      const onRue = rueSegmentsM.some(([p, q]) => {
+        const dx = q[0] - p[0];
+        const dy = q[1] - p[1];
+        const len2 = dx * dx + dy * dy;
+        let t = len2 > 0 ? ((mid[0] - p[0]) * dx + (mid[1] - p[1]) * dy) / len2 : 0;
+        t = Math.max(0, Math.min(1, t));
+        return Math.hypot(mid[0] - (p[0] + t * dx), mid[1] - (p[1] + t * dy)) < 0.1;
+      });
+      if (onRue) total += Math.hypot(b[0] - a[0], b[1] - a[1]);
+    }
+  }
+
+  return total;
+}
+
+function evaluateLot(
+  lotM: PolygonGeometry,
+  index: number,
+  ctx: LotContext,
+  bandeAcces: { largeur_m: number; surface_m2: number } | null,
+) {
+  const lot = mapPositions(lotM, (xy) => ctx.inverse(xy as XY))!;
+  const surface = geodesicAreaM2(lot);
+  const facade = lengthOnRue(lotM, ctx.rueSegmentsM);
+  const acces = bandeAcces?.largeur_m ?? facade;
+  const surfaceAcces = bandeAcces?.surface_m2 ?? 0;
+
+  const ratio = safeNumber(ctx.ruleset?.emprise_sol?.max_ratio, null);
+  const maxM2 = safeNumber(ctx.ruleset?.emprise_sol?.max_m2, null);
+  const pleineTerreMin = safeNumber(ctx.ruleset?.pleine_terre?.ratio_min, null);
+
+  const plafonds = [
+    ratio != null ? surface * ratio : null,
+    maxM2,
+    pleineTerreMin != null ? surface * (1 - pleineTerreMin) - surfaceAcces : null,
+  ].filter((x): x is number => x != null);
+  const empriseMaxReglementaire = plafonds.length ? Math.min(...plafonds) : surface;
+
+  const conserveBati = index === 0 && ctx.empriseBatiExistantM2 != null;
+
+  const enveloppe = computeBuildableEnvelope(lot, setbacksFromRuleset(ctx.ruleset), {
+    rue_segments: ctx.rueSegments,
+  });
+  const empriseConstructible = Math.min(
+    empriseMaxReglementaire,
+    enveloppe?.surface_m2 ?? surface,
+  );
+
+  // Pleine terre restante : bâti conservé, ou construction minimale du lot
+  // détaché, plus la bande d'accès
+  const empriseRetenue = conserveBati
+    ? ctx.empriseBatiExistantM2!
+    : Math.min(ctx.empriseMinM2, Math.max(empriseConstructible, 0));
+  const pleineTerreRatio = surface > 0
+    ? Math.max(surface - empriseRetenue - surfaceAcces, 0) / surface
+    : null;
+
+  const controles: Record<string, boolean | null> = {
+    facade: ctx.facadeMinM != null ? facade >= ctx.facadeMinM : null,
+    acces: ctx.largeurMinAccesM != null ? acces >= ctx.largeurMinAccesM : null,
+    emprise: conserveBati
+      ? ctx.empriseBatiExistantM2! <=
+        Math.min(ratio != null ? surface * ratio : Infinity, maxM2 ?? Infinity)
+      : empriseConstructible >= ctx.empriseMinM2,
+    pleine_terre: pleineTerreMin == null || pleineTerreRatio == null
+      ? null
+      : pleineTerreRatio >= pleineTerreMin,
+  };
+
+  // Un lot d'accès en drapeau n'a pas besoin de la façade minimale complète
+  if (bandeAcces != null) controles.facade = null;
+
+  const conforme = Object.values(controles).every((v) => v !== false);
+
+  return {
+    lot: index + 1,
+    role: conserveBati ? "bati_conserve" : "lot_detache",
+    surface_m2: round(surface, 1),
+    facade_rue_m: round(facade, 2),
+    largeur_acces_m: round(acces, 2),
+    emprise_max_reglementaire_m2: round(empriseMaxReglementaire, 1),
+    emprise_enveloppe_m2: round(enveloppe?.surface_m2 ?? null, 1),
+    emprise_constructible_m2: conserveBati ? null : round(empriseConstructible, 1),
+    emprise_bati_existant_m2: conserveBati ? ctx.empriseBatiExistantM2 : null,
+    surface_acces_m2: bandeAcces ? round(surfaceAcces, 1) : null,
+    pleine_terre_ratio: round(pleineTerreRatio, 3),
+    controles,
+    conforme,
+    valeur_estimee:
+      !conserveBati && ctx.prixTerrainM2 != null
+        ? round(surface * ctx.prixTerrainM2, -2)
+        : null,
+    geometry: lot,
+    footprint_geojson: enveloppe?.footprint ?? null,
+  };
+}
+
+// -------------------------------------------------
+// Handler principal HTTP
+// -------------------------------------------------
+
+serve(async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse(
+        { success: false, error: "Méthode non autorisée (POST uniquement)." },
+        405,
+      );
+    }
+
+    const body = (await req.json()) as DivisionRequest;
+
+    if ((!body?.parcel_id && !body?.geometry) || !body?.plu) {
+      return jsonResponse(
+        {
+          success: false,
+          error:
+            "Champs requis manquants : parcel_id (ou geometry) et plu sont obligatoires.",
+        },
+        400,
+      );
+    }
+
+    const options = body.options ?? {};
+    const types: TypeDivision[] = body.types?.length
+      ? body.types
+      : ["cote_a_cote", "drapeau"];
+
+    // 1) Géométrie
+    const geometry = body.geometry ??
+      (body.parcel_id ? await fetchParcelGeometry(body.parcel_id) : null);
+
+    if (!geometry || !polygonsOf(geometry).length) {
+      return jsonResponse(
+        {
+          success: false,
+          error:
+            "Géométrie de la parcelle introuvable : fournissez geometry ou un parcel_id présent dans cadastre_parcelles.",
+          details: { parcel_id: body.parcel_id ?? null },
+        },
+        400,
+      );
+    }
+
+    // 2) PLU
+    const fromDb = await fetchNormalizedRuleset(supabase, body.plu);
+    const ruleset = normaliseRuleset(body.plu_overrides?.ruleset) ?? fromDb.ruleset;
+
+    if (!ruleset) {
+      return jsonResponse(
+        {
+          success: false,
+          error:
+            "Aucun PLU normalisé trouvé pour cette commune / zone et aucun plu_overrides fourni.",
+          details: body.plu,
+        },
+        404,
+      );
+    }
+
+    // 3) Limites sur rue de la parcelle mère
+    const neighbours = body.parcel_id
+      ? await fetchNeighbourGeometries([body.parcel_id], geometry)
+      : [];
+
+    const lat = safeNumber(body.lat, null);
+    const lon = safeNumber(body.lon, null);
+    const voiriePoint: Position | null =
+      lat != null && lon != null && !pointInPolygon([lon, lat], geometry)
+        ? [lon, lat]
+        : null;
+
+    const classified = classifyParcelEdges(geometry, {
+      neighbours,
+      voirie_point: voiriePoint,
+    });
+    if (!classified) {
+      return jsonResponse(
+        { success: false, error: "Géométrie de parcelle invalide." },
+        400,
+      );
+    }
+
+    const rueEdges = classified.edges.filter((e) => e.role === "rue");
+    // Sans rue détectée, on suppose la plus longue limite sur rue
+    const front = (rueEdges.length ? rueEdges : classified.edges)
+      .reduce((best, e) => (e.length > best.length ? e : best));
+    const rueSegmentsM: [XY, XY][] = rueEdges.length
+      ? rueEdges.map((e) => [e.a, e.b])
+      : [[front.a, front.b]];
+
+    const parcelM = mapPositions(geometry, (p) => classified.forward(p))!;
+    const frame = buildFrontFrame(parcelM, front);
+    const surfaceTotale = geodesicAreaM2(geometry);
+
+    // 4) Règles & DVF
+    const largeurMinAccesM = safeNumber(
+      ruleset.voirie_acces?.largeur_min_acces_m,
+      null,
+    );
+    const facadeMinM = safeNumber(options.facade_min_m, null) ?? largeurMinAccesM;
+
+    const centre = centroid(geometry);
+    const dvf = centre
+      ? await estimateFoncierFromComparables(supabase, {
+        lon: centre[0],
+        lat: centre[1],
+        surface_terrain_m2: surfaceTotale,
+      })
+      : null;
+    const prixTerrainM2 = dvf?.prix_m2_terrain ?? null;
+
+    const ctx: LotContext = {
+      ruleset,
+      inverse: classified.inverse,
+      rueSegmentsM,
+      rueSegments: rueSegmentsM.map(([a, b]) => [
+        classified.inverse(a),
+        classified.inverse(b),
+      ]),
+      facadeMinM,
+      largeurMinAccesM,
+      empriseMinM2: safeNumber(options.emprise_min_constructible_m2, null) ??
+        DEFAULT_EMPRISE_MIN_CONSTRUCTIBLE_M2,
+      empriseBatiExistantM2: safeNumber(options.emprise_bati_existant_m2, null),
+      prixTerrainM2,
+    };
+
+    const toLine = (pts: XY[]) => ({
+      type: "LineString",
+      coordinates: pts.map((p) => classified.inverse(p)),
+    });
+
+    // 5) Propositions
+    const propositions: any[] = [];
+
+    if (types.includes("cote_a_cote")) {
+      const nbLots = Math.min(
+        MAX_LOTS,
+        Math.max(2, Math.floor(safeNumber(options.nb_lots, 2) ?? 2)),
+      );
+      const { lots, lignes } = splitCoteACote(parcelM, frame, nbLots);
+
+      const lotsEval = lots.map((lot, i) =>
+        evaluateLot(lot, i, ctx, null)
+      );
+
+      propositions.push({
+        type: "cote_a_cote",
+        nb_lots: lotsEval.length,
+        lignes_division: lignes.map(toLine),
+        lots: lotsEval,
+        conforme: lotsEval.every((l) => l.conforme),
+      });
+    }
+
+    if (types.includes("drapeau")) {
+      const largeurAcces = safeNumber(options.largeur_acces_m, null) ??
+        largeurMinAccesM ?? DEFAULT_LARGEUR_ACCES_M;
+      const surfaceFond =
+        safeNumber(options.surface_lot_detache_m2, null) ?? surfaceTotale / 2;
+
+      const split = splitDrapeau(
+        parcelM,
+        frame,
+        surfaceFond,
+        largeurAcces,
+        options.cote_acces === "droite" ? "droite" : "gauche",
+      );
+
+      if (split) {
+        const lotsEval = split.lots.map((lot, i) =>
+          evaluateLot(
+            lot,
+            i,
+            ctx,
+            i === 1
+              ? { largeur_m: split.bande_acces_m, surface_m2: split.surface_acces_m2 }
+              : null,
+          )
+        );
+
+        propositions.push({
+          type: "drapeau",
+          nb_lots: 2,
+          bande_acces_m: split.bande_acces_m,
+          lignes_division: split.lignes.map(toLine),
+          lots: lotsEval,
+          conforme: lotsEval.every((l) => l.conforme),
+        });
+      } else {
+        propositions.push({
+          type: "drapeau",
+          nb_lots: 2,
+          conforme: false,
+          raison:
+            "La bande d'accès seule dépasse la surface visée pour le lot détaché.",
+          lots: [],
+        });
+      }
+    }
+
+    return jsonResponse({
+      success: true,
+      version: "division-parcellaire-v1",
+      inputs: {
+        parcel_id: body.parcel_id ?? null,
+        plu: body.plu,
+        types,
+        options,
+      },
+      parcel: {
+        surface_geometrie_m2: round(surfaceTotale, 1),
+        detection_rue: rueEdges.length ? classified.detection : "aucune",
+        facade_principale_m: round(front.length, 2),
+        geometry,
+      },
+      regles: {
+        source: body.plu_overrides ? "override" : fromDb.meta,
+        emprise_max_ratio: ruleset.emprise_sol?.max_ratio ?? null,
+        emprise_max_m2: ruleset.emprise_sol?.max_m2 ?? null,
+        pleine_terre_ratio_min: ruleset.pleine_terre?.ratio_min ?? null,
+        largeur_min_acces_m: largeurMinAccesM,
+        facade_min_m: facadeMinM,
+        retraits: setbacksFromRuleset(ruleset),
+      },
+      propositions,
+      dvf_info: dvf
+        ? {
+          source: "dvf_comparables",
+          ...dvf.meta,
+          prix_terrain_m2: prixTerrainM2,
+          confiance: dvf.confiance,
+          criteres: dvf.criteres,
+          comparables: dvf.comparables,
+        }
+        : { source: "dvf_comparables", reason: "no_location" },
+    });
+  } catch (err) {
+    console.error("Erreur division-parcellaire-v1:", err);
+    return jsonResponse(
+      {
+        success: false,
+        error: "Erreur interne division-parcellaire-v1",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      500,
+    );
+  }
+});
@@ -4,6 +4,11 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
+import {
+  checkSurfaceAgainstGeometry,
+  geometryMetrics,
+} from "../_shared/geo.ts";
+import { parcelIdFromRequest } from "../_shared/idu.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get(
@@ -34,14 +39,23 @@ serve(async (req: Request) => {
     }
 
     const body = await req.json().catch(() => null);
-    if (!body || !body.parcel_id) {
+    if (!body) {
       return jsonResponse(
         { success: false, error: "Missing field: parcel_id" },
         400
       );
     }
 
-    const parcel_id = body.parcel_id;
+    // parcel_id / id / idu, ou code_commune + section + numero → IDU normalisé
+    const parsed = parcelIdFromRequest(body);
+    if (!parsed.ok) {
+      return jsonResponse(
+        { success: false, error: "Invalid parcel_id", details: parsed.error },
+        400
+      );
+    }
+
+    const parcel_id = parsed.parts.idu;
 
     // 1️⃣ Rechercher la parcelle dans ta table cadastre_parcelles
     // On vérifie que id == parcel_id
@@ -72,10 +86,20 @@ serve(async (req: Request) => {
         ? Number(data.props.contenance)
         : null;
 
+    // 3️⃣ Mesures géométriques (si geom est du GeoJSON) + contrôle de surface
+    const geometry = data.geom && typeof data.geom === "object"
+      ? data.geom
+      : null;
+
     const parcel = {
       parcel_id: data.id,
+      parcel_id_parts: parsed.parts,
       surface_terrain_m2: surface,
       geometry: data.geom ?? null,
+      geometry_metrics: geometry ? geometryMetrics(geometry) : null,
+      surface_check: geometry
+        ? checkSurfaceAgainstGeometry(surface, geometry)
+        : null,
     };
 
     return jsonResponse(
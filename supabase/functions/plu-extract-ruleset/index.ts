@@ -3,17 +3,39 @@
 //
 // Objectif :
 //  - Entrée : texte brut du règlement d’une ZONE de PLU (UC, UG, etc.)
-//  - Sortie : JSON normalisé PLURulesetV2, enrichi si possible par des heuristiques
-//  - Optionnel : enregistre dans la table plu_rulesets
+//  - Sortie : JSON normalisé PLURulesetV2, enrichi si possible par des heuristiques,
+//    validé (types, bornes, unités) avec réparation bornée par le modèle
+//  - Optionnel : enregistre dans la table plu_rulesets (si conforme, ou force_save),
+//    comme brouillon à relire (plu-ruleset-review) sans toucher au ruleset approuvé
 //
 // Dépendances :
 //  - @supabase/supabase-js v2
 //  - ../_shared/cors.ts
+//  - ../_shared/plu-validation.ts
+//  - ../_shared/plu-provenance.ts
+//  - ../_shared/plu-review.ts
 //  - Variable d'env OPENAI_API_KEY
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
+import {
+  buildRepairPrompt,
+  MAX_REPARATIONS_DEFAUT,
+  PLU_RULESET_V2_SCHEMA,
+  type RapportValidation,
+  validateWithRepair,
+} from "../_shared/plu-validation.ts";
+import {
+  buildProvenance,
+  type ChunkSource,
+  chunksFromText,
+  CLE_PROVENANCE,
+  excerptAround,
+  type TraceHeuristique,
+  withProvenance,
+} from "../_shared/plu-provenance.ts";
+import { saveExtractedRulesets } from "../_shared/plu-review.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
@@ -43,7 +65,13 @@ type PluExtractInput = {
   source_label?: string;
   source_type?: string;
   zone_text: string;
+  // Source plu_text_chunks du texte (provenance : chunk / page de chaque valeur)
+  source_id?: string | null;
   save_to_db?: boolean;
+  // Enregistre même si le ruleset reste non conforme après réparation
+  force_save?: boolean;
+  // Allers-retours de réparation avec le modèle (défaut 2, max 3)
+  max_repair_attempts?: number;
 };
 
 type JsonValue =
@@ -59,6 +87,7 @@ type PluExtractResponse = {
   version: string;
   inputs?: PluExtractInput;
   ruleset?: JsonValue;
+  validation?: RapportValidation;
   db?: {
     saved: boolean;
     record_id?: string;
@@ -170,6 +199,15 @@ type PLURulesetV2 = {
     };
     notes_generales?: string | null;
   };
+
+  // Une entrée par champ numérique renseigné (clé = chemin, ex : "hauteurs.h_max_egout_m")
+  provenance: {
+    [chemin: string]: {
+      extrait: string;          // citation EXACTE du texte, 300 caractères max
+      article?: string | null;  // ex : "UC10"
+      confiance: number;        // 0 à 1
+    };
+  };
 };
 
 CONSIGNES IMPORTANTES :
@@ -178,6 +216,7 @@ CONSIGNES IMPORTANTES :
 - Pour les champs numériques, utilise des nombres (ex: 0.4) et pas des chaînes.
 - Si une information n’est pas présente, mets null ou un tableau vide selon le type.
 - Tu peux choisir librement les clés de brut.articles, par exemple "UC1", "Art 1", "Article 1", etc.
+- Pour chaque champ numérique non null, ajoute dans provenance la phrase du texte qui le justifie, recopiée mot pour mot.
 - Ne mets AUCUNE explication en dehors du JSON.
 `;
 
@@ -207,8 +246,22 @@ Tâche :
 // Heuristiques locales (style plu-extract-article-v1)
 // -------------------------------------------------
 
+// Valeur trouvée + phrase du texte qui la porte (provenance)
+type HeuristicMatch = { value: number; extrait: string };
+
+function heuristicMatch(
+  text: string,
+  match: RegExpExecArray | RegExpMatchArray,
+  value: number,
+): HeuristicMatch {
+  return {
+    value,
+    extrait: excerptAround(text, match.index ?? 0, match[0].length),
+  };
+}
+
 // 1) Emprise max (40% → 0.4)
-function parseEmpriseMaxRatioFromText(text: string): number | null {
+function parseEmpriseMaxRatioFromText(text: string): HeuristicMatch | null {
   const regex = /(\d+(?:[.,]\d+)?)\s*%/;
   const match = text.match(regex);
   if (!match) return null;
@@ -217,11 +270,11 @@ function parseEmpriseMaxRatioFromText(text: string): number | null {
   const value = Number(raw);
   if (isNaN(value)) return null;
 
-  return value / 100;
+  return heuristicMatch(text, match, value / 100);
 }
 
 // 2) Hauteur max (en m) – on cible les mentions avec “hauteur”, “à l’égout du toit”, etc.
-function parseHauteurMaxFromText(text: string): number | null {
+function parseHauteurMaxFromText(text: string): HeuristicMatch | null {
   // Cherche un pattern du type "7 mètres" ou "9 m" proche de "hauteur" ou "égout du toit"
   const regex =
     /hauteur[^.]{0,80}?(\d+(?:[.,]\d+)?)\s*m(?:è|e)?tres?|(\d+(?:[.,]\d+)?)\s*m(?:è|e)?tres?[^.]{0,80}?égout du toit/gi;
@@ -231,7 +284,7 @@ function parseHauteurMaxFromText(text: string): number | null {
     const numStr = (match[1] ?? match[2])?.toString().replace(",", ".");
     if (!numStr) continue;
     const value = Number(numStr);
-    if (!isNaN(value)) return value;
+    if (!isNaN(value)) return heuristicMatch(text, match, value);
   }
 
   // fallback très simple : premier "nombre m" dans le texte
@@ -239,14 +292,14 @@ function parseHauteurMaxFromText(text: string): number | null {
   if (simple) {
     const raw = simple[1].replace(",", ".");
     const value = Number(raw);
-    if (!isNaN(value)) return value;
+    if (!isNaN(value)) return heuristicMatch(text, simple, value);
   }
 
   return null;
 }
 
 // 3) Pleine terre (ratio en %) – on cible les phrases contenant "pleine terre" ou "espaces verts"
-function parsePleineTerreRatioFromText(text: string): number | null {
+function parsePleineTerreRatioFromText(text: string): HeuristicMatch | null {
   const regex =
     /(\d+(?:[.,]\d+)?)\s*%[^.]{0,80}?(pleine terre|espaces verts|espaces plantés)/i;
   const match = regex.exec(text);
@@ -256,11 +309,11 @@ function parsePleineTerreRatioFromText(text: string): number | null {
   const value = Number(raw);
   if (isNaN(value)) return null;
 
-  return value / 100;
+  return heuristicMatch(text, match, value / 100);
 }
 
 // 4) Stationnement logements – "X places par logement"
-function parsePlacesParLogementFromText(text: string): number | null {
+function parsePlacesParLogementFromText(text: string): HeuristicMatch | null {
   const regex =
     /(\d+(?:[.,]\d+)?)\s*(?:places?|pl\.)\s+par\s+logement/i;
   const match = regex.exec(text);
@@ -270,13 +323,15 @@ function parsePlacesParLogementFromText(text: string): number | null {
   const value = Number(raw);
   if (isNaN(value)) return null;
 
-  return value;
+  return heuristicMatch(text, match, value);
 }
 
 // Surcouche : enrichit le ruleset produit par OpenAI avec les heuristiques locales
+// (chaque champ renseigné est tracé dans `traces` pour la provenance)
 function enhanceRulesetWithHeuristics(
   ruleset: JsonValue,
   zoneText: string,
+  traces: TraceHeuristique[] = [],
 ): JsonValue {
   try {
     const obj = ruleset as any;
@@ -325,7 +380,12 @@ function enhanceRulesetWithHeuristics(
     ) {
       const ratio = parseEmpriseMaxRatioFromText(zoneText);
       if (ratio !== null) {
-        densite.emprise_max_ratio = ratio;
+        densite.emprise_max_ratio = ratio.value;
+        traces.push({
+          chemin: "densite_emprise.emprise_max_ratio",
+          extrait: ratio.extrait,
+          motif: "premier pourcentage du texte",
+        });
 
         const commentaireExist = densite.commentaires ?? "";
         const ajout =
@@ -344,7 +404,12 @@ function enhanceRulesetWithHeuristics(
     ) {
       const h = parseHauteurMaxFromText(zoneText);
       if (h !== null) {
-        hauteurs.h_max_egout_m = h;
+        hauteurs.h_max_egout_m = h.value;
+        traces.push({
+          chemin: "hauteurs.h_max_egout_m",
+          extrait: h.extrait,
+          motif: "hauteur en mètres proche de « hauteur » / « égout du toit »",
+        });
 
         const commentaireExist = hauteurs.commentaires ?? "";
         const ajout =
@@ -363,7 +428,12 @@ function enhanceRulesetWithHeuristics(
     ) {
       const ratioPT = parsePleineTerreRatioFromText(zoneText);
       if (ratioPT !== null) {
-        pleineTerre.ratio_min = ratioPT;
+        pleineTerre.ratio_min = ratioPT.value;
+        traces.push({
+          chemin: "pleine_terre.ratio_min",
+          extrait: ratioPT.extrait,
+          motif: "pourcentage suivi de « pleine terre » / « espaces verts »",
+        });
 
         const commentaireExist = pleineTerre.commentaire ?? "";
         const ajout =
@@ -391,7 +461,12 @@ function enhanceRulesetWithHeuristics(
     ) {
       const places = parsePlacesParLogementFromText(zoneText);
       if (places !== null) {
-        stationnement.logement.places_par_logement = places;
+        stationnement.logement.places_par_logement = places.value;
+        traces.push({
+          chemin: "stationnement.logement.places_par_logement",
+          extrait: places.extrait,
+          motif: "« X places par logement »",
+        });
 
         const commentaireExist = stationnement.commentaires ?? "";
         const ajout =
@@ -413,9 +488,9 @@ function enhanceRulesetWithHeuristics(
 // -------------------------------------------------
 // Appel OpenAI Chat Completions
 // -------------------------------------------------
-async function callOpenAIForRuleset(
-  input: PluExtractInput,
-): Promise<JsonValue> {
+type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+
+async function callOpenAIJson(messages: ChatMessage[]): Promise<JsonValue> {
   if (!OPENAI_API_KEY) {
     throw new Error(
       "OPENAI_API_KEY est manquant dans les variables d'environnement.",
@@ -425,13 +500,7 @@ async function callOpenAIForRuleset(
   const body = {
     model: OPENAI_MODEL,
     response_format: { type: "json_object" },
-    messages: [
-      { role: "system", content: SYSTEM_PROMPT },
-      {
-        role: "user",
-        content: buildUserPrompt(input),
-      },
-    ],
+    messages,
   };
 
   const response = await fetch("https://api.openai.com/v1/chat/completions", {
@@ -467,6 +536,56 @@ async function callOpenAIForRuleset(
   }
 }
 
+function buildMessages(input: PluExtractInput): ChatMessage[] {
+  return [
+    { role: "system", content: SYSTEM_PROMPT },
+    { role: "user", content: buildUserPrompt(input) },
+  ];
+}
+
+async function callOpenAIForRuleset(
+  input: PluExtractInput,
+): Promise<JsonValue> {
+  return await callOpenAIJson(buildMessages(input));
+}
+
+// Aller-retour de réparation : le modèle reçoit son JSON et les erreurs de validation
+async function repairRulesetWithOpenAI(
+  input: PluExtractInput,
+  precedent: unknown,
+  validation: RapportValidation,
+): Promise<JsonValue> {
+  return await callOpenAIJson([
+    ...buildMessages(input),
+    { role: "assistant", content: JSON.stringify(precedent) },
+    { role: "user", content: buildRepairPrompt(validation) },
+  ]);
+}
+
+// -------------------------------------------------
+// Chunks sources (provenance)
+// -------------------------------------------------
+
+// Chunks plu_text_chunks de la source si fournie, sinon blocs [PAGE n - …] du texte
+async function loadChunks(input: PluExtractInput): Promise<ChunkSource[]> {
+  if (input.source_id) {
+    const { data, error } = await supabase
+      .from("plu_text_chunks")
+      .select("id, source_id, page_number, section_label, raw_text")
+      .eq("source_id", input.source_id)
+      .or(`zone_code.is.null,zone_code.eq.${input.zone_code}`)
+      .order("page_number", { ascending: true });
+
+    if (error) {
+      console.error("Erreur lecture plu_text_chunks:", error);
+    } else if (data && data.length > 0) {
+      return data as ChunkSource[];
+    }
+  }
+
+  return chunksFromText(input.zone_text);
+}
+
 // -------------------------------------------------
 // Handler principal
 // -------------------------------------------------
@@ -507,7 +626,10 @@ serve(async (req) => {
       source_label,
       source_type,
       zone_text,
+      source_id,
       save_to_db,
+      force_save,
+      max_repair_attempts,
     } = body;
 
     if (!commune_insee || !commune_nom || !zone_code || !zone_text) {
@@ -533,45 +655,98 @@ serve(async (req) => {
       source_label: source_label ?? `PLU ${commune_nom} - Zone ${zone_code}`,
       source_type: (source_type as string) ?? "pdf_upload",
       zone_text,
+      source_id: source_id ?? null,
       save_to_db: save_to_db ?? false,
+      force_save: force_save ?? false,
+      max_repair_attempts: Number.isFinite(Number(max_repair_attempts))
+        ? Number(max_repair_attempts)
+        : MAX_REPARATIONS_DEFAUT,
     };
 
     // 1) Appel OpenAI → JSON PLURulesetV2
     const rulesetRaw = await callOpenAIForRuleset(input);
 
     // 2) Enrichissement local avec heuristiques (emprise, hauteurs, pleine terre, stationnement)
-    const ruleset = enhanceRulesetWithHeuristics(rulesetRaw, input.zone_text);
+    //    (traces de la dernière version retenue, pour la provenance)
+    let traces: TraceHeuristique[] = [];
+    const enrichir = (json: JsonValue) => {
+      traces = [];
+      return enhanceRulesetWithHeuristics(json, input.zone_text, traces);
+    };
+
+    // 3) Validation stricte, réparation par le modèle tant qu'il reste des erreurs
+    const { valeur, validation } = await validateWithRepair(
+      PLU_RULESET_V2_SCHEMA,
+      enrichir(rulesetRaw),
+      async (precedent, rapport) =>
+        enrichir(await repairRulesetWithOpenAI(input, precedent, rapport)),
+      input.max_repair_attempts,
+    );
+
+    // 3 bis) Provenance de chaque champ numérique (chunk, page, extrait, confiance)
+    const provenance = buildProvenance({
+      ruleset: valeur,
+      chunks: await loadChunks(input),
+      extracteur: "llm",
+      citations: (valeur as any)?.[CLE_PROVENANCE] ?? null,
+      heuristiques: traces,
+    });
+    const ruleset = withProvenance(valeur, provenance) as JsonValue;
 
     let dbInfo: PluExtractResponse["db"] = {
       saved: false,
     };
 
-    // 3) Optionnel : enregistrement dans plu_rulesets
+    // Ruleset non conforme : pas d'enregistrement sans force_save
+    if (input.save_to_db && !validation.valide && !input.force_save) {
+      const resp: PluExtractResponse = {
+        success: false,
+        version: "plu-extract-ruleset-v1",
+        inputs: input,
+        ruleset,
+        validation,
+        db: {
+          saved: false,
+          table: PLU_RULESETS_TABLE,
+          error:
+            "Ruleset non conforme au schéma PLURulesetV2 : non enregistré (force_save: true pour forcer).",
+        },
+        error: "Ruleset non conforme au schéma PLURulesetV2.",
+      };
+      return new Response(JSON.stringify(resp), {
+        status: 422,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      });
+    }
+
+    // 4) Optionnel : enregistrement dans plu_rulesets (brouillon de la zone)
     if (input.save_to_db) {
-      const { data, error } = await supabase
-        .from(PLU_RULESETS_TABLE)
-        .insert({
-          commune_insee: input.commune_insee,
-          commune_nom: input.commune_nom,
-          zone_code: input.zone_code,
-          source_label: input.source_label,
-          source_type: input.source_type,
-          rules: ruleset,
-        })
-        .select("id")
-        .single();
-
-      if (error) {
-        console.error("Erreur insert plu_rulesets:", error);
+      try {
+        const [saved] = await saveExtractedRulesets(
+          supabase,
+          PLU_RULESETS_TABLE,
+          [{
+            commune_insee: input.commune_insee,
+            commune_nom: input.commune_nom,
+            zone_code: input.zone_code,
+            source_label: input.source_label,
+            source_type: input.source_type,
+            rules: ruleset,
+          }],
+        );
         dbInfo = {
-          saved: false,
-          error: error.message,
+          saved: true,
+          record_id: saved ? String(saved.id) : undefined,
           table: PLU_RULESETS_TABLE,
         };
-      } else {
+      } catch (e) {
+        console.error("Erreur enregistrement plu_rulesets:", e);
         dbInfo = {
-          saved: true,
-          record_id: data.id,
+          saved: false,
+          error: e instanceof Error ? e.message : String(e),
           table: PLU_RULESETS_TABLE,
         };
       }
@@ -582,6 +757,7 @@ serve(async (req) => {
       version: "plu-extract-ruleset-v1",
       inputs: input,
       ruleset,
+      validation,
       db: dbInfo,
     };
 
@@ -1,14 +1,23 @@
-```typescript
 // supabase/functions/plu-from-address/index.ts
 // Version : plu-from-address-v1
 // Objectif :
 // - Entrée : adresse + éventuellement commune (INSEE / nom)
 // - Étapes : geocoding → commune (geo.api) → parcelles Etalab → cache Supabase → règles PLU
+// - require_approved = true : règles du seul ruleset approuvé de la zone (plu-ruleset-review)
 // - Sortie : { success, version, inputs, parcel, plu, error }
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
+import {
+  downloadParcellesGeoJSONWithFallback,
+  type EtalabCommune,
+  type EtalabParcel,
+  type ParcelMatchInfo,
+  pickParcelForPoint,
+} from "../_shared/cadastre.ts";
+import type { SurfaceCheck } from "../_shared/geo.ts";
+import { STATUT_APPROUVE } from "../_shared/plu-review.ts";
 
 // -------------------------------------------------
 // Types métier
@@ -19,12 +28,17 @@ type PluFromAddressRequest = {
   address: string;
   commune_insee?: string;
   commune_nom?: string;
+  // Ne renvoyer que des rulesets relus et approuvés (plu-ruleset-review)
+  require_approved?: boolean;
 };
 
 type ParcelInfo = {
   parcel_id: string;
   surface_terrain_m2: number | null;
   commune_insee: string | null;
+  match?: ParcelMatchInfo;
+  // Contenance cadastrale vs aire géodésique de la géométrie Etalab
+  surface_check?: SurfaceCheck | null;
 };
 
 type PluZoneInfo = {
@@ -69,45 +83,6 @@ type PluFromAddressResponse = {
   error?: string;
 };
 
-// -------------------------------------------------
-// Types Etalab / Cadastre
-// -------------------------------------------------
-
-type EtalabCommune = {
-  code: string;            // code INSEE normalisé (ex : 75056)
-  codeDepartement: string; // ex : "64"
-  nom: string;
-  codeCadastre?: string;   // code utilisé par le cadastre (ex : 64065, 75107…)
-};
-
-type EtalabParcel = {
-  id: string | null;
-  code_commune: string;
-  nom_commune: string;
-  section: string | null;
-  numero: string | null;
-  surface_m2: number | null;
-  geometry: any; // GeoJSON geometry
-};
-
-type DownloadResult =
-  | {
-      success: true;
-      level: "commune" | "departement";
-      geojson: any;
-      url: string;
-      statusCommune?: number;
-      statusDepartement?: number;
-    }
-  | {
-      success: false;
-      error: "NO_GEOJSON";
-      urlCommune: string;
-      urlDepartement: string;
-      statusCommune?: number;
-      statusDepartement?: number;
-    };
-
 // -------------------------------------------------
 // Supabase client
 // -------------------------------------------------
@@ -259,214 +234,7 @@ async function getCommuneFromLatLon(
 }
 
 // -------------------------------------------------
-// 3) Etalab – parcelles GeoJSON (commune + fallback département)
-// -------------------------------------------------
-
-async function downloadParcellesGeoJSONWithFallback(
-  codeCommune: string,
-  codeDepartement: string,
-): Promise<DownloadResult> {
-  const baseUrl =
-    "https://cadastre.data.gouv.fr/data/etalab-cadastre/2025-09-01/geojson";
-
-  const urlCommune =
-    `${baseUrl}/communes/${codeDepartement}/${codeCommune}/cadastre-${codeCommune}-parcelles.json.gz`;
-
-  const urlDepartement =
-    `${baseUrl}/departements/${codeDepartement}/cadastre-${codeDepartement}-parcelles.json.gz`;
-
-  let statusCommune: number | undefined;
-  let statusDepartement: number | undefined;
-
-  try {
-    console.log("🌍 Tentative commune Etalab:", urlCommune);
-    const resCommune = await fetch(urlCommune);
-    statusCommune = resCommune.status;
-    console.log("🌍 Commune status:", statusCommune);
-
-    if (resCommune.ok && resCommune.body) {
-      const ds = new DecompressionStream("gzip");
-      const decompressedStream = resCommune.body.pipeThrough(ds);
-      const text = await new Response(decompressedStream).text();
-
-      const geojson = JSON.parse(text);
-      if (
-        geojson && geojson.type === "FeatureCollection" &&
-        Array.isArray(geojson.features)
-      ) {
-        console.log(
-          `✅ GeoJSON commune chargé avec ${geojson.features.length} features`,
-        );
-        return {
-          success: true,
-          level: "commune",
-          geojson,
-          url: urlCommune,
-          statusCommune,
-        };
-      }
-    }
-  } catch (e) {
-    console.error("❌ Erreur commune Etalab:", e);
-  }
-
-  // Fallback département
-  try {
-    console.log("🌍 Tentative département Etalab:", urlDepartement);
-    const resDep = await fetch(urlDepartement);
-    statusDepartement = resDep.status;
-    console.log("🌍 Département status:", statusDepartement);
-
-    if (resDep.ok && resDep.body) {
-      const ds = new DecompressionStream("gzip");
-      const decompressedStream = resDep.body.pipeThrough(ds);
-      const text = await new Response(decompressedStream).text();
-
-      const geojson = JSON.parse(text);
-      if (
-        geojson && geojson.type === "FeatureCollection" &&
-        Array.isArray(geojson.features)
-      ) {
-        console.log(
-          `✅ GeoJSON département chargé avec ${geojson.features.length} features`,
-        );
-        return {
-          success: true,
-          level: "departement",
-          geojson,
-          url: urlDepartement,
-          statusCommune,
-          statusDepartement,
-        };
-      }
-    }
-  } catch (e) {
-    console.error("❌ Erreur département Etalab:", e);
-  }
-
-  console.error("❌ NO_GEOJSON pour", { urlCommune, urlDepartement });
-  return {
-    success: false,
-    error: "NO_GEOJSON",
-    urlCommune,
-    urlDepartement,
-    statusCommune,
-    statusDepartement,
-  };
-}
-
-function approxCentroid(geometry: any): [number, number] | null {
-  if (!geometry) return null;
-
-  const type = geometry.type;
-  const coords = geometry.coordinates;
-  if (!coords) return null;
-
-  let sumX = 0;
-  let sumY = 0;
-  let count = 0;
-
-  if (type === "Polygon") {
-    for (const ring of coords) {
-      for (const pt of ring) {
-        sumX += pt[0];
-        sumY += pt[1];
-        count++;
-      }
-    }
-  } else if (type === "MultiPolygon") {
-    for (const poly of coords) {
-      for (const ring of poly) {
-        for (const pt of ring) {
-          sumX += pt[0];
-          sumY += pt[1];
-          count++;
-        }
-      }
-    }
-  } else {
-    return null;
-  }
-
-  if (count === 0) return null;
-  return [sumX / count, sumY / count];
-}
-
-function pickNearestParcel(
-  geojson: any,
-  lat: number,
-  lon: number,
-  commune: EtalabCommune,
-): EtalabParcel | null {
-  let bestFeature: any = null;
-  let bestDist2 = Number.POSITIVE_INFINITY;
-
-  for (const f of geojson.features) {
-    if (!f || !f.geometry) continue;
-    const centroid = approxCentroid(f.geometry);
-    if (!centroid) continue;
-
-    const cx = centroid[0];
-    const cy = centroid[1];
-    const dx = lon - cx;
-    const dy = lat - cy;
-    const dist2 = dx * dx + dy * dy;
-
-    if (dist2 < bestDist2) {
-      bestDist2 = dist2;
-      bestFeature = f;
-    }
-  }
-
-  if (!bestFeature) {
-    console.warn(
-      "⚠️ pickNearestParcel: aucune parcelle trouvée proche du point",
-    );
-  }
-
-  const props = bestFeature?.properties ?? {};
-
-  const id =
-    props.id ??
-    props.id_parcelle ??
-    props.numero_parcelle ??
-    null;
-
-  const section =
-    props.section ??
-    props.prefixe_section ??
-    null;
-
-  const numero =
-    props.numero ??
-    props.numero_parcelle ??
-    null;
-
-  const surface =
-    (typeof props.contenance === "number"
-      ? props.contenance
-      : Number(props.contenance)) ||
-    (typeof props.surface === "number"
-      ? props.surface
-      : Number(props.surface)) ||
-    null;
-
-  const parcel: EtalabParcel = {
-    id,
-    code_commune: commune.code,
-    nom_commune: commune.nom,
-    section,
-    numero,
-    surface_m2: surface,
-    geometry: bestFeature?.geometry ?? null,
-  };
-
-  console.log("✅ Parcelle choisie (Etalab):", parcel.id);
-  return parcel;
-}
-
-// -------------------------------------------------
-// 4) Cache : upsert dans cadastre_parcelles_cache
+// 3) Cache : upsert dans cadastre_parcelles_cache
 // -------------------------------------------------
 
 async function upsertParcelIntoCache(
@@ -500,7 +268,7 @@ async function upsertParcelIntoCache(
 }
 
 // -------------------------------------------------
-// 5) findParcelForPoint : assemble tout ça
+// 4) findParcelForPoint : assemble tout ça
 // -------------------------------------------------
 
 async function findParcelForPoint(
@@ -531,13 +299,15 @@ async function findParcelForPoint(
 
     const geojson = download.geojson;
 
-    // 3) Parcelle la plus proche
-    const parcelEt = pickNearestParcel(geojson, lat, lon, commune);
-    if (!parcelEt) {
+    // 3) Parcelle contenant le point (fallback : arête la plus proche)
+    const picked = pickParcelForPoint(geojson, lat, lon, commune);
+    if (!picked) {
       console.error("❌ NO_PARCEL_FOUND dans GeoJSON");
       return null;
     }
 
+    const parcelEt = picked.parcel;
+
     // 4) Upsert cache
     const cached = await upsertParcelIntoCache(parcelEt);
 
@@ -577,6 +347,8 @@ async function findParcelForPoint(
       parcel_id: parcelId,
       surface_terrain_m2: surface,
       commune_insee: communeInsee,
+      match: picked.match,
+      surface_check: picked.surface_check,
     };
 
     console.log("✅ findParcelForPoint – ParcelInfo:", parcel);
@@ -588,19 +360,26 @@ async function findParcelForPoint(
 }
 
 // -------------------------------------------------
-// 6) Lecture des règles PLU par commune + zone (plu_rulesets)
+// 5) Lecture des règles PLU par commune + zone (plu_rulesets)
 // -------------------------------------------------
 
 async function getPluRulesForZoneFromDb(
   communeInsee: string,
   zoneCode: string,
+  options: { requireApproved?: boolean } = {},
 ): Promise<PluRuleset | null> {
   try {
-    const { data, error } = await supabase
+    let query = supabase
       .from("plu_rulesets")
       .select("rules")
       .eq("commune_insee", communeInsee)
-      .eq("zone_code", zoneCode)
+      .eq("zone_code", zoneCode);
+
+    if (options.requireApproved) {
+      query = query.eq("review_status", STATUT_APPROUVE);
+    }
+
+    const { data, error } = await query
       .order("id", { ascending: false })
       .limit(1)
       .maybeSingle();
@@ -612,7 +391,9 @@ async function getPluRulesForZoneFromDb(
 
     if (!data || !data.rules) {
       console.warn(
-        "⚠️ getPluRulesForZoneFromDb: aucun ruleset pour",
+        options.requireApproved
+          ? "⚠️ getPluRulesForZoneFromDb: aucun ruleset approuvé pour"
+          : "⚠️ getPluRulesForZoneFromDb: aucun ruleset pour",
         communeInsee,
         zoneCode,
       );
@@ -632,7 +413,132 @@ async function getPluRulesForZoneFromDb(
 }
 
 // -------------------------------------------------
-// 7) Récupération des règles PLU pour une parcelle
+// 6) Récupération des règles PLU pour une parcelle
 // -------------------------------------------------
 
-async function getPl
\ No newline at end of file
+async function getPluForParcel(
+  parcel: ParcelInfo,
+  options: { requireApproved?: boolean } = {},
+): Promise<PluForParcelResult> {
+  const { data, error } = await supabase.rpc("plu_get_for_parcelle_any", {
+    parcel_id: parcel.parcel_id,
+    commune_insee: parcel.commune_insee,
+  });
+
+  if (error) {
+    console.error("❌ plu_get_for_parcelle_any error:", error);
+    return { zone: null, found: false, rules: null, source: null };
+  }
+
+  const first = Array.isArray(data) ? data[0] : data;
+  const result: any =
+    first?.plu_get_for_parcelle_any ??
+    first?.plu_get_for_parcelle_manual ??
+    first ??
+    null;
+
+  const zone: PluZoneInfo | null = result?.zone?.zone_code
+    ? {
+      zone_code: result.zone.zone_code,
+      zone_libelle: result.zone.zone_libelle ?? null,
+    }
+    : null;
+
+  // Rulesets relus uniquement : les règles viennent du ruleset approuvé de la zone
+  if (options.requireApproved) {
+    const rules = zone && parcel.commune_insee
+      ? await getPluRulesForZoneFromDb(parcel.commune_insee, zone.zone_code, {
+        requireApproved: true,
+      })
+      : null;
+
+    return {
+      zone,
+      found: rules !== null,
+      rules,
+      source: rules
+        ? {
+          commune_insee: parcel.commune_insee ?? undefined,
+          zone_code: zone?.zone_code,
+          review_status: STATUT_APPROUVE,
+        }
+        : null,
+    };
+  }
+
+  if (!result || result.found === false) {
+    return { zone, found: false, rules: null, source: null };
+  }
+
+  return {
+    zone,
+    found: true,
+    rules: result.rules ?? result.ruleset ?? null,
+    source: result.source ?? null,
+  };
+}
+
+// -------------------------------------------------
+// 7) Handler principal HTTP
+// -------------------------------------------------
+
+serve(async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  let body: PluFromAddressRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return badRequest("Invalid JSON body");
+  }
+
+  const inputs = {
+    address: typeof body?.address === "string" ? body.address.trim() : "",
+    commune_insee: body?.commune_insee,
+    commune_nom: body?.commune_nom,
+  };
+
+  if (!inputs.address) {
+    return badRequest("Missing field: address", { inputs });
+  }
+
+  try {
+    const geocoding = await geocodeAddress(inputs.address);
+    if (!geocoding) {
+      return badRequest("Adresse introuvable (api-adresse)", { inputs });
+    }
+
+    const parcel = await findParcelForPoint(geocoding.lon, geocoding.lat);
+    if (!parcel) {
+      return badRequest("Aucune parcelle trouvée pour cette adresse", {
+        inputs,
+        geocoding,
+      });
+    }
+
+    const plu = await getPluForParcel(parcel, {
+      requireApproved: body.require_approved === true,
+    });
+
+    return jsonResponse({
+      success: true,
+      version: "plu-from-address-v1",
+      mode: "address",
+      inputs,
+      geocoding,
+      parcel,
+      plu,
+      error: !plu.found && body.require_approved === true
+        ? "Aucun ruleset PLU approuvé pour cette commune / zone"
+        : undefined,
+    });
+  } catch (e) {
+    console.error("❌ Unexpected error in plu-from-address:", e);
+    return badRequest(
+      e instanceof Error ? e.message : String(e),
+      { inputs },
+    );
+  }
+});
@@ -4,6 +4,12 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
+import { checkSurfaceAgainstGeometry } from "../_shared/geo.ts";
+import { parcelBelongsToCommune, parcelIdFromRequest } from "../_shared/idu.ts";
+import {
+  fetchParcelleGeometry,
+  fetchZonageForGeometry,
+} from "../_shared/plu-zonage.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get(
@@ -24,26 +30,6 @@ function jsonResponse(body: unknown, status = 200) {
   });
 }
 
-// 🔍 Vérifie la cohérence entre parcel_id et code INSEE
-function isParcelConsistentWithCommune(
-  parcelId: string | null,
-  communeInsee: string | null,
-): boolean {
-  if (!parcelId || !communeInsee) return true;
-
-  // Pour les parcelles PCI : les 5 premiers caractères = code INSEE
-  if (communeInsee.length === 5) {
-    const parcelCommune = parcelId.slice(0, 5);
-    if (parcelCommune !== communeInsee) return false;
-  }
-
-  // Vérification minimale sur le département (2 premiers caractères)
-  const expectedDept = communeInsee.slice(0, 2);
-  const parcelDept = parcelId.slice(0, 2);
-
-  return expectedDept === parcelDept;
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders });
@@ -65,9 +51,8 @@ serve(async (req) => {
 
     const commune_insee: string | undefined = body.commune_insee;
     const commune_nom: string | undefined = body.commune_nom;
-    const parcel_id: string | undefined = body.parcel_id;
 
-    if (!commune_insee || !parcel_id) {
+    if (!commune_insee) {
       return jsonResponse(
         {
           success: false,
@@ -77,8 +62,19 @@ serve(async (req) => {
       );
     }
 
-    // 1️⃣ Vérification basique de cohérence commune / parcelle
-    if (!isParcelConsistentWithCommune(parcel_id, commune_insee)) {
+    // parcel_id / id / idu, ou section + numero → IDU normalisé
+    const parsed = parcelIdFromRequest(body);
+    if (!parsed.ok) {
+      return jsonResponse(
+        { success: false, error: "Invalid parcel_id", details: parsed.error },
+        400,
+      );
+    }
+
+    const parcel_id = parsed.parts.idu;
+
+    // 1️⃣ Cohérence commune / parcelle (code INSEE ou code d'arrondissement)
+    if (!parcelBelongsToCommune(parsed.parts, commune_insee)) {
       return jsonResponse(
         {
           success: false,
@@ -108,16 +104,48 @@ serve(async (req) => {
       console.error("Unexpected error while calling get_parcelle_by_id:", e);
     }
 
+    const parcelGeometry = parcelRow?.geometry ?? parcelRow?.geom ?? null;
+
     const parcel = {
       parcel_id,
+      parcel_id_parts: parsed.parts,
       surface_terrain_m2: parcelRow?.surface_terrain_m2 ?? null,
       centroid: {
         lat: parcelRow?.centroid_lat ?? null,
         lon: parcelRow?.centroid_lon ?? null,
       },
+      surface_check:
+        parcelGeometry && typeof parcelGeometry === "object"
+          ? checkSurfaceAgainstGeometry(
+            parcelRow?.surface_terrain_m2 ?? null,
+            parcelGeometry,
+          )
+          : null,
     };
 
-    // 3️⃣ PLU – robuste (comme avant)
+    // 3️⃣ Zonage CNIG (plu_zonage) : zones intersectées, parts de surface, idurba, date d'approbation
+    let zonage: any = null;
+
+    try {
+      const zonageGeometry =
+        (parcelGeometry && typeof parcelGeometry === "object"
+          ? parcelGeometry
+          : await fetchParcelleGeometry(supabase, parcel_id)) ??
+          (parcel.centroid.lon != null && parcel.centroid.lat != null
+            ? {
+              type: "Point",
+              coordinates: [parcel.centroid.lon, parcel.centroid.lat],
+            }
+            : null);
+
+      if (zonageGeometry) {
+        zonage = await fetchZonageForGeometry(supabase, zonageGeometry);
+      }
+    } catch (e) {
+      console.error("Unexpected error while fetching plu_zonage:", e);
+    }
+
+    // 4️⃣ PLU – robuste (comme avant)
     let pluFound = false;
     let zone: any = null;
     let ruleset: any = null;
@@ -179,6 +207,7 @@ serve(async (req) => {
         zone,
         ruleset,
         source,
+        zonage,
       },
       next_actions: {
         can_run_etude_marche: true,
@@ -192,6 +221,7 @@ serve(async (req) => {
       const zoneCode =
         (zone as any)?.zone_code ??
         (zone as any)?.zone ??
+        zonage?.zone_principale?.zone_code ??
         null;
 
       responseBody.plu = {
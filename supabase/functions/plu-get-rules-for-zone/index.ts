@@ -1,17 +1,30 @@
 // supabase/functions/plu-get-rules-for-zone/index.ts
-// Version : v1.1
+// Version : v1.3
 //
 // Objectif :
-//  - Entrée : { commune_insee, zone_code }
+//  - Entrée : { commune_insee, zone_code, require_approved? }
 //  - Sortie : extrait les règles principales depuis plu_rulesets.rules (PLURulesetV2)
+//  - v1.2 : provenance de chaque valeur numérique (extrait cité, page / chunk
+//    plu_text_chunks, extracteur, confiance) + liste "champs" prête à afficher
+//  - v1.3 : statut de relecture (review_status) ; require_approved = true →
+//    uniquement le ruleset approuvé (plu-ruleset-review)
 //
 // Dépendances :
 //  - @supabase/supabase-js v2
 //  - ../_shared/cors.ts
+//  - ../_shared/plu-provenance.ts
+//  - ../_shared/plu-review.ts
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
+import {
+  CLE_PROVENANCE,
+  numericFieldPaths,
+  type ProvenanceChamp,
+  type ProvenanceRuleset,
+} from "../_shared/plu-provenance.ts";
+import { type ReviewStatus, STATUT_APPROUVE } from "../_shared/plu-review.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
@@ -25,6 +38,7 @@ const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
 type GetRulesInput = {
   commune_insee: string;
   zone_code: string;
+  require_approved?: boolean;
 };
 
 type JsonValue =
@@ -47,6 +61,14 @@ type GetRulesResponse = {
     autres?: JsonValue;
   };
   ruleset_raw?: JsonValue;
+  review_status?: ReviewStatus;
+  provenance?: ProvenanceRuleset | null;
+  // Une ligne par valeur numérique : vérification en un clic de l'extrait source
+  champs?: {
+    chemin: string;
+    valeur: number;
+    provenance: ProvenanceChamp | null;
+  }[];
   error?: string;
   details?: unknown;
 };
@@ -79,7 +101,7 @@ serve(async (req) => {
 
   try {
     const body = (await req.json()) as Partial<GetRulesInput>;
-    const { commune_insee, zone_code } = body;
+    const { commune_insee, zone_code, require_approved } = body;
 
     if (!commune_insee || !zone_code) {
       const resp: GetRulesResponse = {
@@ -96,12 +118,18 @@ serve(async (req) => {
       });
     }
 
-    // Lecture du ruleset le plus récent pour cette commune / zone
-    const { data, error } = await supabase
+    // Lecture du ruleset le plus récent (ou du seul approuvé) pour cette commune / zone
+    let query = supabase
       .from(PLU_RULESETS_TABLE)
-      .select("id, rules")
+      .select("id, rules, raw_rules, review_status")
       .eq("commune_insee", commune_insee)
-      .eq("zone_code", zone_code)
+      .eq("zone_code", zone_code);
+
+    if (require_approved) {
+      query = query.eq("review_status", STATUT_APPROUVE);
+    }
+
+    const { data, error } = await query
       .order("id", { ascending: false }) // on prend le plus récent selon l'id
       .limit(1)
       .maybeSingle();
@@ -127,8 +155,9 @@ serve(async (req) => {
       const resp: GetRulesResponse = {
         success: false,
         version: "plu-get-rules-for-zone-v1",
-        error:
-          "Aucun ruleset trouvé pour cette commune / zone. As-tu bien lancé plu-extract-ruleset avec save_to_db = true ?",
+        error: require_approved
+          ? "Aucun ruleset approuvé pour cette commune / zone (relecture via plu-ruleset-review)."
+          : "Aucun ruleset trouvé pour cette commune / zone. As-tu bien lancé plu-extract-ruleset avec save_to_db = true ?",
       };
       return new Response(JSON.stringify(resp), {
         status: 404,
@@ -141,12 +170,24 @@ serve(async (req) => {
 
     const ruleset = data.rules as any;
 
+    // Provenance : dans rules (plu-extract-ruleset) ou raw_rules (plu-universal-parser)
+    const provenance = (ruleset?.[CLE_PROVENANCE] ??
+      (data.raw_rules as any)?.[CLE_PROVENANCE] ??
+      null) as ProvenanceRuleset | null;
+
+    const champs = numericFieldPaths(ruleset).map(({ chemin, valeur }) => ({
+      chemin,
+      valeur,
+      provenance: provenance?.[chemin] ?? null,
+    }));
+
     const resp: GetRulesResponse = {
       success: true,
       version: "plu-get-rules-for-zone-v1",
       inputs: {
         commune_insee,
         zone_code,
+        require_approved: !!require_approved,
       },
       rules: {
         densite_emprise: ruleset.densite_emprise ?? null,
@@ -160,6 +201,9 @@ serve(async (req) => {
         },
       },
       ruleset_raw: ruleset,
+      review_status: data.review_status as ReviewStatus,
+      provenance,
+      champs,
     };
 
     return new Response(JSON.stringify(resp), {
@@ -1,22 +1,32 @@
 // supabase/functions/plu-ingest-from-storage/index.ts
-// Version : plu-ingest-from-storage-v1 (corrected)
+// Version : plu-ingest-from-storage-v2
 
 // Objectif :
 // - Prend commune_insee (+ commune_nom optionnel)
-// - Trouve le dernier PDF dans Storage (bucket "plu_raw")
-// - Crée une URL signée
-// - Appelle le moteur Node (PLU_PARSER_API_URL) pour extraire les rulesets
-// - Appelle plu-ingest-rulesets (Edge Function) pour enregistrer dans plu_rulesets_universal
+// - Trouve le dernier PDF dans Storage (bucket "plu_raw"), ou storage_path fourni
+// - Extrait le texte page par page (pdf.js, sans moteur externe)
+// - Découpe en zones / articles / sous-sections (motifs configurables)
+// - Remplace les chunks de la source dans plu_text_chunks
+// - Optionnel (run_parser) : lance plu-universal-parser sur chaque zone détectée
 // - Retourne un récapitulatif
+//
+// v2 : plus d'appel au moteur Node PLU_PARSER_API_URL ; le découpage remplace
+// plu_auto_chunker_from_txt.js / scripts/plu-split-ascain-uc.js.
+// Même pipeline en local : scripts/plu-ingest-pdf.ts
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
+import { extractPdfPages, removeRunningHeaders } from "../_shared/pdf-text.ts";
+import {
+  type ChunkOptions,
+  chunkPluPages,
+  savePluChunks,
+  summariseChunks,
+} from "../_shared/plu-chunker.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-const PLU_PARSER_API_URL = Deno.env.get("PLU_PARSER_API_URL")!;
-const PLU_PARSER_API_KEY = Deno.env.get("PLU_PARSER_API_KEY")!;
 
 const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
   auth: { persistSession: false },
@@ -27,6 +37,8 @@ const FUNCTIONS_BASE_URL = SUPABASE_URL.replace(
   ".functions.supabase.co",
 );
 
+const VERSION = "plu-ingest-from-storage-v2";
+
 function jsonResponse(body: unknown, status = 200) {
   return new Response(JSON.stringify(body), {
     status,
@@ -37,6 +49,52 @@ function jsonResponse(body: unknown, status = 200) {
   });
 }
 
+// Identifiant de source stable pour un fichier (réingestion = remplacement)
+function defaultSourceId(commune_insee: string, storagePath: string): string {
+  const fichier = storagePath.split("/").pop() ?? storagePath;
+  const base = fichier.replace(/\.pdf$/i, "").replace(/[^a-zA-Z0-9_-]+/g, "-");
+  return `plu-${commune_insee}-${base}`;
+}
+
+// Lance plu-universal-parser (mode auto) zone par zone
+async function runParserForZones(input: {
+  commune_insee: string;
+  commune_nom: string;
+  source_id: string;
+  zones: string[];
+}) {
+  const results: { zone_code: string; status: number; success: boolean; error?: unknown }[] = [];
+
+  for (const zone_code of input.zones) {
+    console.log(`🚀 plu-universal-parser zone ${zone_code}…`);
+    const res = await fetch(`${FUNCTIONS_BASE_URL}/plu-universal-parser`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        apikey: SUPABASE_SERVICE_ROLE_KEY,
+        Authorization: `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+      },
+      body: JSON.stringify({
+        commune_insee: input.commune_insee,
+        commune_nom: input.commune_nom,
+        zone_code,
+        source_id: input.source_id,
+        mode: "auto",
+      }),
+    });
+
+    const json = await res.json().catch(() => null);
+    results.push({
+      zone_code,
+      status: res.status,
+      success: !!json?.success,
+      ...(json?.success ? {} : { error: json?.error ?? null }),
+    });
+  }
+
+  return results;
+}
+
 serve(async (req: Request): Promise<Response> => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders });
@@ -46,6 +104,8 @@ serve(async (req: Request): Promise<Response> => {
     return jsonResponse({ success: false, error: "METHOD_NOT_ALLOWED" }, 405);
   }
 
+  let storagePath: string | null = null;
+
   try {
     const body = await req.json().catch(() => ({}));
     const commune_insee = (body.commune_insee ?? "").toString().trim();
@@ -59,121 +119,150 @@ serve(async (req: Request): Promise<Response> => {
       );
     }
 
-    // 1️⃣ Liste des fichiers PLU dans Storage
-    const { data: files, error: listError } = await supabase.storage
-      .from("plu_raw")
-      .list(commune_insee, {
-        limit: 100,
-        sortBy: { column: "name", order: "desc" },
-      });
+    const options: ChunkOptions = {
+      patterns: body.patterns ?? null,
+      decouper_sous_sections: body.decouper_sous_sections ?? true,
+      zone_par_defaut: body.zone_par_defaut ?? null,
+      garder_hors_zone: !!body.garder_hors_zone,
+      max_chars: Number(body.max_chars) || undefined,
+    };
+    const dryRun = !!body.dry_run;
 
-    if (listError) {
-      console.error("STORAGE_LIST_ERROR:", listError);
-      return jsonResponse(
-        { success: false, error: "STORAGE_LIST_ERROR" },
-        500,
-      );
-    }
+    // 1️⃣ Fichier PLU dans Storage (fourni ou dernier PDF de la commune)
+    if (body.storage_path) {
+      storagePath = String(body.storage_path);
+      if (!storagePath.startsWith(`${commune_insee}/`)) {
+        return jsonResponse(
+          { success: false, error: "STORAGE_PATH_OUTSIDE_COMMUNE" },
+          400,
+        );
+      }
+    } else {
+      const { data: files, error: listError } = await supabase.storage
+        .from("plu_raw")
+        .list(commune_insee, {
+          limit: 100,
+          sortBy: { column: "name", order: "desc" },
+        });
 
-    if (!files || files.length === 0) {
-      return jsonResponse(
-        { success: false, error: "NO_PLU_PDF_FOUND_FOR_COMMUNE" },
-        404,
-      );
+      if (listError) {
+        console.error("STORAGE_LIST_ERROR:", listError);
+        return jsonResponse(
+          { success: false, error: "STORAGE_LIST_ERROR" },
+          500,
+        );
+      }
+
+      const latestFile = (files ?? []).find((f) => /\.pdf$/i.test(f.name));
+      if (!latestFile) {
+        return jsonResponse(
+          { success: false, error: "NO_PLU_PDF_FOUND_FOR_COMMUNE" },
+          404,
+        );
+      }
+      storagePath = `${commune_insee}/${latestFile.name}`;
     }
 
-    const latestFile = files[0];
-    const storagePath = `${commune_insee}/${latestFile.name}`;
+    const source_id = (body.source_id ?? "").toString().trim() ||
+      defaultSourceId(commune_insee, storagePath);
 
-    // 2️⃣ URL signée
-    const { data: signed, error: signedError } = await supabase.storage
+    // 2️⃣ Téléchargement du PDF
+    const { data: blob, error: downloadError } = await supabase.storage
       .from("plu_raw")
-      .createSignedUrl(storagePath, 60 * 60);
+      .download(storagePath);
 
-    if (signedError || !signed?.signedUrl) {
-      console.error("SIGNED_URL_ERROR:", signedError);
+    if (downloadError || !blob) {
+      console.error("STORAGE_DOWNLOAD_ERROR:", downloadError);
       return jsonResponse(
-        { success: false, error: "SIGNED_URL_ERROR" },
+        { success: false, error: "STORAGE_DOWNLOAD_ERROR", storage_path: storagePath },
         500,
       );
     }
 
-    const source_pdf_url = signed.signedUrl;
+    // 3️⃣ Texte page par page
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const pages = removeRunningHeaders(await extractPdfPages(bytes));
+    const pagesAvecTexte = pages.filter((p) => p.text.trim().length > 0).length;
 
-    // 3️⃣ Appel moteur PLU (Render → Node)
-    const parserRes = await fetch(PLU_PARSER_API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${PLU_PARSER_API_KEY}`,
-      },
-      body: JSON.stringify({
-        commune_insee,
-        commune_nom,
-        source_pdf_url,
-      }),
-    });
-
-    const parserJson = await parserRes.json().catch(() => null);
+    console.log(`📄 ${storagePath} : ${pages.length} pages (${pagesAvecTexte} avec texte)`);
 
-    if (!parserRes.ok || !parserJson?.success) {
-      console.error("PLU_PARSER_ERROR:", parserRes.status, parserJson);
+    if (pagesAvecTexte === 0) {
       return jsonResponse(
         {
           success: false,
-          error: "PLU_PARSER_FAILED",
-          status: parserRes.status,
-          parser_response: parserJson,
+          error: "PDF_WITHOUT_TEXT_LAYER",
+          details: "Aucun texte extrait (PDF scanné ?) : OCR nécessaire avant ingestion.",
           storage_path: storagePath,
         },
         200,
       );
     }
 
-    // 4️⃣ Envoi à plu-ingest-rulesets
-    const ingestRes = await fetch(
-      `${FUNCTIONS_BASE_URL}/plu-ingest-rulesets`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          apikey: SUPABASE_SERVICE_ROLE_KEY,
-          Authorization: `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+    // 4️⃣ Découpage zones / articles / sous-sections
+    let chunks;
+    try {
+      chunks = chunkPluPages(pages, options);
+    } catch (e) {
+      return jsonResponse(
+        {
+          success: false,
+          error: "INVALID_PATTERNS",
+          details: e instanceof Error ? e.message : String(e),
         },
-        body: JSON.stringify(parserJson),
-      },
-    );
+        400,
+      );
+    }
+    const zones = summariseChunks(chunks);
 
-    const ingestJson = await ingestRes.json().catch(() => null);
+    console.log(`✂️ ${chunks.length} chunks, zones : ${zones.map((z) => z.zone_code).join(", ")}`);
 
-    if (!ingestJson?.success) {
-      console.error("PLU_INGEST_RULESETS_ERROR:", ingestJson);
+    if (chunks.length === 0) {
       return jsonResponse(
         {
           success: false,
-          error: "PLU_INGEST_RULESETS_FAILED",
-          parser: parserJson,
-          ingest: ingestJson,
+          error: "NO_CHUNKS_DETECTED",
+          details: "Aucune zone / article détecté : vérifier les motifs (patterns) ou zone_par_defaut.",
           storage_path: storagePath,
+          pages_count: pages.length,
         },
         200,
       );
     }
 
-    // 5️⃣ Réponse finale OK
+    // 5️⃣ Écriture plu_text_chunks (sauf dry_run)
+    const db = dryRun ? null : await savePluChunks(supabase, {
+      source_id,
+      commune_insee,
+      storage_path: storagePath,
+      chunks,
+    });
+
+    // 6️⃣ Optionnel : extraction des rulesets zone par zone
+    const parser = body.run_parser && !dryRun
+      ? await runParserForZones({
+        commune_insee,
+        commune_nom: commune_nom ?? commune_insee,
+        source_id,
+        zones: zones.map((z) => z.zone_code),
+      })
+      : null;
+
+    // 7️⃣ Réponse finale OK
     return jsonResponse(
       {
         success: true,
-        version: "plu-ingest-from-storage-v1",
+        version: VERSION,
         commune_insee,
         commune_nom,
         storage_path: storagePath,
-        parser: {
-          success: parserJson.success,
-          plu_version_label: parserJson.plu_version_label ?? null,
-          zones_count: parserJson.zones_rulesets?.length ?? 0,
-        },
-        ingest: ingestJson,
+        source_id,
+        dry_run: dryRun,
+        pages_count: pages.length,
+        chunks_count: chunks.length,
+        zones,
+        db,
+        parser,
+        ...(dryRun ? { chunks } : {}),
       },
       200,
     );
@@ -184,7 +273,7 @@ serve(async (req: Request): Promise<Response> => {
         success: false,
         error: "PLU_INGEST_FROM_STORAGE_INTERNAL_ERROR",
         details: err instanceof Error ? err.message : String(err),
-        storage_path: null,
+        storage_path: storagePath,
       },
       200,
     );
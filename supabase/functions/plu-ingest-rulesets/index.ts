@@ -2,12 +2,13 @@
 // Version : plu-ingest-rulesets-v1-simplified (corrected)
 //
 // Reçoit un JSON contenant plusieurs zones_rulesets
-// et fait un UPSERT propre dans plu_rulesets_universal.
+// et les enregistre en brouillon dans plu_rulesets_universal.
 // En cas d'erreur SQL, on NE renvoie PAS un 500 (pour inspection côté client).
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
+import { saveExtractedRulesets } from "../_shared/plu-review.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
@@ -86,21 +87,22 @@ serve(async (req) => {
       );
     }
 
-    // 🔥 UPSERT correct avec gestion des doublons sur (commune_insee, zone_code)
-    const { data, error } = await supabase
-      .from("plu_rulesets_universal")
-      .upsert(rowsToUpsert, {
-        onConflict: "commune_insee,zone_code",   // 🔥 la clé unique de la table
-        ignoreDuplicates: false,                 // met à jour en cas de conflit
-      });
-
-    if (error) {
+    // Brouillons à relire : le ruleset approuvé de chaque zone reste en place
+    // jusqu'à l'approbation du nouveau (plu-ruleset-review)
+    let data: any[] = [];
+    try {
+      data = await saveExtractedRulesets(
+        supabase,
+        "plu_rulesets_universal",
+        rowsToUpsert,
+      );
+    } catch (error) {
       console.error("DB error in plu-ingest-rulesets:", error);
       return jsonResponse(
         {
           success: false,
-          error: "DB error while upserting plu_rulesets_universal",
-          details: error.message,
+          error: "DB error while saving plu_rulesets_universal",
+          details: error instanceof Error ? error.message : String(error),
           rows_tried: rowsToUpsert,
         },
         200, // On garde 200 pour voir l'erreur côté client
@@ -117,8 +119,8 @@ serve(async (req) => {
           plu_version_label: plu_version_label ?? null,
           source_document: source_document ?? null,
         },
-        upserted_count: data?.length ?? 0,
-        upserted: data ?? [],
+        upserted_count: data.length,
+        upserted: data,
       },
       200,
     );
@@ -0,0 +1,427 @@
+// supabase/functions/plu-ruleset-review/index.ts
+// Version : plu-ruleset-review-v1
+//
+// Relecture des rulesets PLU avant mise en production :
+//  - tout ruleset (ré)extrait par plu-extract-ruleset, plu-universal-parser ou
+//    plu-ingest-rulesets est au statut draft
+//  - draft → in_review → approved ; l'approuvé précédent de la zone passe
+//    superseded ; in_review → draft (rejet, avec commentaire)
+//  - corrections du relecteur stockées en diff contre l'extraction machine
+//  - commentaires par champ (chemin pointé, ex : "hauteurs.h_max_egout_m")
+//
+// Tables : plu_rulesets, plu_rulesets_universal, plu_ruleset_normalized
+//
+// Entrée : POST { action, ... }
+//  - en_attente           { statuts?, tables?, commune_insee?, limit? } → rulesets à relire
+//  - lire                 { table, id } → ruleset, extraction machine, diff, commentaires
+//  - soumettre            { table, id, auteur? }              draft → in_review
+//  - modifier             { table, id, modifications: [{ chemin, valeur }], auteur?, commentaire? }
+//  - commenter            { table, id, commentaire, chemin?, auteur? }
+//  - resoudre_commentaire { comment_id }
+//  - approuver            { table, id, reviewer? }            in_review → approved
+//  - rejeter              { table, id, commentaire, reviewer? } in_review → draft
+//
+// Consommateurs limités aux rulesets approuvés : plu-from-address et
+// plu-get-rules-for-zone (require_approved), promoteur-v1 (plu.approuve_uniquement).
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  applyReviewerEdits,
+  canTransition,
+  fetchReviewComments,
+  fetchRulesetRow,
+  isCheminValide,
+  isModifiable,
+  isRulesetTable,
+  listPendingReviews,
+  type ModificationChamp,
+  REVIEW_TABLES,
+  REVIEW_TRANSITIONS,
+  type ReviewStatus,
+  type RulesetRow,
+  type RulesetTable,
+  rulesetContent,
+} from "../_shared/plu-review.ts";
+
+// -------------------------------------------------
+// Supabase client
+// -------------------------------------------------
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+const VERSION = "plu-ruleset-review-v1";
+
+const STATUTS: ReviewStatus[] = ["draft", "in_review", "approved", "superseded"];
+
+// -------------------------------------------------
+// Helpers Response
+// -------------------------------------------------
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function erreur(status: number, error: string, details?: unknown): Response {
+  return jsonResponse(
+    { success: false, version: VERSION, error, details: details ?? null },
+    status,
+  );
+}
+
+function texte(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+// Ligne ciblée par { table, id } (erreur HTTP sinon)
+async function chargerRuleset(
+  body: Record<string, unknown>,
+): Promise<
+  | { ok: true; table: RulesetTable; row: RulesetRow }
+  | { ok: false; response: Response }
+> {
+  if (!isRulesetTable(body.table)) {
+    return {
+      ok: false,
+      response: erreur(400, "table invalide", { tables: Object.keys(REVIEW_TABLES) }),
+    };
+  }
+  if (body.id === undefined || body.id === null || body.id === "") {
+    return { ok: false, response: erreur(400, "Champ requis : id") };
+  }
+
+  const row = await fetchRulesetRow(supabase, body.table, body.id as string);
+  if (!row) return { ok: false, response: erreur(404, "Ruleset introuvable") };
+
+  return { ok: true, table: body.table, row };
+}
+
+async function ajouterCommentaire(
+  table: RulesetTable,
+  id: string | number,
+  commentaire: string,
+  chemin: string | null,
+  auteur: string | null,
+) {
+  const { data, error } = await supabase
+    .from("plu_ruleset_review_comments")
+    .insert({
+      ruleset_table: table,
+      ruleset_id: String(id),
+      chemin,
+      auteur,
+      commentaire,
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(`Enregistrement du commentaire : ${error.message}`);
+  return data;
+}
+
+// Changement de statut, refusé si la ligne a changé de statut entre-temps
+async function changerStatut(
+  table: RulesetTable,
+  row: RulesetRow,
+  vers: ReviewStatus,
+  champs: Record<string, unknown> = {},
+): Promise<Response | RulesetRow> {
+  if (!canTransition(row.review_status, vers)) {
+    return erreur(409, `Transition ${row.review_status} → ${vers} impossible`, {
+      transitions: REVIEW_TRANSITIONS[row.review_status],
+    });
+  }
+
+  const { data, error } = await supabase
+    .from(table)
+    .update({ ...champs, review_status: vers })
+    .eq("id", row.id)
+    .eq("review_status", row.review_status)
+    .select()
+    .maybeSingle();
+
+  if (error) throw new Error(`Mise à jour du statut : ${error.message}`);
+  if (!data) return erreur(409, "Le statut du ruleset a changé entre-temps, relire");
+
+  return data as RulesetRow;
+}
+
+// -------------------------------------------------
+// Actions
+// -------------------------------------------------
+
+async function enAttente(body: Record<string, unknown>): Promise<Response> {
+  const statuts = Array.isArray(body.statuts)
+    ? (body.statuts as unknown[]).filter((s): s is ReviewStatus =>
+      STATUTS.includes(s as ReviewStatus)
+    )
+    : undefined;
+  const tables = Array.isArray(body.tables)
+    ? (body.tables as unknown[]).filter(isRulesetTable)
+    : undefined;
+  const limit = Number(body.limit);
+
+  const rulesets = await listPendingReviews(supabase, {
+    statuts: statuts?.length ? statuts : undefined,
+    tables: tables?.length ? tables : undefined,
+    commune_insee: texte(body.commune_insee),
+    limit: Number.isInteger(limit) && limit > 0 ? Math.min(limit, 500) : undefined,
+  });
+
+  return jsonResponse({
+    success: true,
+    version: VERSION,
+    count: rulesets.length,
+    rulesets,
+  });
+}
+
+async function lire(body: Record<string, unknown>): Promise<Response> {
+  const charge = await chargerRuleset(body);
+  if (!charge.ok) return charge.response;
+  const { table, row } = charge;
+
+  const { colonne, contenu } = rulesetContent(table, row);
+  const commentaires = await fetchReviewComments(supabase, table, row.id);
+
+  return jsonResponse({
+    success: true,
+    version: VERSION,
+    table,
+    id: row.id,
+    commune_insee: row.commune_insee,
+    zone_code: row.zone_code,
+    review_status: row.review_status,
+    transitions: REVIEW_TRANSITIONS[row.review_status],
+    submitted_at: row.submitted_at,
+    reviewed_by: row.reviewed_by,
+    reviewed_at: row.reviewed_at,
+    colonne,
+    ruleset: contenu,
+    // Extraction machine : égale au ruleset tant qu'aucune correction n'est faite
+    machine_ruleset: row.machine_ruleset ?? contenu,
+    review_diff: row.review_diff ?? [],
+    commentaires,
+  });
+}
+
+async function soumettre(body: Record<string, unknown>): Promise<Response> {
+  const charge = await chargerRuleset(body);
+  if (!charge.ok) return charge.response;
+
+  const result = await changerStatut(charge.table, charge.row, "in_review", {
+    submitted_at: new Date().toISOString(),
+  });
+  if (result instanceof Response) return result;
+
+  console.log("📝 Ruleset soumis à relecture:", charge.table, result.id);
+  return jsonResponse({ success: true, version: VERSION, ruleset: result });
+}
+
+async function modifier(body: Record<string, unknown>): Promise<Response> {
+  const charge = await chargerRuleset(body);
+  if (!charge.ok) return charge.response;
+  const { table, row } = charge;
+
+  if (!isModifiable(row.review_status)) {
+    return erreur(
+      409,
+      `Ruleset ${row.review_status} : corrections possibles seulement en draft / in_review`,
+    );
+  }
+
+  const modifications = Array.isArray(body.modifications)
+    ? (body.modifications as ModificationChamp[]).filter((m) =>
+      isCheminValide(m?.chemin) && m.valeur !== undefined
+    )
+    : [];
+  if (modifications.length === 0) {
+    return erreur(400, "modifications requises : [{ chemin, valeur }]");
+  }
+
+  const { colonne, contenu } = rulesetContent(table, row);
+  const machine = row.machine_ruleset ?? contenu ?? {};
+  const edit = applyReviewerEdits(contenu ?? {}, machine, modifications);
+
+  const { data, error } = await supabase
+    .from(table)
+    .update({
+      [colonne]: edit.contenu,
+      machine_ruleset: machine,
+      review_diff: edit.diff,
+    })
+    .eq("id", row.id)
+    .eq("review_status", row.review_status)
+    .select()
+    .maybeSingle();
+
+  if (error) return erreur(500, "Enregistrement des corrections impossible", error.message);
+  if (!data) return erreur(409, "Le statut du ruleset a changé entre-temps, relire");
+
+  const commentaire = texte(body.commentaire);
+  if (commentaire) {
+    await ajouterCommentaire(
+      table,
+      row.id,
+      commentaire,
+      modifications.length === 1 ? modifications[0].chemin : null,
+      texte(body.auteur),
+    );
+  }
+
+  console.log(`✏️ ${modifications.length} correction(s) sur`, table, row.id);
+  return jsonResponse({
+    success: true,
+    version: VERSION,
+    ruleset: edit.contenu,
+    review_diff: edit.diff,
+  });
+}
+
+async function commenter(body: Record<string, unknown>): Promise<Response> {
+  const commentaire = texte(body.commentaire);
+  if (!commentaire) return erreur(400, "Champ requis : commentaire");
+
+  const charge = await chargerRuleset(body);
+  if (!charge.ok) return charge.response;
+
+  const data = await ajouterCommentaire(
+    charge.table,
+    charge.row.id,
+    commentaire,
+    texte(body.chemin),
+    texte(body.auteur),
+  );
+  return jsonResponse({ success: true, version: VERSION, commentaire: data }, 201);
+}
+
+async function resoudreCommentaire(
+  body: Record<string, unknown>,
+): Promise<Response> {
+  if (!body.comment_id) return erreur(400, "Champ requis : comment_id");
+
+  const { data, error } = await supabase
+    .from("plu_ruleset_review_comments")
+    .update({ resolu: true })
+    .eq("id", body.comment_id)
+    .select()
+    .maybeSingle();
+
+  if (error) return erreur(500, "Mise à jour du commentaire impossible", error.message);
+  if (!data) return erreur(404, "Commentaire introuvable");
+
+  return jsonResponse({ success: true, version: VERSION, commentaire: data });
+}
+
+async function approuver(body: Record<string, unknown>): Promise<Response> {
+  const charge = await chargerRuleset(body);
+  if (!charge.ok) return charge.response;
+  const { table, row } = charge;
+
+  if (!canTransition(row.review_status, "approved")) {
+    return erreur(409, `Transition ${row.review_status} → approved impossible`, {
+      transitions: REVIEW_TRANSITIONS[row.review_status],
+    });
+  }
+
+  const { data, error } = await supabase.rpc("plu_ruleset_approuver", {
+    p_table: table,
+    p_id: String(row.id),
+    p_reviewer: texte(body.reviewer),
+  });
+
+  if (error) return erreur(409, "Approbation impossible", error.message);
+
+  console.log("✅ Ruleset approuvé:", table, row.id, data);
+  return jsonResponse({
+    success: true,
+    version: VERSION,
+    table,
+    id: row.id,
+    review_status: "approved",
+    // Nombre de rulesets de la zone passés superseded
+    superseded: (data as { superseded?: number } | null)?.superseded ?? 0,
+  });
+}
+
+async function rejeter(body: Record<string, unknown>): Promise<Response> {
+  const commentaire = texte(body.commentaire);
+  if (!commentaire) return erreur(400, "Champ requis : commentaire (motif du rejet)");
+
+  const charge = await chargerRuleset(body);
+  if (!charge.ok) return charge.response;
+
+  const reviewer = texte(body.reviewer);
+  const result = await changerStatut(charge.table, charge.row, "draft", {
+    reviewed_by: reviewer,
+    reviewed_at: new Date().toISOString(),
+  });
+  if (result instanceof Response) return result;
+
+  await ajouterCommentaire(charge.table, result.id, commentaire, null, reviewer);
+
+  console.log("↩️ Ruleset renvoyé en brouillon:", charge.table, result.id);
+  return jsonResponse({ success: true, version: VERSION, ruleset: result });
+}
+
+// -------------------------------------------------
+// Handler principal
+// -------------------------------------------------
+
+const ACTIONS: Record<
+  string,
+  (body: Record<string, unknown>) => Promise<Response>
+> = {
+  en_attente: enAttente,
+  lire,
+  soumettre,
+  modifier,
+  commenter,
+  resoudre_commentaire: resoudreCommentaire,
+  approuver,
+  rejeter,
+};
+
+serve(async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return erreur(405, "Méthode non autorisée (POST uniquement).");
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch {
+    return erreur(400, "JSON invalide");
+  }
+
+  // Clés propres uniquement : "constructor", "toString"… ne sont pas des actions
+  const nomAction = String(body?.action ?? "");
+  const action = Object.hasOwn(ACTIONS, nomAction) ? ACTIONS[nomAction] : null;
+  if (!action) {
+    return erreur(400, "action inconnue", { actions: Object.keys(ACTIONS) });
+  }
+
+  try {
+    return await action(body);
+  } catch (err) {
+    console.error("Erreur plu-ruleset-review:", err);
+    return erreur(
+      500,
+      "Erreur interne plu-ruleset-review",
+      err instanceof Error ? err.message : String(err),
+    );
+  }
+});
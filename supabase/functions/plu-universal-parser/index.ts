@@ -3,6 +3,21 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
+import {
+  buildRepairPrompt,
+  MAX_REPARATIONS_DEFAUT,
+  PLU_UNIVERSAL_SCHEMA,
+  type RapportValidation,
+  validateRuleset,
+  validateWithRepair,
+} from "../_shared/plu-validation.ts";
+import {
+  buildProvenance,
+  type ChunkSource,
+  CLE_PROVENANCE,
+  withProvenance,
+} from "../_shared/plu-provenance.ts";
+import { saveExtractedRulesets } from "../_shared/plu-review.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SERVICE_ROLE = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
@@ -15,20 +30,16 @@ const supabase = createClient(SUPABASE_URL, SERVICE_ROLE, {
 // ---------------------------------------------------------
 // Helper : appel LLM OpenAI
 // ---------------------------------------------------------
-async function callLLM(
+type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+
+function buildLLMMessages(
   texteReglement: string,
   meta: {
     commune_insee: string;
     commune_nom: string;
     zone_code: string;
   },
-) {
-  if (!OPENAI_API_KEY) {
-    throw new Error(
-      "OPENAI_API_KEY non défini dans les variables d'environnement",
-    );
-  }
-
+): ChatMessage[] {
   const { commune_insee, commune_nom, zone_code } = meta;
 
   const systemPrompt = `
@@ -47,7 +58,8 @@ Tu dois produire un JSON STRICTEMENT au format suivant :
   "reculs_alignements": { "commentaire": "..." },
   "stationnement": { "commentaire": "..." },
   "autres_regles": { "commentaire": "..." },
-  "articles_source": ["..."]
+  "articles_source": ["..."],
+  "provenance": { "<chemin du champ>": { "extrait": "...", "article": "...", "confiance": number } }
 }
 
 Règles :
@@ -59,6 +71,8 @@ Règles :
 - De même, pour "emprise_sol_max", mets la règle générale (par exemple 0.6 pour 60%)
   et décris les dérogations (par exemple 0.7 pour certains équipements) dans le commentaire sans modifier la valeur générale.
 - "articles_source" doit contenir les articles que tu as réellement utilisés (ex : "UG.6", "UG.7").
+- "provenance" : pour chaque champ numérique non null (clé = chemin, ex : "hauteur.hauteur_max_m"),
+  recopie mot pour mot la phrase du texte qui le justifie (300 caractères max), l'article et ta confiance entre 0 et 1.
 - Réponds UNIQUEMENT avec le JSON, sans texte avant ou après.
 `;
 
@@ -70,6 +84,19 @@ Zone : ${zone_code}
 ${texteReglement}
 === FIN ===`;
 
+  return [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: userPrompt },
+  ];
+}
+
+async function chatJson(messages: ChatMessage[]) {
+  if (!OPENAI_API_KEY) {
+    throw new Error(
+      "OPENAI_API_KEY non défini dans les variables d'environnement",
+    );
+  }
+
   const response = await fetch("https://api.openai.com/v1/chat/completions", {
     method: "POST",
     headers: {
@@ -78,10 +105,7 @@ ${texteReglement}
     },
     body: JSON.stringify({
       model: "gpt-4.1-mini",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
+      messages,
       temperature: 0.1,
     }),
   });
@@ -102,6 +126,19 @@ ${texteReglement}
   }
 }
 
+// Aller-retour de réparation : le modèle reçoit son JSON et les erreurs de validation
+async function repairLLM(
+  messages: ChatMessage[],
+  precedent: unknown,
+  validation: RapportValidation,
+) {
+  return await chatJson([
+    ...messages,
+    { role: "assistant", content: JSON.stringify(precedent) },
+    { role: "user", content: buildRepairPrompt(validation) },
+  ]);
+}
+
 // ---------------------------------------------------------
 // Handler principal
 // ---------------------------------------------------------
@@ -120,6 +157,8 @@ serve(async (req) => {
       mode = "auto",      // "auto" (LLM) ou "manual" (JSON fourni)
       extracted_json,     // utilisé en mode "manual"
       plu_source_url,     // 🔹 URL du PDF / page PLU d'origine (optionnel)
+      force_save = false, // enregistre même si le JSON reste non conforme
+      max_repair_attempts = MAX_REPARATIONS_DEFAUT,
     } = body;
 
     if (!commune_insee || !commune_nom || !zone_code || !source_id) {
@@ -129,6 +168,9 @@ serve(async (req) => {
     }
 
     let jsonResult: any;
+    let validation: RapportValidation;
+    // Chunks lus en mode auto (provenance : chunk / page de chaque valeur)
+    let chunksSource: ChunkSource[] = [];
 
     // -----------------------------------------------------
     // MODE MANUAL : on reçoit déjà le JSON normalisé
@@ -147,13 +189,18 @@ serve(async (req) => {
         commune_nom: extracted_json.commune_nom ?? commune_nom,
         zone_code: extracted_json.zone_code ?? zone_code,
       };
+
+      // Pas de modèle à qui demander une réparation : validation seule
+      const checked = validateRuleset(PLU_UNIVERSAL_SCHEMA, jsonResult);
+      jsonResult = checked.valeur;
+      validation = checked.validation;
     } else {
       // ---------------------------------------------------
       // MODE AUTO : on lit les chunks + appel LLM
       // ---------------------------------------------------
       const { data: chunks, error: chunksError } = await supabase
         .from("plu_text_chunks")
-        .select("page_number, section_label, raw_text, zone_code")
+        .select("id, source_id, page_number, section_label, raw_text, zone_code")
         .eq("source_id", source_id)
         // on prend soit les chunks avec zone_code = zone_code,
         // soit les chunks où zone_code est NULL (pour compat v1)
@@ -168,6 +215,8 @@ serve(async (req) => {
         throw new Error("Aucun chunk trouvé pour cette source / zone.");
       }
 
+      chunksSource = chunks as ChunkSource[];
+
       const texteReglement = chunks
         .map(
           (c: any) =>
@@ -175,19 +224,60 @@ serve(async (req) => {
         )
         .join("\n\n");
 
-      const llmJson = await callLLM(texteReglement, {
+      const messages = buildLLMMessages(texteReglement, {
         commune_insee,
         commune_nom,
         zone_code,
       });
 
       // On s'assure aussi ici que les champs clés sont bien renseignés
-      jsonResult = {
+      const completer = (llmJson: any) => ({
         ...llmJson,
-        commune_insee: llmJson.commune_insee ?? commune_insee,
-        commune_nom: llmJson.commune_nom ?? commune_nom,
-        zone_code: llmJson.zone_code ?? zone_code,
-      };
+        commune_insee: llmJson?.commune_insee ?? commune_insee,
+        commune_nom: llmJson?.commune_nom ?? commune_nom,
+        zone_code: llmJson?.zone_code ?? zone_code,
+      });
+
+      // Validation stricte, réparation par le modèle tant qu'il reste des erreurs
+      const checked = await validateWithRepair(
+        PLU_UNIVERSAL_SCHEMA,
+        completer(await chatJson(messages)),
+        async (precedent, rapport) =>
+          completer(await repairLLM(messages, precedent, rapport)),
+        Number(max_repair_attempts) || 0,
+      );
+      jsonResult = checked.valeur;
+      validation = checked.validation;
+    }
+
+    // Provenance de chaque champ numérique (remplace les citations brutes du modèle)
+    jsonResult = withProvenance(
+      jsonResult,
+      buildProvenance({
+        ruleset: jsonResult,
+        chunks: chunksSource,
+        extracteur: mode === "manual" ? "manual" : "llm",
+        citations: jsonResult?.[CLE_PROVENANCE] ?? null,
+      }),
+    );
+
+    // JSON non conforme : rien n'est enregistré sans force_save
+    if (!validation.valide && !force_save) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          version: "plu-universal-parser-v2",
+          mode,
+          error:
+            "JSON non conforme au schéma plu-universal-parser : non enregistré (force_save: true pour forcer).",
+          validation,
+          extracted_json: jsonResult,
+        }),
+        {
+          status: 422,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
     }
 
     // -----------------------------------------------------
@@ -211,7 +301,7 @@ serve(async (req) => {
     }
 
     // -----------------------------------------------------
-    // 4) Normalisation vers plu_rulesets (UPSERT)
+    // 4) Normalisation vers plu_rulesets (brouillon à relire)
 // -----------------------------------------------------
     const d: any = jsonResult;
 
@@ -248,17 +338,11 @@ serve(async (req) => {
       raw_rules: jsonResult,
     };
 
-    const { data: rulesetRow, error: rulesetErr } = await supabase
-      .from("plu_rulesets")
-      .upsert(rulesetPayload, {
-        onConflict: "commune_insee,zone_code",
-      })
-      .select()
-      .single();
-
-    if (rulesetErr) {
-      throw rulesetErr;
-    }
+    // Brouillon de la zone remplacé ; le ruleset approuvé reste servi
+    // jusqu'à l'approbation du nouveau (plu-ruleset-review)
+    const [rulesetRow] = await saveExtractedRulesets(supabase, "plu_rulesets", [
+      rulesetPayload,
+    ]);
 
     return new Response(
       JSON.stringify({
@@ -267,6 +351,7 @@ serve(async (req) => {
         raw_id: rawRow.id,
         mode,
         ruleset_id: rulesetRow?.id ?? null,
+        validation,
       }),
       {
         status: 200,
@@ -0,0 +1,149 @@
+// supabase/functions/plu-zonage-lookup/index.ts
+// Version : plu-zonage-lookup-v1
+//
+// Zonage d'un point ou d'une parcelle d'après les couches CNIG du Géoportail
+// de l'urbanisme importées dans plu_zonage (scripts/plu-zonage-import.ts) :
+//  - toutes les zones intersectées (zone_urba, secteur_cc) avec leur part
+//    de la surface de la parcelle
+//  - document d'urbanisme de chaque zone : idurba, partition, date d'approbation
+//
+// Entrée : POST {
+//   lon?, lat?,             // point WGS84
+//   geometry?,              // ou géométrie GeoJSON WGS84 (Polygon / MultiPolygon)
+//   parcel_id?,             // ou IDU cadastral (géométrie de cadastre_parcelles)
+//   couches?: ("zone_urba" | "secteur_cc")[]
+// }
+// Sortie : { success, version, inputs, zonage{found, zone_principale, multizone, zones, documents} }
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  type CoucheZonage,
+  fetchParcelleGeometry,
+  fetchZonageForGeometry,
+} from "../_shared/plu-zonage.ts";
+
+// -------------------------------------------------
+// Supabase client
+// -------------------------------------------------
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+const VERSION = "plu-zonage-lookup-v1";
+
+const COUCHES: CoucheZonage[] = ["zone_urba", "secteur_cc"];
+
+const GEOMETRY_TYPES = ["Point", "Polygon", "MultiPolygon"];
+
+// -------------------------------------------------
+// Helpers Response
+// -------------------------------------------------
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function erreur(status: number, error: string, details?: unknown): Response {
+  return jsonResponse(
+    { success: false, version: VERSION, error, details: details ?? null },
+    status,
+  );
+}
+
+// -------------------------------------------------
+// Handler principal
+// -------------------------------------------------
+
+serve(async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return erreur(405, "Méthode non autorisée (POST uniquement).");
+  }
+
+  let body: Record<string, any>;
+  try {
+    body = await req.json();
+  } catch {
+    return erreur(400, "JSON invalide");
+  }
+
+  try {
+    const couches = Array.isArray(body.couches)
+      ? (body.couches as unknown[]).filter((c): c is CoucheZonage =>
+        COUCHES.includes(c as CoucheZonage)
+      )
+      : null;
+
+    // Géométrie interrogée : point, géométrie fournie ou parcelle
+    let geometry: any = null;
+    let source: "point" | "geometry" | "parcelle";
+
+    const lon = Number(body.lon);
+    const lat = Number(body.lat);
+
+    if (body.geometry) {
+      if (!GEOMETRY_TYPES.includes(body.geometry?.type)) {
+        return erreur(400, "geometry doit être un Point, Polygon ou MultiPolygon GeoJSON");
+      }
+      geometry = body.geometry;
+      source = "geometry";
+    } else if (body.parcel_id) {
+      geometry = await fetchParcelleGeometry(supabase, String(body.parcel_id));
+      if (!geometry) {
+        return erreur(404, "Parcelle introuvable dans cadastre_parcelles", {
+          parcel_id: body.parcel_id,
+        });
+      }
+      source = "parcelle";
+    } else if (
+      body.lon != null && body.lat != null &&
+      Number.isFinite(lon) && Number.isFinite(lat)
+    ) {
+      geometry = { type: "Point", coordinates: [lon, lat] };
+      source = "point";
+    } else {
+      return erreur(400, "Entrée requise : lon + lat, geometry ou parcel_id");
+    }
+
+    const zonage = await fetchZonageForGeometry(supabase, geometry, couches);
+    if (zonage.error) {
+      return erreur(500, "Erreur lecture plu_zonage", zonage.error);
+    }
+
+    console.log(
+      `🗺️ Zonage (${source}) : ${zonage.zones.map((z) => `${z.zone_code} ${Math.round(z.part_surface * 100)}%`).join(", ") || "aucune zone"}`,
+    );
+
+    return jsonResponse({
+      success: true,
+      version: VERSION,
+      inputs: {
+        source,
+        parcel_id: body.parcel_id ?? null,
+        lon: source === "point" ? lon : null,
+        lat: source === "point" ? lat : null,
+        couches: couches?.length ? couches : COUCHES,
+      },
+      zonage,
+    });
+  } catch (err) {
+    console.error("Erreur plu-zonage-lookup:", err);
+    return erreur(
+      500,
+      "Erreur interne plu-zonage-lookup",
+      err instanceof Error ? err.message : String(err),
+    );
+  }
+});
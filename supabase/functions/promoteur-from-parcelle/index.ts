@@ -2,31 +2,73 @@
 // Version : promoteur-from-parcelle-v1
 //
 // Objectif :
-//  - Entrée : parcel_id (+ commune_insee et surface_terrain_m2 optionnels)
+//  - Entrée : parcel_id ou parcel_ids (assemblage)
+//             (+ commune_insee et surface_terrain_m2 optionnels)
 //  - Étapes :
-//      1) Lire la parcelle dans le cache / BD
-//      2) Lire les règles PLU pour la parcelle (zone + règles)
-//      3) Appeler la fonction SQL promoteur_v1(input jsonb)
-//  - Sortie : { success, inputs, parcel, plu, promoteur, error }
+//      1) Lire la (les) parcelle(s) dans le cache / BD
+//         + contrôle de contiguïté et fusion en unité foncière si assemblage
+//      2) Lire les règles PLU pour chaque parcelle (zone + règles)
+//      3) Calculer le bilan avec le moteur promoteur-v1 (_shared/promoteur-engine.ts)
+//         via la couche de compatibilité de l'ancienne fonction SQL promoteur_v1
+//         (une fois, ou une fois par zone si strategie_multizone = "par_zone")
+//  - Sortie : { success, inputs, parcel, plu, promoteur, assemblage, error }
 //
 // Dépendances :
 //  - @supabase/supabase-js v2
 //  - ../_shared/cors.ts
+//  - ../_shared/assemblage.ts
+//  - ../_shared/idu.ts
+//  - ../_shared/promoteur-compat.ts
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
+import {
+  assembleParcels,
+  type AssemblageResult,
+  mergeRulesetsMostRestrictive,
+  type StrategieMultizone,
+} from "../_shared/assemblage.ts";
+import { parcelIdFromRequest, parseParcelId } from "../_shared/idu.ts";
+import type { EngineDeps } from "../_shared/promoteur-engine.ts";
+import {
+  type LegacyPromoteurBilan,
+  type LegacyPromoteurInput,
+  runPromoteurLegacy,
+} from "../_shared/promoteur-compat.ts";
 
 // -------------------------------------------------
 // Types
 // -------------------------------------------------
 
 type PromoteurFromParcelRequest = {
-  parcel_id: string;
+  // IDU 14 caractères (ou id / idu, ou code_commune + section + numero)
+  parcel_id?: string;
+  id?: string;
+  idu?: string;
+  code_commune?: string;
+  prefixe?: string;
+  section?: string;
+  numero?: string;
+  // Assemblage : plusieurs parcelles contiguës étudiées comme une seule unité
+  parcel_ids?: string[];
+  strategie_multizone?: StrategieMultizone;
   commune_insee?: string | null;
   surface_terrain_m2?: number | null;
+  // Paramètres promoteur-v1 optionnels (projet, financement, foncier…)
+  projet?: LegacyPromoteurInput["projet"];
+  financement?: LegacyPromoteurInput["financement"];
+  foncier?: LegacyPromoteurInput["foncier"];
+  calendrier?: LegacyPromoteurInput["calendrier"];
+  taxes?: LegacyPromoteurInput["taxes"];
 };
 
+// Paramètres transmis tels quels au moteur
+type ParametresPromoteur = Pick<
+  PromoteurFromParcelRequest,
+  "projet" | "financement" | "foncier" | "calendrier" | "taxes"
+>;
+
 type ParcelRecord = {
   parcel_id: string;
   commune_insee: string | null;
@@ -50,13 +92,20 @@ type PluForParcelResult = {
   source?: Record<string, unknown> | null;
 };
 
-type PromoteurBilan = {
-  success: boolean;
-  version?: string;
-  appreciation?: string;
-  bilan?: unknown;
-  error?: string;
-  [key: string]: unknown;
+type PromoteurBilan = LegacyPromoteurBilan;
+
+type AssemblageInfo = Omit<AssemblageResult, "geometry"> & {
+  geometry: unknown;
+  zones_par_parcelle: Record<string, string | null>;
+  multizone: boolean;
+  strategie_multizone: StrategieMultizone | null;
+};
+
+type PromoteurParZone = {
+  zone_code: string | null;
+  parcel_ids: string[];
+  plu: PluForParcelResult | null;
+  promoteur: PromoteurBilan | null;
 };
 
 type PromoteurFromParcelResponse = {
@@ -64,12 +113,16 @@ type PromoteurFromParcelResponse = {
   version: "promoteur-from-parcelle-v1";
   inputs: {
     parcel_id: string;
+    parcel_ids?: string[];
+    strategie_multizone?: StrategieMultizone;
     commune_insee?: string | null;
     surface_terrain_m2?: number | null;
   };
   parcel?: ParcelRecord | null;
   plu?: PluForParcelResult | null;
   promoteur?: PromoteurBilan | null;
+  assemblage?: AssemblageInfo | null;
+  promoteur_par_zone?: PromoteurParZone[] | null;
   error?: string;
   details?: unknown;
 };
@@ -202,14 +255,22 @@ async function getPluForParcel(
 }
 
 // -------------------------------------------------
-// 3) Appel Promoteur_v1(input jsonb)
+// 3) Bilan promoteur (moteur promoteur-v1)
 // -------------------------------------------------
 
 async function callPromoteurBilan(args: {
+  deps: EngineDeps;
   parcel: ParcelRecord;
   plu: PluForParcelResult | null;
+  parametres: ParametresPromoteur;
+  // Assemblage : zone de chaque parcelle (sinon zone de plu)
+  zonesParParcelle?: Record<string, string | null>;
 }): Promise<PromoteurBilan | null> {
-  const { parcel, plu } = args;
+  const { deps, parcel, plu, parametres, zonesParParcelle } = args;
+
+  // Plusieurs zones : le moteur charge le PLU de chacune, pas la zone jointe "UA+UB"
+  const multizone =
+    new Set(Object.values(zonesParParcelle ?? {}).filter(Boolean)).size > 1;
 
   const surface =
     parcel.surface_terrain_m2 ??
@@ -217,53 +278,79 @@ async function callPromoteurBilan(args: {
       ? (parcel["surface_m2"] as number)
       : null);
 
-  const promoteurInput = {
+  const promoteurInput: LegacyPromoteurInput = {
     parcel_id: parcel.parcel_id,
+    parcel_ids: (parcel["parcel_ids"] as string[] | undefined) ?? undefined,
     commune_insee: parcel.commune_insee,
-    zone_code: plu?.zone?.zone_code ?? null,
+    zone_code: multizone ? null : plu?.zone?.zone_code ?? null,
+    zones_par_parcelle: zonesParParcelle ?? null,
     surface_terrain_m2: surface,
     rules: plu?.rules ?? null,
+    geometry: geometryOf(parcel) ?? undefined,
+    ...parametres,
   };
 
-  console.log("ℹ️ callPromoteurBilan input:", promoteurInput);
-
-  const { data, error } = await supabase.rpc("promoteur_v1", {
-    input: promoteurInput,
+  console.log("ℹ️ callPromoteurBilan input:", {
+    ...promoteurInput,
+    geometry: promoteurInput.geometry ? "[geojson]" : null,
   });
 
-  if (error) {
-    console.error("❌ RPC promoteur_v1 error:", error);
-    return {
-      success: false,
-      version: "promoteur_v1",
-      appreciation: "erreur",
-      bilan: null,
-      error: error.message,
-    };
-  }
+  return await runPromoteurLegacy(deps, promoteurInput);
+}
 
-  if (!data) {
-    console.warn("⚠️ promoteur_v1 a renvoyé null");
-    return {
-      success: false,
-      version: "promoteur_v1",
-      appreciation: "indisponible",
-      bilan: null,
-    };
-  }
+// -------------------------------------------------
+// 4) Assemblage multi-parcelles
+// -------------------------------------------------
+
+function geometryOf(parcel: ParcelRecord): unknown | null {
+  const g = parcel["geometry"] ?? parcel["geom"] ?? null;
+  return g && typeof g === "object" ? g : null;
+}
+
+/**
+ * Parcelle "virtuelle" représentant l'unité foncière d'un groupe de parcelles.
+ */
+function unitParcelRecord(
+  parcels: ParcelRecord[],
+  unit: AssemblageResult,
+): ParcelRecord {
+  return {
+    parcel_id: unit.parcel_ids[0],
+    parcel_ids: unit.parcel_ids,
+    commune_insee: parcels[0]?.commune_insee ?? null,
+    surface_terrain_m2: unit.surface_m2 ?? unit.surface_geometrie_m2,
+    geometry: unit.geometry,
+  };
+}
 
-  const root = (data as any).promoteur_v1 ?? data;
+/**
+ * PLU fusionné d'un groupe de parcelles : règle la plus restrictive par champ.
+ */
+function mergePluResults(
+  plus: (PluForParcelResult | null)[],
+): PluForParcelResult | null {
+  const present = plus.filter((p): p is PluForParcelResult => !!p);
+  if (present.length === 0) return null;
+
+  const zoneCodes = Array.from(
+    new Set(present.map((p) => p.zone?.zone_code).filter(Boolean)),
+  ) as string[];
+
+  if (zoneCodes.length <= 1) return present[0];
 
   return {
-    success: root.success ?? true,
-    version: root.version ?? "promoteur_v1",
-    appreciation: root.appreciation ?? null,
-    bilan: root.bilan ?? root,
+    zone: { zone_code: zoneCodes.join("+"), zone_libelle: null },
+    found: present.every((p) => p.found),
+    rules: mergeRulesetsMostRestrictive(present.map((p) => p.rules)),
+    source: {
+      type: "multizone_plus_restrictive",
+      zones: present.map((p) => ({ zone: p.zone, source: p.source ?? null })),
+    },
   };
 }
 
 // -------------------------------------------------
-// 4) Handler principal
+// 5) Handler principal
 // -------------------------------------------------
 
 serve(async (req: Request) => {
@@ -288,24 +375,96 @@ serve(async (req: Request) => {
     return badRequest("JSON invalide");
   }
 
-  const parcelId = body.parcel_id?.trim();
+  // IDU normalisés (espaces, tirets, préfixe d'arrondissement…)
+  const parsedIds = (body.parcel_ids ?? []).map((id) => ({
+    raw: id,
+    parsed: parseParcelId(id),
+  }));
+  const invalidIds = parsedIds.filter((p) => !p.parsed.ok);
+  if (invalidIds.length > 0) {
+    return badRequest("parcel_ids invalides", {
+      inputs: { parcel_id: "" },
+      details: invalidIds.map((p) => ({
+        parcel_id: p.raw,
+        error: p.parsed.ok ? null : p.parsed.error,
+      })),
+    });
+  }
+
+  const parcelIds = Array.from(
+    new Set(parsedIds.map((p) => (p.parsed.ok ? p.parsed.parts.idu : ""))),
+  );
+  const isAssemblage = parcelIds.length >= 2;
+
+  const single = parcelIdFromRequest(body);
+  const hasSingle = [body.parcel_id, body.id, body.idu, body.section]
+    .some((v) => v !== undefined && v !== null && v !== "");
+  if (hasSingle && !single.ok) {
+    return badRequest("parcel_id invalide", {
+      inputs: { parcel_id: String(body.parcel_id ?? body.idu ?? body.id ?? "") },
+      details: single.error,
+    });
+  }
+
+  const parcelId = (single.ok ? single.parts.idu : null) ?? parcelIds[0];
   const communeInsee = body.commune_insee ?? null;
+  const strategie: StrategieMultizone =
+    body.strategie_multizone === "par_zone" ? "par_zone" : "plus_restrictive";
   const surfaceOverride =
     typeof body.surface_terrain_m2 === "number"
       ? body.surface_terrain_m2
       : null;
 
+  const parametres: ParametresPromoteur = {
+    projet: body.projet,
+    financement: body.financement,
+    foncier: body.foncier,
+    calendrier: body.calendrier,
+    taxes: body.taxes,
+  };
+
+  // Lectures mémorisées partagées par les études de la requête (par zone…)
+  const deps: EngineDeps = { supabase, cache: new Map() };
+
   const baseResponse: Omit<PromoteurFromParcelResponse, "success"> = {
     version: "promoteur-from-parcelle-v1",
     inputs: {
       parcel_id: parcelId ?? "",
+      parcel_ids: isAssemblage ? parcelIds : undefined,
+      strategie_multizone: isAssemblage ? strategie : undefined,
       commune_insee: communeInsee,
       surface_terrain_m2: surfaceOverride,
     },
   };
 
   if (!parcelId) {
-    return badRequest("Le champ parcel_id est obligatoire", baseResponse);
+    return badRequest(
+      "Le champ parcel_id (ou parcel_ids) est obligatoire",
+      baseResponse,
+    );
+  }
+
+  if (isAssemblage) {
+    try {
+      return await handleAssemblage(
+        parcelIds,
+        communeInsee,
+        surfaceOverride,
+        strategie,
+        baseResponse,
+        deps,
+        parametres,
+      );
+    } catch (e: unknown) {
+      return jsonResponse({
+        ...baseResponse,
+        success: false,
+        error: e instanceof Error
+          ? e.message
+          : "Erreur inconnue promoteur-from-parcelle (assemblage)",
+        details: String(e),
+      });
+    }
   }
 
   try {
@@ -329,8 +488,10 @@ serve(async (req: Request) => {
 
     // 3) Bilan Promoteur
     const promoteur = await callPromoteurBilan({
+      deps,
       parcel,
       plu: plu ?? null,
+      parametres,
     });
 
     return jsonResponse({
@@ -350,3 +511,120 @@ serve(async (req: Request) => {
     });
   }
 });
+
+async function handleAssemblage(
+  parcelIds: string[],
+  communeInsee: string | null,
+  surfaceOverride: number | null,
+  strategie: StrategieMultizone,
+  baseResponse: Omit<PromoteurFromParcelResponse, "success">,
+  deps: EngineDeps,
+  parametres: ParametresPromoteur,
+): Promise<Response> {
+  // 1) Parcelles + contiguïté
+  const parcels: ParcelRecord[] = await Promise.all(
+    parcelIds.map(async (id) =>
+      (await getParcelFromDb(id, communeInsee)) ?? {
+        parcel_id: id,
+        commune_insee: communeInsee,
+        surface_terrain_m2: null,
+      }
+    ),
+  );
+
+  const toAssemblageParcel = (p: ParcelRecord) => ({
+    parcel_id: p.parcel_id,
+    surface_m2: p.surface_terrain_m2,
+    geometry: geometryOf(p),
+  });
+
+  const unit = assembleParcels(parcels.map(toAssemblageParcel));
+
+  if (unit.contigu === false) {
+    return badRequest("Les parcelles de l'assemblage ne sont pas contiguës", {
+      ...baseResponse,
+      details: { composantes: unit.composantes },
+    });
+  }
+
+  // 2) PLU par parcelle
+  const plus = await Promise.all(
+    parcels.map((p) => getPluForParcel(p.parcel_id, p.commune_insee)),
+  );
+
+  const zonesParParcelle: Record<string, string | null> = {};
+  parcels.forEach((p, i) => {
+    zonesParParcelle[p.parcel_id] = plus[i]?.zone?.zone_code ?? null;
+  });
+
+  const zones = Array.from(new Set(Object.values(zonesParParcelle)));
+  const multizone = zones.length > 1;
+
+  const assemblageInfo: AssemblageInfo = {
+    ...unit,
+    zones_par_parcelle: zonesParParcelle,
+    multizone,
+    strategie_multizone: multizone ? strategie : null,
+  };
+
+  const parcel = unitParcelRecord(parcels, unit);
+  if (surfaceOverride !== null) parcel.surface_terrain_m2 = surfaceOverride;
+
+  // 3a) Une étude par zone
+  if (multizone && strategie === "par_zone") {
+    const parZone: PromoteurParZone[] = [];
+
+    for (const zone of zones) {
+      const idx = parcels
+        .map((_, i) => i)
+        .filter((i) => zonesParParcelle[parcels[i].parcel_id] === zone);
+      const groupe = idx.map((i) => parcels[i]);
+      const sousUnite = assembleParcels(groupe.map(toAssemblageParcel));
+      const plu = mergePluResults(idx.map((i) => plus[i]));
+
+      parZone.push({
+        zone_code: zone,
+        parcel_ids: sousUnite.parcel_ids,
+        plu,
+        promoteur: await callPromoteurBilan({
+          deps,
+          parcel: unitParcelRecord(groupe, sousUnite),
+          plu,
+          parametres,
+          zonesParParcelle: Object.fromEntries(
+            groupe.map((p) => [p.parcel_id, zone]),
+          ),
+        }),
+      });
+    }
+
+    return jsonResponse({
+      ...baseResponse,
+      success: true,
+      parcel,
+      plu: null,
+      promoteur: null,
+      assemblage: assemblageInfo,
+      promoteur_par_zone: parZone,
+    });
+  }
+
+  // 3b) Une seule étude (règle la plus restrictive si plusieurs zones)
+  const plu = mergePluResults(plus);
+  const promoteur = await callPromoteurBilan({
+    deps,
+    parcel,
+    plu,
+    parametres,
+    zonesParParcelle,
+  });
+
+  return jsonResponse({
+    ...baseResponse,
+    success: true,
+    parcel,
+    plu,
+    promoteur: promoteur ?? null,
+    assemblage: assemblageInfo,
+  });
+}
@@ -0,0 +1,156 @@
+// supabase/functions/promoteur-projets-compare/index.ts
+// Version : promoteur-projets-compare-v1
+//
+// Compare deux résultats enregistrés (promoteur-projets) :
+//  - deux scénarios (dernière version de chacun)
+//  - ou deux versions d'un même scénario
+//
+// Entrée : POST {
+//   a: { scenario_id, version? },   // version absente → dernière version
+//   b: { scenario_id, version? },
+//   max_differences?: number        // défaut 200 par bloc
+// }
+// Sortie : { success, a, b, entrees{differences}, resultats{indicateurs, differences} }
+//  - écarts exprimés en b − a
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  compareVersions,
+  fetchScenarioAvecProjet,
+  fetchScenarioVersion,
+} from "../_shared/promoteur-projets.ts";
+
+// -------------------------------------------------
+// Supabase client
+// -------------------------------------------------
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+const VERSION = "promoteur-projets-compare-v1";
+
+type Cote = { scenario_id?: string; version?: number | null };
+
+// -------------------------------------------------
+// Helpers Response
+// -------------------------------------------------
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function erreur(status: number, error: string, details?: unknown): Response {
+  return jsonResponse(
+    { success: false, version: VERSION, error, details: details ?? null },
+    status,
+  );
+}
+
+// -------------------------------------------------
+// Chargement d'un côté de la comparaison
+// -------------------------------------------------
+
+async function chargerCote(cote: Cote, label: "a" | "b") {
+  if (!cote?.scenario_id) {
+    return { ok: false as const, status: 400, error: `${label}.scenario_id requis` };
+  }
+
+  const numero = cote.version != null ? Number(cote.version) : null;
+  if (numero != null && !Number.isInteger(numero)) {
+    return { ok: false as const, status: 400, error: `${label}.version doit être un entier` };
+  }
+
+  const found = await fetchScenarioAvecProjet(supabase, cote.scenario_id);
+  if (!found) {
+    return { ok: false as const, status: 404, error: `${label} : scénario introuvable` };
+  }
+
+  const version = await fetchScenarioVersion(supabase, cote.scenario_id, numero);
+  if (!version) {
+    return {
+      ok: false as const,
+      status: 404,
+      error: numero != null
+        ? `${label} : version ${numero} introuvable`
+        : `${label} : aucun résultat enregistré (calculer_scenario d'abord)`,
+    };
+  }
+
+  return {
+    ok: true as const,
+    version,
+    info: {
+      projet_id: found.projet.id,
+      projet_nom: found.projet.nom,
+      scenario_id: found.scenario.id,
+      scenario_nom: found.scenario.nom,
+      version: version.version,
+      http_status: version.http_status,
+      commentaire: version.commentaire,
+      created_at: version.created_at,
+    },
+  };
+}
+
+// -------------------------------------------------
+// Handler principal
+// -------------------------------------------------
+
+serve(async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return erreur(405, "Méthode non autorisée (POST uniquement).");
+  }
+
+  let body: { a?: Cote; b?: Cote; max_differences?: number };
+  try {
+    body = await req.json();
+  } catch {
+    return erreur(400, "JSON invalide");
+  }
+
+  try {
+    const [a, b] = await Promise.all([
+      chargerCote(body?.a ?? {}, "a"),
+      chargerCote(body?.b ?? {}, "b"),
+    ]);
+
+    if (!a.ok) return erreur(a.status, a.error);
+    if (!b.ok) return erreur(b.status, b.error);
+
+    const max = Number(body.max_differences);
+    const comparaison = compareVersions(
+      a.version,
+      b.version,
+      Number.isInteger(max) && max > 0 ? Math.min(max, 2000) : undefined,
+    );
+
+    return jsonResponse({
+      success: true,
+      version: VERSION,
+      meme_scenario: a.info.scenario_id === b.info.scenario_id,
+      a: a.info,
+      b: b.info,
+      ...comparaison,
+    });
+  } catch (err) {
+    console.error("Erreur promoteur-projets-compare:", err);
+    return erreur(
+      500,
+      "Erreur interne promoteur-projets-compare",
+      err instanceof Error ? err.message : String(err),
+    );
+  }
+});
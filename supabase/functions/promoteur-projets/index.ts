@@ -0,0 +1,405 @@
+// supabase/functions/promoteur-projets/index.ts
+// Version : promoteur-projets-v1
+//
+// Projets promoteur enregistrés : les hypothèses ne sont plus ressaisies à
+// chaque appel de promoteur-v1.
+//  - un projet garde la (les) parcelle(s), le PLU, les plu_overrides,
+//    le profil promoteur et ses overrides
+//  - un projet porte plusieurs scénarios nommés (projet, foncier, calendrier,
+//    taxes, analyse, financement propre au scénario)
+//  - chaque calcul d'un scénario ajoute une version immuable (requête + résultat)
+//
+// Entrée : POST { action, ... }
+//  - creer_projet         { nom, description?, parcel, plu, plu_overrides?, financement?, assemblage? }
+//  - modifier_projet      { projet_id, + champs à remplacer }
+//  - lister_projets       {}
+//  - lire_projet          { projet_id }  → projet + scénarios + dernière version
+//  - enregistrer_scenario { projet_id, nom, description?, hypotheses, scenario_id? }
+//  - dupliquer_scenario   { scenario_id, nom }
+//  - calculer_scenario    { scenario_id, commentaire? } → promoteur-v1 + nouvelle version
+//  - historique_scenario  { scenario_id }
+//  - lire_version         { scenario_id, version? }
+//
+// Comparaison de scénarios / versions : promoteur-projets-compare.
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { runPromoteur } from "../_shared/promoteur-engine.ts";
+import {
+  buildScenarioRequete,
+  fetchScenarioAvecProjet,
+  fetchScenarioVersion,
+  indicateursResultat,
+  type ProjetRow,
+  type ScenarioHypotheses,
+  type VersionRow,
+} from "../_shared/promoteur-projets.ts";
+
+// -------------------------------------------------
+// Supabase client
+// -------------------------------------------------
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+const VERSION = "promoteur-projets-v1";
+
+// Champs d'un projet modifiables par creer_projet / modifier_projet
+const CHAMPS_PROJET = [
+  "nom",
+  "description",
+  "parcel",
+  "plu",
+  "plu_overrides",
+  "financement",
+  "assemblage",
+] as const;
+
+// -------------------------------------------------
+// Helpers Response
+// -------------------------------------------------
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function erreur(status: number, error: string, details?: unknown): Response {
+  return jsonResponse(
+    { success: false, version: VERSION, error, details: details ?? null },
+    status,
+  );
+}
+
+function champsProjet(body: Record<string, unknown>) {
+  const out: Record<string, unknown> = {};
+  for (const champ of CHAMPS_PROJET) {
+    if (body[champ] !== undefined) out[champ] = body[champ];
+  }
+  return out;
+}
+
+// Résumé d'une version pour les listes (le résultat complet via lire_version)
+function resumeVersion(v: VersionRow) {
+  return {
+    version: v.version,
+    http_status: v.http_status,
+    commentaire: v.commentaire,
+    created_at: v.created_at,
+    indicateurs: indicateursResultat(v.resultat),
+  };
+}
+
+// -------------------------------------------------
+// Projets
+// -------------------------------------------------
+
+async function creerProjet(body: Record<string, unknown>): Promise<Response> {
+  if (!body.nom || !body.parcel || !body.plu) {
+    return erreur(400, "Champs requis : nom, parcel, plu");
+  }
+
+  const { data, error } = await supabase
+    .from("promoteur_projets")
+    .insert(champsProjet(body))
+    .select()
+    .single();
+
+  if (error) return erreur(500, "Création du projet impossible", error.message);
+
+  console.log("✅ Projet créé:", data.id);
+  return jsonResponse({ success: true, version: VERSION, projet: data }, 201);
+}
+
+async function modifierProjet(body: Record<string, unknown>): Promise<Response> {
+  if (!body.projet_id) return erreur(400, "Champ requis : projet_id");
+
+  const champs = champsProjet(body);
+  if (champs.nom === null || champs.parcel === null || champs.plu === null) {
+    return erreur(400, "nom, parcel et plu ne peuvent pas être vidés");
+  }
+
+  const { data, error } = await supabase
+    .from("promoteur_projets")
+    .update({ ...champs, updated_at: new Date().toISOString() })
+    .eq("id", body.projet_id)
+    .select()
+    .maybeSingle();
+
+  if (error) return erreur(500, "Mise à jour du projet impossible", error.message);
+  if (!data) return erreur(404, "Projet introuvable");
+
+  return jsonResponse({ success: true, version: VERSION, projet: data });
+}
+
+async function listerProjets(): Promise<Response> {
+  const { data, error } = await supabase
+    .from("promoteur_projets")
+    .select("id, nom, description, created_at, updated_at, scenarios:promoteur_scenarios(count)")
+    .order("updated_at", { ascending: false });
+
+  if (error) return erreur(500, "Lecture des projets impossible", error.message);
+
+  const projets = (data ?? []).map((p: any) => ({
+    ...p,
+    scenarios: undefined,
+    nb_scenarios: p.scenarios?.[0]?.count ?? 0,
+  }));
+
+  return jsonResponse({ success: true, version: VERSION, projets });
+}
+
+async function lireProjet(body: Record<string, unknown>): Promise<Response> {
+  if (!body.projet_id) return erreur(400, "Champ requis : projet_id");
+
+  const { data: projet, error } = await supabase
+    .from("promoteur_projets")
+    .select("*")
+    .eq("id", body.projet_id)
+    .maybeSingle();
+
+  if (error) return erreur(500, "Lecture du projet impossible", error.message);
+  if (!projet) return erreur(404, "Projet introuvable");
+
+  const { data: scenarios, error: scenariosError } = await supabase
+    .from("promoteur_scenarios")
+    .select("*")
+    .eq("projet_id", body.projet_id)
+    .order("created_at", { ascending: true });
+
+  if (scenariosError) {
+    return erreur(500, "Lecture des scénarios impossible", scenariosError.message);
+  }
+
+  const avecDerniereVersion = await Promise.all(
+    (scenarios ?? []).map(async (s: any) => {
+      const derniere = await fetchScenarioVersion(supabase, s.id);
+      return {
+        ...s,
+        derniere_version: derniere ? resumeVersion(derniere) : null,
+      };
+    }),
+  );
+
+  return jsonResponse({
+    success: true,
+    version: VERSION,
+    projet,
+    scenarios: avecDerniereVersion,
+  });
+}
+
+// -------------------------------------------------
+// Scénarios
+// -------------------------------------------------
+
+async function enregistrerScenario(
+  body: Record<string, unknown>,
+): Promise<Response> {
+  const hypotheses = (body.hypotheses ?? {}) as ScenarioHypotheses;
+
+  if (body.scenario_id) {
+    const champs: Record<string, unknown> = {
+      updated_at: new Date().toISOString(),
+    };
+    if (body.nom !== undefined) champs.nom = body.nom;
+    if (body.description !== undefined) champs.description = body.description;
+    if (body.hypotheses !== undefined) champs.hypotheses = hypotheses;
+
+    const { data, error } = await supabase
+      .from("promoteur_scenarios")
+      .update(champs)
+      .eq("id", body.scenario_id)
+      .select()
+      .maybeSingle();
+
+    if (error) return erreur(500, "Mise à jour du scénario impossible", error.message);
+    if (!data) return erreur(404, "Scénario introuvable");
+
+    return jsonResponse({ success: true, version: VERSION, scenario: data });
+  }
+
+  if (!body.projet_id || !body.nom) {
+    return erreur(400, "Champs requis : projet_id, nom (ou scenario_id)");
+  }
+
+  const { data, error } = await supabase
+    .from("promoteur_scenarios")
+    .insert({
+      projet_id: body.projet_id,
+      nom: body.nom,
+      description: body.description ?? null,
+      hypotheses,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // 23505 : nom déjà utilisé dans le projet
+    const status = error.code === "23505" ? 409 : 500;
+    return erreur(status, "Création du scénario impossible", error.message);
+  }
+
+  return jsonResponse({ success: true, version: VERSION, scenario: data }, 201);
+}
+
+async function dupliquerScenario(
+  body: Record<string, unknown>,
+): Promise<Response> {
+  if (!body.scenario_id || !body.nom) {
+    return erreur(400, "Champs requis : scenario_id, nom");
+  }
+
+  const source = await fetchScenarioAvecProjet(supabase, String(body.scenario_id));
+  if (!source) return erreur(404, "Scénario introuvable");
+
+  return await enregistrerScenario({
+    projet_id: source.scenario.projet_id,
+    nom: body.nom,
+    description: body.description ?? source.scenario.description,
+    hypotheses: source.scenario.hypotheses,
+  });
+}
+
+async function calculerScenario(
+  body: Record<string, unknown>,
+): Promise<Response> {
+  if (!body.scenario_id) return erreur(400, "Champ requis : scenario_id");
+
+  const found = await fetchScenarioAvecProjet(supabase, String(body.scenario_id));
+  if (!found) return erreur(404, "Scénario introuvable");
+
+  const requete = buildScenarioRequete(
+    found.projet as ProjetRow,
+    found.scenario.hypotheses ?? {},
+  );
+
+  console.log(
+    `ℹ️ Calcul du scénario "${found.scenario.nom}" (projet ${found.projet.id})`,
+  );
+  const result = await runPromoteur({ supabase }, requete);
+
+  // Les échecs fonctionnels (400 / 404) sont aussi historisés
+  const { data, error } = await supabase.rpc(
+    "promoteur_scenario_ajouter_version",
+    {
+      p_scenario_id: found.scenario.id,
+      p_requete: requete,
+      p_resultat: result.body,
+      p_http_status: result.status,
+      p_commentaire: body.commentaire ?? null,
+    },
+  );
+
+  if (error) return erreur(500, "Enregistrement de la version impossible", error.message);
+
+  const version = data as VersionRow;
+  console.log(`✅ Scénario ${found.scenario.id} : version ${version.version}`);
+
+  return jsonResponse(
+    {
+      success: result.status === 200,
+      version: VERSION,
+      scenario_id: found.scenario.id,
+      scenario_version: resumeVersion(version),
+      resultat: result.body,
+    },
+    result.status === 200 ? 201 : result.status,
+  );
+}
+
+async function historiqueScenario(
+  body: Record<string, unknown>,
+): Promise<Response> {
+  if (!body.scenario_id) return erreur(400, "Champ requis : scenario_id");
+
+  const { data, error } = await supabase
+    .from("promoteur_scenario_versions")
+    .select("*")
+    .eq("scenario_id", body.scenario_id)
+    .order("version", { ascending: false });
+
+  if (error) return erreur(500, "Lecture de l'historique impossible", error.message);
+
+  return jsonResponse({
+    success: true,
+    version: VERSION,
+    scenario_id: body.scenario_id,
+    versions: ((data ?? []) as VersionRow[]).map(resumeVersion),
+  });
+}
+
+async function lireVersion(body: Record<string, unknown>): Promise<Response> {
+  if (!body.scenario_id) return erreur(400, "Champ requis : scenario_id");
+
+  const numero = body.version != null ? Number(body.version) : null;
+  if (numero != null && !Number.isInteger(numero)) {
+    return erreur(400, "version doit être un entier");
+  }
+
+  const v = await fetchScenarioVersion(supabase, String(body.scenario_id), numero);
+  if (!v) return erreur(404, "Version introuvable");
+
+  return jsonResponse({ success: true, version: VERSION, scenario_version: v });
+}
+
+// -------------------------------------------------
+// Handler principal
+// -------------------------------------------------
+
+const ACTIONS: Record<
+  string,
+  (body: Record<string, unknown>) => Promise<Response>
+> = {
+  creer_projet: creerProjet,
+  modifier_projet: modifierProjet,
+  lister_projets: listerProjets,
+  lire_projet: lireProjet,
+  enregistrer_scenario: enregistrerScenario,
+  dupliquer_scenario: dupliquerScenario,
+  calculer_scenario: calculerScenario,
+  historique_scenario: historiqueScenario,
+  lire_version: lireVersion,
+};
+
+serve(async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return erreur(405, "Méthode non autorisée (POST uniquement).");
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch {
+    return erreur(400, "JSON invalide");
+  }
+
+  // Clés propres uniquement : "constructor", "toString"… ne sont pas des actions
+  const nomAction = String(body?.action ?? "");
+  const action = Object.hasOwn(ACTIONS, nomAction) ? ACTIONS[nomAction] : null;
+  if (!action) {
+    return erreur(400, "action inconnue", { actions: Object.keys(ACTIONS) });
+  }
+
+  try {
+    return await action(body);
+  } catch (err) {
+    console.error("Erreur promoteur-projets:", err);
+    return erreur(
+      500,
+      "Erreur interne promoteur-projets",
+      err instanceof Error ? err.message : String(err),
+    );
+  }
+});
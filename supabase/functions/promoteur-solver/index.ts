@@ -0,0 +1,419 @@
+// supabase/functions/promoteur-solver/index.ts
+// Version : promoteur-solver-v1
+// Objectif :
+// - Entrée : une requête promoteur-v1 complète + une inconnue (chemin dans la
+//   requête) + une cible (chemin dans la réponse, valeur visée)
+// - Étapes : balayage de l'intervalle de recherche → changement de signe →
+//   dichotomie jusqu'à la tolérance
+// - Sortie : { success, version, inconnue, cible, iterations, converge, balayage, resultat? }
+//
+// Exemples :
+//  - prix de terrain max pour 15 % de marge :
+//      inconnue.path = "foncier.valeur_terrain_saisi"
+//      cible = { path: "bilan_promoteur.marge.taux_sur_ca", valeur: 15 }
+//  - prix de vente logement pour un TRI fonds propres de 20 % :
+//      inconnue.path = "financement.overrides.ventes.logement.prix_vente_m2"
+//      cible = { path: "bilan_promoteur.tresorerie.tri_fonds_propres_pct", valeur: 20 }
+//  - SDP minimale pour 12 % de marge (plafonnée aux droits à construire) :
+//      inconnue = { path: "projet.sdp_programme_m2", min: 100, max: 5000 }
+//      cible = { path: "bilan_promoteur.marge.taux_sur_ca", valeur: 12 }, recherche = "min"
+//
+// Les lectures (PLU, profil, cadastre, bâti, DVF) sont faites une seule fois
+// et partagées entre toutes les évaluations.
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  type EngineDeps,
+  type PromoteurInput,
+  type PromoteurResult,
+  runPromoteur,
+} from "../_shared/promoteur-engine.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+// Points évalués pour repérer les changements de signe
+const NB_POINTS_BALAYAGE = 9;
+const MAX_ITERATIONS_DEFAUT = 40;
+const MAX_ITERATIONS_PLAFOND = 100;
+// Intervalle par défaut autour de la valeur de départ : [x0 / 10, x0 × 10]
+const FACTEUR_INTERVALLE_DEFAUT = 10;
+
+// -------------------------------------------------
+// Types
+// -------------------------------------------------
+
+type SolverRequest = {
+  requete: PromoteurInput;
+  inconnue: { path: string; min?: number; max?: number };
+  cible: { path: string; valeur: number };
+  // Plusieurs solutions : la plus petite (défaut) ou la plus grande valeur
+  recherche?: "min" | "max";
+  // Écart toléré sur la cible (défaut : 0,1 % de la valeur visée, au moins 0,001)
+  tolerance?: number;
+  max_iterations?: number;
+  include_resultat?: boolean;
+};
+
+type Point = { x: number; y: number | null; erreur?: string };
+
+// -------------------------------------------------
+// Helpers
+// -------------------------------------------------
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+// Segments interdits : un chemin ne doit jamais atteindre les prototypes
+const SEGMENTS_INTERDITS = new Set(["__proto__", "constructor", "prototype"]);
+
+function isPathValide(path: string): boolean {
+  return path.split(".").every((key) => key !== "" && !SEGMENTS_INTERDITS.has(key));
+}
+
+function getPath(obj: any, path: string): unknown {
+  let current = obj;
+  for (const key of path.split(".")) {
+    if (SEGMENTS_INTERDITS.has(key)) return undefined;
+    if (current === null || typeof current !== "object") return undefined;
+    if (!Object.hasOwn(current, key)) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+function setPath(obj: any, path: string, value: unknown): void {
+  const keys = path.split(".");
+  if (keys.some((key) => SEGMENTS_INTERDITS.has(key))) {
+    throw new Error(`Chemin interdit : ${path}`);
+  }
+  let current = obj;
+  for (const key of keys.slice(0, -1)) {
+    if (
+      !Object.hasOwn(current, key) || current[key] === null ||
+      typeof current[key] !== "object"
+    ) {
+      current[key] = {};
+    }
+    current = current[key];
+  }
+  current[keys[keys.length - 1]] = value;
+}
+
+function round(value: number, digits = 6): number {
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
+}
+
+// -------------------------------------------------
+// Validation
+// -------------------------------------------------
+
+function parseSolverRequest(
+  raw: any,
+): { ok: true; request: SolverRequest } | { ok: false; error: string } {
+  if (!raw?.requete || typeof raw.requete !== "object") {
+    return { ok: false, error: "Champ requis manquant : requete (entrée promoteur-v1)." };
+  }
+
+  const inconnuePath = raw.inconnue?.path;
+  if (typeof inconnuePath !== "string" || !inconnuePath.trim()) {
+    return { ok: false, error: "inconnue.path est requis (ex. foncier.valeur_terrain_saisi)." };
+  }
+
+  if (!isPathValide(inconnuePath.trim())) {
+    return { ok: false, error: "inconnue.path invalide (segments vides ou réservés interdits)." };
+  }
+
+  const ciblePath = raw.cible?.path;
+  const cibleValeur = toNumber(raw.cible?.valeur);
+  if (typeof ciblePath !== "string" || !ciblePath.trim() || cibleValeur == null) {
+    return {
+      ok: false,
+      error: "cible.path et cible.valeur (numérique) sont requis.",
+    };
+  }
+
+  if (!isPathValide(ciblePath.trim())) {
+    return { ok: false, error: "cible.path invalide (segments vides ou réservés interdits)." };
+  }
+
+  const min = toNumber(raw.inconnue?.min);
+  const max = toNumber(raw.inconnue?.max);
+  if (min != null && max != null && min >= max) {
+    return { ok: false, error: "inconnue.min doit être inférieur à inconnue.max." };
+  }
+
+  const tolerance = toNumber(raw.tolerance);
+  if (tolerance != null && tolerance <= 0) {
+    return { ok: false, error: "tolerance doit être strictement positive." };
+  }
+
+  return {
+    ok: true,
+    request: {
+      requete: raw.requete,
+      inconnue: {
+        path: inconnuePath.trim(),
+        min: min ?? undefined,
+        max: max ?? undefined,
+      },
+      cible: { path: ciblePath.trim(), valeur: cibleValeur },
+      recherche: raw.recherche === "max" ? "max" : "min",
+      tolerance: tolerance ?? undefined,
+      max_iterations: toNumber(raw.max_iterations) ?? undefined,
+      include_resultat: raw.include_resultat === true,
+    },
+  };
+}
+
+/**
+ * Intervalle de recherche : bornes fournies, sinon autour de la valeur
+ * présente dans la requête.
+ */
+function resolveBornes(
+  request: SolverRequest,
+): { ok: true; min: number; max: number } | { ok: false; error: string } {
+  const x0 = toNumber(getPath(request.requete, request.inconnue.path));
+  let { min, max } = request.inconnue;
+
+  if (min == null || max == null) {
+    if (x0 == null || x0 <= 0) {
+      return {
+        ok: false,
+        error:
+          "Impossible de déduire l'intervalle de recherche : fournissez inconnue.min et inconnue.max, ou une valeur de départ positive dans la requête.",
+      };
+    }
+    min = min ?? x0 / FACTEUR_INTERVALLE_DEFAUT;
+    max = max ?? x0 * FACTEUR_INTERVALLE_DEFAUT;
+  }
+
+  if (min >= max) {
+    return { ok: false, error: "Intervalle de recherche vide (min ≥ max)." };
+  }
+
+  return { ok: true, min, max };
+}
+
+// -------------------------------------------------
+// Résolution
+// -------------------------------------------------
+
+async function solve(request: SolverRequest, min: number, max: number) {
+  // Cache partagé : seules les étapes de calcul sont rejouées
+  const deps: EngineDeps = { supabase, cache: new Map() };
+  const cible = request.cible.valeur;
+  const tolerance = request.tolerance ??
+    Math.max(0.001, Math.abs(cible) * 0.001);
+  const maxIterations = Math.min(
+    MAX_ITERATIONS_PLAFOND,
+    Math.max(1, Math.round(request.max_iterations ?? MAX_ITERATIONS_DEFAUT)),
+  );
+
+  // L'analyse (sensibilité / Monte Carlo) n'est recalculée que si elle est visée
+  const base = structuredClone(request.requete) as PromoteurInput;
+  if (!request.cible.path.startsWith("analyse")) delete base.analyse;
+
+  let iterations = 0;
+  // Porteur mutable : affecté dans evaluate, relu après la dichotomie
+  const dernier: { current: { x: number; result: PromoteurResult } | null } = {
+    current: null,
+  };
+
+  const evaluate = async (x: number): Promise<Point> => {
+    iterations++;
+    const requete = structuredClone(base);
+    setPath(requete, request.inconnue.path, x);
+
+    const result = await runPromoteur(deps, requete);
+    if (result.status !== 200) {
+      return { x, y: null, erreur: String(result.body.error ?? result.status) };
+    }
+
+    const y = toNumber(getPath(result.body, request.cible.path));
+    if (y == null) {
+      return { x, y: null, erreur: "Chemin cible introuvable ou non numérique." };
+    }
+
+    dernier.current = { x, result };
+    return { x, y };
+  };
+
+  const ecart = (p: Point) => Math.abs((p.y as number) - cible);
+
+  // 1) Balayage
+  const balayage: Point[] = [];
+  for (let i = 0; i < NB_POINTS_BALAYAGE; i++) {
+    const x = min + ((max - min) * i) / (NB_POINTS_BALAYAGE - 1);
+    balayage.push(await evaluate(x));
+  }
+
+  const valides = balayage.filter((p) => p.y != null);
+  if (valides.length === 0) {
+    return {
+      status: 422,
+      balayage,
+      iterations,
+      solution: null,
+      converge: false,
+      resultat: null,
+      tolerance,
+      erreur: balayage[0]?.erreur ?? "Aucune évaluation exploitable.",
+    };
+  }
+
+  // 2) Intervalles encadrant la cible (premier pour "min", dernier pour "max")
+  const encadrements: [Point, Point][] = [];
+  for (let i = 1; i < valides.length; i++) {
+    const a = valides[i - 1];
+    const b = valides[i];
+    if (((a.y as number) - cible) * ((b.y as number) - cible) <= 0) {
+      encadrements.push([a, b]);
+    }
+  }
+
+  const meilleur = valides.reduce((best, p) => ecart(p) < ecart(best) ? p : best);
+
+  if (encadrements.length === 0) {
+    return {
+      status: 422,
+      balayage,
+      iterations,
+      solution: meilleur,
+      converge: false,
+      resultat: null,
+      tolerance,
+      erreur:
+        "La cible n'est pas atteinte sur l'intervalle de recherche : élargissez inconnue.min / inconnue.max.",
+    };
+  }
+
+  let [a, b] = request.recherche === "max"
+    ? encadrements[encadrements.length - 1]
+    : encadrements[0];
+
+  // 3) Dichotomie (robuste aux paliers créés par les arrondis du bilan)
+  let solution: Point = ecart(a) <= ecart(b) ? a : b;
+  while (ecart(solution) > tolerance && iterations < maxIterations) {
+    const m = await evaluate((a.x + b.x) / 2);
+    if (m.y == null) break;
+
+    if (ecart(m) <= ecart(solution)) solution = m;
+    if (((a.y as number) - cible) * ((m.y as number) - cible) <= 0) b = m;
+    else a = m;
+
+    if (Math.abs(b.x - a.x) <= Number.EPSILON * Math.max(1, Math.abs(a.x))) {
+      break;
+    }
+  }
+
+  // Résultat complet correspondant à la solution retenue
+  let resultat: PromoteurResult | null = null;
+  if (request.include_resultat) {
+    if (dernier.current && dernier.current.x === solution.x) {
+      resultat = dernier.current.result;
+    } else {
+      const requete = structuredClone(base);
+      setPath(requete, request.inconnue.path, solution.x);
+      resultat = await runPromoteur(deps, requete);
+    }
+  }
+
+  return {
+    status: 200,
+    balayage,
+    iterations,
+    solution,
+    converge: ecart(solution) <= tolerance,
+    resultat,
+    tolerance,
+    erreur: null,
+  };
+}
+
+// -------------------------------------------------
+// Handler principal HTTP
+// -------------------------------------------------
+
+serve(async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse(405, {
+        success: false,
+        error: "Méthode non autorisée (POST uniquement).",
+      });
+    }
+
+    const parsed = parseSolverRequest(await req.json());
+    if (!parsed.ok) {
+      return jsonResponse(400, { success: false, error: parsed.error });
+    }
+    const request = parsed.request;
+
+    const bornes = resolveBornes(request);
+    if (!bornes.ok) {
+      return jsonResponse(400, { success: false, error: bornes.error });
+    }
+
+    console.log(
+      `🎯 promoteur-solver : ${request.inconnue.path} ∈ [${bornes.min}, ${bornes.max}] → ${request.cible.path} = ${request.cible.valeur}`,
+    );
+
+    const r = await solve(request, bornes.min, bornes.max);
+
+    return jsonResponse(r.status, {
+      success: r.status === 200,
+      version: "promoteur-solver-v1",
+      error: r.erreur ?? undefined,
+      inconnue: {
+        path: request.inconnue.path,
+        min: bornes.min,
+        max: bornes.max,
+        valeur: r.solution ? round(r.solution.x) : null,
+      },
+      cible: {
+        path: request.cible.path,
+        valeur_visee: request.cible.valeur,
+        valeur_obtenue: r.solution?.y ?? null,
+        tolerance: r.tolerance,
+      },
+      recherche: request.recherche,
+      iterations: r.iterations,
+      converge: r.converge,
+      balayage: r.balayage.map((p) => ({
+        x: round(p.x),
+        y: p.y,
+        erreur: p.erreur,
+      })),
+      resultat: r.resultat?.body ?? undefined,
+    });
+  } catch (err) {
+    console.error("Erreur promoteur-solver:", err);
+    return jsonResponse(500, {
+      success: false,
+      error: "Erreur interne promoteur-solver",
+      details: err instanceof Error ? err.message : String(err),
+    });
+  }
+});
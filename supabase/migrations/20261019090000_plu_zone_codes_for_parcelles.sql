@@ -0,0 +1,17 @@
+-- Codes de zone PLU pour une liste de parcelles (couche carto cadastre-geojson-proxy)
+-- Un seul aller-retour au lieu d'un appel plu_get_for_parcelle par parcelle.
+
+create or replace function public.plu_zone_codes_for_parcelles(
+    p_parcelle_ids text[]
+)
+returns table (
+    parcelle_id text,
+    zone_code text
+)
+language sql
+as $$
+    select
+        p.id as parcelle_id,
+        (public.plu_get_for_parcelle(p.id)::jsonb -> 'zone' ->> 'zone_code') as zone_code
+    from unnest(p_parcelle_ids) as p(id);
+$$;
@@ -0,0 +1,244 @@
+-- Import hors-ligne des parcelles Etalab (fichiers département / commune sur disque)
+-- dans cadastre_parcelles : géométrie PostGIS + index spatial, reprise sur
+-- interruption (avancement par commune) et diff avec l'import précédent.
+-- Script associé : scripts/cadastre-import.ts
+
+create extension if not exists postgis;
+
+-- 1) Table cible (schéma existant : id, props, geom GeoJSON) + colonnes d'import
+create table if not exists public.cadastre_parcelles (
+    id text primary key,
+    props jsonb,
+    geom jsonb
+);
+
+alter table public.cadastre_parcelles
+    add column if not exists code_commune text,
+    add column if not exists surface_m2 double precision,
+    add column if not exists geom_4326 geometry(MultiPolygon, 4326),
+    add column if not exists import_id bigint,
+    add column if not exists updated_at timestamptz default now();
+
+-- Parcelles déjà présentes : code commune = 5 premiers caractères de l'IDU
+update public.cadastre_parcelles
+set code_commune = left(id, 5)
+where code_commune is null;
+
+create index if not exists idx_cadastre_parcelles_geom_4326
+    on public.cadastre_parcelles using gist (geom_4326);
+
+create index if not exists idx_cadastre_parcelles_code_commune
+    on public.cadastre_parcelles (code_commune);
+
+-- 2) Imports (un par département et par lancement)
+create table if not exists public.cadastre_imports (
+    id bigserial primary key,
+    departement text not null,
+    source_path text not null,
+    source_label text,
+    status text not null default 'running'
+        check (status in ('running', 'completed', 'partial', 'failed')),
+    previous_import_id bigint references public.cadastre_imports (id),
+    stats jsonb,
+    started_at timestamptz not null default now(),
+    finished_at timestamptz
+);
+
+-- 3) Avancement par commune (reprise : on saute les communes 'done')
+create table if not exists public.cadastre_import_communes (
+    import_id bigint not null references public.cadastre_imports (id) on delete cascade,
+    code_commune text not null,
+    status text not null default 'pending'
+        check (status in ('pending', 'running', 'done', 'failed')),
+    features_count integer,
+    staged_count integer not null default 0,
+    added integer,
+    removed integer,
+    resized integer,
+    unchanged integer,
+    error text,
+    started_at timestamptz,
+    finished_at timestamptz,
+    primary key (import_id, code_commune)
+);
+
+-- 4) Zone de transit : une commune est chargée par lots puis basculée d'un bloc
+create table if not exists public.cadastre_parcelles_staging (
+    import_id bigint not null,
+    code_commune text not null,
+    id text not null,
+    props jsonb,
+    geom jsonb,
+    primary key (import_id, id)
+);
+
+create index if not exists idx_cadastre_parcelles_staging_commune
+    on public.cadastre_parcelles_staging (import_id, code_commune);
+
+-- 5) Diff avec l'import précédent
+create table if not exists public.cadastre_import_diffs (
+    id bigserial primary key,
+    import_id bigint not null references public.cadastre_imports (id) on delete cascade,
+    code_commune text not null,
+    parcelle_id text not null,
+    change_type text not null check (change_type in ('added', 'removed', 'resized')),
+    surface_avant_m2 double precision,
+    surface_apres_m2 double precision
+);
+
+create index if not exists idx_cadastre_import_diffs_import
+    on public.cadastre_import_diffs (import_id, code_commune);
+
+-- 6) Chargement d'un lot de features Etalab dans la zone de transit
+create or replace function public.cadastre_import_stage_batch(
+    p_import_id bigint,
+    p_code_commune text,
+    p_features jsonb
+)
+returns integer
+language sql
+as $$
+    with rows as (
+        insert into public.cadastre_parcelles_staging (import_id, code_commune, id, props, geom)
+        select
+            p_import_id,
+            p_code_commune,
+            f -> 'properties' ->> 'id',
+            f -> 'properties',
+            f -> 'geometry'
+        from jsonb_array_elements(p_features) as f
+        where f -> 'properties' ->> 'id' is not null
+          and f -> 'geometry' is not null
+        on conflict (import_id, id) do update
+            set props = excluded.props,
+                geom = excluded.geom
+        returning 1
+    )
+    select count(*)::integer from rows;
+$$;
+
+-- 7) Bascule d'une commune : diff, upsert, suppression des disparues, nettoyage
+--    Une parcelle est "resized" si sa contenance change, ou (sans contenance)
+--    si l'aire de sa géométrie varie de plus de 1 %.
+create or replace function public.cadastre_import_finalize_commune(
+    p_import_id bigint,
+    p_code_commune text
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+    v_added integer;
+    v_removed integer;
+    v_resized integer;
+    v_total integer;
+begin
+    delete from public.cadastre_import_diffs
+    where import_id = p_import_id
+      and code_commune = p_code_commune;
+
+    create temporary table tmp_import_commune on commit drop as
+    select
+        s.id,
+        s.props,
+        s.geom,
+        st_multi(st_setsrid(st_geomfromgeojson(s.geom::text), 4326))::geometry(MultiPolygon, 4326) as geom_4326,
+        nullif(s.props ->> 'contenance', '')::double precision as surface_m2
+    from public.cadastre_parcelles_staging s
+    where s.import_id = p_import_id
+      and s.code_commune = p_code_commune;
+
+    get diagnostics v_total = row_count;
+
+    -- Nouvelles parcelles
+    insert into public.cadastre_import_diffs
+        (import_id, code_commune, parcelle_id, change_type, surface_avant_m2, surface_apres_m2)
+    select p_import_id, p_code_commune, t.id, 'added', null, t.surface_m2
+    from tmp_import_commune t
+    where not exists (
+        select 1 from public.cadastre_parcelles c where c.id = t.id
+    );
+    get diagnostics v_added = row_count;
+
+    -- Parcelles redimensionnées
+    insert into public.cadastre_import_diffs
+        (import_id, code_commune, parcelle_id, change_type, surface_avant_m2, surface_apres_m2)
+    select
+        p_import_id,
+        p_code_commune,
+        t.id,
+        'resized',
+        coalesce(c.surface_m2, nullif(c.props ->> 'contenance', '')::double precision),
+        t.surface_m2
+    from tmp_import_commune t
+    join public.cadastre_parcelles c on c.id = t.id
+    where (
+        t.surface_m2 is not null
+        and coalesce(c.surface_m2, nullif(c.props ->> 'contenance', '')::double precision)
+            is distinct from t.surface_m2
+    ) or (
+        t.surface_m2 is null
+        and c.geom_4326 is not null
+        and abs(st_area(c.geom_4326::geography) - st_area(t.geom_4326::geography))
+            > 0.01 * greatest(st_area(t.geom_4326::geography), 1)
+    );
+    get diagnostics v_resized = row_count;
+
+    -- Parcelles disparues
+    insert into public.cadastre_import_diffs
+        (import_id, code_commune, parcelle_id, change_type, surface_avant_m2, surface_apres_m2)
+    select
+        p_import_id,
+        p_code_commune,
+        c.id,
+        'removed',
+        coalesce(c.surface_m2, nullif(c.props ->> 'contenance', '')::double precision),
+        null
+    from public.cadastre_parcelles c
+    where c.code_commune = p_code_commune
+      and not exists (select 1 from tmp_import_commune t where t.id = c.id);
+    get diagnostics v_removed = row_count;
+
+    delete from public.cadastre_parcelles c
+    where c.code_commune = p_code_commune
+      and not exists (select 1 from tmp_import_commune t where t.id = c.id);
+
+    insert into public.cadastre_parcelles
+        (id, props, geom, code_commune, surface_m2, geom_4326, import_id, updated_at)
+    select
+        t.id, t.props, t.geom, p_code_commune, t.surface_m2, t.geom_4326, p_import_id, now()
+    from tmp_import_commune t
+    on conflict (id) do update
+        set props = excluded.props,
+            geom = excluded.geom,
+            code_commune = excluded.code_commune,
+            surface_m2 = excluded.surface_m2,
+            geom_4326 = excluded.geom_4326,
+            import_id = excluded.import_id,
+            updated_at = now();
+
+    delete from public.cadastre_parcelles_staging
+    where import_id = p_import_id
+      and code_commune = p_code_commune;
+
+    update public.cadastre_import_communes
+    set status = 'done',
+        features_count = v_total,
+        added = v_added,
+        removed = v_removed,
+        resized = v_resized,
+        unchanged = v_total - v_added - v_resized,
+        error = null,
+        finished_at = now()
+    where import_id = p_import_id
+      and code_commune = p_code_commune;
+
+    return jsonb_build_object(
+        'total', v_total,
+        'added', v_added,
+        'removed', v_removed,
+        'resized', v_resized,
+        'unchanged', v_total - v_added - v_resized
+    );
+end;
+$$;
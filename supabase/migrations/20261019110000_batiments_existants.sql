@@ -0,0 +1,96 @@
+-- Bâti existant : emprises des bâtiments (cadastre Etalab « batiments » ou BD TOPO BATIMENT)
+-- chargées localement par scripts/batiments-import.ts, puis croisées avec
+-- la géométrie d'une parcelle / d'un assemblage (promoteur-v1).
+
+create extension if not exists postgis;
+
+-- 1) Bâtiments
+create table if not exists public.cadastre_batiments (
+    id bigserial primary key,
+    source text not null check (source in ('cadastre', 'bdtopo')),
+    source_file text not null,
+    source_id text,
+    departement text,
+    code_commune text,
+    -- cadastre : "01" bâti dur / "02" bâti léger ; BD TOPO : usage principal
+    type text,
+    hauteur_m double precision,
+    nb_etages integer,
+    props jsonb,
+    geom_4326 geometry(MultiPolygon, 4326) not null,
+    imported_at timestamptz not null default now()
+);
+
+create index if not exists idx_cadastre_batiments_geom_4326
+    on public.cadastre_batiments using gist (geom_4326);
+
+create index if not exists idx_cadastre_batiments_source_file
+    on public.cadastre_batiments (source, source_file);
+
+-- 2) Chargement d'un lot de features (GeoJSON, SRID du fichier source)
+create or replace function public.batiments_import_batch(
+    p_source text,
+    p_source_file text,
+    p_departement text,
+    p_srid integer,
+    p_features jsonb
+)
+returns integer
+language sql
+as $$
+    with rows as (
+        insert into public.cadastre_batiments
+            (source, source_file, source_id, departement, code_commune, type,
+             hauteur_m, nb_etages, props, geom_4326)
+        select
+            p_source,
+            p_source_file,
+            coalesce(f -> 'properties' ->> 'id', f -> 'properties' ->> 'ID', f -> 'properties' ->> 'cleabs'),
+            p_departement,
+            coalesce(f -> 'properties' ->> 'commune', f -> 'properties' ->> 'code_insee'),
+            coalesce(f -> 'properties' ->> 'type', f -> 'properties' ->> 'USAGE_1', f -> 'properties' ->> 'usage_1'),
+            nullif(coalesce(f -> 'properties' ->> 'HAUTEUR', f -> 'properties' ->> 'hauteur'), '')::double precision,
+            nullif(coalesce(f -> 'properties' ->> 'NOMBRE_D_ETAGES', f -> 'properties' ->> 'nombre_d_etages'), '')::numeric::integer,
+            f -> 'properties',
+            st_multi(
+                st_transform(st_setsrid(st_force2d(st_geomfromgeojson((f -> 'geometry')::text)), p_srid), 4326)
+            )::geometry(MultiPolygon, 4326)
+        from jsonb_array_elements(p_features) as f
+        where f -> 'geometry' is not null
+          and f -> 'geometry' ->> 'type' in ('Polygon', 'MultiPolygon')
+        returning 1
+    )
+    select count(*)::integer from rows;
+$$;
+
+-- 3) Bâtiments intersectant une géométrie (parcelle ou assemblage, GeoJSON WGS84)
+create or replace function public.batiments_existants_for_geometry(
+    p_geometry jsonb
+)
+returns table (
+    batiment_id bigint,
+    source text,
+    type text,
+    hauteur_m double precision,
+    nb_etages integer,
+    surface_bati_m2 double precision,
+    surface_intersection_m2 double precision
+)
+language sql
+stable
+as $$
+    with g as (
+        select st_setsrid(st_geomfromgeojson(p_geometry::text), 4326) as geom
+    )
+    select
+        b.id,
+        b.source,
+        b.type,
+        b.hauteur_m,
+        b.nb_etages,
+        st_area(b.geom_4326::geography),
+        st_area(st_intersection(b.geom_4326, g.geom)::geography)
+    from public.cadastre_batiments b, g
+    where b.geom_4326 && g.geom
+      and st_intersects(b.geom_4326, g.geom);
+$$;
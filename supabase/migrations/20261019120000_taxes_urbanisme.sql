@@ -0,0 +1,46 @@
+-- Taxes d'urbanisme : valeurs forfaitaires nationales indexées chaque année
+-- et taux votés par commune (éventuellement par secteur), lus par
+-- _shared/taxes-urbanisme.ts (promoteur-v1).
+
+-- 1) Valeurs forfaitaires de la taxe d'aménagement (arrêté annuel)
+create table if not exists public.taxe_amenagement_valeurs (
+    annee integer primary key,
+    valeur_m2 numeric not null,
+    valeur_m2_idf numeric not null,
+    valeur_place numeric not null default 2000,
+    -- Redevance d'archéologie préventive, en % de l'assiette
+    taux_rap_pct numeric not null default 0.4,
+    source text
+);
+
+insert into public.taxe_amenagement_valeurs
+    (annee, valeur_m2, valeur_m2_idf, valeur_place, taux_rap_pct, source)
+values
+    (2022, 820, 929, 2000, 0.4, 'arrêté du 28 décembre 2021'),
+    (2023, 886, 1004, 2000, 0.4, 'arrêté du 27 décembre 2022'),
+    (2024, 892, 1011, 2000, 0.4, 'arrêté du 22 décembre 2023'),
+    (2025, 914, 1036, 2000, 0.4, 'arrêté du 19 décembre 2024')
+on conflict (annee) do nothing;
+
+-- 2) Taux par commune / année (secteur null = taux communal général)
+create table if not exists public.taxes_urbanisme_communes (
+    id bigserial primary key,
+    commune_insee text not null,
+    annee integer not null,
+    -- Secteur à taux majoré : code de zone PLU concerné
+    secteur text,
+    taux_communal_pct numeric not null check (taux_communal_pct between 0 and 20),
+    taux_departemental_pct numeric not null default 2.5
+        check (taux_departemental_pct between 0 and 2.5),
+    taux_regional_pct numeric not null default 0
+        check (taux_regional_pct between 0 and 1),
+    -- Valeur par place extérieure votée par la commune (2 000 à 5 000 €)
+    valeur_place numeric,
+    -- [{ libelle, base: m2_sdp|logement|place|forfait|pct_ca, montant }]
+    participations jsonb not null default '[]'::jsonb,
+    source text,
+    updated_at timestamptz not null default now()
+);
+
+create unique index if not exists uq_taxes_urbanisme_communes
+    on public.taxes_urbanisme_communes (commune_insee, annee, coalesce(secteur, ''));
@@ -0,0 +1,11 @@
+-- Indice BT01 (tous corps d'état, base 100 en 2010), série mensuelle INSEE.
+-- Sert à indexer les coûts de construction de référence
+-- (_shared/couts-construction.ts, date de base 2025-01) à la date de valeur.
+-- Chargement : un enregistrement par mois publié, mois = premier jour du mois.
+
+create table if not exists public.indice_bt01 (
+    mois date primary key check (extract(day from mois) = 1),
+    valeur numeric not null check (valeur > 0),
+    source text not null default 'insee',
+    imported_at timestamptz not null default now()
+);
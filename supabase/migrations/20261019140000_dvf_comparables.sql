@@ -0,0 +1,166 @@
+-- DVF géolocalisées (Etalab, une ligne par mutation × parcelle × local)
+-- chargées par scripts/dvf-import.ts, et recherche de ventes de terrains
+-- comparables autour d'un point (_shared/dvf.ts : promoteur-v1,
+-- division-parcellaire-v1).
+
+create extension if not exists postgis;
+
+-- 1) Lignes DVF
+create table if not exists public.dvf_mutations (
+    id bigserial primary key,
+    source_file text not null,
+    id_mutation text not null,
+    date_mutation date not null,
+    nature_mutation text,
+    valeur_fonciere numeric,
+    code_commune text,
+    code_departement text,
+    id_parcelle text,
+    nombre_lots integer,
+    type_local text,
+    surface_reelle_bati double precision,
+    code_nature_culture text,
+    surface_terrain double precision,
+    geom_4326 geometry(Point, 4326)
+);
+
+create index if not exists idx_dvf_mutations_geog
+    on public.dvf_mutations using gist ((geom_4326::geography));
+
+create index if not exists idx_dvf_mutations_id_mutation
+    on public.dvf_mutations (id_mutation);
+
+create index if not exists idx_dvf_mutations_source_file
+    on public.dvf_mutations (source_file);
+
+-- 2) Chargement d'un lot de lignes CSV (objets clé → valeur)
+create or replace function public.dvf_import_batch(
+    p_source_file text,
+    p_rows jsonb
+)
+returns integer
+language sql
+as $$
+    with rows as (
+        insert into public.dvf_mutations
+            (source_file, id_mutation, date_mutation, nature_mutation,
+             valeur_fonciere, code_commune, code_departement, id_parcelle,
+             nombre_lots, type_local, surface_reelle_bati, code_nature_culture,
+             surface_terrain, geom_4326)
+        select
+            p_source_file,
+            r ->> 'id_mutation',
+            (r ->> 'date_mutation')::date,
+            r ->> 'nature_mutation',
+            nullif(r ->> 'valeur_fonciere', '')::numeric,
+            r ->> 'code_commune',
+            r ->> 'code_departement',
+            nullif(r ->> 'id_parcelle', ''),
+            nullif(r ->> 'nombre_lots', '')::integer,
+            nullif(r ->> 'type_local', ''),
+            nullif(r ->> 'surface_reelle_bati', '')::double precision,
+            nullif(r ->> 'code_nature_culture', ''),
+            nullif(r ->> 'surface_terrain', '')::double precision,
+            case
+                when nullif(r ->> 'longitude', '') is not null
+                 and nullif(r ->> 'latitude', '') is not null
+                then st_setsrid(
+                    st_makepoint((r ->> 'longitude')::double precision, (r ->> 'latitude')::double precision),
+                    4326
+                )
+            end
+        from jsonb_array_elements(p_rows) as r
+        where nullif(r ->> 'id_mutation', '') is not null
+          and nullif(r ->> 'date_mutation', '') is not null
+        returning 1
+    )
+    select count(*)::integer from rows;
+$$;
+
+-- 3) Ventes de terrains non bâtis dans un rayon, sur une fenêtre de dates
+--    et une fourchette de surface (une ligne par mutation)
+create or replace function public.dvf_terrains_comparables(
+    p_lon double precision,
+    p_lat double precision,
+    p_rayon_m double precision,
+    p_date_min date,
+    p_surface_min double precision,
+    p_surface_max double precision,
+    p_limit integer default 200
+)
+returns table (
+    id_mutation text,
+    date_mutation date,
+    nature_mutation text,
+    valeur_fonciere numeric,
+    surface_terrain_m2 double precision,
+    terrain_a_batir boolean,
+    id_parcelles text[],
+    code_commune text,
+    distance_m double precision
+)
+language sql
+stable
+as $$
+    with centre as (
+        select st_setsrid(st_makepoint(p_lon, p_lat), 4326)::geography as g
+    ),
+    ids as (
+        select distinct d.id_mutation
+        from public.dvf_mutations d, centre c
+        where st_dwithin(d.geom_4326::geography, c.g, p_rayon_m)
+          and d.date_mutation >= p_date_min
+    ),
+    -- Toutes les lignes des mutations retenues (y compris parcelles hors rayon)
+    lignes as (
+        select d.*
+        from public.dvf_mutations d
+        join ids using (id_mutation)
+    ),
+    mutations as (
+        select
+            l.id_mutation,
+            min(l.date_mutation) as date_mutation,
+            min(l.nature_mutation) as nature_mutation,
+            max(l.valeur_fonciere) as valeur_fonciere,
+            bool_or(
+                l.type_local is not null
+                or coalesce(l.surface_reelle_bati, 0) > 0
+                or coalesce(l.nombre_lots, 0) > 0
+            ) as bati,
+            bool_or(l.code_nature_culture = 'AB') as terrain_a_batir,
+            array_agg(distinct l.id_parcelle) filter (where l.id_parcelle is not null) as id_parcelles,
+            min(l.code_commune) as code_commune,
+            st_centroid(st_collect(l.geom_4326)) as geom
+        from lignes l
+        group by l.id_mutation
+    ),
+    -- Surface de terrain : une fois par parcelle et nature de culture
+    surfaces as (
+        select s.id_mutation, sum(s.surface_terrain) as surface_terrain_m2
+        from (
+            select distinct l.id_mutation, l.id_parcelle, l.code_nature_culture, l.surface_terrain
+            from lignes l
+        ) s
+        group by s.id_mutation
+    )
+    select
+        m.id_mutation,
+        m.date_mutation,
+        m.nature_mutation,
+        m.valeur_fonciere,
+        s.surface_terrain_m2,
+        m.terrain_a_batir,
+        m.id_parcelles,
+        m.code_commune,
+        st_distance(m.geom::geography, c.g) as distance_m
+    from mutations m
+    join surfaces s using (id_mutation)
+    cross join centre c
+    where not m.bati
+      and m.nature_mutation in ('Vente', 'Vente terrain à bâtir', 'Adjudication')
+      and m.valeur_fonciere > 0
+      and s.surface_terrain_m2 between p_surface_min and p_surface_max
+    order by distance_m
+    limit p_limit;
+$$;
@@ -0,0 +1,114 @@
+-- Projets promoteur enregistrés (promoteur-projets, promoteur-projets-compare) :
+-- parcelle(s), PLU, profil + overrides au niveau du projet, scénarios nommés
+-- portant les hypothèses, et historique immuable des résultats par scénario.
+
+create extension if not exists pgcrypto;
+
+-- 1) Projets
+create table if not exists public.promoteur_projets (
+    id uuid primary key default gen_random_uuid(),
+    nom text not null,
+    description text,
+    -- Entrées promoteur-v1 communes à tous les scénarios
+    parcel jsonb not null,
+    plu jsonb not null,
+    plu_overrides jsonb,
+    financement jsonb,
+    assemblage jsonb,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+-- 2) Scénarios nommés d'un projet (hypothèses modifiables)
+create table if not exists public.promoteur_scenarios (
+    id uuid primary key default gen_random_uuid(),
+    projet_id uuid not null references public.promoteur_projets (id) on delete cascade,
+    nom text not null,
+    description text,
+    -- projet, foncier, calendrier, taxes, analyse, financement (prioritaire sur le projet)
+    hypotheses jsonb not null default '{}'::jsonb,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    unique (projet_id, nom)
+);
+
+create index if not exists idx_promoteur_scenarios_projet
+    on public.promoteur_scenarios (projet_id);
+
+-- 3) Historique des résultats : une version par calcul, jamais modifiée
+create table if not exists public.promoteur_scenario_versions (
+    id uuid primary key default gen_random_uuid(),
+    scenario_id uuid not null references public.promoteur_scenarios (id) on delete cascade,
+    version integer not null check (version >= 1),
+    -- Requête promoteur-v1 complète (projet + scénario) au moment du calcul
+    requete jsonb not null,
+    resultat jsonb not null,
+    http_status integer not null,
+    commentaire text,
+    created_at timestamptz not null default now(),
+    unique (scenario_id, version)
+);
+
+-- 4) Immuabilité : pas de mise à jour ; suppression seulement avec le scénario
+create or replace function public.promoteur_scenario_versions_immuable()
+returns trigger
+language plpgsql
+as $$
+begin
+    if tg_op = 'UPDATE' then
+        raise exception 'promoteur_scenario_versions est en ajout seul (version % du scénario %)',
+            old.version, old.scenario_id;
+    end if;
+
+    -- Suppression en cascade : le scénario parent n'existe déjà plus
+    if exists (select 1 from public.promoteur_scenarios s where s.id = old.scenario_id) then
+        raise exception 'Impossible de supprimer la version % du scénario % : historique immuable',
+            old.version, old.scenario_id;
+    end if;
+
+    return old;
+end;
+$$;
+
+drop trigger if exists trg_promoteur_scenario_versions_immuable
+    on public.promoteur_scenario_versions;
+
+create trigger trg_promoteur_scenario_versions_immuable
+    before update or delete on public.promoteur_scenario_versions
+    for each row execute function public.promoteur_scenario_versions_immuable();
+
+-- 5) Ajout d'une version (numéro suivant, sans collision entre appels concurrents)
+create or replace function public.promoteur_scenario_ajouter_version(
+    p_scenario_id uuid,
+    p_requete jsonb,
+    p_resultat jsonb,
+    p_http_status integer,
+    p_commentaire text default null
+)
+returns public.promoteur_scenario_versions
+language plpgsql
+as $$
+declare
+    v_row public.promoteur_scenario_versions;
+begin
+    perform 1 from public.promoteur_scenarios where id = p_scenario_id for update;
+    if not found then
+        raise exception 'Scénario % introuvable', p_scenario_id;
+    end if;
+
+    insert into public.promoteur_scenario_versions
+        (scenario_id, version, requete, resultat, http_status, commentaire)
+    select
+        p_scenario_id,
+        coalesce(max(v.version), 0) + 1,
+        p_requete,
+        p_resultat,
+        p_http_status,
+        p_commentaire
+    from public.promoteur_scenario_versions v
+    where v.scenario_id = p_scenario_id
+    returning * into v_row;
+
+    return v_row;
+end;
+$$;
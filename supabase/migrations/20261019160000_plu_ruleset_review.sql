@@ -0,0 +1,131 @@
+-- Relecture des rulesets PLU (plu-ruleset-review) :
+-- statut draft → in_review → approved (→ superseded quand un autre ruleset de la
+-- même commune / zone est approuvé), extraction machine conservée, corrections
+-- du relecteur stockées en diff, commentaires par champ.
+-- Consommateurs : plu-from-address / plu-get-rules-for-zone (require_approved),
+-- promoteur-v1 (plu.approuve_uniquement).
+
+-- 1) Statut de relecture sur les trois tables de rulesets
+do $$
+declare
+    t text;
+begin
+    foreach t in array array['plu_rulesets', 'plu_rulesets_universal', 'plu_ruleset_normalized']
+    loop
+        if to_regclass('public.' || t) is null then
+            continue;
+        end if;
+
+        execute format(
+            'alter table public.%I
+                add column if not exists review_status text not null default ''draft'',
+                -- Ruleset tel que produit par l''extraction (avant corrections)
+                add column if not exists machine_ruleset jsonb,
+                -- Corrections du relecteur : [{ chemin, a (machine), b (relu) }]
+                add column if not exists review_diff jsonb,
+                add column if not exists submitted_at timestamptz,
+                add column if not exists reviewed_by text,
+                add column if not exists reviewed_at timestamptz',
+            t
+        );
+
+        execute format(
+            'alter table public.%I drop constraint if exists %I',
+            t, t || '_review_status_check'
+        );
+        execute format(
+            'alter table public.%I add constraint %I
+                check (review_status in (''draft'', ''in_review'', ''approved'', ''superseded''))',
+            t, t || '_review_status_check'
+        );
+
+        execute format(
+            'create index if not exists %I on public.%I (commune_insee, zone_code, review_status)',
+            'idx_' || t || '_review', t
+        );
+    end loop;
+end;
+$$;
+
+-- 2) Commentaires de relecture (par champ, chemin pointé ; null = commentaire général)
+create table if not exists public.plu_ruleset_review_comments (
+    id uuid primary key default gen_random_uuid(),
+    ruleset_table text not null
+        check (ruleset_table in ('plu_rulesets', 'plu_rulesets_universal', 'plu_ruleset_normalized')),
+    ruleset_id text not null,
+    chemin text,
+    auteur text,
+    commentaire text not null,
+    resolu boolean not null default false,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists idx_plu_ruleset_review_comments_ruleset
+    on public.plu_ruleset_review_comments (ruleset_table, ruleset_id);
+
+-- 3) Approbation : le ruleset approuvé remplace l'approuvé précédent de la zone
+--    (plu_ruleset_normalized : il devient aussi la seule ligne active)
+create or replace function public.plu_ruleset_approuver(
+    p_table text,
+    p_id text,
+    p_reviewer text default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+    v_commune text;
+    v_zone text;
+    v_status text;
+    v_superseded integer;
+begin
+    if p_table not in ('plu_rulesets', 'plu_rulesets_universal', 'plu_ruleset_normalized') then
+        raise exception 'Table de rulesets inconnue : %', p_table;
+    end if;
+
+    execute format(
+        'select commune_insee, zone_code, review_status from public.%I where id::text = $1 for update',
+        p_table
+    )
+    into v_commune, v_zone, v_status
+    using p_id;
+
+    if v_status is null then
+        raise exception 'Ruleset % introuvable dans %', p_id, p_table;
+    end if;
+    if v_status <> 'in_review' then
+        raise exception 'Ruleset % au statut % : seul un ruleset in_review peut être approuvé',
+            p_id, v_status;
+    end if;
+
+    execute format(
+        'update public.%I
+            set review_status = ''superseded''
+          where commune_insee = $1 and zone_code = $2
+            and review_status = ''approved'' and id::text <> $3',
+        p_table
+    )
+    using v_commune, v_zone, p_id;
+    get diagnostics v_superseded = row_count;
+
+    if p_table = 'plu_ruleset_normalized' then
+        update public.plu_ruleset_normalized
+           set is_active = (id::text = p_id)
+         where commune_insee = v_commune and zone_code = v_zone;
+    end if;
+
+    execute format(
+        'update public.%I
+            set review_status = ''approved'', reviewed_by = $2, reviewed_at = now()
+          where id::text = $1',
+        p_table
+    )
+    using p_id, p_reviewer;
+
+    return jsonb_build_object(
+        'commune_insee', v_commune,
+        'zone_code', v_zone,
+        'superseded', v_superseded
+    );
+end;
+$$;
@@ -0,0 +1,34 @@
+-- Découpage des règlements PLU sans moteur externe (plu-ingest-from-storage,
+-- scripts/plu-ingest-pdf.ts) : PDF du bucket plu_raw → pages → zones /
+-- articles / sous-sections → plu_text_chunks.
+
+-- 1) Table des chunks (déjà présente en production : colonnes historiques)
+create table if not exists public.plu_text_chunks (
+    id bigserial primary key,
+    source_id text not null,
+    page_number integer,
+    section_label text,
+    raw_text text not null,
+    zone_code text
+);
+
+-- 2) Colonnes du découpage structuré
+alter table public.plu_text_chunks
+    add column if not exists commune_insee text,
+    -- Fichier d'origine dans le bucket plu_raw (ex : 64065/2025-…-PLU-Ascain.pdf)
+    add column if not exists storage_path text,
+    -- Article du règlement (ex : "UG.6") et sous-section (ex : "6.1")
+    add column if not exists article_code text,
+    add column if not exists sous_section text,
+    -- Page de fin quand le chunk est à cheval sur plusieurs pages
+    add column if not exists page_fin integer,
+    -- Ordre du chunk dans le document
+    add column if not exists ordre integer,
+    add column if not exists created_at timestamptz not null default now();
+
+-- 3) Index : lecture par source + zone (plu-universal-parser, plu-extract-ruleset)
+create index if not exists idx_plu_text_chunks_source_zone
+    on public.plu_text_chunks (source_id, zone_code);
+
+create index if not exists idx_plu_text_chunks_commune
+    on public.plu_text_chunks (commune_insee);
@@ -0,0 +1,153 @@
+-- Zonages des documents d'urbanisme au standard CNIG (Géoportail de l'urbanisme) :
+-- couches zone_urba (PLU / PLUi / POS) et secteur_cc (cartes communales)
+-- chargées par scripts/plu-zonage-import.ts, puis croisées avec un point ou
+-- une géométrie de parcelle (plu-zonage-lookup, plu-from-parcelle).
+
+create extension if not exists postgis;
+
+-- 1) Zones
+create table if not exists public.plu_zonage (
+    id bigserial primary key,
+    couche text not null check (couche in ('zone_urba', 'secteur_cc')),
+    source_file text not null,
+    -- Document d'urbanisme : IDURBA (ex : 64065_PLU_20170523) et partition GPU (ex : DU_64065)
+    idurba text,
+    partition text,
+    insee text,
+    -- Code de zone (LIBELLE) et libellé long
+    zone_code text not null,
+    libelong text,
+    -- zone_urba : U / AUc / AUs / A / N ; secteur_cc : 01 / 02 / 03 / 99 (TYPESECT)
+    typezone text,
+    destdomi text,
+    datappro date,
+    datvalid date,
+    nomfic text,
+    urlfic text,
+    props jsonb,
+    geom_4326 geometry(MultiPolygon, 4326) not null,
+    imported_at timestamptz not null default now()
+);
+
+create index if not exists idx_plu_zonage_geom_4326
+    on public.plu_zonage using gist (geom_4326);
+
+create index if not exists idx_plu_zonage_source_file
+    on public.plu_zonage (couche, source_file);
+
+create index if not exists idx_plu_zonage_partition
+    on public.plu_zonage (partition);
+
+-- 2) Chargement d'un lot de zones normalisées (GeoJSON, SRID du fichier source)
+--    p_zones : [{ idurba, partition, insee, zone_code, libelong, typezone, destdomi,
+--                 datappro, datvalid, nomfic, urlfic, props, geometry }]
+create or replace function public.plu_zonage_import_batch(
+    p_couche text,
+    p_source_file text,
+    p_srid integer,
+    p_zones jsonb
+)
+returns integer
+language sql
+as $$
+    with rows as (
+        insert into public.plu_zonage
+            (couche, source_file, idurba, partition, insee, zone_code, libelong,
+             typezone, destdomi, datappro, datvalid, nomfic, urlfic, props, geom_4326)
+        select
+            p_couche,
+            p_source_file,
+            z ->> 'idurba',
+            z ->> 'partition',
+            z ->> 'insee',
+            z ->> 'zone_code',
+            z ->> 'libelong',
+            z ->> 'typezone',
+            z ->> 'destdomi',
+            nullif(z ->> 'datappro', '')::date,
+            nullif(z ->> 'datvalid', '')::date,
+            z ->> 'nomfic',
+            z ->> 'urlfic',
+            z -> 'props',
+            st_multi(
+                st_collectionextract(
+                    st_makevalid(
+                        st_transform(st_setsrid(st_force2d(st_geomfromgeojson((z -> 'geometry')::text)), p_srid), 4326)
+                    ),
+                    3
+                )
+            )::geometry(MultiPolygon, 4326)
+        from jsonb_array_elements(p_zones) as z
+        where z -> 'geometry' is not null
+          and z -> 'geometry' ->> 'type' in ('Polygon', 'MultiPolygon')
+          and coalesce(z ->> 'zone_code', '') <> ''
+        returning 1
+    )
+    select count(*)::integer from rows;
+$$;
+
+-- 3) Zones intersectant un point ou une géométrie (GeoJSON WGS84)
+--    part_surface : part de la surface de la géométrie dans la zone (1 pour un point)
+create or replace function public.plu_zonage_for_geometry(
+    p_geometry jsonb,
+    p_couches text[] default null
+)
+returns table (
+    zonage_id bigint,
+    couche text,
+    zone_code text,
+    libelong text,
+    typezone text,
+    destdomi text,
+    idurba text,
+    partition text,
+    insee text,
+    datappro date,
+    datvalid date,
+    nomfic text,
+    urlfic text,
+    surface_intersection_m2 double precision,
+    part_surface double precision
+)
+language sql
+stable
+as $$
+    with g as (
+        select st_setsrid(st_force2d(st_geomfromgeojson(p_geometry::text)), 4326) as geom
+    ),
+    ga as (
+        select
+            geom,
+            case when st_dimension(geom) = 2 then st_area(geom::geography) else 0 end as aire
+        from g
+    )
+    select
+        z.id,
+        z.couche,
+        z.zone_code,
+        z.libelong,
+        z.typezone,
+        z.destdomi,
+        z.idurba,
+        z.partition,
+        z.insee,
+        z.datappro,
+        z.datvalid,
+        z.nomfic,
+        z.urlfic,
+        i.surface_m2,
+        case when ga.aire > 0 then least(1, i.surface_m2 / ga.aire) else 1 end
+    from public.plu_zonage z
+    cross join ga
+    cross join lateral (
+        select
+            case when ga.aire > 0
+                then st_area(st_intersection(z.geom_4326, ga.geom)::geography)
+                else 0
+            end as surface_m2
+    ) i
+    where z.geom_4326 && ga.geom
+      and st_intersects(z.geom_4326, ga.geom)
+      and (p_couches is null or z.couche = any (p_couches))
+    order by 15 desc, z.datappro desc nulls last;
+$$;
@@ -0,0 +1,146 @@
+-- Relecture des rulesets PLU : une ré-extraction ne touche plus au ruleset approuvé.
+-- plu_rulesets / plu_rulesets_universal acceptent plusieurs lignes par commune / zone :
+-- au plus un brouillon ouvert (draft / in_review) et au plus un approuvé, les
+-- anciens approuvés passant à superseded (plu_ruleset_approuver).
+-- Les extracteurs (plu-universal-parser, plu-ingest-rulesets) écrivent via
+-- plu_ruleset_enregistrer_extraction.
+
+-- 1) Clé unique (commune_insee, zone_code) remplacée par des index uniques partiels
+do $$
+declare
+    t text;
+    c record;
+begin
+    foreach t in array array['plu_rulesets', 'plu_rulesets_universal']
+    loop
+        if to_regclass('public.' || t) is null then
+            continue;
+        end if;
+
+        -- Contraintes uniques portant exactement sur (commune_insee, zone_code)
+        for c in
+            select con.conname
+              from pg_constraint con
+             where con.conrelid = ('public.' || t)::regclass
+               and con.contype = 'u'
+               and (
+                   select array_agg(att.attname::text order by att.attname)
+                     from pg_attribute att
+                    where att.attrelid = con.conrelid
+                      and att.attnum = any (con.conkey)
+               ) = array['commune_insee', 'zone_code']
+        loop
+            execute format('alter table public.%I drop constraint %I', t, c.conname);
+        end loop;
+
+        -- Index uniques (hors contraintes) sur les mêmes colonnes
+        for c in
+            select ic.relname as conname
+              from pg_index ix
+              join pg_class ic on ic.oid = ix.indexrelid
+             where ix.indrelid = ('public.' || t)::regclass
+               and ix.indisunique
+               and not ix.indisprimary
+               and ix.indpred is null
+               and (
+                   select array_agg(att.attname::text order by att.attname)
+                     from pg_attribute att
+                    where att.attrelid = ix.indrelid
+                      and att.attnum = any (ix.indkey::smallint[])
+               ) = array['commune_insee', 'zone_code']
+        loop
+            execute format('drop index if exists public.%I', c.conname);
+        end loop;
+
+        execute format(
+            'create unique index if not exists %I on public.%I (commune_insee, zone_code)
+                where review_status in (''draft'', ''in_review'')',
+            'ux_' || t || '_zone_ouvert', t
+        );
+        execute format(
+            'create unique index if not exists %I on public.%I (commune_insee, zone_code)
+                where review_status = ''approved''',
+            'ux_' || t || '_zone_approuve', t
+        );
+    end loop;
+end;
+$$;
+
+-- 2) Enregistrement d'une extraction : met à jour le brouillon ouvert de la zone
+--    (remis en draft) ou crée un nouveau brouillon ; l'approuvé reste en place.
+--    p_rows : lignes de la table (colonnes → valeurs), commune_insee et zone_code requis
+create or replace function public.plu_ruleset_enregistrer_extraction(
+    p_table text,
+    p_rows jsonb
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+    v_row jsonb;
+    v_cols text;
+    v_id text;
+    v_result jsonb;
+    v_out jsonb := '[]'::jsonb;
+begin
+    if p_table not in ('plu_rulesets', 'plu_rulesets_universal') then
+        raise exception 'Table de rulesets non gérée : %', p_table;
+    end if;
+
+    for v_row in select value from jsonb_array_elements(p_rows)
+    loop
+        if coalesce(v_row ->> 'commune_insee', '') = '' or coalesce(v_row ->> 'zone_code', '') = '' then
+            raise exception 'commune_insee et zone_code sont requis';
+        end if;
+
+        -- Statut de relecture imposé : brouillon sans corrections
+        v_row := (v_row - 'id') || jsonb_build_object(
+            'review_status', 'draft',
+            'machine_ruleset', null,
+            'review_diff', null,
+            'submitted_at', null,
+            'reviewed_by', null,
+            'reviewed_at', null
+        );
+
+        select string_agg(quote_ident(k), ', ')
+          into v_cols
+          from jsonb_object_keys(v_row) as k;
+
+        execute format(
+            'select id::text from public.%I
+              where commune_insee = $1 and zone_code = $2
+                and review_status in (''draft'', ''in_review'')
+              for update',
+            p_table
+        )
+        into v_id
+        using v_row ->> 'commune_insee', v_row ->> 'zone_code';
+
+        if v_id is null then
+            execute format(
+                'insert into public.%1$I (%2$s)
+                 select %2$s from jsonb_populate_record(null::public.%1$I, $1)
+                 returning to_jsonb(%1$I.*)',
+                p_table, v_cols
+            )
+            into v_result
+            using v_row;
+        else
+            execute format(
+                'update public.%1$I
+                    set (%2$s) = (select %2$s from jsonb_populate_record(null::public.%1$I, $1))
+                  where id::text = $2
+                 returning to_jsonb(%1$I.*)',
+                p_table, v_cols
+            )
+            into v_result
+            using v_row, v_id;
+        end if;
+
+        v_out := v_out || jsonb_build_array(v_result);
+    end loop;
+
+    return v_out;
+end;
+$$;
@@ -0,0 +1,9 @@
+-- Remplacement des chunks d'une source sans fenêtre vide (savePluChunks) :
+-- les nouveaux chunks sont insérés sous un identifiant d'import, puis les
+-- chunks des imports précédents de la même source sont supprimés.
+
+alter table public.plu_text_chunks
+    add column if not exists import_id uuid;
+
+create index if not exists idx_plu_text_chunks_source_import
+    on public.plu_text_chunks (source_id, import_id);
@@ -0,0 +1,11 @@
+-- Redevance d'archéologie préventive : taux porté de 0,40 % à 0,68 % de
+-- l'assiette pour les autorisations délivrées à partir du 1er janvier 2024
+-- (loi de finances pour 2024). Les années antérieures restent à 0,40 %.
+
+update public.taxe_amenagement_valeurs
+   set taux_rap_pct = 0.68
+ where annee >= 2024
+   and taux_rap_pct = 0.4;
+
+alter table public.taxe_amenagement_valeurs
+    alter column taux_rap_pct set default 0.68;